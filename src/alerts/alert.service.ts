@@ -0,0 +1,59 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import axios from 'axios';
+
+export type AlertSeverity = 'warning' | 'critical';
+
+export interface Alert {
+  severity: AlertSeverity;
+  // Short machine-readable kind, e.g. risk_limit_breached
+  kind: string;
+  message: string;
+  details?: Record<string, unknown>;
+}
+
+/**
+ * Raises operational alerts: always logged, and posted as JSON to ALERT_WEBHOOK_URL when it is set.
+ * Alerts accompany decisions that were already taken, so a delivery failure is logged and never thrown.
+ */
+@Injectable()
+export class AlertService {
+  private readonly logger = new Logger(AlertService.name);
+  private readonly webhookUrl?: string;
+  private readonly timeoutMs: number;
+
+  constructor(private readonly config: ConfigService) {
+    this.webhookUrl = this.config.get<string>('ALERT_WEBHOOK_URL') || undefined;
+    this.timeoutMs = Number(
+      this.config.get<string>('ALERT_WEBHOOK_TIMEOUT_MS') ?? 5000,
+    );
+  }
+
+  /**
+   * Raise an alert
+   * @param alert - What happened and how severe it is
+   */
+  async raise(alert: Alert): Promise<void> {
+    const line = `[${alert.kind}] ${alert.message}`;
+    if (alert.severity === 'critical') {
+      this.logger.error(line);
+    } else {
+      this.logger.warn(line);
+    }
+    if (!this.webhookUrl) {
+      return;
+    }
+
+    try {
+      await axios.post(
+        this.webhookUrl,
+        { ...alert, raisedAt: new Date().toISOString() },
+        { timeout: this.timeoutMs },
+      );
+    } catch (error) {
+      this.logger.error(
+        `Failed to deliver ${alert.kind} alert to the webhook: ${error instanceof Error ? error.message : error}`,
+      );
+    }
+  }
+}
@@ -0,0 +1,83 @@
+import { Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import {
+  AlpacaOrder,
+  AlpacaService,
+  UnsettledOrderError,
+} from './alpaca.service';
+
+describe('AlpacaService', () => {
+  let alpaca: AlpacaService;
+  let getOrder: jest.SpyInstance;
+  let cancelOrder: jest.SpyInstance;
+  let placeOrder: jest.SpyInstance;
+
+  beforeAll(() => {
+    Logger.overrideLogger(false);
+  });
+
+  beforeEach(() => {
+    alpaca = new AlpacaService(
+      new ConfigService({
+        ALPACA_FILL_TIMEOUT_MS: '0',
+        ALPACA_FILL_POLL_INTERVAL_MS: '0',
+      }),
+    );
+    getOrder = jest.spyOn(alpaca, 'getOrder');
+    cancelOrder = jest
+      .spyOn(alpaca, 'cancelOrder')
+      .mockResolvedValue(undefined);
+    placeOrder = jest
+      .spyOn(alpaca, 'placeOrder')
+      .mockResolvedValue({ id: 'offset-1', status: 'new' });
+  });
+
+  afterEach(() => jest.restoreAllMocks());
+
+  function order(status: string, filledQty: string | null): AlpacaOrder {
+    return { id: 'order-1', status, filled_qty: filledQty };
+  }
+
+  describe('unwindOrder', () => {
+    it('offsets what a final order filled without cancelling it', async () => {
+      getOrder.mockResolvedValue(order('filled', '2'));
+
+      await expect(
+        alpaca.unwindOrder('AAPL', 'order-1', 'buy'),
+      ).resolves.toEqual({ alpacaOrderId: 'offset-1' });
+      expect(cancelOrder).not.toHaveBeenCalled();
+      expect(placeOrder).toHaveBeenCalledWith('AAPL', '2', 'sell');
+    });
+
+    it('offsets fills that landed after an open order was cancelled', async () => {
+      getOrder
+        .mockResolvedValueOnce(order('partially_filled', '1'))
+        .mockResolvedValue(order('canceled', '1.5'));
+
+      await alpaca.unwindOrder('AAPL', 'order-1', 'sell');
+
+      expect(cancelOrder).toHaveBeenCalledWith('order-1');
+      expect(placeOrder).toHaveBeenCalledWith('AAPL', '1.5', 'buy');
+    });
+
+    it('places nothing when nothing filled', async () => {
+      getOrder
+        .mockResolvedValueOnce(order('new', '0'))
+        .mockResolvedValue(order('canceled', '0'));
+
+      await expect(
+        alpaca.unwindOrder('AAPL', 'order-1', 'buy'),
+      ).resolves.toEqual({});
+      expect(placeOrder).not.toHaveBeenCalled();
+    });
+
+    it('refuses to unwind an order still open after the cancel, as it may fill further', async () => {
+      getOrder.mockResolvedValue(order('partially_filled', '1'));
+
+      await expect(
+        alpaca.unwindOrder('AAPL', 'order-1', 'buy'),
+      ).rejects.toBeInstanceOf(UnsettledOrderError);
+      expect(placeOrder).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -1,18 +1,79 @@
-import { Injectable } from '@nestjs/common';
+import { Injectable, Logger } from '@nestjs/common';
 import { ConfigService } from '@nestjs/config';
 import axios from 'axios';
 import { AlpacaOrderRequest } from '../shared/models/alpaca-order.dto';
+import { isPositiveAmount } from '../shared/utils/amounts';
+
+// Statuses after which an order's filled quantity no longer changes
+export const FINAL_ORDER_STATUSES = ['filled', 'canceled', 'expired', 'rejected', 'done_for_day'];
+
+/**
+ * Thrown when an order did not reach a final status, even after it was cancelled.
+ * It may still fill, so whatever depends on its quantity has to wait for an operator.
+ */
+export class UnsettledOrderError extends Error {
+    constructor(readonly alpacaOrderId: string, message: string) {
+        super(message);
+        this.name = 'UnsettledOrderError';
+    }
+}
+
+/**
+ * Thrown when Alpaca refuses an order outright (a 4xx response), so it was certainly not placed
+ */
+export class OrderRejectedError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = 'OrderRejectedError';
+    }
+}
+
+// The broker's market clock; times are ISO 8601 with the exchange's offset
+export interface AlpacaClock {
+    timestamp: string;
+    is_open: boolean;
+    next_open: string;
+    next_close: string;
+}
+
+// Fields of a broker order the backend reads; quantities and prices are decimal strings
+export interface AlpacaOrder {
+    id: string;
+    status: string;
+    filled_qty?: string | null;
+    filled_avg_price?: string | null;
+}
+
+// What Alpaca answered to a failed request, or why the request itself failed
+function describeFailure(error: unknown): { status?: number; details: unknown; message: string } {
+    const message = error instanceof Error ? error.message : String(error);
+    // axios attaches the response to errors of requests Alpaca answered
+    const { response } = (error ?? {}) as { response?: { status?: number; data?: { message?: string } } };
+    if (!response) {
+        return { details: message, message };
+    }
+    return {
+        status: response.status,
+        details: response.data ?? message,
+        message: response.data?.message || message,
+    };
+}
 
 @Injectable()
 export class AlpacaService {
+    private readonly logger = new Logger(AlpacaService.name);
     private apiKeyId: string;
     private apiSecretKey: string;
     private accountId: string;
+    private fillTimeoutMs: number;
+    private fillPollIntervalMs: number;
 
     constructor(private configService: ConfigService) {
         this.apiKeyId = this.configService.get<string>('APCA_API_KEY_ID') || '';
         this.apiSecretKey = this.configService.get<string>('APCA_API_SECRET_KEY') || '';
         this.accountId = this.configService.get<string>('APCA_ACCOUNT_ID') || '';
+        this.fillTimeoutMs = Number(this.configService.get<string>('ALPACA_FILL_TIMEOUT_MS') ?? 60000);
+        this.fillPollIntervalMs = Number(this.configService.get<string>('ALPACA_FILL_POLL_INTERVAL_MS') ?? 2000);
     }
 
     async getLatestQuotes(symbols: string): Promise<any> {
@@ -35,20 +96,28 @@ export class AlpacaService {
         }
     }
 
-    async placeOrder(symbol: string, qty: string, side: 'buy' | 'sell'): Promise<any> {
+    /**
+     * Place a day order; a market order unless a limit price is given
+     * @param symbol - The symbol to trade
+     * @param qty - The quantity, as a decimal string
+     * @param side - buy or sell
+     * @param limitPrice - Worst price to fill at, as a decimal string
+     */
+    async placeOrder(symbol: string, qty: string, side: 'buy' | 'sell', limitPrice?: string): Promise<AlpacaOrder> {
         try {
             const credentials = Buffer.from(`${this.apiKeyId}:${this.apiSecretKey}`).toString('base64');
             
             const orderRequest = {
-                type: 'market',
+                type: limitPrice ? 'limit' : 'market',
                 time_in_force: 'day',
                 commission_type: 'notional',
                 symbol,
                 qty,
-                side
+                side,
+                ...(limitPrice ? { limit_price: limitPrice } : {})
             };
 
-            const response = await axios.post(
+            const response = await axios.post<AlpacaOrder>(
                 `https://broker-api.sandbox.alpaca.markets/v1/trading/accounts/${this.accountId}/orders`,
                 orderRequest,
                 {
@@ -61,9 +130,141 @@ export class AlpacaService {
             );
             return response.data;
         } catch (error) {
-            console.error('Alpaca order error:', error.response?.data || error.message);
-            throw new Error(`Failed to place order: ${error.response?.data?.message || error.message}`);
+            const failure = describeFailure(error);
+            this.logger.error('Alpaca order error:', failure.details);
+            const message = `Failed to place order: ${failure.message}`;
+            if (failure.status !== undefined && failure.status >= 400 && failure.status < 500) {
+                throw new OrderRejectedError(message);
+            }
+            throw new Error(message);
+        }
+    }
+
+    /**
+     * Read the market clock: whether the market is open, and when it next opens and closes
+     */
+    async getClock(): Promise<AlpacaClock> {
+        try {
+            const credentials = Buffer.from(`${this.apiKeyId}:${this.apiSecretKey}`).toString('base64');
+            const response = await axios.get<AlpacaClock>(
+                'https://broker-api.sandbox.alpaca.markets/v1/clock',
+                {
+                    headers: {
+                        accept: 'application/json',
+                        authorization: `Basic ${credentials}`
+                    },
+                },
+            );
+            return response.data;
+        } catch (error) {
+            const failure = describeFailure(error);
+            this.logger.error('Alpaca clock error:', failure.details);
+            throw new Error(`Failed to get the market clock: ${failure.message}`);
+        }
+    }
+
+    async getOrder(orderId: string): Promise<AlpacaOrder> {
+        try {
+            const credentials = Buffer.from(`${this.apiKeyId}:${this.apiSecretKey}`).toString('base64');
+            const response = await axios.get<AlpacaOrder>(
+                `https://broker-api.sandbox.alpaca.markets/v1/trading/accounts/${this.accountId}/orders/${orderId}`,
+                {
+                    headers: {
+                        accept: 'application/json',
+                        authorization: `Basic ${credentials}`
+                    },
+                },
+            );
+            return response.data;
+        } catch (error) {
+            const failure = describeFailure(error);
+            this.logger.error('Alpaca order lookup error:', failure.details);
+            throw new Error(`Failed to get order: ${failure.message}`);
+        }
+    }
+
+    async cancelOrder(orderId: string): Promise<void> {
+        try {
+            const credentials = Buffer.from(`${this.apiKeyId}:${this.apiSecretKey}`).toString('base64');
+            await axios.delete(
+                `https://broker-api.sandbox.alpaca.markets/v1/trading/accounts/${this.accountId}/orders/${orderId}`,
+                {
+                    headers: {
+                        accept: 'application/json',
+                        authorization: `Basic ${credentials}`
+                    },
+                },
+            );
+        } catch (error) {
+            const failure = describeFailure(error);
+            this.logger.error('Alpaca order cancel error:', failure.details);
+            throw new Error(`Failed to cancel order: ${failure.message}`);
+        }
+    }
+
+    /**
+     * Poll an order until it reaches a final status or ALPACA_FILL_TIMEOUT_MS passes
+     * @param orderId - The Alpaca order id
+     * @returns The order as last read; its status is not final if the wait timed out
+     */
+    async waitForFinalStatus(orderId: string): Promise<AlpacaOrder> {
+        const deadline = Date.now() + this.fillTimeoutMs;
+        for (;;) {
+            const order = await this.getOrder(orderId);
+            if (FINAL_ORDER_STATUSES.includes(order.status) || Date.now() >= deadline) {
+                return order;
+            }
+            await new Promise(resolve => setTimeout(resolve, this.fillPollIntervalMs));
+        }
+    }
+
+    /**
+     * Wait for an order to reach a final status; an order still open after ALPACA_FILL_TIMEOUT_MS is cancelled,
+     * keeping what filled so far
+     * @param orderId - The Alpaca order id
+     * @returns The order in its final status
+     * @throws UnsettledOrderError if the order is still open after being cancelled
+     */
+    async settleOrder(orderId: string): Promise<AlpacaOrder> {
+        let order = await this.waitForFinalStatus(orderId);
+        if (FINAL_ORDER_STATUSES.includes(order.status)) {
+            return order;
+        }
+        await this.cancelOrder(orderId);
+        order = await this.waitForFinalStatus(orderId);
+        if (!FINAL_ORDER_STATUSES.includes(order.status)) {
+            throw new UnsettledOrderError(orderId, `Alpaca order ${orderId} is still ${order.status} after being cancelled`);
+        }
+        return order;
+    }
+
+    /**
+     * Undo an order: cancel what has not filled yet, wait for the cancel to take effect, then trade the filled
+     * quantity back
+     * @param symbol - The symbol the order traded
+     * @param orderId - The Alpaca order id
+     * @param side - The side the order traded
+     * @returns The offsetting Alpaca order, if anything had filled
+     * @throws UnsettledOrderError if the order is still open after being cancelled, so it may fill further
+     */
+    async unwindOrder(symbol: string, orderId: string, side: 'buy' | 'sell'): Promise<{ alpacaOrderId?: string }> {
+        let order = await this.getOrder(orderId);
+        if (!FINAL_ORDER_STATUSES.includes(order.status)) {
+            await this.cancelOrder(orderId);
+            // The cancel is asynchronous: the order may fill further until it takes effect
+            order = await this.waitForFinalStatus(orderId);
+            if (!FINAL_ORDER_STATUSES.includes(order.status)) {
+                throw new UnsettledOrderError(orderId, `Alpaca order ${orderId} is still ${order.status} after being cancelled`);
+            }
+        }
+
+        const filledQty = order.filled_qty;
+        if (!filledQty || !isPositiveAmount(filledQty)) {
+            return {};
         }
+        const offset = await this.placeOrder(symbol, filledQty, side === 'buy' ? 'sell' : 'buy');
+        this.logger.log(`Alpaca order ${orderId} unwound with order ${offset.id} for ${filledQty}`);
+        return { alpacaOrderId: offset.id };
     }
 
     async isOrderFilled(orderId: string): Promise<boolean> {
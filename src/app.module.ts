@@ -9,6 +9,10 @@ import { ScheduleModule } from '@nestjs/schedule';
 import { ApiKeyMiddleware } from './shared/middleware/api-key.middleware';
 import { AlpacaModule } from './alpaca/alpaca.module';
 import { UserModule } from './user/user.module';
+import { EventsModule } from './events/events.module';
+import { WithdrawalsModule } from './withdrawals/withdrawals.module';
+import { AssetsModule } from './assets/assets.module';
+import { TransactionsModule } from './transactions/transactions.module';
 
 @Module({
   imports: [
@@ -16,8 +20,7 @@ import { UserModule } from './user/user.module';
       isGlobal: true,
       validate: (config) => {
         if (
-          !config.RPC_HTTP || 
-          !config.RPC_WSS || 
+          (!config.DEPLOYMENTS && !config.RPC_HTTP) || 
           !config.SUPABASE_KEY || 
           !config.APCA_API_KEY_ID || 
           !config.APCA_API_SECRET_KEY
@@ -28,7 +31,7 @@ import { UserModule } from './user/user.module';
       }
     }),
     ScheduleModule.forRoot(),
-    OrdersModule, SupabaseModule, Web3Module, ReservesModule, AlpacaModule, UserModule],
+    OrdersModule, SupabaseModule, Web3Module, ReservesModule, AlpacaModule, UserModule, EventsModule, WithdrawalsModule, AssetsModule, TransactionsModule],
   controllers: [AppController]
 })
 
@@ -0,0 +1,419 @@
+import {
+  BadRequestException,
+  ConflictException,
+  Injectable,
+  Logger,
+  NotFoundException,
+} from '@nestjs/common';
+import { ethers } from 'ethers';
+import { SupabaseService } from '../supabase/supabase.service';
+import { DeploymentRegistry } from '../web3/providers/deployment.registry';
+import { ERC3643_ABI } from '../shared/abi/ERC3643.abi';
+import { AssetResponse } from '../shared/models/asset-response.model';
+
+// Row shape of the assets table, unique on (chain_id, ticker) and on (chain_id, token_address)
+export interface Asset {
+  id: string;
+  chain_id: number;
+  // Ticker emitted in order events and used for reserves
+  ticker: string;
+  token_address: string;
+  // Instrument the asset is hedged with at the broker
+  broker_symbol: string;
+  // ADFS price feed of the asset, if it has one
+  feed_id: string | null;
+  decimals: number;
+  // Largest accepted deviation of an order's price from the broker quote; null for the PRICE_DEVIATION_TOLERANCE_BPS default
+  max_price_deviation_bps: number | null;
+  // Largest reserve, in tokens, buys may take the asset to; null for no ceiling. Read as text to keep its precision.
+  max_exposure: string | null;
+  // Disabled assets take no new orders; orders already running still complete or roll back
+  enabled: boolean;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface NewAsset {
+  chainId: number;
+  ticker: string;
+  tokenAddress: string;
+  brokerSymbol: string;
+  feedId?: string;
+  decimals?: number;
+  maxPriceDeviationBps?: number | null;
+  maxExposure?: string | null;
+  enabled?: boolean;
+}
+
+export type AssetChanges = Partial<Omit<NewAsset, 'chainId'>>;
+
+export interface AssetFilter {
+  chainId?: number;
+  enabled?: boolean;
+}
+
+const ASSET_COLUMNS =
+  'id, chain_id, ticker, token_address, broker_symbol, feed_id, decimals, max_price_deviation_bps, max_exposure::text, enabled, created_at, updated_at';
+
+// Postgres unique_violation, returned when the ticker or token is already registered on the chain
+const UNIQUE_VIOLATION = '23505';
+
+@Injectable()
+export class AssetRegistryService {
+  private readonly logger = new Logger(AssetRegistryService.name);
+
+  constructor(
+    private readonly supabaseService: SupabaseService,
+    private readonly deploymentRegistry: DeploymentRegistry,
+  ) {}
+
+  /**
+   * Resolve the asset an order trades and check that its token belongs to its ticker
+   * @param chainId - The chain the order runs on
+   * @param ticker - The ticker of the order
+   * @param tokenAddress - The ERC3643 token of the order
+   * @throws BadRequestException if the ticker is unknown or disabled, or the token is not the ticker's
+   */
+  async resolve(
+    chainId: number,
+    ticker: string,
+    tokenAddress: string,
+  ): Promise<Asset> {
+    const { data, error } = await this.supabaseService
+      .getClient()
+      .from('assets')
+      .select(ASSET_COLUMNS)
+      .eq('chain_id', chainId)
+      .eq('ticker', ticker)
+      .maybeSingle<Asset>();
+
+    if (error) {
+      this.logger.error(
+        `Error resolving asset ${ticker} on chain ${chainId}:`,
+        error,
+      );
+      throw error;
+    }
+    if (!data) {
+      throw new BadRequestException(
+        `Asset ${ticker} is not registered on chain ${chainId}`,
+      );
+    }
+    if (!data.enabled) {
+      throw new BadRequestException(
+        `Asset ${ticker} is disabled on chain ${chainId}`,
+      );
+    }
+    if (data.token_address !== tokenAddress.toLowerCase()) {
+      throw new BadRequestException(
+        `Token ${tokenAddress} does not belong to ${ticker} on chain ${chainId}; expected ${data.token_address}`,
+      );
+    }
+
+    return data;
+  }
+
+  /**
+   * Look up the asset of a ticker, whether enabled or not
+   * @param chainId - The chain the asset is registered on
+   * @param ticker - The ticker of the asset
+   * @throws BadRequestException if the ticker is not registered
+   */
+  async getByTicker(chainId: number, ticker: string): Promise<Asset> {
+    const { data, error } = await this.supabaseService
+      .getClient()
+      .from('assets')
+      .select(ASSET_COLUMNS)
+      .eq('chain_id', chainId)
+      .eq('ticker', ticker)
+      .maybeSingle<Asset>();
+
+    if (error) {
+      this.logger.error(
+        `Error looking up asset ${ticker} on chain ${chainId}:`,
+        error,
+      );
+      throw error;
+    }
+    if (!data) {
+      throw new BadRequestException(
+        `Asset ${ticker} is not registered on chain ${chainId}`,
+      );
+    }
+
+    return data;
+  }
+
+  /**
+   * Look up the asset of a token, whether enabled or not
+   * @param chainId - The chain the token is deployed on
+   * @param tokenAddress - The ERC3643 token contract address
+   * @throws BadRequestException if the token is not registered
+   */
+  async getByToken(chainId: number, tokenAddress: string): Promise<Asset> {
+    const { data, error } = await this.supabaseService
+      .getClient()
+      .from('assets')
+      .select(ASSET_COLUMNS)
+      .eq('chain_id', chainId)
+      .eq('token_address', tokenAddress.toLowerCase())
+      .maybeSingle<Asset>();
+
+    if (error) {
+      this.logger.error(
+        `Error looking up token ${tokenAddress} on chain ${chainId}:`,
+        error,
+      );
+      throw error;
+    }
+    if (!data) {
+      throw new BadRequestException(
+        `Token ${tokenAddress} is not a registered asset on chain ${chainId}`,
+      );
+    }
+
+    return data;
+  }
+
+  /**
+   * Get a registered asset
+   * @param id - The asset id
+   * @throws NotFoundException if the asset does not exist
+   */
+  async getAsset(id: string): Promise<Asset> {
+    const { data, error } = await this.supabaseService
+      .getClient()
+      .from('assets')
+      .select(ASSET_COLUMNS)
+      .eq('id', id)
+      .maybeSingle<Asset>();
+
+    if (error) {
+      this.logger.error(`Error getting asset ${id}:`, error);
+      throw error;
+    }
+    if (!data) {
+      throw new NotFoundException(`Asset ${id} not found`);
+    }
+
+    return data;
+  }
+
+  /**
+   * List registered assets by chain and ticker
+   * @param filter - Optional chain and enabled filters
+   */
+  async findAssets(filter: AssetFilter): Promise<Asset[]> {
+    let query = this.supabaseService
+      .getClient()
+      .from('assets')
+      .select(ASSET_COLUMNS);
+
+    if (filter.chainId !== undefined) {
+      query = query.eq('chain_id', filter.chainId);
+    }
+    if (filter.enabled !== undefined) {
+      query = query.eq('enabled', filter.enabled);
+    }
+
+    const { data, error } = await query
+      .order('chain_id', { ascending: true })
+      .order('ticker', { ascending: true })
+      .returns<Asset[]>();
+
+    if (error) {
+      this.logger.error('Error listing assets:', error);
+      throw error;
+    }
+
+    return data ?? [];
+  }
+
+  /**
+   * Register an asset. Its decimals are read from the token contract, and must match when given.
+   * @param asset - The asset to register
+   * @throws BadRequestException if the chain is not configured or the decimals do not match the token
+   * @throws ConflictException if the ticker or token is already registered on the chain
+   */
+  async createAsset(asset: NewAsset): Promise<Asset> {
+    const decimals = await this.verifyDecimals(
+      asset.chainId,
+      asset.tokenAddress,
+      asset.decimals,
+    );
+    const now = new Date().toISOString();
+    const { data, error } = await this.supabaseService
+      .getClient()
+      .from('assets')
+      .insert({
+        chain_id: asset.chainId,
+        ticker: asset.ticker,
+        token_address: asset.tokenAddress.toLowerCase(),
+        broker_symbol: asset.brokerSymbol,
+        feed_id: asset.feedId ?? null,
+        decimals,
+        max_price_deviation_bps: asset.maxPriceDeviationBps ?? null,
+        max_exposure: asset.maxExposure ?? null,
+        enabled: asset.enabled ?? true,
+        created_at: now,
+        updated_at: now,
+      })
+      .select(ASSET_COLUMNS)
+      .single<Asset>();
+
+    if (error) {
+      if (error.code === UNIQUE_VIOLATION) {
+        throw new ConflictException(
+          `${asset.ticker} or token ${asset.tokenAddress} is already registered on chain ${asset.chainId}`,
+        );
+      }
+      this.logger.error(`Error registering asset ${asset.ticker}:`, error);
+      throw error;
+    }
+
+    this.logger.log(
+      `Registered ${data.ticker} on chain ${data.chain_id}: token ${data.token_address}, hedged as ${data.broker_symbol}`,
+    );
+    return data;
+  }
+
+  /**
+   * Change a registered asset. A new token address has its decimals read from the contract again.
+   * @param id - The asset id
+   * @param changes - The fields to change
+   * @throws NotFoundException if the asset does not exist
+   * @throws ConflictException if the new ticker or token is already registered on the chain
+   */
+  async updateAsset(id: string, changes: AssetChanges): Promise<Asset> {
+    const current = await this.getAsset(id);
+    const update: Partial<Asset> = {};
+    if (changes.ticker !== undefined) {
+      update.ticker = changes.ticker;
+    }
+    if (changes.tokenAddress !== undefined || changes.decimals !== undefined) {
+      const tokenAddress = changes.tokenAddress ?? current.token_address;
+      update.token_address = tokenAddress.toLowerCase();
+      update.decimals = await this.verifyDecimals(
+        current.chain_id,
+        tokenAddress,
+        changes.decimals,
+      );
+    }
+    if (changes.brokerSymbol !== undefined) {
+      update.broker_symbol = changes.brokerSymbol;
+    }
+    if (changes.feedId !== undefined) {
+      update.feed_id = changes.feedId;
+    }
+    if (changes.maxPriceDeviationBps !== undefined) {
+      update.max_price_deviation_bps = changes.maxPriceDeviationBps;
+    }
+    if (changes.maxExposure !== undefined) {
+      update.max_exposure = changes.maxExposure;
+    }
+    if (changes.enabled !== undefined) {
+      update.enabled = changes.enabled;
+    }
+
+    const { data, error } = await this.supabaseService
+      .getClient()
+      .from('assets')
+      .update({ ...update, updated_at: new Date().toISOString() })
+      .eq('id', id)
+      .select(ASSET_COLUMNS)
+      .single<Asset>();
+
+    if (error) {
+      if (error.code === UNIQUE_VIOLATION) {
+        throw new ConflictException(
+          `The ticker or token is already registered on chain ${current.chain_id}`,
+        );
+      }
+      this.logger.error(`Error updating asset ${id}:`, error);
+      throw error;
+    }
+
+    this.logger.log(
+      `Updated ${data.ticker} on chain ${data.chain_id}: ${JSON.stringify(update)}`,
+    );
+    return data;
+  }
+
+  /**
+   * Remove an asset from the registry. Orders for it are rejected from then on.
+   * @param id - The asset id
+   * @throws NotFoundException if the asset does not exist
+   */
+  async deleteAsset(id: string): Promise<Asset> {
+    const asset = await this.getAsset(id);
+    const { error } = await this.supabaseService
+      .getClient()
+      .from('assets')
+      .delete()
+      .eq('id', id);
+
+    if (error) {
+      this.logger.error(`Error deleting asset ${id}:`, error);
+      throw error;
+    }
+
+    this.logger.log(`Removed ${asset.ticker} on chain ${asset.chain_id}`);
+    return asset;
+  }
+
+  /**
+   * Read a token's decimals from its contract
+   * @param chainId - The chain the token is deployed on
+   * @param tokenAddress - The ERC3643 token contract address
+   * @param expected - Decimals given by the caller, if any
+   * @throws BadRequestException if the address is not a token on the chain, or its decimals differ from the expected ones
+   */
+  private async verifyDecimals(
+    chainId: number,
+    tokenAddress: string,
+    expected?: number,
+  ): Promise<number> {
+    if (!ethers.isAddress(tokenAddress)) {
+      throw new BadRequestException('Invalid token address');
+    }
+    const { httpProvider } = this.deploymentRegistry.getDeployment(chainId);
+    const token = new ethers.Contract(tokenAddress, ERC3643_ABI, httpProvider);
+
+    let decimals: number;
+    try {
+      decimals = Number(await token.decimals());
+    } catch (error) {
+      throw new BadRequestException(
+        `Could not read the decimals of ${tokenAddress} on chain ${chainId}: ${error instanceof Error ? error.message : error}`,
+      );
+    }
+    if (expected !== undefined && expected !== decimals) {
+      throw new BadRequestException(
+        `Token ${tokenAddress} has ${decimals} decimals, not ${expected}`,
+      );
+    }
+    return decimals;
+  }
+}
+
+/**
+ * Map an assets row to its API representation
+ * @param asset - The asset row
+ * @returns The camel-cased API response
+ */
+export function toAssetResponse(asset: Asset): AssetResponse {
+  return {
+    id: asset.id,
+    chainId: asset.chain_id,
+    ticker: asset.ticker,
+    tokenAddress: asset.token_address,
+    brokerSymbol: asset.broker_symbol,
+    feedId: asset.feed_id,
+    decimals: asset.decimals,
+    maxPriceDeviationBps: asset.max_price_deviation_bps,
+    maxExposure: asset.max_exposure,
+    enabled: asset.enabled,
+    createdAt: asset.created_at,
+    updatedAt: asset.updated_at,
+  };
+}
@@ -0,0 +1,183 @@
+import {
+  Body,
+  Controller,
+  Delete,
+  Get,
+  HttpCode,
+  HttpStatus,
+  Param,
+  ParseUUIDPipe,
+  Patch,
+  Post,
+  Query,
+} from '@nestjs/common';
+import {
+  ApiOperation,
+  ApiParam,
+  ApiResponse,
+  ApiSecurity,
+  ApiTags,
+} from '@nestjs/swagger';
+import {
+  AssetRegistryService,
+  toAssetResponse,
+} from './asset-registry.service';
+import { AssetResponse } from '../shared/models/asset-response.model';
+import { AssetQueryDto } from '../shared/models/asset-query.dto';
+import { CreateAssetDto } from '../shared/models/create-asset.dto';
+import { UpdateAssetDto } from '../shared/models/update-asset.dto';
+
+@ApiTags('assets')
+@ApiSecurity('api-key')
+@Controller('assets')
+export class AssetsController {
+  constructor(private readonly assetRegistryService: AssetRegistryService) {}
+
+  /**
+   * List registered assets
+   * @param query - Optional chain and enabled filters
+   * @returns Promise with matching assets
+   */
+  @Get()
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({
+    summary: 'List assets',
+    description:
+      'Lists the asset registry: the ticker, token contract, broker symbol and price feed of every tradable asset, by chain.',
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Assets retrieved successfully',
+    type: [AssetResponse],
+  })
+  @ApiResponse({
+    status: 401,
+    description: 'Unauthorized - Invalid or missing API key',
+  })
+  async listAssets(@Query() query: AssetQueryDto): Promise<AssetResponse[]> {
+    const assets = await this.assetRegistryService.findAssets(query);
+    return assets.map(toAssetResponse);
+  }
+
+  /**
+   * Get a registered asset
+   * @param id - The asset id
+   * @returns Promise with the asset
+   */
+  @Get(':id')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({ summary: 'Get asset' })
+  @ApiParam({ name: 'id', type: String })
+  @ApiResponse({
+    status: 200,
+    description: 'Asset retrieved successfully',
+    type: AssetResponse,
+  })
+  @ApiResponse({
+    status: 404,
+    description: 'Asset not found',
+  })
+  async getAsset(
+    @Param('id', ParseUUIDPipe) id: string,
+  ): Promise<AssetResponse> {
+    return toAssetResponse(await this.assetRegistryService.getAsset(id));
+  }
+
+  /**
+   * Register an asset
+   * @param createRequest - The asset to register
+   * @returns Promise with the registered asset
+   */
+  @Post()
+  @HttpCode(HttpStatus.CREATED)
+  @ApiOperation({
+    summary: 'Register asset',
+    description:
+      'Makes an asset tradable on a chain. Order events are only executed when their ticker and token match a registered, enabled asset.',
+  })
+  @ApiResponse({
+    status: 201,
+    description: 'Asset registered',
+    type: AssetResponse,
+  })
+  @ApiResponse({
+    status: 400,
+    description:
+      'Invalid asset, unknown chain, or decimals not matching the token contract',
+  })
+  @ApiResponse({
+    status: 409,
+    description: 'The ticker or token is already registered on the chain',
+  })
+  async createAsset(
+    @Body() createRequest: CreateAssetDto,
+  ): Promise<AssetResponse> {
+    return toAssetResponse(
+      await this.assetRegistryService.createAsset(createRequest),
+    );
+  }
+
+  /**
+   * Change a registered asset
+   * @param id - The asset id
+   * @param updateRequest - The fields to change
+   * @returns Promise with the updated asset
+   */
+  @Patch(':id')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({
+    summary: 'Update asset',
+    description:
+      'Changes an asset, e.g. disables it to stop new orders. Orders already running are not affected.',
+  })
+  @ApiParam({ name: 'id', type: String })
+  @ApiResponse({
+    status: 200,
+    description: 'Asset updated',
+    type: AssetResponse,
+  })
+  @ApiResponse({
+    status: 404,
+    description: 'Asset not found',
+  })
+  @ApiResponse({
+    status: 409,
+    description: 'The ticker or token is already registered on the chain',
+  })
+  async updateAsset(
+    @Param('id', ParseUUIDPipe) id: string,
+    @Body() updateRequest: UpdateAssetDto,
+  ): Promise<AssetResponse> {
+    return toAssetResponse(
+      await this.assetRegistryService.updateAsset(id, updateRequest),
+    );
+  }
+
+  /**
+   * Remove an asset from the registry
+   * @param id - The asset id
+   * @returns Promise with the removed asset
+   */
+  @Delete(':id')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({
+    summary: 'Remove asset',
+    description:
+      'Removes an asset from the registry. Its tokens can no longer be minted or burned, including by compensations, so prefer disabling it.',
+  })
+  @ApiParam({ name: 'id', type: String })
+  @ApiResponse({
+    status: 200,
+    description: 'Asset removed',
+    type: AssetResponse,
+  })
+  @ApiResponse({
+    status: 404,
+    description: 'Asset not found',
+  })
+  async deleteAsset(
+    @Param('id', ParseUUIDPipe) id: string,
+  ): Promise<AssetResponse> {
+    return toAssetResponse(await this.assetRegistryService.deleteAsset(id));
+  }
+}
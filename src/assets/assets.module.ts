@@ -0,0 +1,13 @@
+import { Module } from '@nestjs/common';
+import { SupabaseModule } from '../supabase/supabase.module';
+import { ProviderFactory } from '../web3/providers/provider.factory';
+import { AssetRegistryService } from './asset-registry.service';
+import { AssetsController } from './assets.controller';
+
+@Module({
+  imports: [SupabaseModule, ProviderFactory],
+  providers: [AssetRegistryService],
+  controllers: [AssetsController],
+  exports: [AssetRegistryService],
+})
+export class AssetsModule {}
@@ -0,0 +1,105 @@
+import { NestFactory } from '@nestjs/core';
+import { Logger } from '@nestjs/common';
+import { parseArgs } from 'node:util';
+import { AppModule } from '../app.module';
+import {
+  BackfillProgress,
+  BackfillService,
+} from '../web3/services/backfill.service';
+import { DeploymentRegistry } from '../web3/providers/deployment.registry';
+
+const USAGE = `Usage:
+  npm run backfill -- --from <block> --to <block> [--chain-id <chainId>] [--mode process|list] [--chunk-size <blocks>]
+  npm run backfill -- --resume <jobId>`;
+
+/**
+ * Backfill order contract events from the command line.
+ * The live event listener is disabled for this process; the scan runs in the foreground and reports its progress.
+ */
+async function backfill() {
+  const logger = new Logger('Backfill');
+  const { values } = parseArgs({
+    options: {
+      from: { type: 'string' },
+      to: { type: 'string' },
+      mode: { type: 'string', default: 'process' },
+      'chunk-size': { type: 'string' },
+      'chain-id': { type: 'string' },
+      resume: { type: 'string' },
+    },
+  });
+
+  const resumeJobId = values.resume;
+  const fromBlock = Number(values.from);
+  const toBlock = Number(values.to);
+  const chunkSize = values['chunk-size']
+    ? Number(values['chunk-size'])
+    : undefined;
+  if (
+    !resumeJobId &&
+    (!Number.isInteger(fromBlock) || !Number.isInteger(toBlock))
+  ) {
+    console.error(USAGE);
+    process.exit(1);
+  }
+  if (values.mode !== 'process' && values.mode !== 'list') {
+    console.error(USAGE);
+    process.exit(1);
+  }
+  const requestedChainId = values['chain-id']
+    ? Number(values['chain-id'])
+    : undefined;
+  if (requestedChainId !== undefined && !Number.isInteger(requestedChainId)) {
+    console.error(USAGE);
+    process.exit(1);
+  }
+
+  process.env.EVENT_LISTENER_ENABLED = 'false';
+  const app = await NestFactory.createApplicationContext(AppModule);
+  const backfillService = app.get(BackfillService);
+  const { chainId } = app.get(DeploymentRegistry).resolve(requestedChainId);
+  const reportProgress = (progress: BackfillProgress) => {
+    const total = progress.toBlock - progress.fromBlock + 1;
+    const done = progress.scannedUpTo - progress.fromBlock + 1;
+    logger.log(
+      `Scanned up to block ${progress.scannedUpTo} (${Math.floor((done / total) * 100)}%) | chunk size ${progress.chunkSize} | ${progress.eventsFound} events found`,
+    );
+  };
+
+  try {
+    if (values.mode === 'list' && !resumeJobId) {
+      const events = await backfillService.listEvents(
+        chainId,
+        fromBlock,
+        toBlock,
+        chunkSize,
+        reportProgress,
+      );
+      console.log(JSON.stringify(events, null, 2));
+      return;
+    }
+
+    const job = resumeJobId
+      ? await backfillService.reopenJob(resumeJobId)
+      : await backfillService.createJob(chainId, fromBlock, toBlock, chunkSize);
+    logger.log(
+      `Running backfill job ${job.id} from block ${job.next_block} to ${job.to_block}`,
+    );
+
+    const result = await backfillService.runJob(job, reportProgress);
+    if (result.status === 'failed') {
+      logger.error(
+        `Backfill job ${result.id} failed at block ${result.next_block}: ${result.error}. Resume with --resume ${result.id}`,
+      );
+      process.exitCode = 1;
+      return;
+    }
+    logger.log(
+      `Backfill job ${result.id} completed with ${result.events_found} events found`,
+    );
+  } finally {
+    await app.close();
+  }
+}
+
+void backfill();
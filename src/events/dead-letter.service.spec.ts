@@ -0,0 +1,122 @@
+import { BadRequestException, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { InMemorySupabase } from '../../test/in-memory-supabase';
+import { OrderRequest } from '../shared/models/order-request.model';
+import { DeadLetterService } from './dead-letter.service';
+
+const MINUTE = 60000;
+
+describe('DeadLetterService', () => {
+  let db: InMemorySupabase;
+  let deadLetters: DeadLetterService;
+
+  beforeAll(() => {
+    Logger.overrideLogger(false);
+  });
+
+  beforeEach(() => {
+    jest.useFakeTimers({ now: new Date('2026-01-01T00:00:00Z') });
+    db = new InMemorySupabase({
+      dead_letters: [['chain_id', 'tx_hash', 'log_index']],
+    });
+    deadLetters = new DeadLetterService(
+      new ConfigService({
+        DEAD_LETTER_MAX_ATTEMPTS: '3',
+        DEAD_LETTER_RETRY_BASE_DELAY_MS: String(MINUTE),
+        DEAD_LETTER_RETRY_MAX_DELAY_MS: String(90000),
+      }),
+      db.service(),
+    );
+  });
+
+  afterEach(() => jest.useRealTimers());
+
+  const orderRequest = {
+    user: '0x00000000000000000000000000000000000000Bb',
+    token: '0x00000000000000000000000000000000000000aa',
+    assetSymbol: 'LQD',
+    usdcAmount: '10',
+    assetAmount: '0',
+    price: '100',
+    source: {
+      chainId: 11155111,
+      txHash: '0xABC',
+      logIndex: 3,
+      blockNumber: 100,
+    },
+  } as OrderRequest;
+
+  it('schedules a transient failure for a retry after the base delay', async () => {
+    const deadLetter = await deadLetters.record(
+      orderRequest,
+      'BuyOrderCreated',
+      new Error('timeout'),
+    );
+
+    expect(deadLetter).toMatchObject({
+      tx_hash: '0xabc',
+      attempts: 1,
+      status: 'pending',
+      error: 'timeout',
+      next_attempt_at: '2026-01-01T00:01:00.000Z',
+    });
+  });
+
+  it('doubles the delay on every attempt, up to the maximum', async () => {
+    await deadLetters.record(orderRequest, 'BuyOrderCreated', new Error('a'));
+    const second = await deadLetters.record(
+      orderRequest,
+      'BuyOrderCreated',
+      new Error('b'),
+    );
+
+    // Two minutes, capped at 90 seconds
+    expect(second).toMatchObject({
+      attempts: 2,
+      next_attempt_at: '2026-01-01T00:01:30.000Z',
+    });
+    expect(db.rows('dead_letters')).toHaveLength(1);
+  });
+
+  it('parks an event out of attempts as exhausted', async () => {
+    for (let attempt = 0; attempt < 2; attempt++) {
+      await deadLetters.record(orderRequest, 'BuyOrderCreated', new Error());
+    }
+
+    await expect(
+      deadLetters.record(orderRequest, 'BuyOrderCreated', new Error()),
+    ).resolves.toMatchObject({
+      attempts: 3,
+      status: 'exhausted',
+      next_attempt_at: null,
+    });
+  });
+
+  it('parks a client error as exhausted on the first attempt', async () => {
+    await expect(
+      deadLetters.record(
+        orderRequest,
+        'BuyOrderCreated',
+        new BadRequestException('insufficient reserves'),
+      ),
+    ).resolves.toMatchObject({ attempts: 1, status: 'exhausted' });
+  });
+
+  it('lists pending dead letters once their backoff has elapsed', async () => {
+    await deadLetters.record(orderRequest, 'BuyOrderCreated', new Error());
+
+    await expect(deadLetters.findDue(10)).resolves.toEqual([]);
+    jest.advanceTimersByTime(MINUTE);
+    await expect(deadLetters.findDue(10)).resolves.toHaveLength(1);
+  });
+
+  it('refuses an order that did not come from a log', async () => {
+    await expect(
+      deadLetters.record(
+        { ...orderRequest, source: undefined },
+        'BuyOrderCreated',
+        new Error(),
+      ),
+    ).rejects.toThrow('Only orders built from a log can be dead-lettered');
+  });
+});
@@ -0,0 +1,326 @@
+import { HttpException, Injectable, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { SupabaseService } from '../supabase/supabase.service';
+import { OrderRequest } from '../shared/models/order-request.model';
+import { DeadLetterResponse } from '../shared/models/dead-letter-response.model';
+
+export type DeadLetterStatus =
+  | 'pending'
+  | 'exhausted'
+  | 'resolved'
+  | 'discarded';
+
+// Row shape of the dead_letters table, unique on (chain_id, tx_hash, log_index)
+export interface DeadLetter {
+  id: string;
+  chain_id: number;
+  tx_hash: string;
+  log_index: number;
+  block_number: number;
+  event_name: string;
+  user_address: string;
+  asset_symbol: string;
+  payload: OrderRequest;
+  error: string;
+  attempts: number;
+  status: DeadLetterStatus;
+  next_attempt_at: string | null;
+  resolution: Record<string, any> | null;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface DeadLetterFilter {
+  chainId?: number;
+  status?: DeadLetterStatus;
+  limit?: number;
+}
+
+@Injectable()
+export class DeadLetterService {
+  private readonly logger = new Logger(DeadLetterService.name);
+  private readonly maxAttempts: number;
+  private readonly retryBaseDelayMs: number;
+  private readonly retryMaxDelayMs: number;
+
+  constructor(
+    private readonly config: ConfigService,
+    private readonly supabaseService: SupabaseService,
+  ) {
+    // Attempts (the original one included) before a transient failure stops being retried automatically
+    this.maxAttempts = Number(
+      this.config.get<string>('DEAD_LETTER_MAX_ATTEMPTS') ?? 5,
+    );
+    this.retryBaseDelayMs = Number(
+      this.config.get<string>('DEAD_LETTER_RETRY_BASE_DELAY_MS') ?? 60000,
+    );
+    this.retryMaxDelayMs = Number(
+      this.config.get<string>('DEAD_LETTER_RETRY_MAX_DELAY_MS') ?? 3600000,
+    );
+  }
+
+  /**
+   * Record a failed attempt at an order built from a log.
+   * Transient failures are scheduled for a retry with exponential backoff;
+   * client errors (invalid order, insufficient reserves, ...) and logs out of attempts are parked as exhausted.
+   * @param orderRequest - The decoded order, including its source log
+   * @param eventName - The event the order originates from
+   * @param error - The error the attempt failed with
+   * @returns The dead letter after recording the attempt
+   */
+  async record(
+    orderRequest: OrderRequest,
+    eventName: string,
+    error: unknown,
+  ): Promise<DeadLetter> {
+    const { source } = orderRequest;
+    if (!source) {
+      throw new Error('Only orders built from a log can be dead-lettered');
+    }
+
+    const existing = await this.findBySource(
+      source.chainId,
+      source.txHash,
+      source.logIndex,
+    );
+    const attempts = (existing?.attempts ?? 0) + 1;
+    const retryable = this.isTransient(error) && attempts < this.maxAttempts;
+    const now = new Date();
+    const changes = {
+      block_number: source.blockNumber,
+      payload: orderRequest,
+      error: error instanceof Error ? error.message : String(error),
+      attempts,
+      status: retryable ? 'pending' : 'exhausted',
+      next_attempt_at: retryable
+        ? new Date(now.getTime() + this.getRetryDelay(attempts)).toISOString()
+        : null,
+      updated_at: now.toISOString(),
+    };
+
+    const query = existing
+      ? this.supabaseService
+          .getClient()
+          .from('dead_letters')
+          .update(changes)
+          .eq('id', existing.id)
+      : this.supabaseService
+          .getClient()
+          .from('dead_letters')
+          .insert({
+            ...changes,
+            chain_id: source.chainId,
+            tx_hash: source.txHash.toLowerCase(),
+            log_index: source.logIndex,
+            event_name: eventName,
+            user_address: orderRequest.user.toLowerCase(),
+            asset_symbol: orderRequest.assetSymbol,
+            created_at: now.toISOString(),
+          });
+    const { data, error: dbError } = await query.select().single<DeadLetter>();
+
+    if (dbError) {
+      this.logger.error(
+        `Error dead-lettering ${eventName} ${source.txHash}:${source.logIndex}:`,
+        dbError,
+      );
+      throw dbError;
+    }
+
+    this.logger.warn(
+      data.status === 'pending'
+        ? `Dead-lettered ${eventName} ${source.txHash}:${source.logIndex} (attempt ${attempts}), retrying at ${data.next_attempt_at}`
+        : `Dead-lettered ${eventName} ${source.txHash}:${source.logIndex} (attempt ${attempts}), no automatic retry left`,
+    );
+    return data;
+  }
+
+  /**
+   * Pending dead letters whose next retry is due, oldest first
+   * @param limit - Maximum number of dead letters to return
+   */
+  async findDue(limit: number): Promise<DeadLetter[]> {
+    const { data, error } = await this.supabaseService
+      .getClient()
+      .from('dead_letters')
+      .select('*')
+      .eq('status', 'pending')
+      .lte('next_attempt_at', new Date().toISOString())
+      .order('next_attempt_at', { ascending: true })
+      .limit(limit);
+
+    if (error) {
+      this.logger.error('Error listing due dead letters:', error);
+      throw error;
+    }
+
+    return (data ?? []) as DeadLetter[];
+  }
+
+  /**
+   * List dead letters, newest first
+   * @param filter - Optional chain and status filters
+   */
+  async findDeadLetters(filter: DeadLetterFilter): Promise<DeadLetter[]> {
+    let query = this.supabaseService
+      .getClient()
+      .from('dead_letters')
+      .select('*');
+
+    if (filter.chainId !== undefined) {
+      query = query.eq('chain_id', filter.chainId);
+    }
+    if (filter.status) {
+      query = query.eq('status', filter.status);
+    }
+
+    const { data, error } = await query
+      .order('created_at', { ascending: false })
+      .limit(filter.limit ?? 100);
+
+    if (error) {
+      this.logger.error('Error listing dead letters:', error);
+      throw error;
+    }
+
+    return (data ?? []) as DeadLetter[];
+  }
+
+  /**
+   * Look up a dead letter by id
+   * @param id - The dead letter id
+   * @returns The dead letter, or null if there is none
+   */
+  async getDeadLetter(id: string): Promise<DeadLetter | null> {
+    const { data, error } = await this.supabaseService
+      .getClient()
+      .from('dead_letters')
+      .select('*')
+      .eq('id', id)
+      .maybeSingle<DeadLetter>();
+
+    if (error) {
+      this.logger.error(`Error getting dead letter ${id}:`, error);
+      throw error;
+    }
+
+    return data;
+  }
+
+  /**
+   * Close a dead letter whose order went through on a later attempt
+   * @param id - The dead letter id
+   * @param resolution - The order result, or why nothing was left to do
+   */
+  async markResolved(
+    id: string,
+    resolution: Record<string, any>,
+  ): Promise<DeadLetter> {
+    return this.close(id, 'resolved', resolution);
+  }
+
+  /**
+   * Give up on a dead letter for good; it is kept for audit but never retried
+   * @param id - The dead letter id
+   * @param reason - Why the dead letter was discarded
+   */
+  async discard(id: string, reason?: string): Promise<DeadLetter> {
+    return this.close(id, 'discarded', {
+      reason: reason ?? null,
+      discardedAt: new Date().toISOString(),
+    });
+  }
+
+  private async close(
+    id: string,
+    status: DeadLetterStatus,
+    resolution: Record<string, any>,
+  ): Promise<DeadLetter> {
+    const { data, error } = await this.supabaseService
+      .getClient()
+      .from('dead_letters')
+      .update({
+        status,
+        resolution,
+        next_attempt_at: null,
+        updated_at: new Date().toISOString(),
+      })
+      .eq('id', id)
+      .select()
+      .single<DeadLetter>();
+
+    if (error) {
+      this.logger.error(`Error marking dead letter ${id} ${status}:`, error);
+      throw error;
+    }
+
+    return data;
+  }
+
+  private async findBySource(
+    chainId: number,
+    txHash: string,
+    logIndex: number,
+  ): Promise<DeadLetter | null> {
+    const { data, error } = await this.supabaseService
+      .getClient()
+      .from('dead_letters')
+      .select('*')
+      .eq('chain_id', chainId)
+      .eq('tx_hash', txHash.toLowerCase())
+      .eq('log_index', logIndex)
+      .maybeSingle<DeadLetter>();
+
+    if (error) {
+      this.logger.error(
+        `Error getting dead letter ${txHash}:${logIndex}:`,
+        error,
+      );
+      throw error;
+    }
+
+    return data;
+  }
+
+  /**
+   * Client errors will fail the same way on every attempt; everything else (RPC, broker, database) may pass later
+   */
+  private isTransient(error: unknown): boolean {
+    return !(error instanceof HttpException && error.getStatus() < 500);
+  }
+
+  private getRetryDelay(attempts: number): number {
+    return Math.min(
+      this.retryBaseDelayMs * 2 ** (attempts - 1),
+      this.retryMaxDelayMs,
+    );
+  }
+}
+
+/**
+ * Map a dead_letters row to its API representation
+ * @param deadLetter - The dead letter row
+ * @returns The camel-cased API response
+ */
+export function toDeadLetterResponse(
+  deadLetter: DeadLetter,
+): DeadLetterResponse {
+  return {
+    id: deadLetter.id,
+    chainId: deadLetter.chain_id,
+    txHash: deadLetter.tx_hash,
+    logIndex: deadLetter.log_index,
+    blockNumber: deadLetter.block_number,
+    eventName: deadLetter.event_name,
+    userAddress: deadLetter.user_address,
+    assetSymbol: deadLetter.asset_symbol,
+    payload: deadLetter.payload,
+    error: deadLetter.error,
+    attempts: deadLetter.attempts,
+    status: deadLetter.status,
+    nextAttemptAt: deadLetter.next_attempt_at,
+    resolution: deadLetter.resolution,
+    createdAt: deadLetter.created_at,
+    updatedAt: deadLetter.updated_at,
+  };
+}
@@ -0,0 +1,128 @@
+import {
+  Controller,
+  Get,
+  HttpCode,
+  HttpStatus,
+  NotFoundException,
+  Param,
+  ParseIntPipe,
+  Query,
+} from '@nestjs/common';
+import {
+  ApiOperation,
+  ApiParam,
+  ApiResponse,
+  ApiSecurity,
+  ApiTags,
+} from '@nestjs/swagger';
+import {
+  ProcessedEventsService,
+  toProcessedEventResponse,
+} from './processed-events.service';
+import { ProcessedEventResponse } from '../shared/models/processed-event-response.model';
+import { ProcessedEventQueryDto } from '../shared/models/processed-event-query.dto';
+
+@ApiTags('events')
+@ApiSecurity('api-key')
+@Controller('events')
+export class EventsController {
+  constructor(
+    private readonly processedEventsService: ProcessedEventsService,
+  ) {}
+
+  /**
+   * List processed order contract logs
+   * @param query - Optional chain, transaction, user and status filters
+   * @returns Promise with matching ledger entries
+   */
+  @Get('processed')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({
+    summary: 'List processed order events',
+    description:
+      'Lists the processed-events ledger, showing which on-chain log produced which order. Newest blocks first.',
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Ledger entries retrieved successfully',
+    type: [ProcessedEventResponse],
+  })
+  @ApiResponse({
+    status: 401,
+    description: 'Unauthorized - Invalid or missing API key',
+  })
+  @ApiResponse({
+    status: 500,
+    description: 'Internal server error',
+  })
+  async listProcessedEvents(
+    @Query() query: ProcessedEventQueryDto,
+  ): Promise<ProcessedEventResponse[]> {
+    const events = await this.processedEventsService.findProcessedEvents({
+      chainId: query.chainId,
+      txHash: query.txHash,
+      userAddress: query.user,
+      status: query.status,
+      limit: query.limit,
+    });
+    return events.map(toProcessedEventResponse);
+  }
+
+  /**
+   * Get the ledger entry of a single order contract log
+   * @param chainId - The chain id the log was emitted on
+   * @param txHash - The transaction hash
+   * @param logIndex - The log index within the block
+   * @returns Promise with the ledger entry
+   */
+  @Get('processed/:chainId/:txHash/:logIndex')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({
+    summary: 'Get a processed order event',
+    description:
+      'Returns the ledger entry of a single log, including the order it produced.',
+  })
+  @ApiParam({ name: 'chainId', example: 11155111, type: Number })
+  @ApiParam({
+    name: 'txHash',
+    example:
+      '0x9f2c1d6a3b4e5f60718293a4b5c6d7e8f9012345678901234567890abcdef1234',
+    type: String,
+  })
+  @ApiParam({ name: 'logIndex', example: 3, type: Number })
+  @ApiResponse({
+    status: 200,
+    description: 'Ledger entry retrieved successfully',
+    type: ProcessedEventResponse,
+  })
+  @ApiResponse({
+    status: 404,
+    description: 'The log has never been processed',
+    example: {
+      statusCode: 404,
+      message: 'No processed event found for 11155111:0x9f2c...:3',
+      error: 'Not Found',
+    },
+  })
+  @ApiResponse({
+    status: 401,
+    description: 'Unauthorized - Invalid or missing API key',
+  })
+  async getProcessedEvent(
+    @Param('chainId', ParseIntPipe) chainId: number,
+    @Param('txHash') txHash: string,
+    @Param('logIndex', ParseIntPipe) logIndex: number,
+  ): Promise<ProcessedEventResponse> {
+    const event = await this.processedEventsService.getProcessedEvent(
+      chainId,
+      txHash,
+      logIndex,
+    );
+    if (!event) {
+      throw new NotFoundException(
+        `No processed event found for ${chainId}:${txHash}:${logIndex}`,
+      );
+    }
+    return toProcessedEventResponse(event);
+  }
+}
@@ -0,0 +1,13 @@
+import { Module } from '@nestjs/common';
+import { SupabaseModule } from '../supabase/supabase.module';
+import { ProcessedEventsService } from './processed-events.service';
+import { DeadLetterService } from './dead-letter.service';
+import { EventsController } from './events.controller';
+
+@Module({
+  imports: [SupabaseModule],
+  providers: [ProcessedEventsService, DeadLetterService],
+  controllers: [EventsController],
+  exports: [ProcessedEventsService, DeadLetterService],
+})
+export class EventsModule {}
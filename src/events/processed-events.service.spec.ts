@@ -0,0 +1,154 @@
+import { Logger } from '@nestjs/common';
+import { InMemorySupabase } from '../../test/in-memory-supabase';
+import { OrderEventSource } from '../shared/models/order-event-source.model';
+import { OrderRequest } from '../shared/models/order-request.model';
+import { ProcessedEventsService } from './processed-events.service';
+
+const MINUTE = 60000;
+
+describe('ProcessedEventsService', () => {
+  let db: InMemorySupabase;
+  let ledger: ProcessedEventsService;
+
+  const source: OrderEventSource = {
+    chainId: 11155111,
+    txHash: '0xABC',
+    logIndex: 3,
+    blockNumber: 100,
+  };
+  const orderRequest = {
+    user: '0x00000000000000000000000000000000000000Bb',
+    assetSymbol: 'LQD',
+    source,
+  } as OrderRequest;
+
+  beforeAll(() => {
+    Logger.overrideLogger(false);
+  });
+
+  beforeEach(() => {
+    jest.useFakeTimers({ now: new Date('2026-01-01T00:00:00Z') });
+    db = new InMemorySupabase({
+      processed_events: [['chain_id', 'tx_hash', 'log_index']],
+    });
+    ledger = new ProcessedEventsService(db.service());
+  });
+
+  afterEach(() => jest.useRealTimers());
+
+  function claim(service = ledger): Promise<boolean> {
+    return service.claim(source, 'BuyOrderCreated', orderRequest);
+  }
+
+  function status(): unknown {
+    return db.rows('processed_events')[0]?.status;
+  }
+
+  describe('claim', () => {
+    it('lets a single caller claim a log', async () => {
+      await expect(claim()).resolves.toBe(true);
+      await expect(claim()).resolves.toBe(false);
+
+      expect(db.rows('processed_events')).toEqual([
+        expect.objectContaining({
+          tx_hash: '0xabc',
+          status: 'processing',
+          payload: { user: orderRequest.user, assetSymbol: 'LQD' },
+        }),
+      ]);
+    });
+
+    it('reclaims a log whose attempt failed', async () => {
+      await claim();
+      await ledger.markFailed(source, new Error('timeout'));
+
+      await expect(claim()).resolves.toBe(true);
+      expect(db.rows('processed_events')[0]).toMatchObject({
+        status: 'processing',
+        error: null,
+      });
+    });
+
+    it.each([
+      [
+        'processed',
+        (service: ProcessedEventsService) => service.markProcessed(source, {}),
+      ],
+      [
+        'held for manual review',
+        (service: ProcessedEventsService) =>
+          service.markManualReview(source, new Error('unresolved')),
+      ],
+      [
+        'queued',
+        (service: ProcessedEventsService) =>
+          service.markParked(source, 'queued', {}),
+      ],
+    ])('never reclaims a log that was %s', async (_, settle) => {
+      await claim();
+      await settle(ledger);
+
+      await expect(claim()).resolves.toBe(false);
+    });
+
+    it('claims a parked log only in the status it was parked in', async () => {
+      await claim();
+      await ledger.markParked(source, 'queued', {});
+
+      await expect(ledger.claimParked(source, 'held')).resolves.toBe(false);
+      await expect(ledger.claimParked(source, 'queued')).resolves.toBe(true);
+      expect(status()).toBe('processing');
+    });
+  });
+
+  describe('markStaleClaims', () => {
+    function staleBefore(): string {
+      return new Date(Date.now() - 30 * MINUTE).toISOString();
+    }
+
+    it('moves a claim without a recent heartbeat to manual review', async () => {
+      await claim();
+      jest.advanceTimersByTime(31 * MINUTE);
+
+      const stale = await ledger.markStaleClaims(staleBefore());
+
+      expect(stale).toHaveLength(1);
+      expect(status()).toBe('manual_review');
+    });
+
+    it('leaves a claim whose heartbeat is kept up alone', async () => {
+      await claim();
+      for (let minute = 0; minute < 31; minute++) {
+        jest.advanceTimersByTime(MINUTE);
+        await ledger.refreshHeartbeats();
+      }
+
+      await expect(ledger.markStaleClaims(staleBefore())).resolves.toEqual([]);
+      expect(status()).toBe('processing');
+    });
+
+    it('treats the claim of another instance that stopped as stale', async () => {
+      const crashed = new ProcessedEventsService(db.service());
+      await claim(crashed);
+      jest.advanceTimersByTime(31 * MINUTE);
+      // This instance executes nothing, so it refreshes no heartbeat
+      await ledger.refreshHeartbeats();
+
+      await expect(ledger.markStaleClaims(staleBefore())).resolves.toHaveLength(
+        1,
+      );
+    });
+
+    it('stops refreshing the heartbeat once the outcome is recorded', async () => {
+      await claim();
+      await ledger.markParked(source, 'held', {});
+      jest.advanceTimersByTime(MINUTE);
+
+      await ledger.refreshHeartbeats();
+
+      expect(db.rows('processed_events')[0].heartbeat_at).toBe(
+        '2026-01-01T00:00:00.000Z',
+      );
+    });
+  });
+});
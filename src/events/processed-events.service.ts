@@ -0,0 +1,518 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { Cron } from '@nestjs/schedule';
+import { SupabaseService } from '../supabase/supabase.service';
+import { OrderEventSource } from '../shared/models/order-event-source.model';
+import { ProcessedEventResponse } from '../shared/models/processed-event-response.model';
+import { OrderRequest } from '../shared/models/order-request.model';
+
+export type ProcessedEventStatus =
+  | 'processing'
+  | 'processed'
+  | 'failed'
+  | 'orphaned'
+  | 'compensated'
+  | 'manual_review'
+  | 'held'
+  | 'queued';
+
+// Statuses of a log whose order waits, for an operator's decision or for the market to open
+export type ParkedEventStatus = Extract<
+  ProcessedEventStatus,
+  'held' | 'queued'
+>;
+
+// Statuses whose log may be claimed again: nothing it did is left on-chain or at the broker
+const RECLAIMABLE_STATUSES: ProcessedEventStatus[] = ['failed', 'compensated'];
+
+// Row shape of the processed_events table, unique on (chain_id, tx_hash, log_index)
+export interface ProcessedEvent {
+  id: string;
+  chain_id: number;
+  tx_hash: string;
+  log_index: number;
+  block_number: number;
+  event_name: string;
+  user_address: string;
+  asset_symbol: string;
+  status: ProcessedEventStatus;
+  payload: Record<string, any> | null;
+  result: Record<string, any> | null;
+  compensation: Record<string, any> | null;
+  error: string | null;
+  // Refreshed every minute by the process executing the claim, while in processing
+  heartbeat_at: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface ProcessedEventFilter {
+  chainId?: number;
+  txHash?: string;
+  userAddress?: string;
+  status?: ProcessedEventStatus;
+  limit?: number;
+}
+
+// Postgres unique_violation, returned when the ledger already holds the log
+const UNIQUE_VIOLATION = '23505';
+
+@Injectable()
+export class ProcessedEventsService {
+  private readonly logger = new Logger(ProcessedEventsService.name);
+  // Logs this process claimed and is still executing, whose heartbeat it keeps up
+  private readonly inFlight = new Map<string, OrderEventSource>();
+
+  constructor(private readonly supabaseService: SupabaseService) {}
+
+  /**
+   * Atomically claim an on-chain log for processing.
+   * The unique key on (chain_id, tx_hash, log_index) guarantees only one caller wins the insert;
+   * a log whose previous attempt failed or was compensated can be re-claimed, again by a single caller.
+   * @param source - The log to claim
+   * @param eventName - The decoded event name (e.g. BuyOrderCreated)
+   * @param orderRequest - The order built from the log, stored for lookups and compensation
+   * @returns true if the caller owns the log and must process it, false if it is already processed or in flight
+   */
+  async claim(
+    source: OrderEventSource,
+    eventName: string,
+    orderRequest: OrderRequest,
+  ): Promise<boolean> {
+    // The source is already stored in its own columns
+    const payload: Record<string, any> = { ...orderRequest };
+    delete payload.source;
+    const now = new Date().toISOString();
+    const { error } = await this.supabaseService
+      .getClient()
+      .from('processed_events')
+      .insert({
+        chain_id: source.chainId,
+        tx_hash: source.txHash.toLowerCase(),
+        log_index: source.logIndex,
+        block_number: source.blockNumber,
+        event_name: eventName,
+        user_address: orderRequest.user.toLowerCase(),
+        asset_symbol: orderRequest.assetSymbol,
+        status: 'processing',
+        payload,
+        heartbeat_at: now,
+        created_at: now,
+        updated_at: now,
+      });
+
+    if (!error) {
+      this.inFlight.set(this.inFlightKey(source), source);
+      return true;
+    }
+    if (error.code !== UNIQUE_VIOLATION) {
+      this.logger.error(
+        `Error claiming event ${this.describe(source)}:`,
+        error,
+      );
+      throw error;
+    }
+
+    // Already in the ledger - only a failed or compensated attempt may be picked up again
+    const { data, error: reclaimError } = await this.supabaseService
+      .getClient()
+      .from('processed_events')
+      .update({
+        status: 'processing',
+        block_number: source.blockNumber,
+        payload,
+        error: null,
+        heartbeat_at: now,
+        updated_at: now,
+      })
+      .eq('chain_id', source.chainId)
+      .eq('tx_hash', source.txHash.toLowerCase())
+      .eq('log_index', source.logIndex)
+      .in('status', RECLAIMABLE_STATUSES)
+      .select();
+
+    if (reclaimError) {
+      this.logger.error(
+        `Error re-claiming event ${this.describe(source)}:`,
+        reclaimError,
+      );
+      throw reclaimError;
+    }
+
+    return this.claimed(source, data);
+  }
+
+  /**
+   * Record the successful outcome of a claimed log
+   * @param source - The claimed log
+   * @param result - The order result produced by the log
+   */
+  async markProcessed(
+    source: OrderEventSource,
+    result: Record<string, any>,
+  ): Promise<void> {
+    await this.updateStatus(source, { status: 'processed', result });
+  }
+
+  /**
+   * Park a claimed log whose order waits: held for review, or queued for the market to open.
+   * Scans and retries leave it alone; only the operator's decision or the market open picks it up again.
+   * @param source - The claimed log
+   * @param status - held or queued
+   * @param result - The order result explaining why it waits
+   */
+  async markParked(
+    source: OrderEventSource,
+    status: ParkedEventStatus,
+    result: Record<string, any>,
+  ): Promise<void> {
+    await this.updateStatus(source, { status, result });
+  }
+
+  /**
+   * Claim a parked log, to carry out an operator's decision on its order or to execute it at the market open
+   * @param source - The parked log
+   * @param status - The status it was parked in
+   * @returns true if the caller owns the log, false if it is not parked in that status (anymore)
+   */
+  async claimParked(
+    source: OrderEventSource,
+    status: ParkedEventStatus,
+  ): Promise<boolean> {
+    const now = new Date().toISOString();
+    const { data, error } = await this.supabaseService
+      .getClient()
+      .from('processed_events')
+      .update({
+        status: 'processing',
+        heartbeat_at: now,
+        updated_at: now,
+      })
+      .eq('chain_id', source.chainId)
+      .eq('tx_hash', source.txHash.toLowerCase())
+      .eq('log_index', source.logIndex)
+      .eq('status', status)
+      .select();
+
+    if (error) {
+      this.logger.error(
+        `Error claiming ${status} event ${this.describe(source)}:`,
+        error,
+      );
+      throw error;
+    }
+
+    return this.claimed(source, data);
+  }
+
+  /**
+   * Release a claimed log after its order failed, so it can be retried
+   * @param source - The claimed log
+   * @param error - The error that made the order fail
+   */
+  async markFailed(source: OrderEventSource, error: unknown): Promise<void> {
+    const message = error instanceof Error ? error.message : String(error);
+    await this.updateStatus(source, { status: 'failed', error: message });
+  }
+
+  /**
+   * Hold a claimed log whose order failed and could not be fully rolled back.
+   * It is not released for retry; an operator has to settle it by hand.
+   * @param source - The claimed log
+   * @param error - The error that left the order unresolved
+   */
+  async markManualReview(
+    source: OrderEventSource,
+    error: unknown,
+  ): Promise<void> {
+    const message = error instanceof Error ? error.message : String(error);
+    await this.updateStatus(source, {
+      status: 'manual_review',
+      error: message,
+    });
+  }
+
+  /**
+   * Keep up the heartbeat of the claims this process is executing, so no instance takes them for stale
+   */
+  @Cron('* * * * *')
+  async refreshHeartbeats() {
+    for (const source of this.inFlight.values()) {
+      const { error } = await this.supabaseService
+        .getClient()
+        .from('processed_events')
+        .update({ heartbeat_at: new Date().toISOString() })
+        .eq('chain_id', source.chainId)
+        .eq('tx_hash', source.txHash.toLowerCase())
+        .eq('log_index', source.logIndex)
+        .eq('status', 'processing');
+
+      if (error) {
+        this.logger.error(
+          `Error refreshing heartbeat of event ${this.describe(source)}:`,
+          error,
+        );
+      }
+    }
+  }
+
+  /**
+   * Move claims left in processing, e.g. by a crash mid-order, to manual review so they surface instead of being
+   * skipped by every later scan. Claims are stale once the process executing them stopped refreshing their
+   * heartbeat, whichever instance that process runs in. Nothing is retried, as the order may have hedged, minted
+   * or burned before it stopped.
+   * @param staleBefore - Claims whose last heartbeat is older than this time are stale
+   * @returns The entries moved to manual review
+   */
+  async markStaleClaims(staleBefore: string): Promise<ProcessedEvent[]> {
+    // Only if the heartbeat did not move on in the meantime
+    const { data, error } = await this.supabaseService
+      .getClient()
+      .from('processed_events')
+      .update({
+        status: 'manual_review',
+        error: `No heartbeat in processing since before ${staleBefore}; the order may have been interrupted mid-execution`,
+        updated_at: new Date().toISOString(),
+      })
+      .eq('status', 'processing')
+      .lt('heartbeat_at', staleBefore)
+      .select();
+
+    if (error) {
+      this.logger.error(
+        'Error moving stale processing claims to manual review:',
+        error,
+      );
+      throw error;
+    }
+
+    return (data ?? []) as ProcessedEvent[];
+  }
+
+  /**
+   * List ledger entries of logs emitted at or above a block, oldest first
+   * @param chainId - The chain id the logs were emitted on
+   * @param fromBlock - The lowest block to include
+   * @returns Matching ledger entries
+   */
+  async findEventsFromBlock(
+    chainId: number,
+    fromBlock: number,
+  ): Promise<ProcessedEvent[]> {
+    const { data, error } = await this.supabaseService
+      .getClient()
+      .from('processed_events')
+      .select('*')
+      .eq('chain_id', chainId)
+      .gte('block_number', fromBlock)
+      .order('block_number', { ascending: true })
+      .order('log_index', { ascending: true });
+
+    if (error) {
+      this.logger.error(
+        `Error listing processed events from block ${fromBlock} on chain ${chainId}:`,
+        error,
+      );
+      throw error;
+    }
+
+    return (data ?? []) as ProcessedEvent[];
+  }
+
+  /**
+   * Move a ledger entry to the position its log now has on the canonical chain.
+   * Used when a reorg re-included the transaction in another block.
+   * @param event - The ledger entry
+   * @param blockNumber - The new block number of the log
+   * @param logIndex - The new log index
+   */
+  async relocate(
+    event: ProcessedEvent,
+    blockNumber: number,
+    logIndex: number,
+  ): Promise<void> {
+    const { error } = await this.supabaseService
+      .getClient()
+      .from('processed_events')
+      .update({
+        block_number: blockNumber,
+        log_index: logIndex,
+        updated_at: new Date().toISOString(),
+      })
+      .eq('id', event.id);
+
+    if (error) {
+      this.logger.error(`Error relocating processed event ${event.id}:`, error);
+      throw error;
+    }
+  }
+
+  /**
+   * Record the outcome of compensating a log that disappeared in a reorg
+   * @param event - The ledger entry
+   * @param status - orphaned while compensation is pending, compensated or manual_review once decided
+   * @param compensation - What was done (or why nothing could be done)
+   */
+  async recordCompensation(
+    event: ProcessedEvent,
+    status: Extract<
+      ProcessedEventStatus,
+      'orphaned' | 'compensated' | 'manual_review'
+    >,
+    compensation: Record<string, any>,
+  ): Promise<void> {
+    const { error } = await this.supabaseService
+      .getClient()
+      .from('processed_events')
+      .update({
+        status,
+        compensation,
+        updated_at: new Date().toISOString(),
+      })
+      .eq('id', event.id);
+
+    if (error) {
+      this.logger.error(
+        `Error recording compensation of processed event ${event.id}:`,
+        error,
+      );
+      throw error;
+    }
+  }
+
+  /**
+   * Get the ledger entry of a single log
+   * @param chainId - The chain id the log was emitted on
+   * @param txHash - The transaction hash
+   * @param logIndex - The log index within the block
+   * @returns The ledger entry, or null if the log was never processed
+   */
+  async getProcessedEvent(
+    chainId: number,
+    txHash: string,
+    logIndex: number,
+  ): Promise<ProcessedEvent | null> {
+    const { data, error } = await this.supabaseService
+      .getClient()
+      .from('processed_events')
+      .select('*')
+      .eq('chain_id', chainId)
+      .eq('tx_hash', txHash.toLowerCase())
+      .eq('log_index', logIndex)
+      .maybeSingle<ProcessedEvent>();
+
+    if (error) {
+      this.logger.error(
+        `Error getting processed event ${txHash}:${logIndex}:`,
+        error,
+      );
+      throw error;
+    }
+
+    return data;
+  }
+
+  /**
+   * List ledger entries, newest block first
+   * @param filter - Optional chain, transaction, user and status filters
+   * @returns Matching ledger entries
+   */
+  async findProcessedEvents(
+    filter: ProcessedEventFilter,
+  ): Promise<ProcessedEvent[]> {
+    let query = this.supabaseService
+      .getClient()
+      .from('processed_events')
+      .select('*');
+
+    if (filter.chainId !== undefined) {
+      query = query.eq('chain_id', filter.chainId);
+    }
+    if (filter.txHash) {
+      query = query.eq('tx_hash', filter.txHash.toLowerCase());
+    }
+    if (filter.userAddress) {
+      query = query.eq('user_address', filter.userAddress.toLowerCase());
+    }
+    if (filter.status) {
+      query = query.eq('status', filter.status);
+    }
+
+    const { data, error } = await query
+      .order('block_number', { ascending: false })
+      .order('log_index', { ascending: false })
+      .limit(filter.limit ?? 100);
+
+    if (error) {
+      this.logger.error('Error listing processed events:', error);
+      throw error;
+    }
+
+    return (data ?? []) as ProcessedEvent[];
+  }
+
+  private async updateStatus(
+    source: OrderEventSource,
+    changes: Partial<ProcessedEvent>,
+  ): Promise<void> {
+    // The execution is over; a claim whose outcome fails to be written is left for the stale claim sweep
+    this.inFlight.delete(this.inFlightKey(source));
+    const { error } = await this.supabaseService
+      .getClient()
+      .from('processed_events')
+      .update({ ...changes, updated_at: new Date().toISOString() })
+      .eq('chain_id', source.chainId)
+      .eq('tx_hash', source.txHash.toLowerCase())
+      .eq('log_index', source.logIndex);
+
+    if (error) {
+      this.logger.error(
+        `Error updating processed event ${this.describe(source)}:`,
+        error,
+      );
+      throw error;
+    }
+  }
+
+  private claimed(source: OrderEventSource, rows: unknown[] | null): boolean {
+    if ((rows ?? []).length === 0) {
+      return false;
+    }
+    this.inFlight.set(this.inFlightKey(source), source);
+    return true;
+  }
+
+  private inFlightKey(
+    source: Pick<OrderEventSource, 'chainId' | 'txHash' | 'logIndex'>,
+  ): string {
+    return `${source.chainId}:${source.txHash.toLowerCase()}:${source.logIndex}`;
+  }
+
+  private describe(source: OrderEventSource): string {
+    return `${source.chainId}:${source.txHash}:${source.logIndex}`;
+  }
+}
+
+/**
+ * Map a processed_events row to its API representation
+ * @param event - The ledger row
+ * @returns The camel-cased API response
+ */
+export function toProcessedEventResponse(
+  event: ProcessedEvent,
+): ProcessedEventResponse {
+  return {
+    chainId: event.chain_id,
+    txHash: event.tx_hash,
+    logIndex: event.log_index,
+    blockNumber: event.block_number,
+    eventName: event.event_name,
+    userAddress: event.user_address,
+    assetSymbol: event.asset_symbol,
+    status: event.status,
+    result: event.result,
+    compensation: event.compensation,
+    error: event.error,
+    createdAt: event.created_at,
+    updatedAt: event.updated_at,
+  };
+}
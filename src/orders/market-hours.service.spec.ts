@@ -0,0 +1,68 @@
+import { Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { AlpacaClock, AlpacaService } from '../alpaca/alpaca.service';
+import { MarketHoursService } from './market-hours.service';
+
+const MINUTE = 60000;
+
+describe('MarketHoursService', () => {
+  let getClock: jest.Mock;
+  let hours: MarketHoursService;
+
+  beforeAll(() => {
+    Logger.overrideLogger(false);
+  });
+
+  beforeEach(() => {
+    jest.useFakeTimers({ now: new Date('2026-01-02T14:29:00Z') });
+    getClock = jest.fn().mockResolvedValue(closedUntil('2026-01-02T14:30:00Z'));
+    hours = new MarketHoursService(
+      new ConfigService({ MARKET_CLOCK_CACHE_MS: String(5 * MINUTE) }),
+      { getClock } as unknown as AlpacaService,
+    );
+  });
+
+  afterEach(() => jest.useRealTimers());
+
+  function closedUntil(nextOpen: string): AlpacaClock {
+    return {
+      timestamp: new Date().toISOString(),
+      is_open: false,
+      next_open: nextOpen,
+      next_close: '2026-01-02T21:00:00Z',
+    };
+  }
+
+  it('caches the clock', async () => {
+    await hours.getClock();
+    jest.advanceTimersByTime(30000);
+    await hours.getClock();
+
+    expect(getClock).toHaveBeenCalledTimes(1);
+  });
+
+  it('reads the clock again at the next open, even within the cache time', async () => {
+    await hours.getClock();
+    jest.advanceTimersByTime(MINUTE);
+    getClock.mockResolvedValue({ ...closedUntil(''), is_open: true });
+
+    await expect(hours.getClock()).resolves.toMatchObject({ is_open: true });
+    expect(getClock).toHaveBeenCalledTimes(2);
+  });
+
+  it.each([
+    ['limit', 'limit'],
+    ['market', 'market'],
+    ['market', 'unknown'],
+  ])(
+    'hedges queued orders with %s orders when QUEUED_ORDER_PRICE_POLICY is %s',
+    (policy, configured) => {
+      const service = new MarketHoursService(
+        new ConfigService({ QUEUED_ORDER_PRICE_POLICY: configured }),
+        {} as AlpacaService,
+      );
+
+      expect(service.pricePolicy).toBe(policy);
+    },
+  );
+});
@@ -0,0 +1,57 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { AlpacaClock, AlpacaService } from '../alpaca/alpaca.service';
+
+/**
+ * How an order queued while the market was closed is hedged at the open:
+ * market sends a market order once its price passed the deviation check against the opening quote,
+ * limit sends a limit order at the order's own price instead, which fills at that price or better, or not at all.
+ */
+export type QueuedOrderPricePolicy = 'market' | 'limit';
+
+@Injectable()
+export class MarketHoursService {
+  private readonly logger = new Logger(MarketHoursService.name);
+  private readonly clockCacheMs: number;
+  readonly pricePolicy: QueuedOrderPricePolicy;
+  private cached?: { clock: AlpacaClock; expiresAt: number };
+
+  constructor(
+    private readonly config: ConfigService,
+    private readonly alpacaService: AlpacaService,
+  ) {
+    this.clockCacheMs = Number(
+      this.config.get<string>('MARKET_CLOCK_CACHE_MS') ?? 60000,
+    );
+    this.pricePolicy =
+      this.config.get<string>('QUEUED_ORDER_PRICE_POLICY') === 'limit'
+        ? 'limit'
+        : 'market';
+  }
+
+  /**
+   * Read the broker's market clock. It is cached for MARKET_CLOCK_CACHE_MS, but never past the next open or close.
+   * @returns Whether the market is open, and when it next opens and closes
+   */
+  async getClock(): Promise<AlpacaClock> {
+    if (this.cached && Date.now() < this.cached.expiresAt) {
+      return this.cached.clock;
+    }
+
+    const clock = await this.alpacaService.getClock();
+    const nextChange = Date.parse(
+      clock.is_open ? clock.next_close : clock.next_open,
+    );
+    this.cached = {
+      clock,
+      expiresAt: Math.min(
+        Date.now() + this.clockCacheMs,
+        nextChange || Infinity,
+      ),
+    };
+    if (!clock.is_open) {
+      this.logger.debug(`Market closed until ${clock.next_open}`);
+    }
+    return clock;
+  }
+}
@@ -0,0 +1,102 @@
+import { ConflictException, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { DeadLetterService } from '../events/dead-letter.service';
+import { MarketHoursService } from './market-hours.service';
+import { MarketQueueService } from './market-queue.service';
+import { Order, OrderLifecycleService } from './order-lifecycle.service';
+import { OrdersService } from './orders.service';
+
+describe('MarketQueueService', () => {
+  let isOpen: boolean;
+  let queued: Order[];
+  let calls: string[];
+  let executeQueuedOrder: jest.Mock;
+  let record: jest.Mock;
+
+  beforeAll(() => {
+    Logger.overrideLogger(false);
+  });
+
+  beforeEach(() => {
+    isOpen = true;
+    queued = [order('order-1'), order('order-2')];
+    calls = [];
+    executeQueuedOrder = jest.fn((id: string) => {
+      calls.push(`execute ${id}`);
+      return Promise.resolve({});
+    });
+    record = jest.fn().mockResolvedValue({});
+  });
+
+  function order(id: string, sourceTxHash: string | null = '0xabc'): Order {
+    return { id, side: 'buy', source_tx_hash: sourceTxHash } as Order;
+  }
+
+  function queue(enabled = true): MarketQueueService {
+    return new MarketQueueService(
+      new ConfigService({ EVENT_LISTENER_ENABLED: String(enabled) }),
+      {
+        getClock: () => Promise.resolve({ is_open: isOpen }),
+      } as unknown as MarketHoursService,
+      {
+        findOrders: () => Promise.resolve(queued),
+      } as unknown as OrderLifecycleService,
+      {
+        isBatching: () => false,
+        unwindPendingOrphanedHedges: () => {
+          calls.push('unwind');
+          return Promise.resolve();
+        },
+        executeQueuedOrder,
+        toOrderRequest: (queuedOrder: Order) =>
+          Promise.resolve({ orderId: queuedOrder.id }),
+      } as unknown as OrdersService,
+      { record } as unknown as DeadLetterService,
+    );
+  }
+
+  it('unwinds orphaned hedges, then executes the queued orders in turn at the open', async () => {
+    await queue().executeDue();
+
+    expect(calls).toEqual(['unwind', 'execute order-1', 'execute order-2']);
+  });
+
+  it('leaves the queue alone while the market is closed', async () => {
+    isOpen = false;
+
+    await queue().executeDue();
+
+    expect(calls).toEqual([]);
+  });
+
+  it('leaves the queue to the live listener in one-off processes', async () => {
+    await queue(false).executeDue();
+
+    expect(calls).toEqual([]);
+  });
+
+  it('dead-letters an order from a log that fails at the open and moves on', async () => {
+    const failure = new Error('broker down');
+    executeQueuedOrder.mockRejectedValueOnce(failure);
+
+    await queue().executeDue();
+
+    expect(record).toHaveBeenCalledWith(
+      { orderId: 'order-1' },
+      'BuyOrderCreated',
+      failure,
+    );
+    expect(executeQueuedOrder).toHaveBeenCalledWith('order-2');
+  });
+
+  it('does not dead-letter an order picked up elsewhere, or one without a source log', async () => {
+    queued = [order('order-1'), order('order-2', null)];
+    executeQueuedOrder
+      .mockRejectedValueOnce(new ConflictException('no longer queued'))
+      .mockRejectedValueOnce(new Error('broker down'));
+
+    await queue().executeDue();
+
+    expect(record).not.toHaveBeenCalled();
+  });
+});
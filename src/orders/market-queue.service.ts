@@ -0,0 +1,102 @@
+import { ConflictException, Injectable, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { Cron } from '@nestjs/schedule';
+import { DeadLetterService } from '../events/dead-letter.service';
+import { Order, OrderLifecycleService } from './order-lifecycle.service';
+import { MarketHoursService } from './market-hours.service';
+import { OrdersService } from './orders.service';
+
+/**
+ * Executes the orders queued while the market was closed once it opens, oldest first, after selling the hedges
+ * of orphaned buys that were burned while it was closed.
+ * An order that fails at the open is dead-lettered like a live order, so it is retried with backoff.
+ */
+@Injectable()
+export class MarketQueueService {
+  private readonly logger = new Logger(MarketQueueService.name);
+  private readonly enabled: boolean;
+  private isRunning = false;
+
+  constructor(
+    private readonly config: ConfigService,
+    private readonly marketHoursService: MarketHoursService,
+    private readonly orderLifecycleService: OrderLifecycleService,
+    private readonly ordersService: OrdersService,
+    private readonly deadLetterService: DeadLetterService,
+  ) {
+    // The queue is drained next to the live listener only, not in one-off processes such as the backfill CLI
+    this.enabled =
+      this.config.get<string>('EVENT_LISTENER_ENABLED') !== 'false';
+  }
+
+  @Cron('* * * * *')
+  async executeDue() {
+    if (!this.enabled || this.isRunning) {
+      return;
+    }
+    this.isRunning = true;
+
+    try {
+      const clock = await this.marketHoursService.getClock();
+      if (!clock.is_open) {
+        return;
+      }
+
+      // Hedges of orphaned buys burned while the market was closed
+      await this.ordersService.unwindPendingOrphanedHedges();
+
+      const queued = await this.orderLifecycleService.findOrders({
+        status: 'queued',
+        oldestFirst: true,
+      });
+      if (queued.length === 0) {
+        return;
+      }
+      this.logger.log(`Market open; executing ${queued.length} queued orders`);
+
+      // Batched orders only settle once their batch closes, so they are submitted together
+      if (this.ordersService.isBatching()) {
+        await Promise.allSettled(queued.map((order) => this.execute(order)));
+      } else {
+        for (const order of queued) {
+          await this.execute(order);
+        }
+      }
+    } catch (error) {
+      this.logger.error('Error executing queued orders:', error);
+    } finally {
+      this.isRunning = false;
+    }
+  }
+
+  /**
+   * Execute a queued order, dead-lettering it if it fails
+   */
+  private async execute(order: Order): Promise<void> {
+    try {
+      await this.ordersService.executeQueuedOrder(order.id);
+    } catch (error) {
+      // Someone else picked the order up first
+      if (error instanceof ConflictException) {
+        this.logger.warn(`Skipping queued order ${order.id}: ${error.message}`);
+        return;
+      }
+      this.logger.error(`Failed to execute queued order ${order.id}:`, error);
+      if (order.source_tx_hash === null) {
+        return;
+      }
+      try {
+        await this.deadLetterService.record(
+          await this.ordersService.toOrderRequest(order),
+          order.side === 'buy' ? 'BuyOrderCreated' : 'SellOrderCreated',
+          error,
+        );
+      } catch (deadLetterError) {
+        this.logger.error(
+          `Failed to dead-letter queued order ${order.id}:`,
+          deadLetterError,
+        );
+      }
+    }
+  }
+}
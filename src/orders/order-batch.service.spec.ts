@@ -0,0 +1,148 @@
+import { Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { SupabaseService } from '../supabase/supabase.service';
+import { AlpacaService } from '../alpaca/alpaca.service';
+import { TokenService } from '../web3/services/token.service';
+import { BatchOrder, OrderBatchService } from './order-batch.service';
+import {
+  Order,
+  OrderLifecycleService,
+  OrderSide,
+} from './order-lifecycle.service';
+import { OrderSagaService } from './order-saga.service';
+import { PriceGuardService } from './price-guard.service';
+import { ALPACA_QTY_DECIMALS, parseAmount } from '../shared/utils/amounts';
+
+// The parts of a batch entry the allocation reads and writes
+interface Entry {
+  batchOrder: BatchOrder;
+  filledQty?: string;
+  allocatedAmount?: string;
+}
+
+describe('OrderBatchService', () => {
+  let service: OrderBatchService;
+
+  beforeAll(() => {
+    Logger.overrideLogger(false);
+  });
+
+  beforeEach(() => {
+    service = new OrderBatchService(
+      new ConfigService({}),
+      {} as SupabaseService,
+      {} as AlpacaService,
+      {} as TokenService,
+      {} as OrderLifecycleService,
+      {} as OrderSagaService,
+      {} as PriceGuardService,
+    );
+  });
+
+  function entry(side: OrderSide, hedgeQty: string, tokenDecimals = 18): Entry {
+    return {
+      batchOrder: {
+        order: { id: `${side}-${hedgeQty}` } as Order,
+        side,
+        hedgeQty,
+        tokenAmount: hedgeQty,
+        tokenDecimals,
+      } as BatchOrder,
+    };
+  }
+
+  /**
+   * Share out the fill of the net hedge
+   * @param netFilled - Filled quantity of the broker order, as a decimal string at Alpaca's precision
+   */
+  function allocate(
+    entries: Entry[],
+    netSide: OrderSide | null,
+    netQty: string,
+    netFilled: string,
+  ): { filledQty?: string; allocatedAmount?: string }[] {
+    const units = (amount: string) => parseAmount(amount, ALPACA_QTY_DECIMALS);
+    service['allocate'](
+      entries as Parameters<OrderBatchService['allocate']>[0],
+      netSide,
+      units(netQty),
+      units(netFilled),
+    );
+    return entries.map(({ filledQty, allocatedAmount }) => ({
+      filledQty,
+      allocatedAmount,
+    }));
+  }
+
+  describe('allocate', () => {
+    it('fills every order in full when the net hedge filled', () => {
+      const entries = [
+        entry('buy', '1'),
+        entry('buy', '2'),
+        entry('sell', '1'),
+      ];
+
+      expect(allocate(entries, 'buy', '2', '2')).toEqual([
+        { filledQty: '1.0', allocatedAmount: '1' },
+        { filledQty: '2.0', allocatedAmount: '2' },
+        { filledQty: '1.0', allocatedAmount: '1' },
+      ]);
+    });
+
+    it('fills both sides in full when they cancel out', () => {
+      const entries = [entry('buy', '1.5'), entry('sell', '1.5')];
+
+      expect(allocate(entries, null, '0', '0')).toEqual([
+        { filledQty: '1.5', allocatedAmount: '1.5' },
+        { filledQty: '1.5', allocatedAmount: '1.5' },
+      ]);
+    });
+
+    it('shares a partial fill pro rata, giving rounding units to the largest remainders', () => {
+      const entries = [
+        entry('buy', '1'),
+        entry('buy', '2'),
+        entry('sell', '1'),
+      ];
+
+      // 1 offset by the sell plus 1 filled by the broker: 2 of the 3 bought
+      expect(allocate(entries, 'buy', '2', '1')).toEqual([
+        { filledQty: '0.666666667', allocatedAmount: '0.666666667' },
+        { filledQty: '1.333333333', allocatedAmount: '1.333333333' },
+        { filledQty: '1.0', allocatedAmount: '1' },
+      ]);
+    });
+
+    it('still shares out what the other side offset when the broker filled nothing', () => {
+      const entries = [
+        entry('buy', '1'),
+        entry('buy', '2'),
+        entry('sell', '1'),
+      ];
+
+      expect(allocate(entries, 'buy', '2', '0')).toEqual([
+        { filledQty: '0.333333333', allocatedAmount: '0.333333333' },
+        { filledQty: '0.666666667', allocatedAmount: '0.666666667' },
+        { filledQty: '1.0', allocatedAmount: '1' },
+      ]);
+    });
+
+    it('allocates nothing to the traded side when nothing offset it and nothing filled', () => {
+      const entries = [entry('sell', '1'), entry('sell', '3')];
+
+      expect(allocate(entries, 'sell', '4', '0')).toEqual([
+        { filledQty: '0.0', allocatedAmount: '0.0' },
+        { filledQty: '0.0', allocatedAmount: '0.0' },
+      ]);
+    });
+
+    it('rounds a partial allocation down to the decimals of the token', () => {
+      const entries = [entry('buy', '1', 6), entry('buy', '2', 6)];
+
+      expect(allocate(entries, 'buy', '3', '2')).toEqual([
+        { filledQty: '0.666666667', allocatedAmount: '0.666666' },
+        { filledQty: '1.333333333', allocatedAmount: '1.333333' },
+      ]);
+    });
+  });
+});
@@ -0,0 +1,740 @@
+import {
+  Injectable,
+  Logger,
+  NotFoundException,
+  OnModuleDestroy,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { SupabaseService } from '../supabase/supabase.service';
+import { AlpacaService } from '../alpaca/alpaca.service';
+import { TokenAllocation, TokenService } from '../web3/services/token.service';
+import { Asset } from '../assets/asset-registry.service';
+import { OrderRequest } from '../shared/models/order-request.model';
+import { OrderBatchResponse } from '../shared/models/order-batch-response.model';
+import {
+  ALPACA_QTY_DECIMALS,
+  ASSET_DECIMALS,
+  formatAmount,
+  parseAmount,
+  roundDown,
+} from '../shared/utils/amounts';
+import {
+  Order,
+  OrderLifecycleService,
+  OrderSide,
+  OrderStatus,
+  OrderTransitionDetails,
+} from './order-lifecycle.service';
+import {
+  OrderSagaError,
+  OrderSagaService,
+  OrderStep,
+  OrderStepRecord,
+} from './order-saga.service';
+import { PriceGuardService } from './price-guard.service';
+
+/**
+ * executing: the net hedge and the batch mint and burn are under way.
+ * rolled_back: a step failed and everything the batch did was undone; its orders can be retried.
+ * manual_review: a step's outcome is unknown or a compensation failed; an operator has to settle the batch.
+ */
+export type OrderBatchStatus =
+  | 'executing'
+  | 'settled'
+  | 'rolled_back'
+  | 'manual_review';
+
+// One order handed to a batch. The batch advances the order as it executes.
+export interface BatchOrder {
+  order: Order;
+  orderRequest: OrderRequest;
+  asset: Asset;
+  side: OrderSide;
+  // The order's asset amount rounded to the token's decimals, and to Alpaca's quantity precision
+  tokenAmount: string;
+  tokenDecimals: number;
+  hedgeQty: string;
+}
+
+// What a settled batch did for one of its orders
+export interface BatchAllocation {
+  batchId: string;
+  alpacaOrderId?: string;
+  // Hedge quantity allocated to the order
+  filledQty: string;
+  // Tokens minted to or burned from the user, at the token's decimals
+  tokenAmount: string;
+  fillPrice?: string;
+  // The batchMint or batchBurn transaction, if the order minted or burned anything
+  txHash?: string;
+  newTokenReserve: string;
+}
+
+// Stored in the allocations column of the order_batches table
+export interface BatchAllocationRecord {
+  orderId: string;
+  side: OrderSide;
+  hedgeQty: string;
+  filledQty: string;
+  tokenAmount: string;
+}
+
+// Row shape of the order_batches table
+export interface OrderBatch {
+  id: string;
+  chain_id: number;
+  asset_symbol: string;
+  token_address: string;
+  status: OrderBatchStatus;
+  order_ids: string[];
+  // Decimal strings at Alpaca's quantity precision; the numeric columns are read as text
+  buy_qty: string;
+  sell_qty: string;
+  // Side and quantity of the broker order; null and zero when buys and sells cancel out
+  net_side: OrderSide | null;
+  net_qty: string;
+  alpaca_order_id: string | null;
+  filled_qty: string | null;
+  fill_price: string | null;
+  mint_tx_hash: string | null;
+  burn_tx_hash: string | null;
+  allocations: BatchAllocationRecord[];
+  steps: OrderStepRecord[];
+  error: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+interface BatchEntry {
+  batchOrder: BatchOrder;
+  resolve: (allocation: BatchAllocation) => void;
+  reject: (error: Error) => void;
+  // Hedge quantity and tokens allocated once the net hedge filled
+  filledQty?: string;
+  allocatedAmount?: string;
+  settled: boolean;
+}
+
+// Orders for one asset on one chain, collected until the window closes
+interface PendingBatch {
+  chainId: number;
+  asset: Asset;
+  entries: BatchEntry[];
+  timer: NodeJS.Timeout;
+}
+
+const ORDER_BATCH_COLUMNS =
+  'id, chain_id, asset_symbol, token_address, status, order_ids, buy_qty::text, sell_qty::text, net_side, net_qty::text, alpaca_order_id, filled_qty::text, fill_price::text, mint_tx_hash, burn_tx_hash, allocations, steps, error, created_at, updated_at';
+
+@Injectable()
+export class OrderBatchService implements OnModuleDestroy {
+  private readonly logger = new Logger(OrderBatchService.name);
+  readonly enabled: boolean;
+  private readonly windowMs: number;
+  private readonly maxOrders: number;
+  // Keyed by chain id and asset id
+  private readonly pending = new Map<string, PendingBatch>();
+
+  constructor(
+    private readonly config: ConfigService,
+    private readonly supabaseService: SupabaseService,
+    private readonly alpacaService: AlpacaService,
+    private readonly tokenService: TokenService,
+    private readonly orderLifecycleService: OrderLifecycleService,
+    private readonly orderSagaService: OrderSagaService,
+    private readonly priceGuardService: PriceGuardService,
+  ) {
+    this.enabled = this.config.get<string>('ORDER_BATCHING_ENABLED') === 'true';
+    this.windowMs = Number(
+      this.config.get<string>('ORDER_BATCH_WINDOW_MS') ?? 5000,
+    );
+    this.maxOrders = Number(
+      this.config.get<string>('ORDER_BATCH_MAX_ORDERS') ?? 50,
+    );
+  }
+
+  /**
+   * Add an order to the open batch of its asset, opening one if needed.
+   * The batch executes once ORDER_BATCH_WINDOW_MS has passed since it opened, or once it holds ORDER_BATCH_MAX_ORDERS.
+   * The order must be received and have passed its checks; the batch hedges, mints and burns for it,
+   * leaving the USDC payout or refund to the caller.
+   * @param batchOrder - The order
+   * @returns What the batch did for the order, once the batch settled
+   * @throws OrderSagaError if the batch failed after hedging; its outcome applies to every order of the batch
+   */
+  submit(batchOrder: BatchOrder): Promise<BatchAllocation> {
+    const { asset, side } = batchOrder;
+    const chainId = batchOrder.order.chain_id;
+    const key = `${chainId}:${asset.id}`;
+
+    return new Promise<BatchAllocation>((resolve, reject) => {
+      let batch = this.pending.get(key);
+      if (!batch) {
+        batch = {
+          chainId,
+          asset,
+          entries: [],
+          timer: setTimeout(() => this.close(key), this.windowMs),
+        };
+        this.pending.set(key, batch);
+      }
+
+      batch.entries.push({ batchOrder, resolve, reject, settled: false });
+      this.logger.log(
+        `Order ${batchOrder.order.id} (${side} ${batchOrder.hedgeQty} ${asset.ticker}) queued for batching on chain ${chainId}`,
+      );
+
+      if (batch.entries.length >= this.maxOrders) {
+        clearTimeout(batch.timer);
+        this.close(key);
+      }
+    });
+  }
+
+  /**
+   * Get a batch with its allocations and steps
+   * @param id - The batch id
+   * @throws NotFoundException if the batch does not exist
+   */
+  async getBatch(id: string): Promise<OrderBatch> {
+    const { data, error } = await this.supabaseService
+      .getClient()
+      .from('order_batches')
+      .select(ORDER_BATCH_COLUMNS)
+      .eq('id', id)
+      .maybeSingle<OrderBatch>();
+
+    if (error) {
+      this.logger.error(`Error getting order batch ${id}:`, error);
+      throw error;
+    }
+    if (!data) {
+      throw new NotFoundException(`Order batch ${id} not found`);
+    }
+
+    return data;
+  }
+
+  // Queued orders have not been hedged, so they are failed and their logs retried after the restart
+  onModuleDestroy(): void {
+    for (const [key, batch] of this.pending) {
+      clearTimeout(batch.timer);
+      this.pending.delete(key);
+      for (const entry of batch.entries) {
+        entry.reject(
+          new Error('Shutting down before the order batch was executed'),
+        );
+      }
+    }
+  }
+
+  private close(key: string): void {
+    const batch = this.pending.get(key);
+    if (!batch) {
+      return;
+    }
+    this.pending.delete(key);
+    void this.execute(batch);
+  }
+
+  /**
+   * Execute a closed batch: one net Alpaca order for the asset, one batchMint for the buys and one batchBurn
+   * for the sells. Buys and sells offset each other first, so only the difference is hedged. Mints go before
+   * burns, so a user's sell may burn tokens bought in the same batch.
+   */
+  private async execute(pending: PendingBatch): Promise<void> {
+    const { chainId, asset, entries } = pending;
+    const quantity = (side: OrderSide) =>
+      entries
+        .filter((entry) => entry.batchOrder.side === side)
+        .reduce(
+          (total, entry) =>
+            total + parseAmount(entry.batchOrder.hedgeQty, ALPACA_QTY_DECIMALS),
+          0n,
+        );
+    const buyQty = quantity('buy');
+    const sellQty = quantity('sell');
+    const netQty = buyQty > sellQty ? buyQty - sellQty : sellQty - buyQty;
+    const netSide: OrderSide | null =
+      netQty === 0n ? null : buyQty > sellQty ? 'buy' : 'sell';
+
+    let batch: OrderBatch;
+    try {
+      batch = await this.createBatch(pending, buyQty, sellQty, netSide, netQty);
+    } catch (error) {
+      // Nothing was hedged yet, so the orders simply fail
+      this.logger.error(
+        `Failed to record a batch of ${entries.length} ${asset.ticker} orders:`,
+        error,
+      );
+      const failure =
+        error instanceof Error
+          ? error
+          : new Error(
+              `Failed to record the order batch: ${JSON.stringify(error)}`,
+            );
+      entries.forEach((entry) => entry.reject(failure));
+      return;
+    }
+    this.logger.log(
+      `Executing batch ${batch.id}: ${entries.length} ${asset.ticker} orders on chain ${chainId}, buying ${batch.buy_qty} and selling ${batch.sell_qty}, net ${netSide ?? 'none'} ${batch.net_qty}`,
+    );
+
+    let alpacaOrderId: string | undefined;
+    let fillPrice: string | undefined;
+    let newTokenReserve = '';
+    let mintTxHash: string | undefined;
+    let burnTxHash: string | undefined;
+    const active = () => entries.filter((entry) => !entry.settled);
+    const allocated = (side: OrderSide) =>
+      active().filter(
+        (entry) =>
+          entry.batchOrder.side === side &&
+          parseAmount(entry.allocatedAmount ?? '0', ASSET_DECIMALS) > 0n,
+      );
+
+    const steps: OrderStep[] = [
+      {
+        // Not retried: a failed request may still have placed the order
+        name: 'hedge',
+        retryable: false,
+        run: async () => {
+          if (netSide) {
+            const alpacaOrder = await this.alpacaService.placeOrder(
+              asset.broker_symbol,
+              formatAmount(netQty, ALPACA_QTY_DECIMALS),
+              netSide,
+            );
+            alpacaOrderId = alpacaOrder.id;
+            await this.updateBatch(batch.id, {
+              alpaca_order_id: alpacaOrderId,
+            });
+          }
+          for (const entry of entries) {
+            await this.advance(entry, 'hedge_submitted', {
+              alpacaOrderId,
+              batchId: batch.id,
+            });
+          }
+          return { alpacaOrderId };
+        },
+        compensate: async () => {
+          if (!alpacaOrderId || !netSide) {
+            return;
+          }
+          return this.alpacaService.unwindOrder(
+            asset.broker_symbol,
+            alpacaOrderId,
+            netSide,
+          );
+        },
+      },
+      {
+        name: 'hedge_fill',
+        retryable: true,
+        run: async () => {
+          let netFilled = 0n;
+          if (alpacaOrderId) {
+            const hedge = await this.alpacaService.settleOrder(alpacaOrderId);
+            netFilled = parseAmount(
+              roundDown(hedge.filled_qty ?? '0', ALPACA_QTY_DECIMALS).amount,
+              ALPACA_QTY_DECIMALS,
+            );
+            fillPrice = hedge.filled_avg_price ?? undefined;
+          }
+          fillPrice ??= await this.getCrossingPrice(batch.id, asset);
+
+          this.allocate(entries, netSide, netQty, netFilled);
+          for (const entry of active()) {
+            const { order, side } = entry.batchOrder;
+            if (parseAmount(entry.filledQty ?? '0', ALPACA_QTY_DECIMALS) > 0n) {
+              await this.advance(entry, 'hedge_filled', {
+                alpacaOrderId,
+                filledQty: entry.filledQty,
+                fillPrice,
+              });
+            } else if (side === 'sell') {
+              // As for a single order, a sell that filled nothing fails without touching the user's tokens
+              entry.settled = true;
+              entry.reject(
+                new Error(
+                  `Order ${order.id} was not filled by the net hedge of batch ${batch.id}`,
+                ),
+              );
+            }
+          }
+          await this.updateBatch(batch.id, {
+            filled_qty: formatAmount(netFilled, ALPACA_QTY_DECIMALS),
+            fill_price: fillPrice ?? null,
+            allocations: entries.map((entry) => ({
+              orderId: entry.batchOrder.order.id,
+              side: entry.batchOrder.side,
+              hedgeQty: entry.batchOrder.hedgeQty,
+              filledQty: entry.filledQty ?? '0',
+              tokenAmount: entry.allocatedAmount ?? '0',
+            })),
+          });
+          return { alpacaOrderId };
+        },
+      },
+      this.reserveStep(pending, active, (reserve) => {
+        newTokenReserve = reserve;
+      }),
+      {
+        name: 'mint',
+        retryable: true,
+        run: async () => {
+          const buys = allocated('buy');
+          if (buys.length === 0) {
+            return;
+          }
+          mintTxHash = await this.tokenService.batchMintTokens(
+            chainId,
+            asset.token_address,
+            this.toTokenAllocations(buys),
+            batch.id,
+          );
+          for (const entry of buys) {
+            await this.advance(entry, 'minted', { txHash: mintTxHash });
+          }
+          return { txHash: mintTxHash };
+        },
+        compensate: async () => {
+          if (!mintTxHash) {
+            return;
+          }
+          return {
+            txHash: await this.tokenService.batchBurnTokens(
+              chainId,
+              asset.token_address,
+              this.toTokenAllocations(allocated('buy')),
+              batch.id,
+            ),
+          };
+        },
+      },
+      {
+        // Last step of the batch, so it has nothing to undo
+        name: 'burn',
+        retryable: true,
+        run: async () => {
+          const sells = allocated('sell');
+          if (sells.length === 0) {
+            return;
+          }
+          burnTxHash = await this.tokenService.batchBurnTokens(
+            chainId,
+            asset.token_address,
+            this.toTokenAllocations(sells),
+            batch.id,
+          );
+          for (const entry of sells) {
+            await this.advance(entry, 'burned', { txHash: burnTxHash });
+          }
+          return { txHash: burnTxHash };
+        },
+      },
+    ];
+
+    try {
+      await this.orderSagaService.runFor(
+        {
+          label: `Batch ${batch.id}`,
+          recordSteps: (records) => this.recordSteps(batch.id, records),
+        },
+        steps,
+      );
+    } catch (error) {
+      // The saga only throws OrderSagaError; its outcome applies to every order still in the batch
+      const failure =
+        error instanceof OrderSagaError
+          ? error
+          : new OrderSagaError('manual_review', error, []);
+      await this.updateBatch(batch.id, {
+        status: failure.outcome,
+        error: failure.message,
+      });
+      this.logger.error(`Batch ${batch.id} ended ${failure.outcome}:`, error);
+      active().forEach((entry) => entry.reject(failure));
+      return;
+    }
+
+    await this.updateBatch(batch.id, {
+      status: 'settled',
+      mint_tx_hash: mintTxHash ?? null,
+      burn_tx_hash: burnTxHash ?? null,
+    });
+    for (const entry of active()) {
+      entry.settled = true;
+      entry.resolve({
+        batchId: batch.id,
+        alpacaOrderId,
+        filledQty: entry.filledQty ?? '0',
+        tokenAmount: entry.allocatedAmount ?? '0',
+        fillPrice,
+        txHash: entry.batchOrder.side === 'buy' ? mintTxHash : burnTxHash,
+        newTokenReserve,
+      });
+    }
+  }
+
+  /**
+   * Share the fill of the net hedge out. Orders on the side the broker order did not trade are filled in full
+   * by the other side; the side it traded shares what offset them plus what the broker filled, pro rata.
+   * Units left by rounding the shares down go to the largest remainders, so the whole fill is allocated.
+   */
+  private allocate(
+    entries: BatchEntry[],
+    netSide: OrderSide | null,
+    netQty: bigint,
+    netFilled: bigint,
+  ): void {
+    const qty = (entry: BatchEntry) =>
+      parseAmount(entry.batchOrder.hedgeQty, ALPACA_QTY_DECIMALS);
+    const shared = entries.filter((entry) => entry.batchOrder.side === netSide);
+    const sharedQty = shared.reduce((total, entry) => total + qty(entry), 0n);
+    const available = sharedQty - netQty + netFilled;
+
+    const filled = new Map<BatchEntry, bigint>();
+    const remainders: { entry: BatchEntry; remainder: bigint }[] = [];
+    for (const entry of entries) {
+      if (entry.batchOrder.side !== netSide || available >= sharedQty) {
+        filled.set(entry, qty(entry));
+        continue;
+      }
+      const scaled = qty(entry) * available;
+      filled.set(entry, scaled / sharedQty);
+      remainders.push({ entry, remainder: scaled % sharedQty });
+    }
+    let leftover =
+      available >= sharedQty
+        ? 0n
+        : available -
+          shared.reduce((total, entry) => total + filled.get(entry)!, 0n);
+    remainders.sort((a, b) =>
+      a.remainder === b.remainder ? 0 : a.remainder > b.remainder ? -1 : 1,
+    );
+    for (const { entry } of remainders) {
+      if (leftover === 0n) {
+        break;
+      }
+      filled.set(entry, filled.get(entry)! + 1n);
+      leftover--;
+    }
+
+    for (const entry of entries) {
+      const { hedgeQty, tokenAmount, tokenDecimals } = entry.batchOrder;
+      const entryFilled = filled.get(entry)!;
+      entry.filledQty = formatAmount(entryFilled, ALPACA_QTY_DECIMALS);
+      // Same scaling as a single order: a partial fill mints or burns the filled quantity at the token's decimals
+      entry.allocatedAmount =
+        entryFilled >= qty(entry)
+          ? tokenAmount
+          : roundDown(entry.filledQty, tokenDecimals).amount;
+      if (entryFilled < qty(entry)) {
+        this.logger.warn(
+          `Order ${entry.batchOrder.order.id}: batch filled ${entry.filledQty} of ${hedgeQty}`,
+        );
+      }
+    }
+  }
+
+  /**
+   * Apply the net token amount of the batch to the asset reserve; undone by applying the opposite delta
+   */
+  private reserveStep(
+    pending: PendingBatch,
+    active: () => BatchEntry[],
+    onReserve: (reserve: string) => void,
+  ): OrderStep {
+    const { chainId, asset } = pending;
+    let delta = 0n;
+    return {
+      name: 'reserve',
+      retryable: true,
+      run: async () => {
+        delta = active().reduce((total, entry) => {
+          const units = parseAmount(
+            entry.allocatedAmount ?? '0',
+            ASSET_DECIMALS,
+          );
+          return entry.batchOrder.side === 'buy'
+            ? total + units
+            : total - units;
+        }, 0n);
+        if (delta === 0n) {
+          const currentReserve = await this.supabaseService.getAssetReserve(
+            chainId,
+            asset.ticker,
+          );
+          onReserve(currentReserve?.reserve_amount ?? '0');
+          return;
+        }
+        const updatedReserve = await this.supabaseService.updateAssetReserve(
+          chainId,
+          asset.ticker,
+          delta,
+        );
+        onReserve(updatedReserve.reserve_amount);
+      },
+      compensate: async () => {
+        if (delta === 0n) {
+          return;
+        }
+        const restoredReserve = await this.supabaseService.updateAssetReserve(
+          chainId,
+          asset.ticker,
+          -delta,
+        );
+        onReserve(restoredReserve.reserve_amount);
+      },
+    };
+  }
+
+  // The price fully crossed orders settle at; informational, so a missing quote leaves it unset
+  private async getCrossingPrice(
+    batchId: string,
+    asset: Asset,
+  ): Promise<string | undefined> {
+    try {
+      return (
+        (await this.priceGuardService.getMidPrice(asset.broker_symbol)) ??
+        undefined
+      );
+    } catch (error) {
+      this.logger.error(
+        `Batch ${batchId}: failed to read the ${asset.broker_symbol} quote:`,
+        error,
+      );
+      return undefined;
+    }
+  }
+
+  private toTokenAllocations(entries: BatchEntry[]): TokenAllocation[] {
+    return entries.map((entry) => ({
+      userAddress: entry.batchOrder.orderRequest.user,
+      amount: entry.allocatedAmount ?? '0',
+    }));
+  }
+
+  // Transitions follow side effects that already happened, so a failure is logged rather than failing the batch
+  private async advance(
+    entry: BatchEntry,
+    to: OrderStatus,
+    details: OrderTransitionDetails,
+  ): Promise<void> {
+    const { order } = entry.batchOrder;
+    try {
+      entry.batchOrder.order = await this.orderLifecycleService.transition(
+        order,
+        to,
+        details,
+      );
+    } catch (error) {
+      this.logger.error(
+        `Failed to record order ${order.id} moving from ${order.status} to ${to}:`,
+        error,
+      );
+    }
+  }
+
+  private async createBatch(
+    pending: PendingBatch,
+    buyQty: bigint,
+    sellQty: bigint,
+    netSide: OrderSide | null,
+    netQty: bigint,
+  ): Promise<OrderBatch> {
+    const now = new Date().toISOString();
+    const { data, error } = await this.supabaseService
+      .getClient()
+      .from('order_batches')
+      .insert({
+        chain_id: pending.chainId,
+        asset_symbol: pending.asset.ticker,
+        token_address: pending.asset.token_address,
+        status: 'executing',
+        order_ids: pending.entries.map((entry) => entry.batchOrder.order.id),
+        buy_qty: formatAmount(buyQty, ALPACA_QTY_DECIMALS),
+        sell_qty: formatAmount(sellQty, ALPACA_QTY_DECIMALS),
+        net_side: netSide,
+        net_qty: formatAmount(netQty, ALPACA_QTY_DECIMALS),
+        allocations: [],
+        steps: [],
+        created_at: now,
+        updated_at: now,
+      })
+      .select(ORDER_BATCH_COLUMNS)
+      .single<OrderBatch>();
+
+    if (error) {
+      throw error;
+    }
+    return data;
+  }
+
+  // Batch records follow side effects that already happened, so a failure is logged rather than thrown
+  private async updateBatch(
+    id: string,
+    changes: Partial<OrderBatch>,
+  ): Promise<void> {
+    const { error } = await this.supabaseService
+      .getClient()
+      .from('order_batches')
+      .update({ ...changes, updated_at: new Date().toISOString() })
+      .eq('id', id);
+
+    if (error) {
+      this.logger.error(
+        `Failed to update order batch ${id} with ${JSON.stringify(changes)}:`,
+        error,
+      );
+    }
+  }
+
+  private async recordSteps(
+    id: string,
+    steps: OrderStepRecord[],
+  ): Promise<void> {
+    const { error } = await this.supabaseService
+      .getClient()
+      .from('order_batches')
+      .update({ steps, updated_at: new Date().toISOString() })
+      .eq('id', id);
+
+    if (error) {
+      this.logger.error(`Error recording steps of order batch ${id}:`, error);
+      throw error;
+    }
+  }
+}
+
+/**
+ * Map an order_batches row to its API representation
+ * @param batch - The batch row
+ * @returns The camel-cased API response
+ */
+export function toOrderBatchResponse(batch: OrderBatch): OrderBatchResponse {
+  return {
+    id: batch.id,
+    chainId: batch.chain_id,
+    assetSymbol: batch.asset_symbol,
+    tokenAddress: batch.token_address,
+    status: batch.status,
+    orderIds: batch.order_ids,
+    buyQty: batch.buy_qty,
+    sellQty: batch.sell_qty,
+    netSide: batch.net_side,
+    netQty: batch.net_qty,
+    alpacaOrderId: batch.alpaca_order_id,
+    filledQty: batch.filled_qty,
+    fillPrice: batch.fill_price,
+    mintTxHash: batch.mint_tx_hash,
+    burnTxHash: batch.burn_tx_hash,
+    allocations: batch.allocations ?? [],
+    steps: batch.steps ?? [],
+    error: batch.error,
+    createdAt: batch.created_at,
+    updatedAt: batch.updated_at,
+  };
+}
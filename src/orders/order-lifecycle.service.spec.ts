@@ -0,0 +1,141 @@
+import { ConflictException, Logger } from '@nestjs/common';
+import { InMemorySupabase } from '../../test/in-memory-supabase';
+import { OrderRequest } from '../shared/models/order-request.model';
+import {
+  Order,
+  OrderLifecycleService,
+  applyTransition,
+} from './order-lifecycle.service';
+
+const CHAIN_ID = 11155111;
+const USER = '0x00000000000000000000000000000000000000Bb';
+
+describe('OrderLifecycleService', () => {
+  let db: InMemorySupabase;
+  let lifecycle: OrderLifecycleService;
+
+  const orderRequest = {
+    user: USER,
+    token: '0x00000000000000000000000000000000000000AA',
+    assetSymbol: 'LQD',
+    usdcAmount: '10.5',
+    assetAmount: '0.1',
+    price: '105',
+    source: { chainId: CHAIN_ID, txHash: '0xABC', logIndex: 2, blockNumber: 1 },
+  } as OrderRequest;
+
+  beforeAll(() => {
+    Logger.overrideLogger(false);
+  });
+
+  beforeEach(() => {
+    db = new InMemorySupabase({
+      orders: [['chain_id', 'source_tx_hash', 'source_log_index']],
+    });
+    lifecycle = new OrderLifecycleService(db.service());
+  });
+
+  function statuses(order: Order): (string | null)[] {
+    return order.history.map(({ to }) => to);
+  }
+
+  it('records a received order with its source log', async () => {
+    const order = await lifecycle.receive(CHAIN_ID, 'buy', orderRequest);
+
+    expect(order).toMatchObject({
+      side: 'buy',
+      status: 'received',
+      user_address: USER.toLowerCase(),
+      source_tx_hash: '0xabc',
+      source_log_index: 2,
+      history: [{ from: null, to: 'received' }],
+    });
+  });
+
+  it('walks a buy through its lifecycle, storing what each step produced', async () => {
+    let order = await lifecycle.receive(CHAIN_ID, 'buy', orderRequest);
+    order = await lifecycle.transition(order, 'hedge_submitted', {
+      alpacaOrderId: 'alpaca-1',
+    });
+    order = await lifecycle.transition(order, 'hedge_filled', {
+      filledQty: '0.1',
+      fillPrice: '104.9',
+    });
+    order = await lifecycle.transition(order, 'minted', { txHash: '0xmint' });
+    order = await lifecycle.transition(order, 'settled');
+
+    expect(statuses(order)).toEqual([
+      'received',
+      'hedge_submitted',
+      'hedge_filled',
+      'minted',
+      'settled',
+    ]);
+    expect(await lifecycle.getOrder(order.id)).toMatchObject({
+      status: 'settled',
+      alpaca_order_id: 'alpaca-1',
+      filled_qty: '0.1',
+      fill_price: '104.9',
+      mint_tx_hash: '0xmint',
+    });
+  });
+
+  it.each([
+    ['received', 'minted'],
+    ['hedge_submitted', 'burned'],
+    ['refunded', 'received'],
+    ['rejected', 'received'],
+    ['manual_review', 'received'],
+  ] as const)('does not let an order move from %s to %s', (from, to) => {
+    const order = {
+      id: 'order-1',
+      status: from,
+      history: [],
+    } as unknown as Order;
+
+    expect(() => applyTransition(order, to)).toThrow(
+      `Order order-1 cannot move from ${from} to ${to}`,
+    );
+  });
+
+  it('refuses to move an order that another caller moved first', async () => {
+    const order = await lifecycle.receive(CHAIN_ID, 'buy', orderRequest);
+    await lifecycle.transition(order, 'held', { error: 'price deviation' });
+
+    await expect(
+      lifecycle.transition(order, 'rejected'),
+    ).rejects.toBeInstanceOf(ConflictException);
+  });
+
+  it('restarts the order of a log that failed before, keeping its history', async () => {
+    const first = await lifecycle.receive(CHAIN_ID, 'buy', orderRequest);
+    await lifecycle.transition(first, 'failed', { error: 'broker down' });
+
+    const restarted = await lifecycle.receive(CHAIN_ID, 'buy', orderRequest);
+
+    expect(restarted.id).toBe(first.id);
+    expect(restarted.error).toBeNull();
+    expect(statuses(restarted)).toEqual(['received', 'failed', 'received']);
+  });
+
+  it('sums the notional of executing and executed orders only', async () => {
+    const since = new Date(Date.now() - 1000).toISOString();
+    const executing = await lifecycle.receive(CHAIN_ID, 'buy', orderRequest);
+    await lifecycle.transition(executing, 'hedge_submitted');
+    const held = await lifecycle.receive(CHAIN_ID, 'buy', {
+      ...orderRequest,
+      usdcAmount: '100',
+      source: { ...orderRequest.source!, logIndex: 3 },
+    });
+    await lifecycle.transition(held, 'held');
+    const checked = await lifecycle.receive(CHAIN_ID, 'buy', {
+      ...orderRequest,
+      usdcAmount: '1000',
+      source: { ...orderRequest.source!, logIndex: 4 },
+    });
+
+    await expect(
+      lifecycle.sumUserNotional(USER, since, checked.id),
+    ).resolves.toBe('10.5');
+  });
+});
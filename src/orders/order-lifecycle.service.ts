@@ -0,0 +1,559 @@
+import {
+  ConflictException,
+  Injectable,
+  Logger,
+  NotFoundException,
+} from '@nestjs/common';
+import { SupabaseService } from '../supabase/supabase.service';
+import { OrderRequest } from '../shared/models/order-request.model';
+import { OrderRecordResponse } from '../shared/models/order-record-response.model';
+import { OrderStepRecord } from './order-saga.service';
+import type { RiskLimit } from './risk-limits.service';
+import {
+  USDC_DECIMALS,
+  formatAmount,
+  parseAmount,
+} from '../shared/utils/amounts';
+
+export type OrderSide = 'buy' | 'sell';
+
+/**
+ * Where an order is in its lifecycle.
+ * Buys run received → hedge_submitted → hedge_filled → minted → settled, passing usdc_refunded when the hedge
+ * only partly filled; a buy whose hedge did not fill at all goes hedge_submitted → usdc_refunded → settled.
+ * Sells run received → hedge_submitted → hedge_filled → burned → usdc_paid → settled.
+ * A failed order is compensated once its steps are rolled back, or held in manual_review when they could not be.
+ * An order whose price is too far from the broker quote, or that breaches a risk limit, is held until an operator
+ * approves it (back to received) or rejects it, which refunds the USDC of a buy.
+ * An order received while the market is closed is queued, and goes back to received at the next open.
+ * A buy that failed because it cannot be fulfilled (user not verified, signer not an agent, hedge rejected) is refunded.
+ */
+export type OrderStatus =
+  | 'received'
+  | 'queued'
+  | 'held'
+  | 'rejected'
+  | 'hedge_submitted'
+  | 'hedge_filled'
+  | 'minted'
+  | 'burned'
+  | 'usdc_paid'
+  | 'usdc_refunded'
+  | 'settled'
+  | 'failed'
+  | 'compensated'
+  | 'refunded'
+  | 'manual_review';
+
+export const ORDER_STATUSES: OrderStatus[] = [
+  'received',
+  'queued',
+  'held',
+  'rejected',
+  'hedge_submitted',
+  'hedge_filled',
+  'minted',
+  'burned',
+  'usdc_paid',
+  'usdc_refunded',
+  'settled',
+  'failed',
+  'compensated',
+  'refunded',
+  'manual_review',
+];
+
+// Allowed transitions. Nothing is minted or burned before the hedge is filled.
+const ORDER_TRANSITIONS: Record<OrderStatus, OrderStatus[]> = {
+  received: ['queued', 'held', 'rejected', 'hedge_submitted', 'failed'],
+  // Executed at the market open, or failed if that goes wrong before anything was hedged
+  queued: ['received', 'failed'],
+  held: ['received', 'rejected', 'failed'],
+  rejected: [],
+  hedge_submitted: ['hedge_filled', 'usdc_refunded', 'failed'],
+  hedge_filled: ['minted', 'burned', 'failed'],
+  minted: ['usdc_refunded', 'settled', 'failed', 'compensated'],
+  burned: ['usdc_paid', 'failed'],
+  usdc_paid: ['settled', 'failed'],
+  usdc_refunded: ['settled', 'failed'],
+  settled: ['compensated'],
+  // A failed order whose source log is retried starts over
+  failed: ['received', 'compensated', 'refunded', 'manual_review'],
+  compensated: ['received', 'refunded', 'manual_review'],
+  // The USDC of a buy that cannot be fulfilled was returned; nothing is left to do
+  refunded: [],
+  // Only an operator settles an order under review
+  manual_review: ['compensated'],
+};
+
+// What a transition produced; stored on the order and in its history entry
+export interface OrderTransitionDetails {
+  alpacaOrderId?: string;
+  // Batch the order is netted and settled in, on hedge_submitted
+  batchId?: string;
+  txHash?: string;
+  // Quantity and average price the hedge filled at, on hedge_filled
+  filledQty?: string;
+  fillPrice?: string;
+  // USDC returned for the unfilled part of a buy, on usdc_refunded, or for a rejected or refunded buy
+  refundAmount?: string;
+  // USDC kept from the refund of a buy that cannot be fulfilled, on refunded
+  refundFee?: string;
+  // When a queued order is expected to execute: the next market open, on queued
+  executeAfter?: string;
+  // Broker quote the order price was checked against, on held and rejected
+  quotePrice?: string;
+  priceDeviationBps?: number;
+  // Risk limit the order breached, on held
+  riskLimit?: RiskLimit;
+  error?: string;
+}
+
+export interface OrderTransition extends OrderTransitionDetails {
+  from: OrderStatus | null;
+  to: OrderStatus;
+  at: string;
+}
+
+// Row shape of the orders table, unique on (chain_id, source_tx_hash, source_log_index) for orders from a log
+export interface Order {
+  id: string;
+  chain_id: number;
+  side: OrderSide;
+  user_address: string;
+  token_address: string;
+  asset_symbol: string;
+  // Decimal strings; the numeric columns are read as text so no precision is lost in JSON
+  usdc_amount: string;
+  asset_amount: string;
+  price: string;
+  status: OrderStatus;
+  source_tx_hash: string | null;
+  source_log_index: number | null;
+  alpaca_order_id: string | null;
+  mint_tx_hash: string | null;
+  burn_tx_hash: string | null;
+  withdraw_tx_hash: string | null;
+  filled_qty: string | null;
+  fill_price: string | null;
+  refund_amount: string | null;
+  refund_tx_hash: string | null;
+  // Batch of the latest execution, when orders are batched
+  batch_id: string | null;
+  // Next market open, when the order was last queued
+  execute_after: string | null;
+  error: string | null;
+  history: OrderTransition[];
+  // Outcome of each step of the latest execution, including compensations
+  steps: OrderStepRecord[];
+  created_at: string;
+  updated_at: string;
+}
+
+export interface OrderFilter {
+  chainId?: number;
+  userAddress?: string;
+  assetSymbol?: string;
+  status?: OrderStatus;
+  batchId?: string;
+  // Oldest first instead of newest first
+  oldestFirst?: boolean;
+  limit?: number;
+}
+
+const ORDER_COLUMNS =
+  'id, chain_id, side, user_address, token_address, asset_symbol, usdc_amount::text, asset_amount::text, price::text, status, source_tx_hash, source_log_index, alpaca_order_id, mint_tx_hash, burn_tx_hash, withdraw_tx_hash, filled_qty::text, fill_price::text, refund_amount::text, refund_tx_hash, batch_id, execute_after, error, history, steps, created_at, updated_at';
+
+// Statuses of orders that hold no notional: parked, turned down, or rolled back
+const NOTIONAL_FREE_STATUSES: OrderStatus[] = [
+  'queued',
+  'held',
+  'rejected',
+  'failed',
+  'compensated',
+  'refunded',
+];
+
+// Postgres unique_violation, returned when an order for the source log already exists
+const UNIQUE_VIOLATION = '23505';
+
+/**
+ * Compute the state an order moves to, without persisting it
+ * @param order - The order in its current state
+ * @param to - The status to move to
+ * @param details - Alpaca order id, transaction hash or error produced by the step
+ * @throws Error if the lifecycle does not allow the transition
+ */
+export function applyTransition(
+  order: Order,
+  to: OrderStatus,
+  details: OrderTransitionDetails = {},
+): Order {
+  if (!ORDER_TRANSITIONS[order.status].includes(to)) {
+    throw new Error(
+      `Order ${order.id} cannot move from ${order.status} to ${to}`,
+    );
+  }
+
+  const at = new Date().toISOString();
+  const next: Order = {
+    ...order,
+    status: to,
+    history: [...order.history, { from: order.status, to, at, ...details }],
+    updated_at: at,
+  };
+  if (details.alpacaOrderId) {
+    next.alpaca_order_id = details.alpacaOrderId;
+  }
+  if (details.txHash && to === 'minted') {
+    next.mint_tx_hash = details.txHash;
+  }
+  if (details.txHash && to === 'burned') {
+    next.burn_tx_hash = details.txHash;
+  }
+  if (details.txHash && to === 'usdc_paid') {
+    next.withdraw_tx_hash = details.txHash;
+  }
+  if (details.filledQty) {
+    next.filled_qty = details.filledQty;
+  }
+  if (details.fillPrice) {
+    next.fill_price = details.fillPrice;
+  }
+  if (details.refundAmount) {
+    next.refund_amount = details.refundAmount;
+  }
+  if (
+    details.txHash &&
+    (to === 'usdc_refunded' || to === 'rejected' || to === 'refunded')
+  ) {
+    next.refund_tx_hash = details.txHash;
+  }
+  if (details.executeAfter) {
+    next.execute_after = details.executeAfter;
+  }
+  // A restarted order may run alone or in another batch
+  if (details.batchId || to === 'received') {
+    next.batch_id = details.batchId ?? null;
+  }
+  // The error describes the latest failure, or why the order is held, rejected or refunded; a restarted order clears it
+  next.error = ['failed', 'held', 'rejected', 'refunded'].includes(to)
+    ? (details.error ?? null)
+    : null;
+  return next;
+}
+
+@Injectable()
+export class OrderLifecycleService {
+  private readonly logger = new Logger(OrderLifecycleService.name);
+
+  constructor(private readonly supabaseService: SupabaseService) {}
+
+  /**
+   * Record a newly received order.
+   * An order whose source log was attempted before is restarted instead, keeping its history.
+   * @param chainId - The chain the order is executed on
+   * @param side - Buy or sell
+   * @param orderRequest - The order details
+   * @returns The order in status received
+   */
+  async receive(
+    chainId: number,
+    side: OrderSide,
+    orderRequest: OrderRequest,
+  ): Promise<Order> {
+    const { source } = orderRequest;
+    const now = new Date().toISOString();
+    const { data, error } = await this.supabaseService
+      .getClient()
+      .from('orders')
+      .insert({
+        chain_id: chainId,
+        side,
+        user_address: orderRequest.user.toLowerCase(),
+        token_address: orderRequest.token.toLowerCase(),
+        asset_symbol: orderRequest.assetSymbol,
+        usdc_amount: orderRequest.usdcAmount,
+        asset_amount: orderRequest.assetAmount,
+        price: orderRequest.price,
+        status: 'received',
+        source_tx_hash: source?.txHash.toLowerCase() ?? null,
+        source_log_index: source?.logIndex ?? null,
+        history: [{ from: null, to: 'received', at: now }],
+        steps: [],
+        created_at: now,
+        updated_at: now,
+      })
+      .select(ORDER_COLUMNS)
+      .single<Order>();
+
+    if (!error) {
+      this.logger.log(
+        `Received ${side} order ${data.id} for ${orderRequest.assetAmount} ${orderRequest.assetSymbol} on chain ${chainId}`,
+      );
+      return data;
+    }
+    if (error.code !== UNIQUE_VIOLATION || !source) {
+      this.logger.error(`Error recording ${side} order:`, error);
+      throw error;
+    }
+
+    // The processed-events ledger only lets a failed or compensated log through again
+    const existing = await this.findBySource(
+      chainId,
+      source.txHash,
+      source.logIndex,
+    );
+    if (!existing) {
+      throw error;
+    }
+    this.logger.log(
+      `Restarting ${side} order ${existing.id} from status ${existing.status}`,
+    );
+    return this.transition(existing, 'received');
+  }
+
+  /**
+   * Move an order to its next status and persist it with a timestamped history entry
+   * @param order - The order in its current state
+   * @param to - The status to move to
+   * @param details - Alpaca order id, transaction hash or error produced by the step
+   * @returns The updated order
+   * @throws ConflictException if the stored order is no longer in the given status
+   */
+  async transition(
+    order: Order,
+    to: OrderStatus,
+    details: OrderTransitionDetails = {},
+  ): Promise<Order> {
+    const next = applyTransition(order, to, details);
+    const { data, error } = await this.supabaseService
+      .getClient()
+      .from('orders')
+      .update({
+        status: next.status,
+        alpaca_order_id: next.alpaca_order_id,
+        mint_tx_hash: next.mint_tx_hash,
+        burn_tx_hash: next.burn_tx_hash,
+        withdraw_tx_hash: next.withdraw_tx_hash,
+        filled_qty: next.filled_qty,
+        fill_price: next.fill_price,
+        refund_amount: next.refund_amount,
+        refund_tx_hash: next.refund_tx_hash,
+        batch_id: next.batch_id,
+        execute_after: next.execute_after,
+        error: next.error,
+        history: next.history,
+        updated_at: next.updated_at,
+      })
+      .eq('id', order.id)
+      // Two callers acting on the same order, e.g. approving it twice, cannot both move it
+      .eq('status', order.status)
+      .select(ORDER_COLUMNS)
+      .maybeSingle<Order>();
+
+    if (error) {
+      this.logger.error(
+        `Error moving order ${order.id} from ${order.status} to ${to}:`,
+        error,
+      );
+      throw error;
+    }
+    if (!data) {
+      throw new ConflictException(
+        `Order ${order.id} is no longer ${order.status}`,
+      );
+    }
+
+    this.logger.log(`Order ${order.id}: ${order.status} → ${to}`);
+    return data;
+  }
+
+  /**
+   * Store the step records of an order's latest execution
+   * @param id - The order id
+   * @param steps - The step records, replacing those of any earlier execution
+   */
+  async recordSteps(id: string, steps: OrderStepRecord[]): Promise<void> {
+    const { error } = await this.supabaseService
+      .getClient()
+      .from('orders')
+      .update({ steps, updated_at: new Date().toISOString() })
+      .eq('id', id);
+
+    if (error) {
+      this.logger.error(`Error recording steps of order ${id}:`, error);
+      throw error;
+    }
+  }
+
+  /**
+   * Get an order
+   * @param id - The order id
+   * @throws NotFoundException if the order does not exist
+   */
+  async getOrder(id: string): Promise<Order> {
+    const { data, error } = await this.supabaseService
+      .getClient()
+      .from('orders')
+      .select(ORDER_COLUMNS)
+      .eq('id', id)
+      .maybeSingle<Order>();
+
+    if (error) {
+      this.logger.error(`Error getting order ${id}:`, error);
+      throw error;
+    }
+    if (!data) {
+      throw new NotFoundException(`Order ${id} not found`);
+    }
+
+    return data;
+  }
+
+  /**
+   * Find the order created for an on-chain log
+   * @param chainId - The chain the log was emitted on
+   * @param txHash - Transaction hash of the log
+   * @param logIndex - Index of the log
+   * @returns The order, or null if the log never produced one
+   */
+  async findBySource(
+    chainId: number,
+    txHash: string,
+    logIndex: number,
+  ): Promise<Order | null> {
+    const { data, error } = await this.supabaseService
+      .getClient()
+      .from('orders')
+      .select(ORDER_COLUMNS)
+      .eq('chain_id', chainId)
+      .eq('source_tx_hash', txHash.toLowerCase())
+      .eq('source_log_index', logIndex)
+      .maybeSingle<Order>();
+
+    if (error) {
+      this.logger.error(
+        `Error finding order of log ${txHash}:${logIndex} on chain ${chainId}:`,
+        error,
+      );
+      throw error;
+    }
+
+    return data;
+  }
+
+  /**
+   * Sum the USDC a user ordered since a point in time, over every chain, counting orders that are executing or
+   * executed. Parked, rejected and rolled-back orders are left out, and so is the order being checked.
+   * @param userAddress - The user
+   * @param since - Start of the period, as an ISO timestamp
+   * @param excludeOrderId - The order being checked
+   * @returns The ordered USDC, as a decimal string
+   */
+  async sumUserNotional(
+    userAddress: string,
+    since: string,
+    excludeOrderId: string,
+  ): Promise<string> {
+    const { data, error } = await this.supabaseService
+      .getClient()
+      .from('orders')
+      .select('usdc_amount::text')
+      .eq('user_address', userAddress.toLowerCase())
+      .gte('created_at', since)
+      .neq('id', excludeOrderId)
+      .not('status', 'in', `(${NOTIONAL_FREE_STATUSES.join(',')})`)
+      .returns<{ usdc_amount: string }[]>();
+
+    if (error) {
+      this.logger.error(
+        `Error summing the orders of ${userAddress} since ${since}:`,
+        error,
+      );
+      throw error;
+    }
+
+    const total = (data ?? []).reduce(
+      (sum, row) => sum + parseAmount(row.usdc_amount, USDC_DECIMALS),
+      0n,
+    );
+    return formatAmount(total, USDC_DECIMALS);
+  }
+
+  /**
+   * List orders, newest first
+   * @param filter - Optional chain, user, asset and status filters
+   */
+  async findOrders(filter: OrderFilter): Promise<Order[]> {
+    let query = this.supabaseService
+      .getClient()
+      .from('orders')
+      .select(ORDER_COLUMNS);
+
+    if (filter.chainId !== undefined) {
+      query = query.eq('chain_id', filter.chainId);
+    }
+    if (filter.userAddress) {
+      query = query.eq('user_address', filter.userAddress.toLowerCase());
+    }
+    if (filter.assetSymbol) {
+      query = query.eq('asset_symbol', filter.assetSymbol);
+    }
+    if (filter.status) {
+      query = query.eq('status', filter.status);
+    }
+    if (filter.batchId) {
+      query = query.eq('batch_id', filter.batchId);
+    }
+
+    const { data, error } = await query
+      .order('created_at', { ascending: filter.oldestFirst ?? false })
+      .limit(filter.limit ?? 100)
+      .returns<Order[]>();
+
+    if (error) {
+      this.logger.error('Error listing orders:', error);
+      throw error;
+    }
+
+    return data ?? [];
+  }
+}
+
+/**
+ * Map an orders row to its API representation
+ * @param order - The order row
+ * @returns The camel-cased API response, including the transition history
+ */
+export function toOrderRecordResponse(order: Order): OrderRecordResponse {
+  return {
+    id: order.id,
+    chainId: order.chain_id,
+    side: order.side,
+    userAddress: order.user_address,
+    tokenAddress: order.token_address,
+    assetSymbol: order.asset_symbol,
+    usdcAmount: order.usdc_amount,
+    assetAmount: order.asset_amount,
+    price: order.price,
+    status: order.status,
+    sourceTxHash: order.source_tx_hash,
+    sourceLogIndex: order.source_log_index,
+    alpacaOrderId: order.alpaca_order_id,
+    mintTxHash: order.mint_tx_hash,
+    burnTxHash: order.burn_tx_hash,
+    withdrawTxHash: order.withdraw_tx_hash,
+    filledQty: order.filled_qty,
+    fillPrice: order.fill_price,
+    refundAmount: order.refund_amount,
+    refundTxHash: order.refund_tx_hash,
+    batchId: order.batch_id,
+    executeAfter: order.execute_after,
+    error: order.error,
+    history: order.history,
+    steps: order.steps ?? [],
+    createdAt: order.created_at,
+    updatedAt: order.updated_at,
+  };
+}
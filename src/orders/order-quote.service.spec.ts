@@ -0,0 +1,188 @@
+import { BadRequestException, Logger } from '@nestjs/common';
+import { Asset, AssetRegistryService } from '../assets/asset-registry.service';
+import { OrderQuoteRequestDto } from '../shared/models/order-quote-request.dto';
+import { SupabaseService } from '../supabase/supabase.service';
+import { DeploymentRegistry } from '../web3/providers/deployment.registry';
+import { TokenService } from '../web3/services/token.service';
+import { MarketHoursService } from './market-hours.service';
+import { OrderQuoteService } from './order-quote.service';
+import { PriceGuardService } from './price-guard.service';
+import { RefundService } from './refund.service';
+import { ReserveHoldsService } from './reserve-holds.service';
+import { RiskLimitsService } from './risk-limits.service';
+
+const CHAIN_ID = 11155111;
+const USER = '0x00000000000000000000000000000000000000bb';
+
+describe('OrderQuoteService', () => {
+  let asset: Asset;
+  let quotePrice: string | null;
+  let marketOpen: boolean;
+  let killSwitch: { engaged: boolean; reason: string | null };
+  let heldSells: string;
+  let estimateTokenGas: jest.Mock;
+  let quotes: OrderQuoteService;
+
+  beforeAll(() => {
+    Logger.overrideLogger(false);
+  });
+
+  beforeEach(() => {
+    asset = {
+      chain_id: CHAIN_ID,
+      ticker: 'LQD',
+      broker_symbol: 'LQD',
+      token_address: '0xaa',
+      decimals: 6,
+      enabled: true,
+    } as Asset;
+    quotePrice = '3.0';
+    marketOpen = true;
+    killSwitch = { engaged: false, reason: null };
+    heldSells = '0.0';
+    estimateTokenGas = jest
+      .fn()
+      .mockResolvedValue({ gasLimit: 100000n, gasPrice: 2000000000n });
+
+    quotes = new OrderQuoteService(
+      {
+        getAssetReserve: () => Promise.resolve({ reserve_amount: '10' }),
+      } as unknown as SupabaseService,
+      {
+        verifyUserIdentity: () => Promise.resolve(true),
+        estimateTokenGas,
+      } as unknown as TokenService,
+      {
+        resolve: () => ({ chainId: CHAIN_ID }),
+      } as unknown as DeploymentRegistry,
+      {
+        getByTicker: () => Promise.resolve(asset),
+      } as unknown as AssetRegistryService,
+      {
+        getQuotePrice: () => Promise.resolve(quotePrice),
+      } as unknown as PriceGuardService,
+      {
+        getClock: () =>
+          Promise.resolve({
+            is_open: marketOpen,
+            next_open: '2026-01-05T14:30:00Z',
+          }),
+      } as unknown as MarketHoursService,
+      {
+        getStatus: () => Promise.resolve({ killSwitch }),
+      } as unknown as RiskLimitsService,
+      { getFee: () => '1.0' } as unknown as RefundService,
+      {
+        getHeldAmount: () => heldSells,
+      } as unknown as ReserveHoldsService,
+    );
+  });
+
+  function request(
+    fields: Partial<OrderQuoteRequestDto>,
+  ): OrderQuoteRequestDto {
+    return { symbol: 'LQD', side: 'buy', ...fields } as OrderQuoteRequestDto;
+  }
+
+  it('quotes the tokens a buy mints at the ask, rounded down to the token decimals', async () => {
+    await expect(
+      quotes.quote(request({ usdcAmount: '10' })),
+    ).resolves.toMatchObject({
+      referencePrice: '3.0',
+      usdcAmount: '10.0',
+      assetAmount: '3.333333333333333333',
+      tokenAmount: '3.333333',
+      fees: { tradingFee: '0', refundFee: '1.0' },
+      estimatedGas: null,
+      isVerified: null,
+      tradable: true,
+      reasons: [],
+    });
+  });
+
+  it('quotes the USDC a sell of an asset amount pays out', async () => {
+    await expect(
+      quotes.quote(request({ side: 'sell', assetAmount: '2.5' })),
+    ).resolves.toMatchObject({
+      usdcAmount: '7.5',
+      tokenAmount: '2.5',
+      fees: { refundFee: null },
+      tradable: true,
+    });
+  });
+
+  it.each([
+    ['neither amount', {}],
+    ['both amounts', { usdcAmount: '1', assetAmount: '1' }],
+  ])('refuses a request with %s', async (_, amounts) => {
+    await expect(quotes.quote(request(amounts))).rejects.toBeInstanceOf(
+      BadRequestException,
+    );
+  });
+
+  it('refuses an amount with more decimals than the currency', async () => {
+    await expect(
+      quotes.quote(request({ usdcAmount: '1.0000001' })),
+    ).rejects.toThrow('usdcAmount 1.0000001 has more than 6 decimals');
+  });
+
+  it('lists every reason the order would not execute right now', async () => {
+    asset.enabled = false;
+    marketOpen = false;
+    killSwitch = { engaged: true, reason: 'broker outage' };
+    quotePrice = null;
+
+    await expect(
+      quotes.quote(request({ usdcAmount: '10' })),
+    ).resolves.toMatchObject({
+      assetAmount: null,
+      tradable: false,
+      reasons: [
+        `Asset LQD is disabled on chain ${CHAIN_ID}`,
+        'Market closed until 2026-01-05T14:30:00Z',
+        'Kill switch engaged: broker outage',
+        'No ask quote for LQD',
+      ],
+    });
+  });
+
+  it('flags a sell the reserve cannot cover, net of the sells executing', async () => {
+    heldSells = '8';
+
+    await expect(
+      quotes.quote(request({ side: 'sell', assetAmount: '2.5' })),
+    ).resolves.toMatchObject({
+      tradable: false,
+      reasons: ['Insufficient reserves. Available: 2.0, Requested: 2.5'],
+    });
+  });
+
+  it('checks the user and estimates the mint for a given user', async () => {
+    await expect(
+      quotes.quote(request({ usdcAmount: '10', user: USER })),
+    ).resolves.toMatchObject({
+      isVerified: true,
+      estimatedGas: {
+        action: 'mint',
+        gasLimit: '100000',
+        gasPrice: '2000000000',
+        cost: '0.0002',
+      },
+    });
+    expect(estimateTokenGas).toHaveBeenCalledWith(
+      CHAIN_ID,
+      'mint',
+      USER,
+      '0xaa',
+      '3.333333',
+    );
+  });
+
+  it('leaves the gas out when the transaction would revert for the user', async () => {
+    estimateTokenGas.mockRejectedValue(new Error('execution reverted'));
+
+    await expect(
+      quotes.quote(request({ usdcAmount: '10', user: USER })),
+    ).resolves.toMatchObject({ estimatedGas: null });
+  });
+});
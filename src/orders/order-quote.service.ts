@@ -0,0 +1,252 @@
+import { BadRequestException, Injectable, Logger } from '@nestjs/common';
+import { ethers } from 'ethers';
+import { SupabaseService } from '../supabase/supabase.service';
+import { TokenService } from '../web3/services/token.service';
+import { DeploymentRegistry } from '../web3/providers/deployment.registry';
+import { Asset, AssetRegistryService } from '../assets/asset-registry.service';
+import { OrderQuoteRequestDto } from '../shared/models/order-quote-request.dto';
+import {
+  OrderQuoteResponse,
+  QuoteGasResponse,
+} from '../shared/models/order-quote-response.model';
+import {
+  ASSET_DECIMALS,
+  PRICE_DECIMALS,
+  USDC_DECIMALS,
+  formatAmount,
+  parseAmount,
+  roundDown,
+} from '../shared/utils/amounts';
+import { PriceGuardService } from './price-guard.service';
+import { MarketHoursService } from './market-hours.service';
+import { RiskLimitsService } from './risk-limits.service';
+import { RefundService } from './refund.service';
+import { ReserveHoldsService } from './reserve-holds.service';
+
+// Converts between USDC and asset base units at a price: asset = usdc * scale / price
+const CONVERSION_SCALE =
+  10n ** BigInt(ASSET_DECIMALS + PRICE_DECIMALS - USDC_DECIMALS);
+
+@Injectable()
+export class OrderQuoteService {
+  private readonly logger = new Logger(OrderQuoteService.name);
+
+  constructor(
+    private readonly supabaseService: SupabaseService,
+    private readonly tokenService: TokenService,
+    private readonly deploymentRegistry: DeploymentRegistry,
+    private readonly assetRegistryService: AssetRegistryService,
+    private readonly priceGuardService: PriceGuardService,
+    private readonly marketHoursService: MarketHoursService,
+    private readonly riskLimitsService: RiskLimitsService,
+    private readonly refundService: RefundService,
+    private readonly reserveHoldsService: ReserveHoldsService,
+  ) {}
+
+  /**
+   * Quote an order before the user signs buyAsset or sellAsset: what it would mint or burn at the current broker price,
+   * its fees and gas, and whether it would execute right now. Only reads; nothing is reserved or sent.
+   * @param request - The asset, side and either amount of the order
+   * @throws BadRequestException if neither or both amounts are given, an amount has too many decimals,
+   * or the asset is not registered
+   */
+  async quote(request: OrderQuoteRequestDto): Promise<OrderQuoteResponse> {
+    if (
+      (request.usdcAmount === undefined) ===
+      (request.assetAmount === undefined)
+    ) {
+      throw new BadRequestException('Give either usdcAmount or assetAmount');
+    }
+
+    const { chainId } = this.deploymentRegistry.resolve(request.chainId);
+    const asset = await this.assetRegistryService.getByTicker(
+      chainId,
+      request.symbol,
+    );
+    const [referencePrice, clock, risk] = await Promise.all([
+      this.priceGuardService.getQuotePrice(asset.broker_symbol, request.side),
+      this.marketHoursService.getClock(),
+      this.riskLimitsService.getStatus(),
+    ]);
+
+    const { usdcAmount, assetAmount } = this.convert(request, referencePrice);
+    const tokenAmount =
+      assetAmount === null ? null : roundDown(assetAmount, asset.decimals);
+
+    const reasons: string[] = [];
+    if (!asset.enabled) {
+      reasons.push(`Asset ${asset.ticker} is disabled on chain ${chainId}`);
+    }
+    if (!clock.is_open) {
+      reasons.push(`Market closed until ${clock.next_open}`);
+    }
+    if (risk.killSwitch.engaged) {
+      reasons.push(
+        `Kill switch engaged${risk.killSwitch.reason ? `: ${risk.killSwitch.reason}` : ''}`,
+      );
+    }
+    if (referencePrice === null) {
+      reasons.push(
+        `No ${request.side === 'buy' ? 'ask' : 'bid'} quote for ${asset.broker_symbol}`,
+      );
+    }
+    if (request.side === 'sell' && tokenAmount !== null) {
+      const shortfall = await this.getReserveShortfall(
+        asset,
+        tokenAmount.amount,
+      );
+      if (shortfall) {
+        reasons.push(shortfall);
+      }
+    }
+
+    const [isVerified, estimatedGas] = request.user
+      ? await Promise.all([
+          this.tokenService.verifyUserIdentity(chainId, request.user),
+          tokenAmount === null
+            ? null
+            : this.estimateGas(
+                asset,
+                request.side,
+                request.user,
+                tokenAmount.amount,
+              ),
+        ])
+      : [null, null];
+
+    return {
+      chainId,
+      assetSymbol: asset.ticker,
+      tokenAddress: asset.token_address,
+      side: request.side,
+      referencePrice,
+      usdcAmount,
+      assetAmount,
+      tokenAmount: tokenAmount?.amount ?? null,
+      fees: {
+        tradingFee: '0',
+        refundFee:
+          request.side === 'buy' && usdcAmount !== null
+            ? this.refundService.getFee(usdcAmount)
+            : null,
+      },
+      estimatedGas,
+      isVerified,
+      marketOpen: clock.is_open,
+      tradable: reasons.length === 0,
+      reasons,
+    };
+  }
+
+  /**
+   * Derive the amount that was not given from the one that was, at the reference price, rounded down
+   */
+  private convert(
+    request: OrderQuoteRequestDto,
+    price: string | null,
+  ): { usdcAmount: string | null; assetAmount: string | null } {
+    const priceUnits =
+      price === null ? null : parseAmount(price, PRICE_DECIMALS);
+
+    if (request.usdcAmount !== undefined) {
+      const usdc = this.parse(request.usdcAmount, USDC_DECIMALS, 'usdcAmount');
+      return {
+        usdcAmount: formatAmount(usdc, USDC_DECIMALS),
+        assetAmount: priceUnits
+          ? formatAmount((usdc * CONVERSION_SCALE) / priceUnits, ASSET_DECIMALS)
+          : null,
+      };
+    }
+
+    const assetUnits = this.parse(
+      request.assetAmount ?? '0',
+      ASSET_DECIMALS,
+      'assetAmount',
+    );
+    return {
+      usdcAmount: priceUnits
+        ? formatAmount(
+            (assetUnits * priceUnits) / CONVERSION_SCALE,
+            USDC_DECIMALS,
+          )
+        : null,
+      assetAmount: formatAmount(assetUnits, ASSET_DECIMALS),
+    };
+  }
+
+  private parse(amount: string, decimals: number, field: string): bigint {
+    try {
+      return parseAmount(amount, decimals);
+    } catch {
+      throw new BadRequestException(
+        `${field} ${amount} has more than ${decimals} decimals`,
+      );
+    }
+  }
+
+  /**
+   * Why the reserve of an asset cannot cover a sell, net of the sells already executing
+   * @param tokenAmount - Tokens the sell would burn, as a decimal string
+   * @returns The reason, or null when the reserve covers it
+   */
+  private async getReserveShortfall(
+    asset: Asset,
+    tokenAmount: string,
+  ): Promise<string | null> {
+    const reserve = await this.supabaseService.getAssetReserve(
+      asset.chain_id,
+      asset.ticker,
+    );
+    if (!reserve) {
+      return `Asset reserve not found for ${asset.ticker} on chain ${asset.chain_id}`;
+    }
+
+    const available =
+      parseAmount(reserve.reserve_amount, ASSET_DECIMALS) -
+      parseAmount(
+        this.reserveHoldsService.getHeldAmount(
+          asset.chain_id,
+          asset.ticker,
+          'sell',
+        ),
+        ASSET_DECIMALS,
+      );
+    if (available < parseAmount(tokenAmount, ASSET_DECIMALS)) {
+      return `Insufficient reserves. Available: ${formatAmount(available, ASSET_DECIMALS)}, Requested: ${tokenAmount}`;
+    }
+    return null;
+  }
+
+  /**
+   * Estimate the mint of a buy or the burn of a sell
+   * @returns The estimate, or null when the transaction would revert for the user
+   */
+  private async estimateGas(
+    asset: Asset,
+    side: 'buy' | 'sell',
+    user: string,
+    tokenAmount: string,
+  ): Promise<QuoteGasResponse | null> {
+    const action = side === 'buy' ? 'mint' : 'burn';
+    try {
+      const { gasLimit, gasPrice } = await this.tokenService.estimateTokenGas(
+        asset.chain_id,
+        action,
+        user,
+        asset.token_address,
+        tokenAmount,
+      );
+      return {
+        action,
+        gasLimit: gasLimit.toString(),
+        gasPrice: gasPrice.toString(),
+        cost: ethers.formatEther(gasLimit * gasPrice),
+      };
+    } catch (error) {
+      this.logger.debug(
+        `Could not estimate the ${action} of ${tokenAmount} ${asset.ticker} for ${user}: ${error instanceof Error ? error.message : String(error)}`,
+      );
+      return null;
+    }
+  }
+}
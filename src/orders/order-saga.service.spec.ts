@@ -0,0 +1,215 @@
+import { BadRequestException, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { UnsettledOrderError } from '../alpaca/alpaca.service';
+import { TransactionRevertedError } from '../transactions/transaction-queue.service';
+import { OrderLifecycleService } from './order-lifecycle.service';
+import {
+  OrderSagaError,
+  OrderSagaService,
+  OrderStep,
+  OrderStepRecord,
+} from './order-saga.service';
+
+describe('OrderSagaService', () => {
+  let saga: OrderSagaService;
+  let calls: string[];
+  let recorded: OrderStepRecord[];
+
+  beforeAll(() => {
+    Logger.overrideLogger(false);
+  });
+
+  beforeEach(() => {
+    saga = new OrderSagaService(
+      new ConfigService({ ORDER_STEP_RETRY_DELAY_MS: '0' }),
+      {} as OrderLifecycleService,
+    );
+    calls = [];
+    recorded = [];
+  });
+
+  function step(
+    name: string,
+    options: {
+      fail?: Error;
+      retryable?: boolean;
+      compensation?: 'none' | 'fails';
+    } = {},
+  ): OrderStep {
+    return {
+      name,
+      retryable: options.retryable ?? false,
+      run: () => {
+        calls.push(`run ${name}`);
+        return options.fail === undefined
+          ? Promise.resolve({ txHash: name })
+          : Promise.reject(options.fail);
+      },
+      compensate:
+        options.compensation === 'none'
+          ? undefined
+          : () => {
+              calls.push(`compensate ${name}`);
+              return options.compensation === 'fails'
+                ? Promise.reject(new BadRequestException(`cannot undo ${name}`))
+                : Promise.resolve();
+            },
+    };
+  }
+
+  async function run(steps: OrderStep[]): Promise<OrderSagaError> {
+    const failure = await saga
+      .runFor(
+        {
+          label: 'Test',
+          recordSteps: (records) => {
+            recorded = records;
+            return Promise.resolve();
+          },
+        },
+        steps,
+      )
+      .then(
+        () => undefined,
+        (error: unknown) => error,
+      );
+    expect(failure).toBeInstanceOf(OrderSagaError);
+    return failure as OrderSagaError;
+  }
+
+  function statuses(): [string, string][] {
+    return recorded.map(({ name, status }) => [name, status]);
+  }
+
+  it('runs the steps in order and records them', async () => {
+    const records = await saga.runFor(
+      {
+        label: 'Test',
+        recordSteps: (stored) => {
+          recorded = stored;
+          return Promise.resolve();
+        },
+      },
+      [step('hedge'), step('mint')],
+    );
+
+    expect(calls).toEqual(['run hedge', 'run mint']);
+    expect(records).toBe(recorded);
+    expect(statuses()).toEqual([
+      ['hedge', 'completed'],
+      ['mint', 'completed'],
+    ]);
+  });
+
+  it('compensates the completed steps last first when a step fails', async () => {
+    const error = await run([
+      step('quote', { compensation: 'none' }),
+      step('hedge'),
+      step('reserve'),
+      step('mint', { fail: new Error('reverted') }),
+      step('payout'),
+    ]);
+
+    expect(error.outcome).toBe('rolled_back');
+    expect(error.message).toBe('reverted');
+    expect(calls).toEqual([
+      'run quote',
+      'run hedge',
+      'run reserve',
+      'run mint',
+      'compensate reserve',
+      'compensate hedge',
+    ]);
+    expect(statuses()).toEqual([
+      ['quote', 'completed'],
+      ['hedge', 'compensated'],
+      ['reserve', 'compensated'],
+      ['mint', 'failed'],
+    ]);
+  });
+
+  it('stops at a compensation that fails, leaving the earlier steps for review', async () => {
+    const error = await run([
+      step('hedge'),
+      step('reserve', { compensation: 'fails' }),
+      step('mint', { fail: new Error('reverted') }),
+    ]);
+
+    expect(error.outcome).toBe('manual_review');
+    expect(calls).toEqual([
+      'run hedge',
+      'run reserve',
+      'run mint',
+      'compensate reserve',
+    ]);
+    expect(statuses()).toEqual([
+      ['hedge', 'completed'],
+      ['reserve', 'compensation_failed'],
+      ['mint', 'failed'],
+    ]);
+    expect(recorded[1].error).toBe('cannot undo reserve');
+  });
+
+  it('rolls nothing back when a step is unconfirmed', async () => {
+    const error = await run([
+      step('hedge'),
+      step('hedge_fill', {
+        retryable: true,
+        fail: new UnsettledOrderError('order-1', 'still open'),
+      }),
+    ]);
+
+    expect(error.outcome).toBe('manual_review');
+    expect(calls).toEqual(['run hedge', 'run hedge_fill']);
+    expect(statuses()).toEqual([
+      ['hedge', 'completed'],
+      ['hedge_fill', 'unconfirmed'],
+    ]);
+  });
+
+  it('retries a retryable step that fails transiently', async () => {
+    let failures = 1;
+    const flaky: OrderStep = {
+      name: 'reserve',
+      retryable: true,
+      run: () => {
+        calls.push('run reserve');
+        return failures-- > 0
+          ? Promise.reject(new Error('timeout'))
+          : Promise.resolve();
+      },
+    };
+
+    await saga.runFor({ label: 'Test', recordSteps: () => Promise.resolve() }, [
+      flaky,
+    ]);
+
+    expect(calls).toEqual(['run reserve', 'run reserve']);
+  });
+
+  it.each([
+    [
+      'a step that is not retryable',
+      step('hedge', { fail: new Error('timeout') }),
+    ],
+    [
+      'a transaction that reverted',
+      step('hedge', {
+        retryable: true,
+        fail: new TransactionRevertedError('0x1', null, 'reverted'),
+      }),
+    ],
+    [
+      'a rejected request',
+      step('hedge', {
+        retryable: true,
+        fail: new BadRequestException('insufficient buying power'),
+      }),
+    ],
+  ])('does not retry %s', async (_, failing) => {
+    await run([failing]);
+
+    expect(calls).toEqual(['run hedge']);
+    expect(recorded[0].attempts).toBe(1);
+  });
+});
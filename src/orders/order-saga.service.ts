@@ -0,0 +1,260 @@
+import { HttpException, Injectable, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { UnconfirmedTransactionError } from '../web3/services/token.service';
+import { TransactionRevertedError } from '../transactions/transaction-queue.service';
+import { UnsettledOrderError } from '../alpaca/alpaca.service';
+import { OrderLifecycleService } from './order-lifecycle.service';
+
+// What a step or its compensation produced; stored in the step record
+export interface OrderStepDetails {
+  alpacaOrderId?: string;
+  txHash?: string;
+}
+
+/**
+ * One side effect of an order, with the action that undoes it.
+ * A step is only retried when it is marked retryable, i.e. a failed attempt cannot have left anything behind.
+ */
+export interface OrderStep {
+  name: string;
+  retryable: boolean;
+  run: () => Promise<OrderStepDetails | void>;
+  // Omitted for steps that are never followed by another step, or that cannot be undone
+  compensate?: () => Promise<OrderStepDetails | void>;
+}
+
+export type OrderStepStatus =
+  | 'completed'
+  | 'failed'
+  | 'unconfirmed'
+  | 'compensated'
+  | 'compensation_failed';
+
+// Stored in the steps column of the orders table
+export interface OrderStepRecord {
+  name: string;
+  status: OrderStepStatus;
+  attempts: number;
+  result?: OrderStepDetails;
+  compensation?: OrderStepDetails;
+  error?: string;
+  at: string;
+}
+
+/**
+ * rolled_back: every completed step was undone, so the order can be retried from scratch.
+ * manual_review: a step's outcome is unknown or a compensation failed, so an operator has to settle the order.
+ */
+export type OrderSagaOutcome = 'rolled_back' | 'manual_review';
+
+export class OrderSagaError extends Error {
+  constructor(
+    readonly outcome: OrderSagaOutcome,
+    readonly failure: unknown,
+    readonly steps: OrderStepRecord[],
+  ) {
+    super(failure instanceof Error ? failure.message : String(failure));
+    this.name = 'OrderSagaError';
+  }
+}
+
+// What a saga runs for: an order, or a batch of orders, and where its step records are stored
+export interface OrderSagaSubject {
+  label: string;
+  recordSteps: (records: OrderStepRecord[]) => Promise<void>;
+}
+
+interface Attempt {
+  attempts: number;
+  details?: OrderStepDetails;
+  error?: unknown;
+}
+
+@Injectable()
+export class OrderSagaService {
+  private readonly logger = new Logger(OrderSagaService.name);
+  private readonly maxAttempts: number;
+  private readonly retryDelayMs: number;
+
+  constructor(
+    private readonly config: ConfigService,
+    private readonly orderLifecycleService: OrderLifecycleService,
+  ) {
+    // Attempts per step or compensation, the first one included
+    this.maxAttempts = Number(
+      this.config.get<string>('ORDER_STEP_MAX_ATTEMPTS') ?? 3,
+    );
+    this.retryDelayMs = Number(
+      this.config.get<string>('ORDER_STEP_RETRY_DELAY_MS') ?? 2000,
+    );
+  }
+
+  /**
+   * Run the steps of an order in sequence.
+   * A failing step is retried while that is safe; if it still fails, the completed steps are compensated in
+   * reverse order. A step whose transaction or broker order is still open is neither retried nor rolled back.
+   * @param orderId - The order the steps belong to; the step records are stored on it
+   * @param steps - The steps, in execution order
+   * @returns The step records once every step completed
+   * @throws OrderSagaError if a step failed, carrying the outcome of the rollback
+   */
+  async run(orderId: string, steps: OrderStep[]): Promise<OrderStepRecord[]> {
+    return this.runFor(
+      {
+        label: `Order ${orderId}`,
+        recordSteps: (records) =>
+          this.orderLifecycleService.recordSteps(orderId, records),
+      },
+      steps,
+    );
+  }
+
+  /**
+   * Run steps that do not belong to a single order, such as those of a batch
+   * @param subject - What the steps run for, and where their records are stored
+   * @param steps - The steps, in execution order
+   * @returns The step records once every step completed
+   * @throws OrderSagaError if a step failed, carrying the outcome of the rollback
+   */
+  async runFor(
+    subject: OrderSagaSubject,
+    steps: OrderStep[],
+  ): Promise<OrderStepRecord[]> {
+    const records: OrderStepRecord[] = [];
+    const completed: { step: OrderStep; record: OrderStepRecord }[] = [];
+
+    for (const step of steps) {
+      const attempt = await this.attempt(step.run, step.retryable);
+      if (attempt.error === undefined) {
+        const record: OrderStepRecord = {
+          name: step.name,
+          status: 'completed',
+          attempts: attempt.attempts,
+          result: attempt.details,
+          at: new Date().toISOString(),
+        };
+        records.push(record);
+        completed.push({ step, record });
+        continue;
+      }
+
+      const unconfirmed = this.isUnconfirmed(attempt.error);
+      records.push({
+        name: step.name,
+        status: unconfirmed ? 'unconfirmed' : 'failed',
+        attempts: attempt.attempts,
+        error: this.describe(attempt.error),
+        at: new Date().toISOString(),
+      });
+      this.logger.warn(
+        `${subject.label}: step ${step.name} failed after ${attempt.attempts} attempt(s): ${this.describe(attempt.error)}`,
+      );
+
+      // Undoing the earlier steps is only correct if this one certainly did not happen
+      const rolledBack =
+        !unconfirmed && (await this.rollBack(subject, completed));
+      await this.recordSteps(subject, records);
+      throw new OrderSagaError(
+        rolledBack ? 'rolled_back' : 'manual_review',
+        attempt.error,
+        records,
+      );
+    }
+
+    await this.recordSteps(subject, records);
+    return records;
+  }
+
+  /**
+   * Compensate completed steps, last first. Stops at the first compensation that fails,
+   * leaving the steps before it in place for an operator.
+   * @returns Whether every completed step was undone
+   */
+  private async rollBack(
+    subject: OrderSagaSubject,
+    completed: { step: OrderStep; record: OrderStepRecord }[],
+  ): Promise<boolean> {
+    for (const { step, record } of [...completed].reverse()) {
+      if (!step.compensate) {
+        continue;
+      }
+      const attempt = await this.attempt(step.compensate, true);
+      record.at = new Date().toISOString();
+      if (attempt.error !== undefined) {
+        record.status = 'compensation_failed';
+        record.error = this.describe(attempt.error);
+        this.logger.error(
+          `${subject.label}: compensating step ${step.name} failed after ${attempt.attempts} attempt(s):`,
+          attempt.error,
+        );
+        return false;
+      }
+      record.status = 'compensated';
+      record.compensation = attempt.details;
+      this.logger.log(`${subject.label}: compensated step ${step.name}`);
+    }
+    return true;
+  }
+
+  private async attempt(
+    action: () => Promise<OrderStepDetails | void>,
+    retryable: boolean,
+  ): Promise<Attempt> {
+    for (let attempts = 1; ; attempts++) {
+      try {
+        const details = await action();
+        return { attempts, details: details || undefined };
+      } catch (error) {
+        if (
+          !retryable ||
+          !this.isTransient(error) ||
+          attempts >= this.maxAttempts
+        ) {
+          return { attempts, error };
+        }
+        await new Promise((resolve) =>
+          setTimeout(resolve, this.retryDelayMs * 2 ** (attempts - 1)),
+        );
+      }
+    }
+  }
+
+  // Rejected requests and reverted transactions fail the same way every time, and an unconfirmed transaction must
+  // not be sent twice
+  private isTransient(error: unknown): boolean {
+    if (
+      this.isUnconfirmed(error) ||
+      error instanceof TransactionRevertedError
+    ) {
+      return false;
+    }
+    return !(error instanceof HttpException && error.getStatus() < 500);
+  }
+
+  // A transaction or broker order whose outcome is still open
+  private isUnconfirmed(error: unknown): boolean {
+    return (
+      error instanceof UnconfirmedTransactionError ||
+      error instanceof UnsettledOrderError
+    );
+  }
+
+  // The steps run after side effects, so a failure to store them is logged rather than thrown
+  private async recordSteps(
+    subject: OrderSagaSubject,
+    records: OrderStepRecord[],
+  ): Promise<void> {
+    try {
+      await subject.recordSteps(records);
+    } catch (error) {
+      this.logger.error(
+        `Failed to record steps of ${subject.label} ${JSON.stringify(records)}:`,
+        error,
+      );
+    }
+  }
+
+  private describe(error: unknown): string {
+    return error instanceof Error ? error.message : String(error);
+  }
+}
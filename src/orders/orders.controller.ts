@@ -1,14 +1,25 @@
-import { Controller, Post, Body, HttpCode, HttpStatus } from '@nestjs/common';
-import { ApiTags, ApiOperation, ApiResponse, ApiSecurity, ApiBody } from '@nestjs/swagger';
+import { Controller, Get, Post, Body, Param, Query, HttpCode, HttpStatus, ParseUUIDPipe } from '@nestjs/common';
+import { ApiTags, ApiOperation, ApiResponse, ApiSecurity, ApiBody, ApiParam } from '@nestjs/swagger';
 import { OrdersService } from './orders.service';
+import { OrderQuoteService } from './order-quote.service';
 import { OrderResponse } from 'src/shared/models/order-response.model';
 import { OrderRequest } from 'src/shared/models/order-request.model';
+import { OrderRecordResponse } from 'src/shared/models/order-record-response.model';
+import { OrderQueryDto } from 'src/shared/models/order-query.dto';
+import { RejectOrderDto } from 'src/shared/models/reject-order.dto';
+import { OrderBatchResponse } from 'src/shared/models/order-batch-response.model';
+import { QueuedOrdersResponse } from 'src/shared/models/queued-orders-response.model';
+import { OrderQuoteRequestDto } from 'src/shared/models/order-quote-request.dto';
+import { OrderQuoteResponse } from 'src/shared/models/order-quote-response.model';
 
 @ApiTags('orders')
 @ApiSecurity('api-key')
 @Controller('orders')
 export class OrdersController {
-  constructor(private readonly ordersService: OrdersService) {}
+  constructor(
+    private readonly ordersService: OrdersService,
+    private readonly orderQuoteService: OrderQuoteService
+  ) {}
 
   /**
    * Buy order endpoint - increases asset reserves
@@ -31,10 +42,12 @@ export class OrdersController {
     type: OrderResponse,
     example: {
       success: true,
+      orderId: '3b241101-e2bb-4255-8caf-4136c566a962',
+      status: 'settled',
       message: 'Successfully bought 10.5 ETH',
       assetSymbol: 'ETH',
-      amount: 10.5,
-      newReserveAmount: 100.5
+      amount: '10.5',
+      newTokenReserve: '100.5'
     }
   })
   @ApiResponse({
@@ -79,10 +92,12 @@ export class OrdersController {
     type: OrderResponse,
     example: {
       success: true,
+      orderId: '3b241101-e2bb-4255-8caf-4136c566a962',
+      status: 'settled',
       message: 'Successfully sold 5.2 ETH',
       assetSymbol: 'ETH',
-      amount: 5.2,
-      newReserveAmount: 95.3
+      amount: '5.2',
+      newTokenReserve: '95.3'
     }
   })
   @ApiResponse({
@@ -118,4 +133,252 @@ export class OrdersController {
   async sell(@Body() orderRequest: OrderRequest): Promise<OrderResponse> {
     return this.ordersService.sellOrder(orderRequest);
   }
+
+  /**
+   * List orders
+   * @param query - Optional user, asset, status and chain filters
+   * @returns Promise with matching orders
+   */
+  @Get()
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({
+    summary: 'List orders',
+    description: 'Lists recorded orders with their lifecycle status, newest first. Filter by user, asset symbol, status or chain.'
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Orders retrieved successfully',
+    type: [OrderRecordResponse]
+  })
+  @ApiResponse({
+    status: 401,
+    description: 'Unauthorized - Invalid or missing API key'
+  })
+  async listOrders(@Query() query: OrderQueryDto): Promise<OrderRecordResponse[]> {
+    return this.ordersService.findOrders(query);
+  }
+
+  /**
+   * Quote an order before it is placed
+   * @param quoteRequest - The asset, side and amount of the order
+   * @returns Promise with the quote
+   */
+  @Post('quote')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({
+    summary: 'Quote an order',
+    description: 'Quotes what a buy or sell would mint or burn at the current Alpaca price, given either its USDC or its asset amount: the reference price, fees, the gas of the mint or burn, whether the user is verified and whether the asset is tradable right now. Nothing is reserved or sent.'
+  })
+  @ApiBody({
+    type: OrderQuoteRequestDto,
+    description: 'Asset, side and either the USDC or the asset amount of the order'
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Order quoted successfully',
+    type: OrderQuoteResponse
+  })
+  @ApiResponse({
+    status: 400,
+    description: 'Bad request - neither or both amounts given, or the asset is not registered'
+  })
+  @ApiResponse({
+    status: 401,
+    description: 'Unauthorized - Invalid or missing API key'
+  })
+  async quote(@Body() quoteRequest: OrderQuoteRequestDto): Promise<OrderQuoteResponse> {
+    return this.orderQuoteService.quote(quoteRequest);
+  }
+
+  /**
+   * List the orders waiting for the market to open
+   * @returns Promise with the market clock and the queued orders
+   */
+  @Get('queue')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({
+    summary: 'List queued orders',
+    description: 'Lists the orders received while the market was closed, oldest first, with the broker market clock. Queued orders are executed at the next open, shown as nextOpen and as each order\'s executeAfter.'
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Queued orders retrieved successfully',
+    type: QueuedOrdersResponse
+  })
+  @ApiResponse({
+    status: 401,
+    description: 'Unauthorized - Invalid or missing API key'
+  })
+  async getQueue(): Promise<QueuedOrdersResponse> {
+    return this.ordersService.getQueue();
+  }
+
+  /**
+   * Get an order batch
+   * @param id - The batch id
+   * @returns Promise with the batch
+   */
+  @Get('batches/:id')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({
+    summary: 'Get an order batch',
+    description: 'Returns a batch of orders netted into one Alpaca order and settled with one batchMint and one batchBurn, with the quantity and tokens allocated to each order. Its orders are listed at /orders?batchId=.'
+  })
+  @ApiParam({
+    name: 'id',
+    description: 'The batch id, as returned by the buy and sell endpoints',
+    example: '9d8f7c36-2a1b-4f0e-8c55-0b6a1e2d3f47',
+    type: String
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Batch retrieved successfully',
+    type: OrderBatchResponse
+  })
+  @ApiResponse({
+    status: 404,
+    description: 'Batch not found'
+  })
+  @ApiResponse({
+    status: 401,
+    description: 'Unauthorized - Invalid or missing API key'
+  })
+  async getBatch(@Param('id', ParseUUIDPipe) id: string): Promise<OrderBatchResponse> {
+    return this.ordersService.getBatch(id);
+  }
+
+  /**
+   * Get an order with its lifecycle history
+   * @param id - The order id
+   * @returns Promise with the order
+   */
+  @Get(':id')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({
+    summary: 'Get an order',
+    description: 'Returns where an order is in its lifecycle, with every transition timestamped alongside the Alpaca order id and transaction hashes.'
+  })
+  @ApiParam({
+    name: 'id',
+    description: 'The order id, as returned by the buy and sell endpoints',
+    example: '3b241101-e2bb-4255-8caf-4136c566a962',
+    type: String
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Order retrieved successfully',
+    type: OrderRecordResponse
+  })
+  @ApiResponse({
+    status: 404,
+    description: 'Order not found',
+    example: {
+      statusCode: 404,
+      message: 'Order 3b241101-e2bb-4255-8caf-4136c566a962 not found',
+      error: 'Not Found'
+    }
+  })
+  @ApiResponse({
+    status: 401,
+    description: 'Unauthorized - Invalid or missing API key'
+  })
+  async getOrder(@Param('id', ParseUUIDPipe) id: string): Promise<OrderRecordResponse> {
+    return this.ordersService.getOrder(id);
+  }
+
+  /**
+   * Approve an order held for its price deviation or a risk limit breach
+   * @param id - The order id
+   * @returns Promise with order result
+   */
+  @Post(':id/approve')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({
+    summary: 'Approve a held order',
+    description: 'Executes an order that was held because its price deviated from the broker quote by more than the tolerance, or because it breached a risk limit. Neither the price nor the risk limits are checked again, except the kill switch: while it is engaged the order is held again.'
+  })
+  @ApiParam({
+    name: 'id',
+    description: 'The id of the held order',
+    example: '3b241101-e2bb-4255-8caf-4136c566a962',
+    type: String
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Order executed',
+    type: OrderResponse
+  })
+  @ApiResponse({
+    status: 404,
+    description: 'Order not found'
+  })
+  @ApiResponse({
+    status: 409,
+    description: 'The order is not held',
+    example: {
+      statusCode: 409,
+      message: 'Order 3b241101-e2bb-4255-8caf-4136c566a962 is settled, not held',
+      error: 'Conflict'
+    }
+  })
+  @ApiResponse({
+    status: 401,
+    description: 'Unauthorized - Invalid or missing API key'
+  })
+  async approve(@Param('id', ParseUUIDPipe) id: string): Promise<OrderResponse> {
+    return this.ordersService.approveOrder(id);
+  }
+
+  /**
+   * Reject an order held for its price deviation or a risk limit breach
+   * @param id - The order id
+   * @param body - Optional reason
+   * @returns Promise with order result
+   */
+  @Post(':id/reject')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({
+    summary: 'Reject a held order',
+    description: 'Rejects an order that was held because its price deviated from the broker quote or it breached a risk limit. The USDC of a buy is refunded in full; nothing was hedged, minted or burned.'
+  })
+  @ApiParam({
+    name: 'id',
+    description: 'The id of the held order',
+    example: '3b241101-e2bb-4255-8caf-4136c566a962',
+    type: String
+  })
+  @ApiBody({
+    type: RejectOrderDto,
+    required: false
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Order rejected',
+    type: OrderResponse,
+    example: {
+      success: false,
+      orderId: '3b241101-e2bb-4255-8caf-4136c566a962',
+      status: 'rejected',
+      message: 'Order rejected: Price far above the market; 10.5 USDC refunded',
+      assetSymbol: 'ETH',
+      amount: '10.5',
+      newTokenReserve: '100.5',
+      usdcRefunded: '10.5'
+    }
+  })
+  @ApiResponse({
+    status: 404,
+    description: 'Order not found'
+  })
+  @ApiResponse({
+    status: 409,
+    description: 'The order is not held'
+  })
+  @ApiResponse({
+    status: 401,
+    description: 'Unauthorized - Invalid or missing API key'
+  })
+  async reject(@Param('id', ParseUUIDPipe) id: string, @Body() body: RejectOrderDto): Promise<OrderResponse> {
+    return this.ordersService.rejectHeldOrder(id, body?.reason);
+  }
 }
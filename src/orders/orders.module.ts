@@ -1,14 +1,31 @@
 import { Module, forwardRef } from '@nestjs/common';
 import { OrdersService } from './orders.service';
+import { OrderLifecycleService } from './order-lifecycle.service';
+import { OrderSagaService } from './order-saga.service';
+import { PriceGuardService } from './price-guard.service';
+import { OrderBatchService } from './order-batch.service';
+import { MarketHoursService } from './market-hours.service';
+import { MarketQueueService } from './market-queue.service';
+import { RiskLimitsService } from './risk-limits.service';
+import { RiskController } from './risk.controller';
+import { RefundService } from './refund.service';
+import { OrderQuoteService } from './order-quote.service';
+import { ReserveHoldsService } from './reserve-holds.service';
 import { OrdersController } from './orders.controller';
 import { SupabaseModule } from '../supabase/supabase.module';
 import { AlpacaModule } from '../alpaca/alpaca.module';
 import { Web3Module } from 'src/web3/web3.module';
+import { EventsModule } from '../events/events.module';
+import { ReservesModule } from '../reserves/reserves.module';
+import { WithdrawalsModule } from '../withdrawals/withdrawals.module';
+import { ProviderFactory } from '../web3/providers/provider.factory';
+import { AssetsModule } from '../assets/assets.module';
+import { AlertsModule } from '../alerts/alerts.module';
 
 @Module({
-  imports: [SupabaseModule, AlpacaModule, forwardRef(() => Web3Module)],
-  providers: [OrdersService],
-  controllers: [OrdersController],
+  imports: [SupabaseModule, AlpacaModule, forwardRef(() => Web3Module), EventsModule, ReservesModule, WithdrawalsModule, ProviderFactory, AssetsModule, AlertsModule],
+  providers: [OrdersService, OrderLifecycleService, OrderSagaService, PriceGuardService, OrderBatchService, MarketHoursService, MarketQueueService, RiskLimitsService, RefundService, OrderQuoteService, ReserveHoldsService],
+  controllers: [OrdersController, RiskController],
   exports: [OrdersService]
 })
 export class OrdersModule {}
@@ -1,9 +1,85 @@
-import { Injectable, Logger, BadRequestException } from '@nestjs/common';
+import { Injectable, Logger, BadRequestException, ConflictException } from '@nestjs/common';
 import { SupabaseService } from '../supabase/supabase.service';
 import { AlpacaService } from '../alpaca/alpaca.service';
 import { OrderRequest } from 'src/shared/models/order-request.model';
 import { OrderResponse } from 'src/shared/models/order-response.model';
+import { OrderEventSource } from 'src/shared/models/order-event-source.model';
 import { TokenService } from 'src/web3/services/token.service';
+import { ParkedEventStatus, ProcessedEvent, ProcessedEventsService } from '../events/processed-events.service';
+import { DustLedgerService, NewDustEntry } from '../reserves/dust-ledger.service';
+import { WithdrawalsService } from '../withdrawals/withdrawals.service';
+import {
+  Order,
+  OrderLifecycleService,
+  OrderSide,
+  OrderStatus,
+  OrderTransitionDetails,
+  toOrderRecordResponse
+} from './order-lifecycle.service';
+import { OrderSagaError, OrderSagaService, OrderStep } from './order-saga.service';
+import { PriceCheck, PriceGuardService } from './price-guard.service';
+import { MarketHoursService } from './market-hours.service';
+import { RiskCheck, RiskLimitsService } from './risk-limits.service';
+import { AlertService } from '../alerts/alert.service';
+import { Refund, RefundService } from './refund.service';
+import { BatchOrder, OrderBatchService, toOrderBatchResponse } from './order-batch.service';
+import { ReserveHoldsService } from './reserve-holds.service';
+import { OrderBatchResponse } from 'src/shared/models/order-batch-response.model';
+import { OrderRecordResponse } from 'src/shared/models/order-record-response.model';
+import { QueuedOrdersResponse } from 'src/shared/models/queued-orders-response.model';
+import { OrderQueryDto } from 'src/shared/models/order-query.dto';
+import { DeploymentRegistry } from 'src/web3/providers/deployment.registry';
+import { Asset, AssetRegistryService } from '../assets/asset-registry.service';
+import {
+  ALPACA_PRICE_DECIMALS,
+  ALPACA_QTY_DECIMALS,
+  ASSET_DECIMALS,
+  USDC_DECIMALS,
+  RoundedAmount,
+  formatAmount,
+  isPositiveAmount,
+  parseAmount,
+  roundDown
+} from 'src/shared/utils/amounts';
+
+// An order's asset amount rounded down to what can be minted or burned, and to what can be hedged
+interface RoundedAssetAmount {
+  tokenAmount: RoundedAmount;
+  tokenDecimals: number;
+  hedgeQty: RoundedAmount;
+}
+
+// An order being executed. Its steps advance the order, and the hedge fill scales what the later steps
+// mint or burn and the USDC they pay out or refund.
+interface OrderExecution {
+  chainId: number;
+  orderRequest: OrderRequest;
+  order: Order;
+  asset: Asset;
+  tokenAmount: string;
+  tokenDecimals: number;
+  hedgeQty: string;
+  // USDC the order is worth, rounded to USDC's decimals: paid in on buys, paid out on sells
+  usdcAmount: string;
+  // USDC returned for the part of a buy the hedge did not fill
+  usdcRefund?: string;
+  alpacaOrderId?: string;
+  fillPrice?: string;
+  newTokenReserve?: string;
+  // Batch the order was settled in, when orders are batched
+  batchId?: string;
+  // Limit price of the hedge; unset for market orders
+  limitPrice?: string;
+}
+
+// An order picked up again after it waited: approved by an operator while held, or due at the market open while queued
+interface ResumedOrder {
+  order: Order;
+  from: ParkedEventStatus;
+}
+
+// A dust ledger entry for one rounding step; amount is null when the step dropped nothing
+type RoundingRemainder = Omit<NewDustEntry, 'amount'> & { amount: string | null };
 
 @Injectable()
 export class OrdersService {
@@ -12,93 +88,1312 @@ export class OrdersService {
   constructor(
     private readonly supabaseService: SupabaseService,
     private readonly alpacaService: AlpacaService,
-    private readonly tokenService: TokenService
+    private readonly tokenService: TokenService,
+    private readonly processedEventsService: ProcessedEventsService,
+    private readonly dustLedgerService: DustLedgerService,
+    private readonly withdrawalsService: WithdrawalsService,
+    private readonly deploymentRegistry: DeploymentRegistry,
+    private readonly orderLifecycleService: OrderLifecycleService,
+    private readonly orderSagaService: OrderSagaService,
+    private readonly assetRegistryService: AssetRegistryService,
+    private readonly priceGuardService: PriceGuardService,
+    private readonly orderBatchService: OrderBatchService,
+    private readonly marketHoursService: MarketHoursService,
+    private readonly riskLimitsService: RiskLimitsService,
+    private readonly alertService: AlertService,
+    private readonly refundService: RefundService,
+    private readonly reserveHoldsService: ReserveHoldsService
   ) {}
 
   /**
    * Process a buy order - increases the asset reserve
    * @param orderRequest - The buy order details
+   * @param onBatched - Called once the order passed its checks and joined a batch, before the batch settles
+   * @returns Promise with order result
+   */
+  async buyOrder(orderRequest: OrderRequest, onBatched?: () => void): Promise<OrderResponse> {
+    return this.executeOnce(orderRequest, 'BuyOrderCreated', () => this.executeBuyOrder(orderRequest, undefined, onBatched));
+  }
+
+  /**
+   * Process a sell order - decreases the asset reserve
+   * @param orderRequest - The sell order details
+   * @param onBatched - Called once the order passed its checks and joined a batch, before the batch settles
+   * @returns Promise with order result
+   */
+  async sellOrder(orderRequest: OrderRequest, onBatched?: () => void): Promise<OrderResponse> {
+    return this.executeOnce(orderRequest, 'SellOrderCreated', () => this.executeSellOrder(orderRequest, undefined, onBatched));
+  }
+
+  /**
+   * Whether orders are collected into batches, settling only once their batch closes
+   */
+  isBatching(): boolean {
+    return this.orderBatchService.enabled;
+  }
+
+  /**
+   * Execute an order held for its price deviation or a risk limit breach, as if it had passed both checks.
+   * The kill switch still applies.
+   * @param id - The order id
+   * @returns Promise with order result
+   * @throws ConflictException if the order is not held
+   */
+  async approveOrder(id: string): Promise<OrderResponse> {
+    const order = await this.getParkedOrder(id, 'held');
+    const orderRequest = await this.toOrderRequest(order);
+    this.logger.log(`Order ${id} approved by an operator`);
+    return this.resumeOrder(orderRequest, 'held', () => this.executeResumed(orderRequest, { order, from: 'held' }));
+  }
+
+  /**
+   * Reject a held order; the USDC of a buy is refunded
+   * @param id - The order id
+   * @param reason - Why the order is rejected, kept on the order
+   * @returns Promise with order result
+   * @throws ConflictException if the order is not held
+   */
+  async rejectHeldOrder(id: string, reason?: string): Promise<OrderResponse> {
+    const order = await this.getParkedOrder(id, 'held');
+    const orderRequest = await this.toOrderRequest(order);
+    return this.resumeOrder(orderRequest, 'held', async () => {
+      try {
+        return await this.rejectOrder(order, orderRequest, reason ?? 'Rejected by an operator');
+      } catch (error) {
+        this.logger.error(`Failed to reject order ${id}:`, error);
+        throw await this.failOrder(order, error);
+      }
+    });
+  }
+
+  /**
+   * Execute an order queued while the market was closed. Called once the market has opened.
+   * @param id - The order id
    * @returns Promise with order result
+   * @throws ConflictException if the order is not queued
+   */
+  async executeQueuedOrder(id: string): Promise<OrderResponse> {
+    const order = await this.getParkedOrder(id, 'queued');
+    const orderRequest = await this.toOrderRequest(order);
+    this.logger.log(`Executing order ${id}, queued until ${order.execute_after}`);
+    return this.resumeOrder(orderRequest, 'queued', () => this.executeResumed(orderRequest, { order, from: 'queued' }));
+  }
+
+  /**
+   * List the orders waiting for the market to open, oldest first, with the broker's market clock
+   * @returns Promise with the market clock and the queued orders
    */
-  async buyOrder(orderRequest: OrderRequest): Promise<OrderResponse> {
+  async getQueue(): Promise<QueuedOrdersResponse> {
+    const [clock, orders] = await Promise.all([
+      this.marketHoursService.getClock(),
+      this.orderLifecycleService.findOrders({ status: 'queued', oldestFirst: true })
+    ]);
+    return {
+      marketOpen: clock.is_open,
+      nextOpen: clock.next_open,
+      nextClose: clock.next_close,
+      orders: orders.map(toOrderRecordResponse)
+    };
+  }
+
+  /**
+   * Get an order with its lifecycle history
+   * @param id - The order id
+   * @returns Promise with the order
+   */
+  async getOrder(id: string): Promise<OrderRecordResponse> {
+    return toOrderRecordResponse(await this.orderLifecycleService.getOrder(id));
+  }
+
+  /**
+   * Get an order batch with what it allocated to each of its orders
+   * @param id - The batch id
+   * @returns Promise with the batch
+   */
+  async getBatch(id: string): Promise<OrderBatchResponse> {
+    return toOrderBatchResponse(await this.orderBatchService.getBatch(id));
+  }
+
+  /**
+   * List orders, newest first
+   * @param query - Optional user, asset, status and chain filters
+   * @returns Promise with matching orders
+   */
+  async findOrders(query: OrderQueryDto): Promise<OrderRecordResponse[]> {
+    const orders = await this.orderLifecycleService.findOrders({
+      chainId: query.chainId,
+      userAddress: query.user,
+      assetSymbol: query.symbol,
+      status: query.status,
+      batchId: query.batchId,
+      limit: query.limit
+    });
+    return orders.map(toOrderRecordResponse);
+  }
+
+  /**
+   * Run an order at most once per source log.
+   * The log is claimed in the processed-events ledger before any side effect and released again if the order fails,
+   * so overlapping scans, restarts and manual replays never mint, burn, hedge or withdraw twice.
+   * Orders without a source log are executed as-is.
+   * @param orderRequest - The order details
+   * @param eventName - The event the order originates from
+   * @param execute - The order execution
+   * @returns Promise with order result
+   */
+  private async executeOnce(
+    orderRequest: OrderRequest,
+    eventName: string,
+    execute: () => Promise<OrderResponse>
+  ): Promise<OrderResponse> {
+    const { source } = orderRequest;
+    if (!source) {
+      return execute();
+    }
+
+    const claimed = await this.processedEventsService.claim(source, eventName, orderRequest);
+    if (!claimed) {
+      throw new ConflictException(
+        `${eventName} log ${source.txHash}:${source.logIndex} on chain ${source.chainId} was already processed`
+      );
+    }
+
+    return this.runClaimed(source, execute);
+  }
+
+  /**
+   * Pick a held or queued order up again: carry out an operator's decision on it, or execute it at the market open.
+   * Its source log, if any, is claimed back from the ledger first, so the order is picked up once.
+   * @param orderRequest - The held or queued order
+   * @param status - The status the order waited in
+   * @param execute - The approval, rejection or execution
+   * @returns Promise with order result
+   */
+  private async resumeOrder(
+    orderRequest: OrderRequest,
+    status: ParkedEventStatus,
+    execute: () => Promise<OrderResponse>
+  ): Promise<OrderResponse> {
+    const { source } = orderRequest;
+    if (!source) {
+      return execute();
+    }
+
+    const claimed = await this.processedEventsService.claimParked(source, status);
+    if (!claimed) {
+      throw new ConflictException(
+        `Log ${source.txHash}:${source.logIndex} on chain ${source.chainId} is not ${status}`
+      );
+    }
+
+    return this.runClaimed(source, execute);
+  }
+
+  /**
+   * Run an order whose source log the caller has claimed, and record the outcome in the ledger
+   * @param source - The claimed log
+   * @param execute - The order execution
+   * @returns Promise with order result
+   */
+  private async runClaimed(source: OrderEventSource, execute: () => Promise<OrderResponse>): Promise<OrderResponse> {
+    let result: OrderResponse;
     try {
-      const { user, token, assetSymbol, usdcAmount, assetAmount, price } = orderRequest;
+      result = await execute();
+    } catch (error) {
+      // An order left half-executed must not be picked up again until an operator has settled it
+      if (error instanceof OrderSagaError) {
+        await this.processedEventsService.markManualReview(source, error);
+      } else {
+        await this.processedEventsService.markFailed(source, error);
+      }
+      throw error;
+    }
+    if (result.status === 'held' || result.status === 'queued') {
+      await this.processedEventsService.markParked(source, result.status, result);
+    } else {
+      await this.processedEventsService.markProcessed(source, result);
+    }
+    return result;
+  }
+
+  private executeResumed(orderRequest: OrderRequest, resumed: ResumedOrder): Promise<OrderResponse> {
+    return resumed.order.side === 'buy'
+      ? this.executeBuyOrder(orderRequest, resumed)
+      : this.executeSellOrder(orderRequest, resumed);
+  }
+
+  private async executeBuyOrder(
+    orderRequest: OrderRequest,
+    resumed?: ResumedOrder,
+    onBatched?: () => void
+  ): Promise<OrderResponse> {
+    let order: Order | undefined;
+    let execution: OrderExecution | undefined;
+    let releaseExposure: (() => void) | undefined;
+    try {
+      const { user, token, assetSymbol, usdcAmount, assetAmount, source } = orderRequest;
 
       // Validate input
-      if (!assetSymbol || usdcAmount <= 0) {
+      if (!assetSymbol || !isPositiveAmount(usdcAmount) || !isPositiveAmount(assetAmount)) {
         throw new BadRequestException('Invalid asset symbol or amount');
       }
+      const chainId = this.resolveChainId(orderRequest);
+
+      const asset = await this.assetRegistryService.resolve(chainId, assetSymbol, token);
+
+      this.logger.log(`Processing buy order for ${usdcAmount}$ ${assetSymbol} on chain ${chainId}`);
+      order = resumed
+        ? await this.orderLifecycleService.transition(resumed.order, 'received')
+        : await this.orderLifecycleService.receive(chainId, 'buy', orderRequest);
+
+      const { tokenAmount, tokenDecimals, hedgeQty } = this.roundAssetAmount(asset, assetAmount);
+      if (tokenAmount.units === 0n) {
+        throw new BadRequestException(`Asset amount ${assetAmount} rounds down to zero tokens`);
+      }
+
+      // Orders received while the market is closed wait for the open
+      if (resumed?.from !== 'queued') {
+        const clock = await this.marketHoursService.getClock();
+        if (!clock.is_open) {
+          return await this.queueOrder(order, orderRequest, clock.next_open);
+        }
+      }
 
-      this.logger.log(`Processing buy order for ${usdcAmount}$ ${assetSymbol}`);
+      const { limitPrice, result } = await this.priceOrder(order, orderRequest, asset, resumed);
+      if (result) {
+        return result;
+      }
+
+      const riskCheck = await this.riskLimitsService.check(order, asset, tokenAmount.amount, resumed?.from === 'held');
+      if (!riskCheck.withinLimits) {
+        return await this.holdForRisk(order, orderRequest, riskCheck);
+      }
+      releaseExposure = riskCheck.release;
 
-      // Update asset reserve (using tokensToMint for buy)
-      const updatedReserve = await this.supabaseService.updateAssetReserve(assetSymbol, assetAmount);
+      // Nothing is hedged for a user or token that cannot be minted to
+      await this.tokenService.assertCanTrade(chainId, user, token);
+      execution = {
+        chainId,
+        orderRequest,
+        order,
+        asset,
+        tokenAmount: tokenAmount.amount,
+        tokenDecimals,
+        hedgeQty: hedgeQty.amount,
+        usdcAmount: roundDown(usdcAmount, USDC_DECIMALS).amount,
+        limitPrice
+      };
+      // Tokens are only minted for what the hedge actually bought. Limit orders are hedged on their own.
+      if (this.orderBatchService.enabled && !limitPrice) {
+        await this.settleInBatch(execution, 'buy', onBatched);
+      } else {
+        await this.orderSagaService.run(order.id, [
+          this.hedgeStep(execution, 'buy'),
+          this.hedgeFillStep(execution, 'buy'),
+          this.reserveStep(execution, 1n),
+          this.mintStep(execution),
+          this.refundStep(execution)
+        ]);
+      }
 
-      // Mint tokens for the user
-      await this.tokenService.mintTokens(user, token, assetAmount);
+      await this.recordDust([
+        { kind: 'mint', assetSymbol, amount: tokenAmount.dust, decimals: tokenDecimals, userAddress: user, chainId, source },
+        { kind: 'hedge', assetSymbol, amount: hedgeQty.dust, decimals: ALPACA_QTY_DECIMALS, userAddress: user, chainId, source }
+      ]);
+      execution.order = await this.advance(execution.order, 'settled');
 
+      const minted = isPositiveAmount(execution.tokenAmount);
+      const refund = execution.usdcRefund ? `, ${execution.usdcRefund} USDC refunded for the unfilled part` : '';
       return {
-        success: true,
-        message: `Successfully bought ${usdcAmount} USD worth of ${assetSymbol} (${assetAmount} tokens minted)`,
+        success: minted,
+        orderId: execution.order.id,
+        status: 'settled',
+        message: minted
+          ? `Successfully bought ${usdcAmount} USD worth of ${assetSymbol} (${execution.tokenAmount} tokens minted${refund})`
+          : `The ${assetSymbol} hedge was not filled; ${execution.usdcRefund ?? '0'} USDC refunded`,
         assetSymbol,
         amount: usdcAmount,
-        tokenMinted: assetAmount,
-        newTokenReserve: updatedReserve.reserve_amount
+        tokenMinted: execution.tokenAmount,
+        newTokenReserve: execution.newTokenReserve ?? '',
+        fillPrice: execution.fillPrice,
+        usdcRefunded: execution.usdcRefund,
+        batchId: execution.batchId
       };
     } catch (error) {
       this.logger.error(`Failed to process buy order:`, error);
-      throw error;
+      const failure = await this.failOrder(execution?.order ?? order, error);
+      if (order && this.refundService.isUnfulfillable(error)) {
+        return await this.refundUnfulfilledBuy(order.id, orderRequest, failure);
+      }
+      throw failure;
+    } finally {
+      // The buy added its tokens to the reserve, or failed without adding them
+      releaseExposure?.();
     }
   }
 
-  /**
-   * Process a sell order - decreases the asset reserve
-   * @param orderRequest - The sell order details
-   * @returns Promise with order result
-   */
-  async sellOrder(orderRequest: OrderRequest): Promise<OrderResponse> {
+  private async executeSellOrder(
+    orderRequest: OrderRequest,
+    resumed?: ResumedOrder,
+    onBatched?: () => void
+  ): Promise<OrderResponse> {
+    let order: Order | undefined;
+    let execution: OrderExecution | undefined;
+    let releaseReserve: (() => void) | undefined;
     try {
-      const { user, token, assetSymbol, usdcAmount, assetAmount, price } = orderRequest;
+      const { user, token, assetSymbol, usdcAmount, assetAmount, source } = orderRequest;
 
       // Validate input
-      if (!assetSymbol || usdcAmount <= 0) {
+      if (!assetSymbol || !isPositiveAmount(usdcAmount) || !isPositiveAmount(assetAmount)) {
         throw new BadRequestException('Invalid asset symbol or amount');
       }
+      const chainId = this.resolveChainId(orderRequest);
+
+      const asset = await this.assetRegistryService.resolve(chainId, assetSymbol, token);
+
+      this.logger.log(`Processing sell order for ${usdcAmount}$ ${assetSymbol} on chain ${chainId}`);
+      order = resumed
+        ? await this.orderLifecycleService.transition(resumed.order, 'received')
+        : await this.orderLifecycleService.receive(chainId, 'sell', orderRequest);
 
-      this.logger.log(`Processing sell order for ${usdcAmount}$ ${assetSymbol}`);
+      const { tokenAmount, tokenDecimals, hedgeQty } = this.roundAssetAmount(asset, assetAmount);
+      const usdcPayout = roundDown(usdcAmount, USDC_DECIMALS);
+      const reserveDelta = parseAmount(tokenAmount.amount, ASSET_DECIMALS);
 
-      // Check if we have enough reserves before selling
-      const currentReserve = await this.supabaseService.getAssetReserve(assetSymbol);
-      if (!currentReserve) {
-        throw new BadRequestException(`Asset reserve not found for ${assetSymbol}`);
+      // Orders received while the market is closed wait for the open
+      if (resumed?.from !== 'queued') {
+        const clock = await this.marketHoursService.getClock();
+        if (!clock.is_open) {
+          return await this.queueOrder(order, orderRequest, clock.next_open);
+        }
       }
 
-      if (currentReserve.reserve_amount < assetAmount) {
-        throw new BadRequestException(
-          `Insufficient reserves. Available: ${currentReserve.reserve_amount}, Requested: ${usdcAmount}`
-        );
+      const { limitPrice, result } = await this.priceOrder(order, orderRequest, asset, resumed);
+      if (result) {
+        return result;
       }
 
-      // Update asset reserve (negative delta for sell)
-      const updatedReserve = await this.supabaseService.updateAssetReserve(assetSymbol, -assetAmount);
+      const riskCheck = await this.riskLimitsService.check(order, asset, tokenAmount.amount, resumed?.from === 'held');
+      if (!riskCheck.withinLimits) {
+        return await this.holdForRisk(order, orderRequest, riskCheck);
+      }
 
-       // Burn tokens for the user
-      await this.tokenService.burnTokens(user, token, assetAmount);
+      // Check if we have enough reserves before selling, net of the sells already executing, and hold the amount
+      // until this sell has taken it off the reserve
+      const reserveHold = await this.reserveHoldsService.hold(chainId, assetSymbol, 'sell', tokenAmount.amount, (reserve, held) => {
+        if (reserve === null) {
+          return `Asset reserve not found for ${assetSymbol} on chain ${chainId}`;
+        }
+        const availableReserve = reserve - held;
+        return availableReserve < reserveDelta
+          ? `Insufficient reserves. Available: ${formatAmount(availableReserve, ASSET_DECIMALS)}, Requested: ${tokenAmount.amount}`
+          : null;
+      });
+      if (!reserveHold.held) {
+        throw new BadRequestException(reserveHold.reason);
+      }
+      releaseReserve = reserveHold.release;
 
-      // Transfer USDC back to user via order contract
-      await this.tokenService.withdrawUSDC(usdcAmount, user);
+      // Nothing is hedged for a user or token that cannot be burned from
+      await this.tokenService.assertCanTrade(chainId, user, token);
+      execution = {
+        chainId,
+        orderRequest,
+        order,
+        asset,
+        tokenAmount: tokenAmount.amount,
+        tokenDecimals,
+        hedgeQty: hedgeQty.amount,
+        usdcAmount: usdcPayout.amount,
+        limitPrice
+      };
+      // Tokens are only burned, and USDC paid out, for what the hedge actually sold. Limit orders are hedged on their own.
+      if (this.orderBatchService.enabled && !limitPrice) {
+        await this.settleInBatch(execution, 'sell', onBatched);
+      } else {
+        await this.orderSagaService.run(order.id, [
+          this.hedgeStep(execution, 'sell'),
+          this.hedgeFillStep(execution, 'sell'),
+          this.reserveStep(execution, -1n),
+          this.burnStep(execution),
+          this.withdrawStep(execution)
+        ]);
+      }
+
+      await this.recordDust([
+        { kind: 'burn', assetSymbol, amount: tokenAmount.dust, decimals: tokenDecimals, userAddress: user, chainId, source },
+        { kind: 'hedge', assetSymbol, amount: hedgeQty.dust, decimals: ALPACA_QTY_DECIMALS, userAddress: user, chainId, source },
+        { kind: 'withdraw', assetSymbol: 'USDC', amount: usdcPayout.dust, decimals: USDC_DECIMALS, userAddress: user, chainId, source }
+      ]);
+      execution.order = await this.advance(execution.order, 'settled');
 
       return {
         success: true,
-        message: `Successfully sold ${usdcAmount} USD worth of ${assetSymbol} (${assetAmount} tokens burned)`,
+        orderId: execution.order.id,
+        status: 'settled',
+        message: `Successfully sold ${execution.usdcAmount} USD worth of ${assetSymbol} (${execution.tokenAmount} tokens burned)`,
         assetSymbol,
-        amount: usdcAmount,
-        tokenBurned: assetAmount,
-        newTokenReserve: updatedReserve.reserve_amount
+        amount: execution.usdcAmount,
+        tokenBurned: execution.tokenAmount,
+        newTokenReserve: execution.newTokenReserve ?? '',
+        fillPrice: execution.fillPrice,
+        batchId: execution.batchId
       };
     } catch (error) {
       this.logger.error(`Failed to process sell order:`, error);
+      throw await this.failOrder(execution?.order ?? order, error);
+    } finally {
+      // The sell took its amount off the reserve, or failed without taking it
+      releaseReserve?.();
+    }
+  }
+
+  /**
+   * Settle an order in the open batch of its asset: the batch hedges the net quantity of its orders and mints
+   * or burns for all of them in one transaction. The user's USDC payout or refund is then sent on its own.
+   * @param execution - The order being executed
+   * @param side - buy for mints, sell for burns
+   * @param onBatched - Called once the order joined the batch
+   */
+  private async settleInBatch(execution: OrderExecution, side: OrderSide, onBatched?: () => void): Promise<void> {
+    const batchOrder: BatchOrder = {
+      order: execution.order,
+      orderRequest: execution.orderRequest,
+      asset: execution.asset,
+      side,
+      tokenAmount: execution.tokenAmount,
+      tokenDecimals: execution.tokenDecimals,
+      hedgeQty: execution.hedgeQty
+    };
+    try {
+      const submitted = this.orderBatchService.submit(batchOrder);
+      onBatched?.();
+      const allocation = await submitted;
+      execution.batchId = allocation.batchId;
+      execution.alpacaOrderId = allocation.alpacaOrderId;
+      execution.fillPrice = allocation.fillPrice;
+      execution.newTokenReserve = allocation.newTokenReserve;
+      this.scaleToFill(execution, side, allocation.filledQty);
+    } finally {
+      // The batch advanced the order
+      execution.order = batchOrder.order;
+    }
+
+    try {
+      await this.orderSagaService.run(execution.order.id, [
+        side === 'buy' ? this.refundStep(execution) : this.withdrawStep(execution)
+      ]);
+    } catch (error) {
+      // Nothing before the payout can be undone for a single order of the batch
+      if (error instanceof OrderSagaError && error.outcome === 'rolled_back') {
+        throw new OrderSagaError('manual_review', error.failure, error.steps);
+      }
       throw error;
     }
   }
+
+  /**
+   * Place the hedge at Alpaca; undone by cancelling the Alpaca order and trading back whatever of it filled.
+   * Not retried: a failed request may still have placed the order.
+   * @param execution - The order being executed
+   * @param side - buy for mints, sell for burns
+   */
+  private hedgeStep(execution: OrderExecution, side: OrderSide): OrderStep {
+    return {
+      name: 'hedge',
+      retryable: false,
+      run: async () => {
+        const alpacaOrder = await this.alpacaService.placeOrder(
+          execution.asset.broker_symbol,
+          execution.hedgeQty,
+          side,
+          execution.limitPrice
+        );
+        this.logger.log(`Alpaca order placed: ${JSON.stringify(alpacaOrder)}`);
+        const alpacaOrderId: string = alpacaOrder.id;
+        execution.alpacaOrderId = alpacaOrderId;
+        execution.order = await this.advance(execution.order, 'hedge_submitted', { alpacaOrderId });
+        return { alpacaOrderId };
+      },
+      compensate: () =>
+        this.alpacaService.unwindOrder(execution.asset.broker_symbol, execution.alpacaOrderId as string, side)
+    };
+  }
+
+  /**
+   * Wait for the hedge to reach a final status and scale the order to the quantity it filled.
+   * A hedge still open after ALPACA_FILL_TIMEOUT_MS is cancelled, keeping what filled so far.
+   * A buy that filled nothing is refunded in full; a sell that filled nothing fails, leaving the user's tokens untouched.
+   * @param execution - The order being executed
+   * @param side - buy for mints, sell for burns
+   */
+  private hedgeFillStep(execution: OrderExecution, side: OrderSide): OrderStep {
+    return {
+      name: 'hedge_fill',
+      retryable: true,
+      run: async () => {
+        const alpacaOrderId = execution.alpacaOrderId as string;
+        const hedge = await this.alpacaService.settleOrder(alpacaOrderId);
+
+        const filledQty = roundDown(hedge.filled_qty ?? '0', ALPACA_QTY_DECIMALS).amount;
+        if (!isPositiveAmount(filledQty)) {
+          if (side === 'sell') {
+            throw new Error(`Alpaca order ${alpacaOrderId} ended ${hedge.status} without a fill`);
+          }
+          this.logger.warn(`Alpaca order ${alpacaOrderId} ended ${hedge.status} without a fill; refunding the buy`);
+          this.scaleToFill(execution, side, filledQty);
+          return { alpacaOrderId };
+        }
+
+        this.scaleToFill(execution, side, filledQty);
+        execution.fillPrice = hedge.filled_avg_price ?? undefined;
+        execution.order = await this.advance(execution.order, 'hedge_filled', {
+          alpacaOrderId,
+          filledQty,
+          fillPrice: execution.fillPrice
+        });
+        return { alpacaOrderId };
+      }
+    };
+  }
+
+  /**
+   * Apply the order to the asset reserve; undone by applying the opposite delta
+   * @param execution - The order being executed
+   * @param direction - 1n for buys, -1n for sells
+   */
+  private reserveStep(execution: OrderExecution, direction: bigint): OrderStep {
+    const { chainId, orderRequest } = execution;
+    let delta = 0n;
+    return {
+      name: 'reserve',
+      retryable: true,
+      run: async () => {
+        delta = direction * parseAmount(execution.tokenAmount, ASSET_DECIMALS);
+        if (delta === 0n) {
+          const currentReserve = await this.supabaseService.getAssetReserve(chainId, orderRequest.assetSymbol);
+          execution.newTokenReserve = currentReserve?.reserve_amount ?? '0';
+          return;
+        }
+        const updatedReserve = await this.supabaseService.updateAssetReserve(chainId, orderRequest.assetSymbol, delta);
+        execution.newTokenReserve = updatedReserve.reserve_amount;
+      },
+      compensate: async () => {
+        if (delta === 0n) {
+          return;
+        }
+        const restoredReserve = await this.supabaseService.updateAssetReserve(chainId, orderRequest.assetSymbol, -delta);
+        execution.newTokenReserve = restoredReserve.reserve_amount;
+      }
+    };
+  }
+
+  /**
+   * Mint the tokens the hedge bought; undone by burning them again
+   * @param execution - The order being executed
+   */
+  private mintStep(execution: OrderExecution): OrderStep {
+    const { chainId, orderRequest } = execution;
+    let minted = false;
+    return {
+      name: 'mint',
+      retryable: true,
+      run: async () => {
+        if (!isPositiveAmount(execution.tokenAmount)) {
+          return;
+        }
+        const txHash = await this.tokenService.mintTokens(chainId, orderRequest.user, orderRequest.token, execution.tokenAmount, execution.order.id);
+        minted = true;
+        execution.order = await this.advance(execution.order, 'minted', { txHash });
+        return { txHash };
+      },
+      compensate: async () => {
+        if (!minted) {
+          return;
+        }
+        return {
+          txHash: await this.tokenService.burnTokens(chainId, orderRequest.user, orderRequest.token, execution.tokenAmount, execution.order.id)
+        };
+      }
+    };
+  }
+
+  /**
+   * Burn the tokens the hedge sold; undone by minting them back
+   * @param execution - The order being executed
+   */
+  private burnStep(execution: OrderExecution): OrderStep {
+    const { chainId, orderRequest } = execution;
+    return {
+      name: 'burn',
+      retryable: true,
+      run: async () => {
+        const txHash = await this.tokenService.burnTokens(chainId, orderRequest.user, orderRequest.token, execution.tokenAmount, execution.order.id);
+        execution.order = await this.advance(execution.order, 'burned', { txHash });
+        return { txHash };
+      },
+      compensate: async () => ({
+        txHash: await this.tokenService.mintTokens(chainId, orderRequest.user, orderRequest.token, execution.tokenAmount, execution.order.id)
+      })
+    };
+  }
+
+  /**
+   * Pay the user's USDC out. Last step of a sell, so it has nothing to undo.
+   * @param execution - The order being executed
+   */
+  private withdrawStep(execution: OrderExecution): OrderStep {
+    const { chainId, orderRequest } = execution;
+    return {
+      name: 'withdraw',
+      retryable: true,
+      run: async () => {
+        const txHash = await this.tokenService.withdrawUSDC(chainId, execution.usdcAmount, orderRequest.user, execution.order.id);
+        execution.order = await this.advance(execution.order, 'usdc_paid', { txHash });
+        await this.recordWithdrawal(chainId, txHash, orderRequest.user, execution.usdcAmount, orderRequest.source);
+        return { txHash };
+      }
+    };
+  }
+
+  /**
+   * Return the USDC of the part of a buy the hedge did not fill. Last step of a buy, so it has nothing to undo.
+   * @param execution - The order being executed
+   */
+  private refundStep(execution: OrderExecution): OrderStep {
+    const { chainId, orderRequest } = execution;
+    return {
+      name: 'refund',
+      retryable: true,
+      run: async () => {
+        const refundAmount = execution.usdcRefund;
+        if (!refundAmount || !isPositiveAmount(refundAmount)) {
+          return;
+        }
+        const txHash = await this.tokenService.withdrawUSDC(chainId, refundAmount, orderRequest.user, execution.order.id);
+        execution.order = await this.advance(execution.order, 'usdc_refunded', { txHash, refundAmount });
+        await this.recordWithdrawal(chainId, txHash, orderRequest.user, refundAmount, orderRequest.source);
+        return { txHash };
+      }
+    };
+  }
+
+  /**
+   * Scale the order to a partial hedge fill: the token amount drops to the filled quantity, and the USDC
+   * of the unfilled part is refunded on buys or withheld from the payout on sells. USDC is rounded down.
+   * @param execution - The order being executed
+   * @param side - buy for mints, sell for burns
+   * @param filledQty - The quantity the hedge filled, at Alpaca's precision
+   */
+  private scaleToFill(execution: OrderExecution, side: OrderSide, filledQty: string): void {
+    const ordered = parseAmount(execution.hedgeQty, ALPACA_QTY_DECIMALS);
+    const filled = parseAmount(filledQty, ALPACA_QTY_DECIMALS);
+    if (filled >= ordered) {
+      return;
+    }
+
+    const usdc = parseAmount(execution.usdcAmount, USDC_DECIMALS);
+    execution.tokenAmount = roundDown(filledQty, execution.tokenDecimals).amount;
+    if (side === 'buy') {
+      execution.usdcRefund = formatAmount((usdc * (ordered - filled)) / ordered, USDC_DECIMALS);
+    } else {
+      execution.usdcAmount = formatAmount((usdc * filled) / ordered, USDC_DECIMALS);
+    }
+    this.logger.warn(
+      `Order ${execution.order.id}: hedge filled ${filledQty} of ${execution.hedgeQty}; scaled to ${execution.tokenAmount} tokens`
+    );
+  }
+
+  /**
+   * Decide what price the order is hedged at.
+   * New orders, and queued ones under the market policy, are checked against the broker quote; an operator's approval
+   * overrides the check. A queued order under the limit policy skips the check and is hedged with a limit order at its
+   * own price instead, rounded to cents in the protocol's favour: down for buys, up for sells.
+   * @param order - The received order
+   * @param orderRequest - The order details
+   * @param asset - The asset of the order
+   * @param resumed - The held or queued order the execution picked up, if any
+   * @returns The limit price of the hedge, unset for a market order; or the result, when the order was held or rejected
+   */
+  private async priceOrder(
+    order: Order,
+    orderRequest: OrderRequest,
+    asset: Asset,
+    resumed?: ResumedOrder
+  ): Promise<{ limitPrice?: string; result?: OrderResponse }> {
+    if (resumed?.from === 'held') {
+      return {};
+    }
+    if (resumed?.from === 'queued' && this.marketHoursService.pricePolicy === 'limit') {
+      const price = roundDown(orderRequest.price, ALPACA_PRICE_DECIMALS);
+      if (order.side === 'buy' || price.dust === null) {
+        return { limitPrice: price.amount };
+      }
+      return { limitPrice: formatAmount(price.units + 1n, ALPACA_PRICE_DECIMALS) };
+    }
+
+    const priceCheck = await this.priceGuardService.check(asset, order.side, orderRequest.price);
+    if (!priceCheck.withinTolerance) {
+      return { result: await this.holdOrReject(order, orderRequest, priceCheck) };
+    }
+    return {};
+  }
+
+  /**
+   * Park an order received while the market is closed until the next open. Nothing has happened yet,
+   * so a failure to queue the order simply fails it.
+   * @param order - The received order
+   * @param orderRequest - The order details
+   * @param nextOpen - The next market open, from the broker's clock
+   * @returns Promise with order result
+   */
+  private async queueOrder(order: Order, orderRequest: OrderRequest, nextOpen: string): Promise<OrderResponse> {
+    const queued = await this.orderLifecycleService.transition(order, 'queued', { executeAfter: nextOpen });
+    this.logger.log(`Order ${queued.id} queued until the market opens at ${nextOpen}`);
+    return {
+      success: false,
+      orderId: queued.id,
+      status: 'queued',
+      message: `Market closed; order queued until ${nextOpen}`,
+      assetSymbol: orderRequest.assetSymbol,
+      amount: orderRequest.usdcAmount,
+      newTokenReserve: await this.getReserveAmount(order.chain_id, orderRequest.assetSymbol),
+      executeAfter: nextOpen
+    };
+  }
+
+  /**
+   * Keep an order whose price is outside the tolerance from executing: hold it until an operator decides,
+   * or with PRICE_DEVIATION_ACTION=refund reject it right away
+   * @param order - The received order
+   * @param orderRequest - The order details
+   * @param priceCheck - The failed price check
+   * @returns Promise with order result
+   */
+  private async holdOrReject(order: Order, orderRequest: OrderRequest, priceCheck: PriceCheck): Promise<OrderResponse> {
+    const reason = priceCheck.reason ?? 'Price outside the tolerance';
+    if (this.priceGuardService.action === 'refund') {
+      return this.rejectOrder(order, orderRequest, reason, priceCheck);
+    }
+
+    return this.holdOrder(order, orderRequest, reason, {
+      quotePrice: priceCheck.quotePrice ?? undefined,
+      priceDeviationBps: priceCheck.deviationBps ?? undefined
+    });
+  }
+
+  /**
+   * Hold an order that breached a risk limit until an operator approves or rejects it, and raise an alert
+   * @param order - The received order
+   * @param orderRequest - The order details
+   * @param riskCheck - The failed risk check
+   * @returns Promise with order result
+   */
+  private async holdForRisk(order: Order, orderRequest: OrderRequest, riskCheck: RiskCheck): Promise<OrderResponse> {
+    const reason = riskCheck.reason ?? 'Risk limit breached';
+    const result = await this.holdOrder(order, orderRequest, reason, { riskLimit: riskCheck.breached });
+    await this.alertService.raise({
+      severity: 'warning',
+      kind: 'risk_limit_breached',
+      message: `Order ${order.id} held: ${reason}`,
+      details: {
+        orderId: order.id,
+        chainId: order.chain_id,
+        side: order.side,
+        user: order.user_address,
+        assetSymbol: order.asset_symbol,
+        usdcAmount: order.usdc_amount,
+        limit: riskCheck.breached
+      }
+    });
+    return result;
+  }
+
+  /**
+   * Park an order for an operator's decision. Nothing has happened yet, so a failure to hold the order simply fails it.
+   * @param order - The received order
+   * @param orderRequest - The order details
+   * @param reason - Why the order is held, kept on the order
+   * @param details - What the failed check found
+   * @returns Promise with order result
+   */
+  private async holdOrder(
+    order: Order,
+    orderRequest: OrderRequest,
+    reason: string,
+    details: OrderTransitionDetails
+  ): Promise<OrderResponse> {
+    const held = await this.orderLifecycleService.transition(order, 'held', { ...details, error: reason });
+    this.logger.warn(`Order ${held.id} held for review: ${reason}`);
+    return {
+      success: false,
+      orderId: held.id,
+      status: 'held',
+      message: `Order held for review: ${reason}`,
+      assetSymbol: orderRequest.assetSymbol,
+      amount: orderRequest.usdcAmount,
+      newTokenReserve: await this.getReserveAmount(order.chain_id, orderRequest.assetSymbol)
+    };
+  }
+
+  /**
+   * Reject an order before anything was hedged, minted or burned. A buy has its USDC refunded in full;
+   * a sell never touched the user's tokens.
+   * @param order - The received or held order
+   * @param orderRequest - The order details
+   * @param reason - Why the order is rejected
+   * @param priceCheck - The failed price check, when the rejection is automatic
+   * @returns Promise with order result
+   */
+  private async rejectOrder(
+    order: Order,
+    orderRequest: OrderRequest,
+    reason: string,
+    priceCheck?: PriceCheck
+  ): Promise<OrderResponse> {
+    const chainId = order.chain_id;
+    const { assetSymbol, source } = orderRequest;
+    const details: OrderTransitionDetails = {
+      error: reason,
+      quotePrice: priceCheck?.quotePrice ?? undefined,
+      priceDeviationBps: priceCheck?.deviationBps ?? undefined
+    };
+
+    let refundAmount: string | undefined;
+    if (order.side === 'buy') {
+      // The protocol turned the order down, so it is refunded in full
+      const refund = await this.refundService.refund(order, reason, { chargeFee: false }, source);
+      details.txHash = refund.tx_hash ?? undefined;
+      details.refundAmount = refund.amount;
+      refundAmount = refund.amount;
+    }
+
+    const rejected = await this.advance(order, 'rejected', details);
+    this.logger.warn(`Order ${rejected.id} rejected: ${reason}`);
+    return {
+      success: false,
+      orderId: rejected.id,
+      status: 'rejected',
+      message: refundAmount ? `Order rejected: ${reason}; ${refundAmount} USDC refunded` : `Order rejected: ${reason}`,
+      assetSymbol,
+      amount: orderRequest.usdcAmount,
+      newTokenReserve: await this.getReserveAmount(chainId, assetSymbol),
+      usdcRefunded: refundAmount
+    };
+  }
+
+  /**
+   * Return the USDC of a buy that failed because it can never be fulfilled, minus the refund fee.
+   * Its steps were rolled back, so the order goes from failed or compensated to refunded and its log is done.
+   * If nothing could be sent the original failure is rethrown, so the log is retried and the refund attempted again;
+   * a refund whose transaction is unconfirmed puts the order in manual review.
+   * @param orderId - The failed buy
+   * @param orderRequest - The order details
+   * @param failure - The error the buy failed with
+   * @returns Promise with order result
+   */
+  private async refundUnfulfilledBuy(orderId: string, orderRequest: OrderRequest, failure: unknown): Promise<OrderResponse> {
+    const order = await this.orderLifecycleService.getOrder(orderId);
+    const cause = failure instanceof Error ? failure.message : String(failure);
+    const reason = `Order cannot be fulfilled: ${cause}`;
+
+    let refund: Refund;
+    try {
+      refund = await this.refundService.refund(order, reason, { chargeFee: true }, orderRequest.source);
+    } catch (error) {
+      this.logger.error(`Failed to refund order ${orderId}:`, error);
+      if (error instanceof OrderSagaError && error.outcome === 'manual_review') {
+        await this.advance(order, 'manual_review', { error: `Refund unconfirmed: ${error.message}` });
+        throw error;
+      }
+      throw failure;
+    }
+
+    const refunded = await this.advance(order, 'refunded', {
+      txHash: refund.tx_hash ?? undefined,
+      refundAmount: refund.amount,
+      refundFee: refund.fee,
+      error: reason
+    });
+    return {
+      success: false,
+      orderId: refunded.id,
+      status: 'refunded',
+      message: `${reason}; ${refund.amount} USDC refunded`,
+      assetSymbol: orderRequest.assetSymbol,
+      amount: orderRequest.usdcAmount,
+      newTokenReserve: await this.getReserveAmount(order.chain_id, orderRequest.assetSymbol),
+      usdcRefunded: refund.amount
+    };
+  }
+
+  /**
+   * Get an order that is waiting for an operator's decision or for the market to open
+   * @param id - The order id
+   * @param status - held or queued
+   * @throws ConflictException if the order is not in that status
+   */
+  private async getParkedOrder(id: string, status: ParkedEventStatus): Promise<Order> {
+    const order = await this.orderLifecycleService.getOrder(id);
+    if (order.status !== status) {
+      throw new ConflictException(`Order ${id} is ${order.status}, not ${status}`);
+    }
+    return order;
+  }
+
+  /**
+   * Rebuild the request of a recorded order, including its source log
+   * @param order - The order
+   */
+  async toOrderRequest(order: Order): Promise<OrderRequest> {
+    const orderRequest: OrderRequest = {
+      user: order.user_address,
+      token: order.token_address,
+      assetSymbol: order.asset_symbol,
+      usdcAmount: order.usdc_amount,
+      assetAmount: order.asset_amount,
+      price: order.price,
+      chainId: order.chain_id
+    };
+    if (order.source_tx_hash !== null && order.source_log_index !== null) {
+      const event = await this.processedEventsService.getProcessedEvent(
+        order.chain_id,
+        order.source_tx_hash,
+        order.source_log_index
+      );
+      if (!event) {
+        throw new ConflictException(`Order ${order.id} has no processed-events ledger entry`);
+      }
+      orderRequest.source = {
+        chainId: order.chain_id,
+        txHash: order.source_tx_hash,
+        logIndex: order.source_log_index,
+        blockNumber: event.block_number
+      };
+    }
+    return orderRequest;
+  }
+
+  /**
+   * Read an asset reserve for an order response. Runs after the order was decided, so a failure is logged
+   * and reported as an empty amount.
+   * @param chainId - The chain of the reserve
+   * @param assetSymbol - The asset
+   */
+  private async getReserveAmount(chainId: number, assetSymbol: string): Promise<string> {
+    try {
+      const reserve = await this.supabaseService.getAssetReserve(chainId, assetSymbol);
+      return reserve?.reserve_amount ?? '0';
+    } catch (error) {
+      this.logger.error(`Failed to read the ${assetSymbol} reserve on chain ${chainId}:`, error);
+      return '';
+    }
+  }
+
+  /**
+   * Record a failed order and decide what to rethrow.
+   * An order whose steps were rolled back is compensated and fails with the step's own error, so it can be retried;
+   * one that could not be rolled back is held for manual review.
+   * @param order - The order in its current state, if it was recorded before failing
+   * @param error - The error that made the order fail
+   * @returns The error to rethrow
+   */
+  private async failOrder(order: Order | undefined, error: unknown): Promise<unknown> {
+    const failure = error instanceof OrderSagaError ? error.failure : error;
+    if (!order) {
+      return failure;
+    }
+
+    const message = failure instanceof Error ? failure.message : String(failure);
+    order = await this.advance(order, 'failed', { error: message });
+    if (!(error instanceof OrderSagaError)) {
+      return failure;
+    }
+    if (error.outcome === 'rolled_back') {
+      await this.advance(order, 'compensated');
+      return failure;
+    }
+
+    order = await this.advance(order, 'manual_review', { error: message });
+    this.logger.error(
+      `Order ${order.id} needs manual review; its steps could not be completed or rolled back: ${JSON.stringify(error.steps)}`
+    );
+    return error;
+  }
+
+  /**
+   * Record an order transition.
+   * Transitions follow side effects that already happened, so a failure is logged rather than failing the order.
+   * @param order - The order in its current state
+   * @param to - The status to move to
+   * @param details - Alpaca order id, transaction hash or error produced by the step
+   * @returns The updated order, or the order unchanged if the transition could not be recorded
+   */
+  private async advance(order: Order, to: OrderStatus, details?: OrderTransitionDetails): Promise<Order> {
+    try {
+      return await this.orderLifecycleService.transition(order, to, details);
+    } catch (error) {
+      this.logger.error(`Failed to record order ${order.id} moving from ${order.status} to ${to}:`, error);
+      return order;
+    }
+  }
+
+  /**
+   * Resolve the deployment an order runs on: its source log's chain, the requested chain, or the default deployment
+   * @param orderRequest - The order details
+   * @throws BadRequestException if the chain is not configured or contradicts the source log
+   */
+  private resolveChainId(orderRequest: OrderRequest): number {
+    const { source, chainId } = orderRequest;
+    if (source && chainId !== undefined && source.chainId !== chainId) {
+      throw new BadRequestException(`Order chain ${chainId} does not match the chain ${source.chainId} of its source log`);
+    }
+    return this.deploymentRegistry.resolve(source?.chainId ?? chainId).chainId;
+  }
+
+  /**
+   * Round an asset amount down to the token's decimals for minting or burning,
+   * and the result down again to the precision Alpaca accepts for the hedge
+   * @param asset - The registered asset of the order
+   * @param assetAmount - The exact asset amount of the order
+   */
+  private roundAssetAmount(asset: Asset, assetAmount: string): RoundedAssetAmount {
+    const tokenDecimals = asset.decimals;
+    const tokenAmount = roundDown(assetAmount, tokenDecimals);
+    const hedgeQty = roundDown(tokenAmount.amount, ALPACA_QTY_DECIMALS);
+    return { tokenAmount, tokenDecimals, hedgeQty };
+  }
+
+  /**
+   * Record a USDC payout so the indexed AgentUSDCWithdraw event can be cross-checked against it.
+   * The USDC is already paid out, so a failure is logged rather than failing the order.
+   * @param chainId - The chain the withdrawal was sent on
+   * @param txHash - The withdrawal transaction
+   * @param user - The user USDC was paid to
+   * @param amount - The USDC amount sent
+   * @param source - The sell order log that triggered the payout, if any
+   */
+  private async recordWithdrawal(
+    chainId: number,
+    txHash: string,
+    user: string,
+    amount: string,
+    source?: OrderEventSource
+  ): Promise<void> {
+    try {
+      await this.withdrawalsService.recordInitiated({ chainId, txHash, userAddress: user, amount, order: source });
+    } catch (error) {
+      this.logger.error(`Failed to record USDC withdrawal ${txHash}:`, error);
+    }
+  }
+
+  /**
+   * Book rounding remainders in the dust ledger.
+   * Runs after the order's side effects, so a ledger failure is logged rather than failing an order that already executed.
+   * @param entries - One entry per rounding step; steps that dropped nothing are skipped
+   */
+  private async recordDust(entries: RoundingRemainder[]): Promise<void> {
+    const dust = entries.filter((entry): entry is NewDustEntry => entry.amount !== null);
+    try {
+      await this.dustLedgerService.record(dust);
+    } catch (error) {
+      this.logger.error(`Failed to record dust ${JSON.stringify(dust)}:`, error);
+    }
+  }
+
+  /**
+   * Compensate an order whose source log disappeared in a chain reorganization.
+   * Buys are reversed by burning the minted tokens and restoring the reserve first, then selling the hedge; while the
+   * market is closed the hedge is sold at the next open. USDC refunded for an unfilled part cannot be recalled, so such
+   * buys end in manual review once reversed. Sells already paid USDC out, so they are routed to manual review.
+   * @param event - The ledger entry of the orphaned log
+   */
+  async compensateOrphanedEvent(event: ProcessedEvent): Promise<void> {
+    const order = event.payload as OrderRequest | null;
+    const result = event.result as OrderResponse | null;
+    this.logger.warn(`Compensating ${event.event_name} ${event.tx_hash}:${event.log_index} (status: ${event.status}) after reorg`);
+
+    // Held and queued orders and sells rejected for their price have not executed anything either;
+    // compensating a held or queued order's entry keeps it from being approved or executed
+    if (
+      event.status === 'failed' ||
+      event.status === 'held' ||
+      event.status === 'queued' ||
+      (result?.status === 'rejected' && !result.usdcRefunded)
+    ) {
+      await this.processedEventsService.recordCompensation(event, 'compensated', {
+        action: 'none',
+        reason: 'Order was never executed'
+      });
+      return;
+    }
+
+    if (event.status === 'processed' && (result?.status === 'rejected' || result?.status === 'refunded')) {
+      await this.processedEventsService.recordCompensation(event, 'manual_review', {
+        action: 'none',
+        reason: `Order was ${result.status} and ${result.usdcRefunded} USDC refunded to ${order?.user}; USDC cannot be recalled automatically`
+      });
+      return;
+    }
+
+    if (event.status !== 'processed' || !order) {
+      await this.processedEventsService.recordCompensation(event, 'manual_review', {
+        action: 'none',
+        reason: `Order was in status ${event.status} when its log disappeared; side effects are unknown`
+      });
+      return;
+    }
+
+    if (event.event_name === 'SellOrderCreated') {
+      await this.processedEventsService.recordCompensation(event, 'manual_review', {
+        action: 'none',
+        reason: `Tokens were burned and ${order.usdcAmount} USDC withdrawn to ${order.user}; USDC cannot be recalled automatically`
+      });
+      return;
+    }
+
+    const chainId = event.chain_id;
+    const usdcRefunded = result?.usdcRefunded && isPositiveAmount(result.usdcRefunded) ? result.usdcRefunded : undefined;
+    let mintedAmount = result?.tokenMinted;
+    if (mintedAmount === undefined) {
+      // Disabled assets are still compensated
+      const asset = await this.assetRegistryService.getByToken(chainId, order.token);
+      mintedAmount = this.roundAssetAmount(asset, order.assetAmount).tokenAmount.amount;
+    }
+
+    // A buy whose hedge filled nothing minted nothing and left no hedge to sell
+    if (!isPositiveAmount(mintedAmount)) {
+      await this.processedEventsService.recordCompensation(
+        event,
+        usdcRefunded ? 'manual_review' : 'compensated',
+        {
+          action: 'none',
+          reason: usdcRefunded
+            ? `Nothing was minted and ${usdcRefunded} USDC refunded to ${order.user}; USDC cannot be recalled automatically`
+            : 'Nothing was minted'
+        }
+      );
+      return;
+    }
+
+    await this.processedEventsService.recordCompensation(event, 'orphaned', {
+      action: 'burn_minted_tokens',
+      startedAt: new Date().toISOString()
+    });
+    let compensation: Record<string, any>;
+    try {
+      // Burn exactly what was minted before touching the hedge, so a burn that fails (e.g. because the user
+      // already moved the tokens) leaves the hedge backing the tokens still in circulation
+      await this.tokenService.assertCanTrade(chainId, order.user, order.token);
+      const burnTxHash = await this.tokenService.burnTokens(chainId, order.user, order.token, mintedAmount, result?.orderId);
+      const updatedReserve = await this.supabaseService.updateAssetReserve(
+        chainId,
+        order.assetSymbol,
+        -parseAmount(mintedAmount, ASSET_DECIMALS)
+      );
+      compensation = {
+        action: 'unwind_hedge',
+        burnTxHash,
+        reserveDelta: `-${mintedAmount}`,
+        newTokenReserve: updatedReserve.reserve_amount,
+        usdcRefunded
+      };
+    } catch (error) {
+      this.logger.error(`Failed to compensate orphaned buy ${event.tx_hash}:${event.log_index}:`, error);
+      await this.processedEventsService.recordCompensation(event, 'manual_review', {
+        action: 'burn_minted_tokens',
+        error: error instanceof Error ? error.message : String(error)
+      });
+      return;
+    }
+
+    const clock = await this.marketHoursService.getClock().catch((error) => {
+      this.logger.error(`Failed to read the market clock for orphaned buy ${event.tx_hash}:${event.log_index}:`, error);
+      return null;
+    });
+    if (!clock?.is_open) {
+      // The hedge is sold once the market opens
+      await this.processedEventsService.recordCompensation(event, 'orphaned', {
+        ...compensation,
+        nextOpen: clock?.next_open
+      });
+      this.logger.warn(`Orphaned buy ${event.tx_hash}:${event.log_index} burned; its hedge is sold at the next market open`);
+      return;
+    }
+    await this.unwindOrphanedHedge(event, compensation);
+  }
+
+  /**
+   * Sell the hedges of orphaned buys whose tokens were burned while the market was closed
+   */
+  async unwindPendingOrphanedHedges(): Promise<void> {
+    const orphaned = await this.processedEventsService.findProcessedEvents({ status: 'orphaned' });
+    for (const event of orphaned) {
+      if (event.compensation?.action === 'unwind_hedge') {
+        await this.unwindOrphanedHedge(event, event.compensation);
+      }
+    }
+  }
+
+  /**
+   * Sell the hedge of an orphaned buy whose minted tokens were burned, and settle its compensation
+   * @param event - The ledger entry of the orphaned log
+   * @param compensation - The compensation so far, with the burn and reserve update
+   */
+  private async unwindOrphanedHedge(event: ProcessedEvent, compensation: Record<string, any>): Promise<void> {
+    const order = event.payload as OrderRequest;
+    const chainId = event.chain_id;
+    const mintedAmount = (compensation.reserveDelta as string).replace(/^-/, '');
+    const usdcRefunded = compensation.usdcRefunded as string | undefined;
+    const burnTxHash = compensation.burnTxHash as string;
+
+    // Marked before the sale, so a crash in between never sells the hedge twice
+    await this.processedEventsService.recordCompensation(event, 'orphaned', {
+      ...compensation,
+      action: 'unwinding_hedge'
+    });
+    let alpacaOrderId: string;
+    try {
+      const asset = await this.assetRegistryService.getByToken(chainId, order.token);
+      const hedgeQty = roundDown(mintedAmount, ALPACA_QTY_DECIMALS);
+      const alpacaOrder = await this.alpacaService.placeOrder(asset.broker_symbol, hedgeQty.amount, 'sell');
+      alpacaOrderId = alpacaOrder.id;
+      await this.recordDust([
+        {
+          kind: 'hedge',
+          assetSymbol: order.assetSymbol,
+          amount: hedgeQty.dust,
+          decimals: ALPACA_QTY_DECIMALS,
+          userAddress: order.user,
+          chainId,
+          source: order.source
+        }
+      ]);
+    } catch (error) {
+      this.logger.error(`Failed to unwind the hedge of orphaned buy ${event.tx_hash}:${event.log_index}:`, error);
+      await this.processedEventsService.recordCompensation(event, 'manual_review', {
+        ...compensation,
+        action: 'unwind_hedge',
+        error: error instanceof Error ? error.message : String(error)
+      });
+      return;
+    }
+
+    await this.processedEventsService.recordCompensation(event, usdcRefunded ? 'manual_review' : 'compensated', {
+      ...compensation,
+      action: 'burned_minted_tokens',
+      alpacaOrderId,
+      reason: usdcRefunded
+        ? `Minted tokens burned and hedge sold; ${usdcRefunded} USDC refunded to ${order.user} cannot be recalled automatically`
+        : undefined
+    });
+
+    const record = await this.orderLifecycleService.findBySource(chainId, event.tx_hash, event.log_index).catch((error) => {
+      this.logger.error(`Failed to look up order of ${event.tx_hash}:${event.log_index}:`, error);
+      return null;
+    });
+    if (record) {
+      await this.advance(record, 'compensated', { alpacaOrderId, txHash: burnTxHash });
+    }
+  }
 }
@@ -0,0 +1,94 @@
+import { Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { AlpacaService } from '../alpaca/alpaca.service';
+import { Asset } from '../assets/asset-registry.service';
+import { PriceGuardService } from './price-guard.service';
+
+describe('PriceGuardService', () => {
+  let getLatestQuotes: jest.Mock;
+
+  beforeAll(() => {
+    Logger.overrideLogger(false);
+  });
+
+  beforeEach(() => {
+    getLatestQuotes = jest
+      .fn()
+      .mockResolvedValue({ quotes: { LQD: { ap: 100, bp: 98 } } });
+  });
+
+  function guard(config: Record<string, string> = {}): PriceGuardService {
+    return new PriceGuardService(new ConfigService(config), {
+      getLatestQuotes,
+    } as unknown as AlpacaService);
+  }
+
+  function asset(maxDeviationBps: number | null = null): Asset {
+    return {
+      ticker: 'LQD',
+      broker_symbol: 'LQD',
+      max_price_deviation_bps: maxDeviationBps,
+    } as Asset;
+  }
+
+  it('checks a buy against the ask', async () => {
+    await expect(guard().check(asset(), 'buy', '102')).resolves.toEqual({
+      quotePrice: '100.0',
+      deviationBps: 200,
+      toleranceBps: 200,
+      withinTolerance: true,
+      reason: undefined,
+    });
+  });
+
+  it('checks a sell against the bid', async () => {
+    await expect(guard().check(asset(), 'sell', '100')).resolves.toMatchObject({
+      quotePrice: '98.0',
+      deviationBps: 205,
+    });
+  });
+
+  it('rounds the deviation up, so one just above the tolerance is caught', async () => {
+    const check = await guard().check(asset(), 'buy', '102.00000001');
+
+    expect(check).toMatchObject({ deviationBps: 201, withinTolerance: false });
+    expect(check.reason).toContain('above the 200 bps tolerance');
+  });
+
+  it('uses the tolerance of the asset over the default', async () => {
+    await expect(
+      guard({ PRICE_DEVIATION_TOLERANCE_BPS: '500' }).check(
+        asset(50),
+        'buy',
+        '101',
+      ),
+    ).resolves.toMatchObject({ toleranceBps: 50, withinTolerance: false });
+  });
+
+  it('treats an order the broker has no quote for as outside the tolerance', async () => {
+    getLatestQuotes.mockResolvedValue({ quotes: { LQD: { ap: 0, bp: 98 } } });
+
+    await expect(guard().check(asset(), 'buy', '100')).resolves.toEqual({
+      quotePrice: null,
+      deviationBps: null,
+      toleranceBps: 200,
+      withinTolerance: false,
+      reason: 'No ask quote available for LQD',
+    });
+  });
+
+  it('prices crossed orders at the midpoint of the quote', async () => {
+    await expect(guard().getMidPrice('LQD')).resolves.toBe('99.0');
+  });
+
+  it.each([
+    ['refund', 'refund'],
+    ['hold', 'hold'],
+    ['hold', 'unknown'],
+  ])(
+    'answers a deviation with %s when PRICE_DEVIATION_ACTION is %s',
+    (action, configured) => {
+      expect(guard({ PRICE_DEVIATION_ACTION: configured }).action).toBe(action);
+    },
+  );
+});
@@ -0,0 +1,155 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { AlpacaService } from '../alpaca/alpaca.service';
+import { Asset } from '../assets/asset-registry.service';
+import {
+  PRICE_DECIMALS,
+  formatAmount,
+  parseAmount,
+  roundDown,
+} from '../shared/utils/amounts';
+import { OrderSide } from './order-lifecycle.service';
+
+export interface PriceCheck {
+  // Side-appropriate broker quote: the ask for buys, the bid for sells; null if none was available
+  quotePrice: string | null;
+  deviationBps: number | null;
+  toleranceBps: number;
+  withinTolerance: boolean;
+  reason?: string;
+}
+
+// Response of the Alpaca latest-quotes endpoint: ask and bid prices per symbol
+interface LatestQuotes {
+  quotes?: Record<string, { ap?: number; bp?: number }>;
+}
+
+/**
+ * What happens to an order whose price is outside the tolerance:
+ * hold parks it until an operator approves or rejects it, refund rejects it right away.
+ */
+export type PriceDeviationAction = 'hold' | 'refund';
+
+@Injectable()
+export class PriceGuardService {
+  private readonly logger = new Logger(PriceGuardService.name);
+  private readonly defaultToleranceBps: number;
+  readonly action: PriceDeviationAction;
+
+  constructor(
+    private readonly config: ConfigService,
+    private readonly alpacaService: AlpacaService,
+  ) {
+    this.defaultToleranceBps = Number(
+      this.config.get<string>('PRICE_DEVIATION_TOLERANCE_BPS') ?? 200,
+    );
+    this.action =
+      this.config.get<string>('PRICE_DEVIATION_ACTION') === 'refund'
+        ? 'refund'
+        : 'hold';
+  }
+
+  /**
+   * Compare an order's on-chain price with the current broker quote of its asset.
+   * Buys are checked against the ask and sells against the bid, the prices the hedge trades at.
+   * An order that cannot be checked, because the broker has no quote, is treated as outside the tolerance.
+   * @param asset - The asset of the order
+   * @param side - buy or sell
+   * @param price - The price from the order event, as a decimal string
+   */
+  async check(
+    asset: Asset,
+    side: OrderSide,
+    price: string,
+  ): Promise<PriceCheck> {
+    const toleranceBps =
+      asset.max_price_deviation_bps ?? this.defaultToleranceBps;
+    const quotePrice = await this.getQuotePrice(asset.broker_symbol, side);
+    if (!quotePrice) {
+      return {
+        quotePrice: null,
+        deviationBps: null,
+        toleranceBps,
+        withinTolerance: false,
+        reason: `No ${side === 'buy' ? 'ask' : 'bid'} quote available for ${asset.broker_symbol}`,
+      };
+    }
+
+    const orderUnits = parseAmount(
+      roundDown(price, PRICE_DECIMALS).amount,
+      PRICE_DECIMALS,
+    );
+    const quoteUnits = parseAmount(quotePrice, PRICE_DECIMALS);
+    const difference =
+      orderUnits > quoteUnits
+        ? orderUnits - quoteUnits
+        : quoteUnits - orderUnits;
+    // Rounded up, so a deviation just above the tolerance is never let through
+    const deviationBps = Number(
+      (difference * 10000n + quoteUnits - 1n) / quoteUnits,
+    );
+    const withinTolerance = deviationBps <= toleranceBps;
+    if (!withinTolerance) {
+      this.logger.warn(
+        `${side} ${asset.ticker} at ${price} deviates ${deviationBps} bps from the ${asset.broker_symbol} quote ${quotePrice} (tolerance ${toleranceBps} bps)`,
+      );
+    }
+
+    return {
+      quotePrice,
+      deviationBps,
+      toleranceBps,
+      withinTolerance,
+      reason: withinTolerance
+        ? undefined
+        : `Price ${price} deviates ${deviationBps} bps from the broker quote ${quotePrice}, above the ${toleranceBps} bps tolerance`,
+    };
+  }
+
+  /**
+   * Midpoint of the current ask and bid of a symbol, the price orders crossed within a batch are settled at
+   * when no broker order priced them
+   * @param symbol - The broker symbol
+   * @returns The midpoint, or null if either side has no quote
+   */
+  async getMidPrice(symbol: string): Promise<string | null> {
+    const { ask, bid } = await this.getQuote(symbol);
+    if (!ask || !bid) {
+      return null;
+    }
+    return formatAmount(
+      (parseAmount(ask, PRICE_DECIMALS) + parseAmount(bid, PRICE_DECIMALS)) /
+        2n,
+      PRICE_DECIMALS,
+    );
+  }
+
+  /**
+   * Price an order would trade at with the broker right now: the ask for buys, the bid for sells
+   * @param symbol - The broker symbol
+   * @param side - Side of the order
+   * @returns The price, or null if that side has no quote
+   */
+  async getQuotePrice(symbol: string, side: OrderSide): Promise<string | null> {
+    const { ask, bid } = await this.getQuote(symbol);
+    return side === 'buy' ? ask : bid;
+  }
+
+  private async getQuote(
+    symbol: string,
+  ): Promise<{ ask: string | null; bid: string | null }> {
+    const response = (await this.alpacaService.getLatestQuotes(symbol)) as
+      | LatestQuotes
+      | undefined;
+    const quote = response?.quotes?.[symbol];
+    return { ask: this.toPrice(quote?.ap), bid: this.toPrice(quote?.bp) };
+  }
+
+  private toPrice(quoted: number | undefined): string | null {
+    const value = Number(quoted);
+    if (!Number.isFinite(value) || value <= 0) {
+      return null;
+    }
+    return roundDown(value.toFixed(PRICE_DECIMALS), PRICE_DECIMALS).amount;
+  }
+}
@@ -0,0 +1,177 @@
+import { ConflictException, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { InMemorySupabase } from '../../test/in-memory-supabase';
+import { OrderRejectedError } from '../alpaca/alpaca.service';
+import {
+  TokenService,
+  TradeNotPermittedError,
+  UnconfirmedTransactionError,
+} from '../web3/services/token.service';
+import { WithdrawalsService } from '../withdrawals/withdrawals.service';
+import { Order, OrderLifecycleService } from './order-lifecycle.service';
+import { OrderSagaError, OrderSagaService } from './order-saga.service';
+import { RefundService } from './refund.service';
+
+const USER = '0x00000000000000000000000000000000000000Aa';
+
+describe('RefundService', () => {
+  let db: InMemorySupabase;
+  let withdrawUSDC: jest.Mock;
+  let recordInitiated: jest.Mock;
+
+  beforeAll(() => {
+    Logger.overrideLogger(false);
+  });
+
+  beforeEach(() => {
+    db = new InMemorySupabase({ refunds: [['order_id']] });
+    withdrawUSDC = jest.fn().mockResolvedValue('0xrefund');
+    recordInitiated = jest.fn().mockResolvedValue(undefined);
+  });
+
+  function service(fee = '1'): RefundService {
+    const config = new ConfigService({
+      REFUND_FEE_USDC: fee,
+      ORDER_STEP_RETRY_DELAY_MS: '0',
+    });
+    return new RefundService(
+      config,
+      db.service(),
+      { withdrawUSDC } as unknown as TokenService,
+      { recordInitiated } as unknown as WithdrawalsService,
+      new OrderSagaService(config, {} as OrderLifecycleService),
+    );
+  }
+
+  function order(usdcAmount = '10.5'): Order {
+    return {
+      id: 'order-1',
+      chain_id: 11155111,
+      user_address: USER,
+      usdc_amount: usdcAmount,
+    } as Order;
+  }
+
+  describe('isUnfulfillable', () => {
+    it.each([
+      [
+        'the user or token cannot be traded',
+        new TradeNotPermittedError('not verified'),
+      ],
+      [
+        'Alpaca rejected the hedge',
+        new OrderRejectedError('insufficient buying power'),
+      ],
+      [
+        'such a failure was rolled back',
+        new OrderSagaError(
+          'rolled_back',
+          new TradeNotPermittedError('not verified'),
+          [],
+        ),
+      ],
+    ])('is true when %s', (_, error) => {
+      expect(service().isUnfulfillable(error)).toBe(true);
+    });
+
+    it.each([
+      ['the buy failed for another reason', new Error('timeout')],
+      [
+        'the rollback needs an operator',
+        new OrderSagaError(
+          'manual_review',
+          new TradeNotPermittedError('not verified'),
+          [],
+        ),
+      ],
+    ])('is false when %s', (_, error) => {
+      expect(service().isUnfulfillable(error)).toBe(false);
+    });
+  });
+
+  it('returns the payment minus the fee and records the withdrawal', async () => {
+    const refund = await service().refund(order(), 'not verified', {
+      chargeFee: true,
+    });
+
+    expect(withdrawUSDC).toHaveBeenCalledWith(11155111, '9.5', USER, 'order-1');
+    expect(refund).toMatchObject({
+      status: 'completed',
+      paid_amount: '10.5',
+      fee: '1.0',
+      amount: '9.5',
+      tx_hash: '0xrefund',
+    });
+    expect(db.rows('refunds')[0]).toMatchObject({ status: 'completed' });
+    expect(recordInitiated).toHaveBeenCalledWith(
+      expect.objectContaining({ txHash: '0xrefund', amount: '9.5' }),
+    );
+  });
+
+  it('waives the fee when asked to', async () => {
+    await service().refund(order(), 'price deviation', { chargeFee: false });
+
+    expect(withdrawUSDC).toHaveBeenCalledWith(
+      11155111,
+      '10.5',
+      USER,
+      'order-1',
+    );
+  });
+
+  it('sends nothing when the fee takes the whole payment', async () => {
+    const refund = await service('20').refund(order(), 'not verified', {
+      chargeFee: true,
+    });
+
+    expect(withdrawUSDC).not.toHaveBeenCalled();
+    expect(refund).toMatchObject({
+      status: 'completed',
+      amount: '0.0',
+      tx_hash: null,
+    });
+  });
+
+  it('refunds an order only once', async () => {
+    const refunds = service();
+    await refunds.refund(order(), 'not verified', { chargeFee: true });
+
+    await expect(
+      refunds.refund(order(), 'not verified', { chargeFee: true }),
+    ).rejects.toBeInstanceOf(ConflictException);
+    expect(withdrawUSDC).toHaveBeenCalledTimes(1);
+  });
+
+  it('refunds again after a refund that sent nothing', async () => {
+    const refunds = service();
+    withdrawUSDC.mockRejectedValue(new Error('insufficient funds'));
+    await expect(
+      refunds.refund(order(), 'not verified', { chargeFee: true }),
+    ).rejects.toBeInstanceOf(OrderSagaError);
+    expect(db.rows('refunds')[0]).toMatchObject({ status: 'failed' });
+    withdrawUSDC.mockResolvedValue('0xrefund');
+
+    const refund = await refunds.refund(order(), 'not verified', {
+      chargeFee: true,
+    });
+
+    expect(refund.status).toBe('completed');
+    expect(db.rows('refunds')).toHaveLength(1);
+  });
+
+  it('keeps a refund whose transaction is unconfirmed pending, so it is never sent again', async () => {
+    const refunds = service();
+    withdrawUSDC.mockRejectedValueOnce(
+      new UnconfirmedTransactionError('0xrefund', 'not confirmed'),
+    );
+    await expect(
+      refunds.refund(order(), 'not verified', { chargeFee: true }),
+    ).rejects.toMatchObject({ outcome: 'manual_review' });
+    expect(db.rows('refunds')[0]).toMatchObject({ status: 'pending' });
+
+    await expect(
+      refunds.refund(order(), 'not verified', { chargeFee: true }),
+    ).rejects.toBeInstanceOf(ConflictException);
+    expect(withdrawUSDC).toHaveBeenCalledTimes(1);
+  });
+});
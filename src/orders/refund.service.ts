@@ -0,0 +1,314 @@
+import { ConflictException, Injectable, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { SupabaseService } from '../supabase/supabase.service';
+import {
+  TokenService,
+  TradeNotPermittedError,
+} from '../web3/services/token.service';
+import { OrderRejectedError } from '../alpaca/alpaca.service';
+import { WithdrawalsService } from '../withdrawals/withdrawals.service';
+import { OrderEventSource } from '../shared/models/order-event-source.model';
+import {
+  DECIMAL_AMOUNT_PATTERN,
+  USDC_DECIMALS,
+  formatAmount,
+  parseAmount,
+  roundDown,
+} from '../shared/utils/amounts';
+import { Order } from './order-lifecycle.service';
+import {
+  OrderSagaError,
+  OrderSagaService,
+  OrderStepRecord,
+} from './order-saga.service';
+
+/**
+ * pending while the USDC is being sent, or when its transaction could not be confirmed;
+ * failed when nothing was sent, so the order may be refunded again
+ */
+export type RefundStatus = 'pending' | 'completed' | 'failed';
+
+// Row shape of the refunds table, unique on order_id: an order is refunded at most once
+export interface Refund {
+  id: string;
+  order_id: string;
+  chain_id: number;
+  user_address: string;
+  // Decimal strings; the numeric columns are read as text so no precision is lost in JSON
+  paid_amount: string;
+  fee: string;
+  amount: string;
+  reason: string;
+  status: RefundStatus;
+  tx_hash: string | null;
+  error: string | null;
+  steps: OrderStepRecord[];
+  created_at: string;
+  updated_at: string;
+}
+
+export interface RefundOptions {
+  // Keep REFUND_FEE_USDC from the refund; waived when the order was turned down by the protocol itself
+  chargeFee: boolean;
+}
+
+const REFUND_COLUMNS =
+  'id, order_id, chain_id, user_address, paid_amount::text, fee::text, amount::text, reason, status, tx_hash, error, steps, created_at, updated_at';
+
+// Postgres unique_violation, returned when the order already has a refund
+const UNIQUE_VIOLATION = '23505';
+
+@Injectable()
+export class RefundService {
+  private readonly logger = new Logger(RefundService.name);
+  private readonly fee: bigint;
+
+  constructor(
+    private readonly config: ConfigService,
+    private readonly supabaseService: SupabaseService,
+    private readonly tokenService: TokenService,
+    private readonly withdrawalsService: WithdrawalsService,
+    private readonly orderSagaService: OrderSagaService,
+  ) {
+    const fee = this.config.get<string>('REFUND_FEE_USDC') || '0';
+    if (!DECIMAL_AMOUNT_PATTERN.test(fee)) {
+      throw new Error(
+        `REFUND_FEE_USDC must be a decimal USDC amount, got ${fee}`,
+      );
+    }
+    this.fee = parseAmount(fee, USDC_DECIMALS);
+  }
+
+  /**
+   * Whether a buy failed because it can never be fulfilled, so its USDC should be returned:
+   * the user is not verified, the signer is not an agent of the token, or Alpaca rejected the hedge.
+   * Only failures whose steps were fully rolled back qualify; anything else is left to retries or an operator.
+   * @param error - The error the buy failed with
+   */
+  isUnfulfillable(error: unknown): boolean {
+    if (error instanceof OrderSagaError) {
+      return (
+        error.outcome === 'rolled_back' && this.isUnfulfillable(error.failure)
+      );
+    }
+    return (
+      error instanceof TradeNotPermittedError ||
+      error instanceof OrderRejectedError
+    );
+  }
+
+  /**
+   * Return the USDC paid for a buy with the order contract's withdrawUSDC, minus REFUND_FEE_USDC when charged.
+   * The refund is claimed in the refunds table before anything is sent, so an order is never refunded twice;
+   * only a refund that certainly sent nothing may be attempted again.
+   * @param order - The buy to refund
+   * @param reason - Why the buy is refunded, kept with the refund
+   * @param options - Whether the refund fee is charged
+   * @param source - The log of the order, recorded with the withdrawal
+   * @returns The completed refund
+   * @throws ConflictException if the order was already refunded, or its refund is in progress
+   * @throws OrderSagaError if the USDC could not be sent; manual_review when its transaction is unconfirmed
+   */
+  async refund(
+    order: Order,
+    reason: string,
+    options: RefundOptions,
+    source?: OrderEventSource,
+  ): Promise<Refund> {
+    const paid = roundDown(order.usdc_amount, USDC_DECIMALS).units;
+    const fee = options.chargeFee ? this.feeOf(paid) : 0n;
+    const refund = await this.claim(order, {
+      paid_amount: formatAmount(paid, USDC_DECIMALS),
+      fee: formatAmount(fee, USDC_DECIMALS),
+      amount: formatAmount(paid - fee, USDC_DECIMALS),
+      reason,
+    });
+
+    let refundTxHash: string | null;
+    try {
+      const steps = await this.orderSagaService.runFor(
+        {
+          label: `Refund of order ${order.id}`,
+          recordSteps: (records) => this.update(refund.id, { steps: records }),
+        },
+        [
+          {
+            name: 'refund',
+            retryable: true,
+            run: async () => {
+              // The whole payment went to the fee
+              if (paid === fee) {
+                return;
+              }
+              const txHash = await this.tokenService.withdrawUSDC(
+                order.chain_id,
+                refund.amount,
+                order.user_address,
+                order.id,
+              );
+              await this.recordWithdrawal(order, txHash, refund.amount, source);
+              return { txHash };
+            },
+          },
+        ],
+      );
+      refundTxHash = steps[0].result?.txHash ?? null;
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      // A refund left unconfirmed stays pending, so it is never sent again
+      const unconfirmed =
+        error instanceof OrderSagaError && error.outcome === 'manual_review';
+      await this.update(refund.id, {
+        status: unconfirmed ? 'pending' : 'failed',
+        error: message,
+      }).catch((updateError) =>
+        this.logger.error(
+          `Failed to record the failed refund of order ${order.id}:`,
+          updateError,
+        ),
+      );
+      throw error;
+    }
+
+    // The USDC is already returned, so a failure to record it is logged rather than thrown
+    const completed: Refund = {
+      ...refund,
+      status: 'completed',
+      tx_hash: refundTxHash,
+      error: null,
+    };
+    await this.update(refund.id, {
+      status: 'completed',
+      tx_hash: refundTxHash,
+      error: null,
+    }).catch((error) =>
+      this.logger.error(
+        `Failed to record the refund of order ${order.id}:`,
+        error,
+      ),
+    );
+    this.logger.log(
+      `Refunded ${completed.amount} USDC of order ${order.id} to ${order.user_address} (fee ${completed.fee}): ${reason}`,
+    );
+    return completed;
+  }
+
+  /**
+   * Fee kept when a buy of this amount cannot be fulfilled and is refunded: REFUND_FEE_USDC, up to the whole payment
+   * @param usdcAmount - USDC paid for the buy, as a decimal string
+   */
+  getFee(usdcAmount: string): string {
+    return formatAmount(
+      this.feeOf(roundDown(usdcAmount, USDC_DECIMALS).units),
+      USDC_DECIMALS,
+    );
+  }
+
+  private feeOf(paid: bigint): bigint {
+    return this.fee < paid ? this.fee : paid;
+  }
+
+  /**
+   * Claim the refund of an order: insert it, or take over a refund that failed without sending anything
+   * @throws ConflictException if the order was refunded, or its refund is in progress
+   */
+  private async claim(
+    order: Order,
+    amounts: Pick<Refund, 'paid_amount' | 'fee' | 'amount' | 'reason'>,
+  ): Promise<Refund> {
+    const now = new Date().toISOString();
+    const { data, error } = await this.supabaseService
+      .getClient()
+      .from('refunds')
+      .insert({
+        ...amounts,
+        order_id: order.id,
+        chain_id: order.chain_id,
+        user_address: order.user_address.toLowerCase(),
+        status: 'pending',
+        steps: [],
+        created_at: now,
+        updated_at: now,
+      })
+      .select(REFUND_COLUMNS)
+      .single<Refund>();
+
+    if (!error) {
+      return data;
+    }
+    if (error.code !== UNIQUE_VIOLATION) {
+      this.logger.error(
+        `Error claiming the refund of order ${order.id}:`,
+        error,
+      );
+      throw error;
+    }
+
+    const { data: reclaimed, error: reclaimError } = await this.supabaseService
+      .getClient()
+      .from('refunds')
+      .update({
+        ...amounts,
+        status: 'pending',
+        error: null,
+        updated_at: now,
+      })
+      .eq('order_id', order.id)
+      .eq('status', 'failed')
+      .select(REFUND_COLUMNS)
+      .maybeSingle<Refund>();
+
+    if (reclaimError) {
+      this.logger.error(
+        `Error reclaiming the refund of order ${order.id}:`,
+        reclaimError,
+      );
+      throw reclaimError;
+    }
+    if (!reclaimed) {
+      throw new ConflictException(
+        `Order ${order.id} was already refunded, or its refund is in progress`,
+      );
+    }
+    return reclaimed;
+  }
+
+  private async update(
+    id: string,
+    changes: Partial<Pick<Refund, 'status' | 'tx_hash' | 'error' | 'steps'>>,
+  ): Promise<void> {
+    const { error } = await this.supabaseService
+      .getClient()
+      .from('refunds')
+      .update({ ...changes, updated_at: new Date().toISOString() })
+      .eq('id', id);
+
+    if (error) {
+      this.logger.error(`Error updating refund ${id}:`, error);
+      throw error;
+    }
+  }
+
+  /**
+   * Record the refund withdrawal so the indexed AgentUSDCWithdraw event can be cross-checked against it.
+   * The USDC is already sent, so a failure is logged rather than thrown.
+   */
+  private async recordWithdrawal(
+    order: Order,
+    txHash: string,
+    amount: string,
+    source?: OrderEventSource,
+  ): Promise<void> {
+    try {
+      await this.withdrawalsService.recordInitiated({
+        chainId: order.chain_id,
+        txHash,
+        userAddress: order.user_address,
+        amount,
+        order: source,
+      });
+    } catch (error) {
+      this.logger.error(`Failed to record USDC withdrawal ${txHash}:`, error);
+    }
+  }
+}
@@ -0,0 +1,102 @@
+import { Injectable } from '@nestjs/common';
+import { SupabaseService } from '../supabase/supabase.service';
+import {
+  ASSET_DECIMALS,
+  formatAmount,
+  parseAmount,
+} from '../shared/utils/amounts';
+import { OrderSide } from './order-lifecycle.service';
+
+/**
+ * Decides whether an order fits against the reserve of its asset
+ * @param reserve - The reserve in base units, or null when the asset has none
+ * @param held - Base units already held on the order's side by orders whose reserve update is not applied yet
+ * @returns Why the order does not fit, or null when it does
+ */
+export type ReserveFit = (
+  reserve: bigint | null,
+  held: bigint,
+) => string | null;
+
+// A hold placed on the reserve, or why it could not be placed
+export type ReserveHold =
+  | { held: true; release: () => void }
+  | { held: false; reason: string };
+
+@Injectable()
+export class ReserveHoldsService {
+  // Token amounts held per chain, ticker and side
+  private readonly held = new Map<string, bigint>();
+  // Running total of what was released per chain, ticker and side
+  private readonly released = new Map<string, bigint>();
+
+  constructor(private readonly supabaseService: SupabaseService) {}
+
+  /**
+   * Hold an order's token amount against the reserve of its asset until the order's reserve update is applied.
+   * The reserve is read first; the fit and the hold then happen in one synchronous step, so two orders can never
+   * both fit against the same headroom. A hold released while the reserve was being read is still counted, as the
+   * read may predate the reserve update it was released after.
+   * @param chainId - The chain of the reserve
+   * @param ticker - The asset
+   * @param side - The side the amount is held on
+   * @param tokenAmount - Tokens the order mints or burns, as a decimal string
+   * @param fits - Whether the order fits, given the reserve and what is already held on its side
+   * @returns The hold, to be released once the order updated the reserve or failed; or why the order does not fit
+   */
+  async hold(
+    chainId: number,
+    ticker: string,
+    side: OrderSide,
+    tokenAmount: string,
+    fits: ReserveFit,
+  ): Promise<ReserveHold> {
+    const key = this.key(chainId, ticker, side);
+    const releasedBefore = this.released.get(key) ?? 0n;
+    const reserve = await this.supabaseService.getAssetReserve(chainId, ticker);
+
+    const held =
+      (this.held.get(key) ?? 0n) +
+      (this.released.get(key) ?? 0n) -
+      releasedBefore;
+    const reason = fits(
+      reserve ? parseAmount(reserve.reserve_amount, ASSET_DECIMALS) : null,
+      held,
+    );
+    if (reason !== null) {
+      return { held: false, reason };
+    }
+
+    const units = parseAmount(tokenAmount, ASSET_DECIMALS);
+    this.held.set(key, (this.held.get(key) ?? 0n) + units);
+    let released = false;
+    return {
+      held: true,
+      release: () => {
+        if (released) {
+          return;
+        }
+        released = true;
+        this.held.set(key, (this.held.get(key) ?? 0n) - units);
+        this.released.set(key, (this.released.get(key) ?? 0n) + units);
+      },
+    };
+  }
+
+  /**
+   * Token amount held on one side of an asset's reserve, not yet applied to it
+   * @param chainId - The chain of the reserve
+   * @param ticker - The asset
+   * @param side - buy for mints, sell for burns
+   */
+  getHeldAmount(chainId: number, ticker: string, side: OrderSide): string {
+    return formatAmount(
+      this.held.get(this.key(chainId, ticker, side)) ?? 0n,
+      ASSET_DECIMALS,
+    );
+  }
+
+  private key(chainId: number, ticker: string, side: OrderSide): string {
+    return `${chainId}:${ticker}:${side}`;
+  }
+}
@@ -0,0 +1,147 @@
+import { Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { InMemorySupabase } from '../../test/in-memory-supabase';
+import { AlertService } from '../alerts/alert.service';
+import { Asset } from '../assets/asset-registry.service';
+import { SupabaseService } from '../supabase/supabase.service';
+import { Order, OrderLifecycleService } from './order-lifecycle.service';
+import { ReserveHoldsService } from './reserve-holds.service';
+import { RiskLimitsService } from './risk-limits.service';
+
+const CHAIN_ID = 11155111;
+
+describe('RiskLimitsService', () => {
+  let db: InMemorySupabase;
+  let supabase: SupabaseService;
+  let sumUserNotional: jest.Mock;
+  let raise: jest.Mock;
+  let reserveHolds: ReserveHoldsService;
+
+  beforeAll(() => {
+    Logger.overrideLogger(false);
+  });
+
+  beforeEach(() => {
+    db = new InMemorySupabase();
+    supabase = {
+      getClient: () => db.service().getClient(),
+      getAssetReserve: () => Promise.resolve({ reserve_amount: '90' }),
+    } as unknown as SupabaseService;
+    sumUserNotional = jest.fn().mockResolvedValue('0.0');
+    raise = jest.fn().mockResolvedValue(undefined);
+    reserveHolds = new ReserveHoldsService(supabase);
+  });
+
+  function limits(config: Record<string, string> = {}): RiskLimitsService {
+    return new RiskLimitsService(
+      new ConfigService(config),
+      supabase,
+      { sumUserNotional } as unknown as OrderLifecycleService,
+      { raise } as unknown as AlertService,
+      reserveHolds,
+    );
+  }
+
+  function order(usdcAmount = '100', side: 'buy' | 'sell' = 'buy'): Order {
+    return {
+      id: 'order-1',
+      chain_id: CHAIN_ID,
+      side,
+      user_address: '0xbb',
+      usdc_amount: usdcAmount,
+    } as Order;
+  }
+
+  const asset = { ticker: 'LQD', max_exposure: '100' } as Asset;
+
+  it('lets an order within every limit through, holding a buy against the exposure', async () => {
+    const check = await limits().check(order(), asset, '5', false);
+
+    expect(check).toMatchObject({ withinLimits: true });
+    expect(reserveHolds.getHeldAmount(CHAIN_ID, 'LQD', 'buy')).toBe('5.0');
+    check.release!();
+    expect(reserveHolds.getHeldAmount(CHAIN_ID, 'LQD', 'buy')).toBe('0.0');
+  });
+
+  it('holds every order, approved ones too, while the kill switch is engaged', async () => {
+    const service = limits();
+    await service.setKillSwitch(true, 'broker outage');
+
+    await expect(
+      service.check(order(), asset, '5', true),
+    ).resolves.toMatchObject({
+      withinLimits: false,
+      breached: 'kill_switch',
+      reason: 'Kill switch engaged: broker outage',
+    });
+    expect(raise).toHaveBeenCalledWith(
+      expect.objectContaining({ kind: 'kill_switch_engaged' }),
+    );
+  });
+
+  it('engages the kill switch from the config', async () => {
+    const service = limits({ RISK_KILL_SWITCH: 'true' });
+
+    await expect(
+      service.check(order(), asset, '5', false),
+    ).resolves.toMatchObject({ breached: 'kill_switch' });
+    await expect(service.getStatus()).resolves.toMatchObject({
+      killSwitch: { engaged: true, forcedByConfig: true },
+    });
+  });
+
+  it('holds an order above the per-order maximum unless approved', async () => {
+    const service = limits({ RISK_MAX_ORDER_NOTIONAL: '50' });
+
+    await expect(
+      service.check(order('50.000001'), asset, '5', false),
+    ).resolves.toMatchObject({ breached: 'order_notional' });
+    await expect(
+      service.check(order('50.000001'), asset, '5', true),
+    ).resolves.toMatchObject({ withinLimits: true });
+  });
+
+  it('holds an order that takes the user above the daily notional', async () => {
+    sumUserNotional.mockResolvedValue('950');
+
+    await expect(
+      limits({ RISK_USER_DAILY_NOTIONAL: '1000' }).check(
+        order('50.01'),
+        asset,
+        '5',
+        false,
+      ),
+    ).resolves.toMatchObject({
+      breached: 'user_daily_notional',
+      reason:
+        '0xbb would order 1000.01 USDC today, above the 1000.0 USDC daily limit',
+    });
+  });
+
+  it('counts the buys still executing towards the exposure ceiling', async () => {
+    const service = limits();
+    const first = await service.check(order(), asset, '6', false);
+
+    await expect(
+      service.check(order(), asset, '5', false),
+    ).resolves.toMatchObject({ breached: 'asset_exposure' });
+
+    first.release!();
+    await expect(
+      service.check(order(), asset, '5', false),
+    ).resolves.toMatchObject({ withinLimits: true });
+  });
+
+  it('does not hold sells against the exposure', async () => {
+    await expect(
+      limits().check(order('100', 'sell'), asset, '500', false),
+    ).resolves.toEqual({ withinLimits: true });
+    expect(reserveHolds.getHeldAmount(CHAIN_ID, 'LQD', 'sell')).toBe('0.0');
+  });
+
+  it('refuses a limit that is not a USDC amount', () => {
+    expect(() => limits({ RISK_MAX_ORDER_NOTIONAL: '1e6' })).toThrow(
+      'RISK_MAX_ORDER_NOTIONAL must be a decimal USDC amount, got 1e6',
+    );
+  });
+});
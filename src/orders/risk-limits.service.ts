@@ -0,0 +1,251 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { SupabaseService } from '../supabase/supabase.service';
+import { AlertService } from '../alerts/alert.service';
+import { Asset } from '../assets/asset-registry.service';
+import {
+  ASSET_DECIMALS,
+  DECIMAL_AMOUNT_PATTERN,
+  USDC_DECIMALS,
+  formatAmount,
+  parseAmount,
+} from '../shared/utils/amounts';
+import { RiskStatusResponse } from '../shared/models/risk-status-response.model';
+import { Order, OrderLifecycleService } from './order-lifecycle.service';
+import { ReserveHoldsService } from './reserve-holds.service';
+
+/** The risk limit an order breached */
+export type RiskLimit =
+  | 'kill_switch'
+  | 'order_notional'
+  | 'user_daily_notional'
+  | 'asset_exposure';
+
+export interface RiskCheck {
+  withinLimits: boolean;
+  breached?: RiskLimit;
+  reason?: string;
+  // Releases a buy's hold on the exposure, once the buy updated the reserve or failed
+  release?: () => void;
+}
+
+// Row shape of the kill_switch table, which holds a single row with id 'global'
+export interface KillSwitch {
+  id: string;
+  engaged: boolean;
+  reason: string | null;
+  updated_at: string;
+}
+
+const KILL_SWITCH_ID = 'global';
+
+@Injectable()
+export class RiskLimitsService {
+  private readonly logger = new Logger(RiskLimitsService.name);
+  private readonly forcedKillSwitch: boolean;
+  private readonly maxOrderNotional: bigint | null;
+  private readonly userDailyNotional: bigint | null;
+
+  constructor(
+    private readonly config: ConfigService,
+    private readonly supabaseService: SupabaseService,
+    private readonly orderLifecycleService: OrderLifecycleService,
+    private readonly alertService: AlertService,
+    private readonly reserveHoldsService: ReserveHoldsService,
+  ) {
+    this.forcedKillSwitch =
+      this.config.get<string>('RISK_KILL_SWITCH') === 'true';
+    this.maxOrderNotional = this.readUsdcLimit('RISK_MAX_ORDER_NOTIONAL');
+    this.userDailyNotional = this.readUsdcLimit('RISK_USER_DAILY_NOTIONAL');
+  }
+
+  /**
+   * Evaluate an order against the risk limits before anything is hedged or minted:
+   * the kill switch, the per-order maximum, the user's notional for the day (UTC) and, for buys,
+   * the exposure ceiling of the asset. An operator's approval overrides every limit but the kill switch.
+   * A buy within the limits holds its tokens against the exposure until the caller releases them, so buys still
+   * executing count towards the ceiling for the buys checked after them.
+   * @param order - The received order
+   * @param asset - The asset of the order
+   * @param tokenAmount - Tokens the order mints or burns, as a decimal string
+   * @param approved - Whether an operator approved the order
+   */
+  async check(
+    order: Order,
+    asset: Asset,
+    tokenAmount: string,
+    approved: boolean,
+  ): Promise<RiskCheck> {
+    const killSwitch = await this.getKillSwitch();
+    if (this.forcedKillSwitch || killSwitch?.engaged) {
+      return this.breach(
+        'kill_switch',
+        `Kill switch engaged${killSwitch?.reason ? `: ${killSwitch.reason}` : ''}`,
+      );
+    }
+    if (!approved) {
+      const breach = await this.checkNotional(order);
+      if (breach) {
+        return breach;
+      }
+    }
+
+    // Only buys add to the exposure. The ceiling is checked and the buy held in one step, so concurrent buys
+    // cannot each pass it against the same headroom.
+    if (order.side === 'buy') {
+      const ceiling =
+        approved || asset.max_exposure === null
+          ? null
+          : parseAmount(asset.max_exposure, ASSET_DECIMALS);
+      const hold = await this.reserveHoldsService.hold(
+        order.chain_id,
+        asset.ticker,
+        'buy',
+        tokenAmount,
+        (reserve, held) => {
+          const exposure =
+            (reserve ?? 0n) + held + parseAmount(tokenAmount, ASSET_DECIMALS);
+          return ceiling !== null && exposure > ceiling
+            ? `Buy would take the ${asset.ticker} reserve to ${formatAmount(exposure, ASSET_DECIMALS)} counting the buys executing, above its ${asset.max_exposure} exposure ceiling`
+            : null;
+        },
+      );
+      if (!hold.held) {
+        return this.breach('asset_exposure', hold.reason);
+      }
+      return { withinLimits: true, release: hold.release };
+    }
+
+    return { withinLimits: true };
+  }
+
+  // The per-order maximum and the user's notional for the day
+  private async checkNotional(order: Order): Promise<RiskCheck | null> {
+    const notional = parseAmount(order.usdc_amount, USDC_DECIMALS);
+    if (this.maxOrderNotional !== null && notional > this.maxOrderNotional) {
+      return this.breach(
+        'order_notional',
+        `Order of ${order.usdc_amount} USDC exceeds the ${this.format(this.maxOrderNotional)} USDC per-order maximum`,
+      );
+    }
+
+    if (this.userDailyNotional !== null) {
+      const startOfDay = new Date();
+      startOfDay.setUTCHours(0, 0, 0, 0);
+      const ordered = parseAmount(
+        await this.orderLifecycleService.sumUserNotional(
+          order.user_address,
+          startOfDay.toISOString(),
+          order.id,
+        ),
+        USDC_DECIMALS,
+      );
+      if (ordered + notional > this.userDailyNotional) {
+        return this.breach(
+          'user_daily_notional',
+          `${order.user_address} would order ${this.format(ordered + notional)} USDC today, above the ${this.format(this.userDailyNotional)} USDC daily limit`,
+        );
+      }
+    }
+
+    return null;
+  }
+
+  /**
+   * Current state of the kill switch and the configured limits
+   */
+  async getStatus(): Promise<RiskStatusResponse> {
+    const killSwitch = await this.getKillSwitch();
+    return {
+      killSwitch: {
+        engaged: this.forcedKillSwitch || (killSwitch?.engaged ?? false),
+        forcedByConfig: this.forcedKillSwitch,
+        reason: killSwitch?.reason ?? null,
+        updatedAt: killSwitch?.updated_at ?? null,
+      },
+      maxOrderNotional:
+        this.maxOrderNotional === null
+          ? null
+          : this.format(this.maxOrderNotional),
+      userDailyNotional:
+        this.userDailyNotional === null
+          ? null
+          : this.format(this.userDailyNotional),
+    };
+  }
+
+  /**
+   * Engage or release the kill switch. While it is engaged every order is held before anything is hedged or minted,
+   * including orders an operator approves; orders already executing complete or roll back.
+   * @param engaged - Whether to engage the switch
+   * @param reason - Why, kept with the switch
+   */
+  async setKillSwitch(
+    engaged: boolean,
+    reason?: string,
+  ): Promise<RiskStatusResponse> {
+    const { error } = await this.supabaseService
+      .getClient()
+      .from('kill_switch')
+      .upsert({
+        id: KILL_SWITCH_ID,
+        engaged,
+        reason: reason ?? null,
+        updated_at: new Date().toISOString(),
+      });
+
+    if (error) {
+      this.logger.error('Error setting the kill switch:', error);
+      throw error;
+    }
+
+    await this.alertService.raise({
+      severity: engaged ? 'critical' : 'warning',
+      kind: engaged ? 'kill_switch_engaged' : 'kill_switch_released',
+      message: `Kill switch ${engaged ? 'engaged' : 'released'}${reason ? `: ${reason}` : ''}`,
+    });
+    return this.getStatus();
+  }
+
+  private async getKillSwitch(): Promise<KillSwitch | null> {
+    const { data, error } = await this.supabaseService
+      .getClient()
+      .from('kill_switch')
+      .select('*')
+      .eq('id', KILL_SWITCH_ID)
+      .maybeSingle<KillSwitch>();
+
+    if (error) {
+      this.logger.error('Error reading the kill switch:', error);
+      throw error;
+    }
+
+    return data;
+  }
+
+  private breach(limit: RiskLimit, reason: string): RiskCheck {
+    this.logger.warn(`Risk limit ${limit} breached: ${reason}`);
+    return { withinLimits: false, breached: limit, reason };
+  }
+
+  private format(units: bigint): string {
+    return formatAmount(units, USDC_DECIMALS);
+  }
+
+  /**
+   * Read a USDC limit from the config
+   * @param key - The config key
+   * @returns The limit in base units, or null when unset
+   * @throws Error if the limit is not a decimal amount
+   */
+  private readUsdcLimit(key: string): bigint | null {
+    const value = this.config.get<string>(key);
+    if (!value) {
+      return null;
+    }
+    if (!DECIMAL_AMOUNT_PATTERN.test(value)) {
+      throw new Error(`${key} must be a decimal USDC amount, got ${value}`);
+    }
+    return parseAmount(value, USDC_DECIMALS);
+  }
+}
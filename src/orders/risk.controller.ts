@@ -0,0 +1,79 @@
+import {
+  Body,
+  Controller,
+  Get,
+  HttpCode,
+  HttpStatus,
+  Post,
+} from '@nestjs/common';
+import {
+  ApiOperation,
+  ApiResponse,
+  ApiSecurity,
+  ApiTags,
+} from '@nestjs/swagger';
+import { RiskLimitsService } from './risk-limits.service';
+import { RiskStatusResponse } from '../shared/models/risk-status-response.model';
+import { KillSwitchDto } from '../shared/models/kill-switch.dto';
+
+@ApiTags('risk')
+@ApiSecurity('api-key')
+@Controller('risk')
+export class RiskController {
+  constructor(private readonly riskLimitsService: RiskLimitsService) {}
+
+  /**
+   * Get the kill switch and the configured risk limits
+   * @returns Promise with the risk status
+   */
+  @Get()
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({
+    summary: 'Get the risk limits',
+    description:
+      'Returns the state of the global kill switch and the per-order and per-user daily USDC limits. Per-asset exposure ceilings are set on the assets.',
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Risk status retrieved successfully',
+    type: RiskStatusResponse,
+  })
+  @ApiResponse({
+    status: 401,
+    description: 'Unauthorized - Invalid or missing API key',
+  })
+  async getStatus(): Promise<RiskStatusResponse> {
+    return this.riskLimitsService.getStatus();
+  }
+
+  /**
+   * Engage or release the kill switch
+   * @param body - Whether to engage the switch, and why
+   * @returns Promise with the risk status
+   */
+  @Post('kill-switch')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({
+    summary: 'Engage or release the kill switch',
+    description:
+      'While the kill switch is engaged, every new, queued or approved order is held before anything is hedged or minted, and an alert is raised. Orders already executing complete or roll back. Held orders are approved or rejected through /orders once the switch is released.',
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Kill switch updated',
+    type: RiskStatusResponse,
+  })
+  @ApiResponse({
+    status: 400,
+    description: 'Invalid request body',
+  })
+  @ApiResponse({
+    status: 401,
+    description: 'Unauthorized - Invalid or missing API key',
+  })
+  async setKillSwitch(
+    @Body() body: KillSwitchDto,
+  ): Promise<RiskStatusResponse> {
+    return this.riskLimitsService.setKillSwitch(body.engaged, body.reason);
+  }
+}
@@ -0,0 +1,145 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { SupabaseService } from '../supabase/supabase.service';
+import { OrderEventSource } from '../shared/models/order-event-source.model';
+import { DustEntryResponse } from '../shared/models/dust-entry-response.model';
+
+/**
+ * What an amount was being rounded for when the remainder was dropped:
+ * mint/burn round asset amounts to the token's decimals, hedge rounds to Alpaca's quantity precision,
+ * withdraw rounds USDC payouts to 6 decimals.
+ */
+export type DustKind = 'mint' | 'burn' | 'hedge' | 'withdraw';
+
+// Row shape of the dust_ledger table
+export interface DustEntry {
+  id: string;
+  kind: DustKind;
+  asset_symbol: string;
+  // Decimal string; the numeric column is read as text so no precision is lost in JSON
+  amount: string;
+  decimals: number;
+  user_address: string;
+  chain_id: number;
+  tx_hash: string | null;
+  log_index: number | null;
+  created_at: string;
+}
+
+export interface NewDustEntry {
+  kind: DustKind;
+  assetSymbol: string;
+  amount: string;
+  decimals: number;
+  userAddress: string;
+  chainId: number;
+  source?: OrderEventSource;
+}
+
+export interface DustEntryFilter {
+  chainId?: number;
+  assetSymbol?: string;
+  kind?: DustKind;
+  limit?: number;
+}
+
+const DUST_ENTRY_COLUMNS =
+  'id, kind, asset_symbol, amount::text, decimals, user_address, chain_id, tx_hash, log_index, created_at';
+
+@Injectable()
+export class DustLedgerService {
+  private readonly logger = new Logger(DustLedgerService.name);
+
+  constructor(private readonly supabaseService: SupabaseService) {}
+
+  /**
+   * Book the remainders dropped by rounding an order's amounts
+   * @param entries - The dropped remainders, one per rounding step
+   */
+  async record(entries: NewDustEntry[]): Promise<void> {
+    if (entries.length === 0) {
+      return;
+    }
+
+    const now = new Date().toISOString();
+    const { error } = await this.supabaseService
+      .getClient()
+      .from('dust_ledger')
+      .insert(
+        entries.map((entry) => ({
+          kind: entry.kind,
+          asset_symbol: entry.assetSymbol,
+          amount: entry.amount,
+          decimals: entry.decimals,
+          user_address: entry.userAddress.toLowerCase(),
+          chain_id: entry.chainId,
+          tx_hash: entry.source?.txHash.toLowerCase() ?? null,
+          log_index: entry.source?.logIndex ?? null,
+          created_at: now,
+        })),
+      );
+
+    if (error) {
+      this.logger.error('Error recording dust:', error);
+      throw error;
+    }
+
+    for (const entry of entries) {
+      this.logger.log(
+        `Recorded ${entry.amount} ${entry.assetSymbol} of ${entry.kind} dust for ${entry.userAddress} on chain ${entry.chainId}`,
+      );
+    }
+  }
+
+  /**
+   * List dust ledger entries, newest first
+   * @param filter - Optional filters and page size
+   */
+  async findEntries(filter: DustEntryFilter): Promise<DustEntry[]> {
+    let query = this.supabaseService
+      .getClient()
+      .from('dust_ledger')
+      .select(DUST_ENTRY_COLUMNS);
+
+    if (filter.chainId !== undefined) {
+      query = query.eq('chain_id', filter.chainId);
+    }
+    if (filter.assetSymbol) {
+      query = query.eq('asset_symbol', filter.assetSymbol);
+    }
+    if (filter.kind) {
+      query = query.eq('kind', filter.kind);
+    }
+
+    const { data, error } = await query
+      .order('created_at', { ascending: false })
+      .limit(filter.limit ?? 100)
+      .returns<DustEntry[]>();
+
+    if (error) {
+      this.logger.error('Error listing dust entries:', error);
+      throw error;
+    }
+
+    return data ?? [];
+  }
+}
+
+/**
+ * Map a dust_ledger row to its API representation
+ * @param entry - The ledger row
+ * @returns The camel-cased API response
+ */
+export function toDustEntryResponse(entry: DustEntry): DustEntryResponse {
+  return {
+    id: entry.id,
+    kind: entry.kind,
+    assetSymbol: entry.asset_symbol,
+    amount: entry.amount,
+    decimals: entry.decimals,
+    userAddress: entry.user_address,
+    chainId: entry.chain_id,
+    txHash: entry.tx_hash,
+    logIndex: entry.log_index,
+    createdAt: entry.created_at,
+  };
+}
@@ -1,24 +1,60 @@
-import { Controller, Get, Param, HttpCode, HttpStatus } from '@nestjs/common';
+import { Controller, Get, Param, Query, HttpCode, HttpStatus } from '@nestjs/common';
 import { ApiTags, ApiOperation, ApiResponse, ApiSecurity, ApiParam } from '@nestjs/swagger';
 import { ReservesService } from './reserves.service';
 import { AssetReserveResponse, TotalReservesResponse } from '../shared/models/reserve-response.model';
+import { DustEntryResponse } from '../shared/models/dust-entry-response.model';
+import { DustEntryQueryDto } from '../shared/models/dust-entry-query.dto';
+import { ReserveQueryDto } from '../shared/models/reserve-query.dto';
+import { DeploymentRegistry } from '../web3/providers/deployment.registry';
 
 @ApiTags('reserves')
 @ApiSecurity('api-key')
 @Controller('reserves')
 export class ReservesController {
-  constructor(private readonly reservesService: ReservesService) {}
+  constructor(
+    private readonly reservesService: ReservesService,
+    private readonly deploymentRegistry: DeploymentRegistry
+  ) {}
+
+  /**
+   * List remainders dropped by rounding order amounts
+   * @param query - Optional chain, asset and rounding step filters
+   * @returns Promise with matching dust ledger entries
+   */
+  @Get('dust')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({
+    summary: 'List dust',
+    description: 'Lists the dust ledger: the remainders dropped when order amounts were rounded down for minting, burning, hedging or USDC payout. Newest first.'
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Dust ledger entries retrieved successfully',
+    type: [DustEntryResponse]
+  })
+  @ApiResponse({
+    status: 401,
+    description: 'Unauthorized - Invalid or missing API key'
+  })
+  @ApiResponse({
+    status: 500,
+    description: 'Internal server error'
+  })
+  async getDustEntries(@Query() query: DustEntryQueryDto): Promise<DustEntryResponse[]> {
+    return this.reservesService.getDustEntries(query);
+  }
 
   /**
    * Get reserve information for a specific asset
    * @param assetSymbol - The symbol of the asset to get reserves for
+   * @param query - Optional chain id, defaulting to the first configured deployment
    * @returns Promise with asset reserve information
    */
   @Get(':assetSymbol')
   @HttpCode(HttpStatus.OK)
   @ApiOperation({
     summary: 'Get asset reserve',
-    description: 'Retrieves the current reserve amount for a specific asset by its symbol.'
+    description: 'Retrieves the current reserve amount for a specific asset by its symbol, on one chain.'
   })
   @ApiParam({
     name: 'assetSymbol',
@@ -31,17 +67,27 @@ export class ReservesController {
     description: 'Asset reserve information retrieved successfully',
     type: AssetReserveResponse,
     example: {
+      chainId: 11155111,
       assetSymbol: 'ETH',
-      reserveAmount: 100.5,
+      reserveAmount: '100.5',
       updatedAt: '2025-06-27T10:30:00.000Z'
     }
   })
+  @ApiResponse({
+    status: 400,
+    description: 'Bad request - Unknown chain',
+    example: {
+      statusCode: 400,
+      message: 'No deployment is configured for chain 1',
+      error: 'Bad Request'
+    }
+  })
   @ApiResponse({
     status: 404,
     description: 'Asset reserve not found',
     example: {
       statusCode: 404,
-      message: 'Asset reserve not found for ETH',
+      message: 'Asset reserve not found for ETH on chain 11155111',
       error: 'Not Found'
     }
   })
@@ -53,41 +99,49 @@ export class ReservesController {
     status: 500,
     description: 'Internal server error'
   })
-  async getAssetReserve(@Param('assetSymbol') assetSymbol: string): Promise<AssetReserveResponse> {
-    return this.reservesService.getAssetReserve(assetSymbol);
+  async getAssetReserve(
+    @Param('assetSymbol') assetSymbol: string,
+    @Query() query: ReserveQueryDto
+  ): Promise<AssetReserveResponse> {
+    const { chainId } = this.deploymentRegistry.resolve(query.chainId);
+    return this.reservesService.getAssetReserve(chainId, assetSymbol);
   }
 
   /**
    * Get total reserves across all assets
+   * @param query - Optional chain id; every chain is included when omitted
    * @returns Promise with total reserves information
    */
   @Get('total')
   @HttpCode(HttpStatus.OK)
   @ApiOperation({
     summary: 'Get total reserves',
-    description: 'Retrieves the total reserves across all assets, including a breakdown by asset and the combined total value.'
+    description: 'Retrieves the total reserves across all assets, including a breakdown by chain and asset and the combined total value.'
   })
   @ApiResponse({
     status: 200,
     description: 'Total reserves information retrieved successfully',
     type: TotalReservesResponse,
     example: {
-      totalReserveValue: 1250.75,
+      totalReserveValue: '1250.75',
       assetCount: 3,
       assets: [
         {
+          chainId: 11155111,
           assetSymbol: 'ETH',
-          reserveAmount: 100.5,
+          reserveAmount: '100.5',
           updatedAt: '2025-06-27T10:30:00.000Z'
         },
         {
+          chainId: 11155111,
           assetSymbol: 'BTC',
-          reserveAmount: 50.25,
+          reserveAmount: '50.25',
           updatedAt: '2025-06-27T09:15:00.000Z'
         },
         {
+          chainId: 84532,
           assetSymbol: 'USDC',
-          reserveAmount: 1100.0,
+          reserveAmount: '1100.0',
           updatedAt: '2025-06-27T11:00:00.000Z'
         }
       ]
@@ -101,7 +155,7 @@ export class ReservesController {
     status: 500,
     description: 'Internal server error'
   })
-  async getTotalReserves(): Promise<TotalReservesResponse> {
-    return this.reservesService.getTotalReserves();
+  async getTotalReserves(@Query() query: ReserveQueryDto): Promise<TotalReservesResponse> {
+    return this.reservesService.getTotalReserves(query.chainId);
   }
 }
@@ -1,11 +1,14 @@
 import { Module } from '@nestjs/common';
 import { ReservesController } from './reserves.controller';
 import { ReservesService } from './reserves.service';
+import { DustLedgerService } from './dust-ledger.service';
 import { SupabaseModule } from '../supabase/supabase.module';
+import { ProviderFactory } from '../web3/providers/provider.factory';
 
 @Module({
-  imports: [SupabaseModule],
+  imports: [SupabaseModule, ProviderFactory],
   controllers: [ReservesController],
-  providers: [ReservesService]
+  providers: [ReservesService, DustLedgerService],
+  exports: [DustLedgerService]
 })
 export class ReservesModule {}
@@ -1,29 +1,38 @@
 import { Injectable, Logger, NotFoundException } from '@nestjs/common';
 import { SupabaseService } from '../supabase/supabase.service';
 import { AssetReserveResponse, TotalReservesResponse } from '../shared/models/reserve-response.model';
+import { ASSET_DECIMALS, formatAmount, parseAmount } from '../shared/utils/amounts';
+import { DustEntryResponse } from '../shared/models/dust-entry-response.model';
+import { DustEntryQueryDto } from '../shared/models/dust-entry-query.dto';
+import { DustLedgerService, toDustEntryResponse } from './dust-ledger.service';
 
 @Injectable()
 export class ReservesService {
   private readonly logger = new Logger(ReservesService.name);
 
-  constructor(private readonly supabaseService: SupabaseService) {}
+  constructor(
+    private readonly supabaseService: SupabaseService,
+    private readonly dustLedgerService: DustLedgerService
+  ) {}
 
   /**
    * Get reserve information for a specific asset
+   * @param chainId - The chain the asset's token is deployed on
    * @param assetSymbol - The symbol of the asset to get reserves for
    * @returns Promise with asset reserve information
    */
-  async getAssetReserve(assetSymbol: string): Promise<AssetReserveResponse> {
+  async getAssetReserve(chainId: number, assetSymbol: string): Promise<AssetReserveResponse> {
     try {
-      this.logger.log(`Getting reserve for asset: ${assetSymbol}`);
+      this.logger.log(`Getting reserve for asset: ${assetSymbol} on chain ${chainId}`);
 
-      const reserve = await this.supabaseService.getAssetReserve(assetSymbol);
+      const reserve = await this.supabaseService.getAssetReserve(chainId, assetSymbol);
       
       if (!reserve) {
-        throw new NotFoundException(`Asset reserve not found for ${assetSymbol}`);
+        throw new NotFoundException(`Asset reserve not found for ${assetSymbol} on chain ${chainId}`);
       }
 
       return {
+        chainId: reserve.chain_id,
         assetSymbol: reserve.asset_symbol,
         reserveAmount: reserve.reserve_amount,
         updatedAt: reserve.updated_at
@@ -36,21 +45,26 @@ export class ReservesService {
 
   /**
    * Get total reserves across all assets
+   * @param chainId - Optional chain to restrict the total to; all chains when omitted
    * @returns Promise with total reserves information
    */
-  async getTotalReserves(): Promise<TotalReservesResponse> {
+  async getTotalReserves(chainId?: number): Promise<TotalReservesResponse> {
     try {
-      this.logger.log('Getting total reserves for all assets');
+      this.logger.log(`Getting total reserves for all assets on ${chainId === undefined ? 'all chains' : `chain ${chainId}`}`);
 
-      const allReserves = await this.supabaseService.getAllAssetReserves();
+      const allReserves = await this.supabaseService.getAllAssetReserves(chainId);
       
       const assets: AssetReserveResponse[] = allReserves.map(reserve => ({
+        chainId: reserve.chain_id,
         assetSymbol: reserve.asset_symbol,
         reserveAmount: reserve.reserve_amount,
         updatedAt: reserve.updated_at
       }));
 
-      const totalReserveValue = allReserves.reduce((total, reserve) => total + reserve.reserve_amount, 0);
+      const totalReserveValue = formatAmount(
+        allReserves.reduce((total, reserve) => total + parseAmount(reserve.reserve_amount, ASSET_DECIMALS), 0n),
+        ASSET_DECIMALS
+      );
       
       return {
         totalReserveValue,
@@ -62,4 +76,19 @@ export class ReservesService {
       throw error;
     }
   }
+
+  /**
+   * Get the remainders dropped by rounding order amounts
+   * @param query - Optional chain, asset and rounding step filters
+   * @returns Promise with dust ledger entries, newest first
+   */
+  async getDustEntries(query: DustEntryQueryDto): Promise<DustEntryResponse[]> {
+    try {
+      const entries = await this.dustLedgerService.findEntries(query);
+      return entries.map(toDustEntryResponse);
+    } catch (error) {
+      this.logger.error('Failed to get dust entries:', error);
+      throw error;
+    }
+  }
 }
@@ -0,0 +1,49 @@
+// The parts of an ONCHAINID ClaimIssuer and of the TrustedIssuersRegistry used to check the claim signer
+export const CLAIM_ISSUER_ABI = [
+  {
+    inputs: [
+      {
+        internalType: 'bytes32',
+        name: '_key',
+        type: 'bytes32',
+      },
+      {
+        internalType: 'uint256',
+        name: '_purpose',
+        type: 'uint256',
+      },
+    ],
+    name: 'keyHasPurpose',
+    outputs: [
+      {
+        internalType: 'bool',
+        name: 'exists',
+        type: 'bool',
+      },
+    ],
+    stateMutability: 'view',
+    type: 'function',
+  },
+];
+
+export const TRUSTED_ISSUERS_REGISTRY_ABI = [
+  {
+    inputs: [
+      {
+        internalType: 'address',
+        name: '_issuer',
+        type: 'address',
+      },
+    ],
+    name: 'isTrustedIssuer',
+    outputs: [
+      {
+        internalType: 'bool',
+        name: '',
+        type: 'bool',
+      },
+    ],
+    stateMutability: 'view',
+    type: 'function',
+  },
+];
@@ -0,0 +1,29 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { Transform, Type } from 'class-transformer';
+import { IsBoolean, IsInt, IsOptional } from 'class-validator';
+
+export class AssetQueryDto {
+  @ApiProperty({
+    description: 'Only return assets on this chain',
+    example: 11155111,
+    type: Number,
+    required: false,
+  })
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  chainId?: number;
+
+  @ApiProperty({
+    description: 'Only return enabled, or only disabled, assets',
+    example: true,
+    type: Boolean,
+    required: false,
+  })
+  @IsOptional()
+  @Transform(({ value }: { value: unknown }) =>
+    value === 'true' ? true : value === 'false' ? false : value,
+  )
+  @IsBoolean()
+  enabled?: boolean;
+}
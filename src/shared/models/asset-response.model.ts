@@ -0,0 +1,86 @@
+import { ApiProperty } from '@nestjs/swagger';
+
+export class AssetResponse {
+  @ApiProperty({
+    description: 'Unique id of the asset',
+    example: '8f14e45f-ceea-467f-a0e6-0c8e0b2f6f8a',
+    type: String,
+  })
+  id: string;
+
+  @ApiProperty({
+    description: 'Chain the token is deployed on',
+    example: 11155111,
+  })
+  chainId: number;
+
+  @ApiProperty({
+    description: 'Ticker emitted in order events',
+    example: 'LQD',
+  })
+  ticker: string;
+
+  @ApiProperty({
+    description: 'ERC3643 token contract of the asset',
+    example: '0xabcdef1234567890abcdef1234567890abcdef12',
+  })
+  tokenAddress: string;
+
+  @ApiProperty({
+    description: 'Instrument the asset is hedged with at the broker',
+    example: 'LQD',
+  })
+  brokerSymbol: string;
+
+  @ApiProperty({
+    description: 'ADFS price feed id of the asset',
+    example: '1001',
+    type: String,
+    nullable: true,
+  })
+  feedId: string | null;
+
+  @ApiProperty({
+    description: 'Decimals of the token contract',
+    example: 18,
+  })
+  decimals: number;
+
+  @ApiProperty({
+    description:
+      'Largest accepted deviation of an order price from the broker quote, in basis points; null for the default tolerance',
+    example: 200,
+    type: Number,
+    nullable: true,
+  })
+  maxPriceDeviationBps: number | null;
+
+  @ApiProperty({
+    description:
+      'Largest reserve buys may take the asset to, in tokens as a decimal string; null for no ceiling',
+    example: '100000',
+    type: String,
+    nullable: true,
+  })
+  maxExposure: string | null;
+
+  @ApiProperty({
+    description: 'Whether the asset takes new orders',
+    example: true,
+  })
+  enabled: boolean;
+
+  @ApiProperty({
+    description: 'Timestamp when the asset was registered',
+    example: '2025-06-27T10:30:00.000Z',
+    type: String,
+  })
+  createdAt: string;
+
+  @ApiProperty({
+    description: 'Timestamp of the last change',
+    example: '2025-06-27T10:30:00.000Z',
+    type: String,
+  })
+  updatedAt: string;
+}
@@ -0,0 +1,57 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { IsIn, IsInt, IsOptional, Min } from 'class-validator';
+
+export class BackfillRequestDto {
+  @ApiProperty({
+    description:
+      'Chain id of the deployment to scan. Defaults to the first configured deployment',
+    example: 11155111,
+    type: Number,
+    required: false,
+  })
+  @IsOptional()
+  @IsInt()
+  chainId?: number;
+
+  @ApiProperty({
+    description: 'First block of the range to scan (inclusive)',
+    example: 6100000,
+    type: Number,
+  })
+  @IsInt()
+  @Min(0)
+  fromBlock: number;
+
+  @ApiProperty({
+    description: 'Last block of the range to scan (inclusive)',
+    example: 6120000,
+    type: Number,
+  })
+  @IsInt()
+  @Min(0)
+  toBlock: number;
+
+  @ApiProperty({
+    description:
+      'process: execute orders for every event found (already processed logs are skipped). list: only decode and return the events',
+    enum: ['process', 'list'],
+    example: 'process',
+    required: false,
+    default: 'process',
+  })
+  @IsOptional()
+  @IsIn(['process', 'list'])
+  mode?: 'process' | 'list';
+
+  @ApiProperty({
+    description:
+      'Starting number of blocks per log query. Halved automatically when the provider rejects a range',
+    example: 2000,
+    type: Number,
+    required: false,
+  })
+  @IsOptional()
+  @IsInt()
+  @Min(1)
+  chunkSize?: number;
+}
@@ -0,0 +1,168 @@
+import { ApiProperty } from '@nestjs/swagger';
+
+export class BackfillJobResponse {
+  @ApiProperty({
+    description: 'The backfill job id',
+    example: '3f1c2b8e-6a4d-4e8f-9b1a-2c3d4e5f6a7b',
+    type: String,
+  })
+  id: string;
+
+  @ApiProperty({
+    description: 'The chain id being scanned',
+    example: 11155111,
+    type: Number,
+  })
+  chainId: number;
+
+  @ApiProperty({
+    description: 'The order contract being scanned',
+    example: '0xabcdefabcdefabcdefabcdefabcdefabcdefabcd',
+    type: String,
+  })
+  contractAddress: string;
+
+  @ApiProperty({
+    description: 'First block of the range (inclusive)',
+    example: 6100000,
+    type: Number,
+  })
+  fromBlock: number;
+
+  @ApiProperty({
+    description: 'Last block of the range (inclusive)',
+    example: 6120000,
+    type: Number,
+  })
+  toBlock: number;
+
+  @ApiProperty({
+    description: 'Next block to scan; the job resumes from here',
+    example: 6110000,
+    type: Number,
+  })
+  nextBlock: number;
+
+  @ApiProperty({
+    description: 'Chunk size the job currently uses',
+    example: 1000,
+    type: Number,
+  })
+  chunkSize: number;
+
+  @ApiProperty({
+    description: 'Number of buy and sell events found so far',
+    example: 12,
+    type: Number,
+  })
+  eventsFound: number;
+
+  @ApiProperty({
+    description: 'Share of the range already scanned, in percent',
+    example: 50,
+    type: Number,
+  })
+  progressPercent: number;
+
+  @ApiProperty({
+    description: 'Job status',
+    enum: ['running', 'completed', 'failed'],
+    example: 'running',
+  })
+  status: string;
+
+  @ApiProperty({
+    description: 'Error that stopped the job, if it failed',
+    example: null,
+    type: String,
+    nullable: true,
+  })
+  error: string | null;
+
+  @ApiProperty({
+    description: 'Timestamp when the job was created',
+    example: '2025-06-27T10:30:00.000Z',
+    type: String,
+  })
+  createdAt: string;
+
+  @ApiProperty({
+    description: 'Timestamp of the last progress update',
+    example: '2025-06-27T10:31:00.000Z',
+    type: String,
+  })
+  updatedAt: string;
+}
+
+export class DecodedOrderEventResponse {
+  @ApiProperty({ example: 'BuyOrderCreated', type: String })
+  eventName: string;
+
+  @ApiProperty({ example: 11155111, type: Number })
+  chainId: number;
+
+  @ApiProperty({ example: 6105432, type: Number })
+  blockNumber: number;
+
+  @ApiProperty({
+    example:
+      '0x9f2c1d6a3b4e5f60718293a4b5c6d7e8f9012345678901234567890abcdef1234',
+    type: String,
+  })
+  txHash: string;
+
+  @ApiProperty({ example: 3, type: Number })
+  logIndex: number;
+
+  @ApiProperty({
+    example: '0x1234567890abcdef1234567890abcdef12345678',
+    type: String,
+  })
+  user: string;
+
+  @ApiProperty({ example: 'LQD', type: String })
+  ticker: string;
+
+  @ApiProperty({
+    example: '0xabcdefabcdefabcdefabcdefabcdefabcdefabcd',
+    type: String,
+  })
+  token: string;
+
+  @ApiProperty({
+    description: 'USDC amount in base units (6 decimals)',
+    example: '100000000',
+    type: String,
+  })
+  usdcAmount: string;
+
+  @ApiProperty({
+    description: 'Asset amount in base units (18 decimals)',
+    example: '900000000000000000',
+    type: String,
+  })
+  assetAmount: string;
+
+  @ApiProperty({
+    description: 'Price in base units (8 decimals)',
+    example: '11000000000',
+    type: String,
+  })
+  price: string;
+}
+
+export class BackfillResponse {
+  @ApiProperty({
+    description: 'The started job, in process mode',
+    type: BackfillJobResponse,
+    required: false,
+  })
+  job?: BackfillJobResponse;
+
+  @ApiProperty({
+    description: 'The decoded events in chain order, in list mode',
+    type: [DecodedOrderEventResponse],
+    required: false,
+  })
+  events?: DecodedOrderEventResponse[];
+}
@@ -0,0 +1,109 @@
+import { ApiProperty } from '@nestjs/swagger';
+import {
+  IsBoolean,
+  IsEthereumAddress,
+  IsInt,
+  IsNotEmpty,
+  IsOptional,
+  IsString,
+  Matches,
+  Max,
+  Min,
+} from 'class-validator';
+import { DECIMAL_AMOUNT_PATTERN } from '../utils/amounts';
+
+export class CreateAssetDto {
+  @ApiProperty({
+    description: 'Chain the token is deployed on',
+    example: 11155111,
+  })
+  @IsInt()
+  chainId: number;
+
+  @ApiProperty({
+    description: 'Ticker emitted in order events',
+    example: 'LQD',
+  })
+  @IsString()
+  @IsNotEmpty()
+  ticker: string;
+
+  @ApiProperty({
+    description: 'ERC3643 token contract of the asset',
+    example: '0xabcdef1234567890abcdef1234567890abcdef12',
+  })
+  @IsEthereumAddress()
+  tokenAddress: string;
+
+  @ApiProperty({
+    description: 'Instrument the asset is hedged with at the broker',
+    example: 'LQD',
+  })
+  @IsString()
+  @IsNotEmpty()
+  brokerSymbol: string;
+
+  @ApiProperty({
+    description: 'ADFS price feed id of the asset',
+    example: '1001',
+    type: String,
+    required: false,
+  })
+  @IsOptional()
+  @IsString()
+  @IsNotEmpty()
+  feedId?: string;
+
+  @ApiProperty({
+    description:
+      'Decimals of the token contract. Read from the contract when omitted, and checked against it when given',
+    example: 18,
+    type: Number,
+    required: false,
+  })
+  @IsOptional()
+  @IsInt()
+  @Min(0)
+  @Max(36)
+  decimals?: number;
+
+  @ApiProperty({
+    description:
+      'Largest accepted deviation of an order price from the broker quote, in basis points. Null or omitted for the default tolerance',
+    example: 200,
+    type: Number,
+    required: false,
+    nullable: true,
+  })
+  @IsOptional()
+  @IsInt()
+  @Min(1)
+  @Max(10000)
+  maxPriceDeviationBps?: number | null;
+
+  @ApiProperty({
+    description:
+      'Largest reserve buys may take the asset to, in tokens as a decimal string. Buys above it are held for approval. Null or omitted for no ceiling',
+    example: '100000',
+    type: String,
+    required: false,
+    nullable: true,
+  })
+  @IsOptional()
+  @IsString()
+  @Matches(DECIMAL_AMOUNT_PATTERN, {
+    message: 'maxExposure must be an unsigned decimal string',
+  })
+  maxExposure?: string | null;
+
+  @ApiProperty({
+    description: 'Whether the asset takes new orders',
+    example: true,
+    type: Boolean,
+    required: false,
+    default: true,
+  })
+  @IsOptional()
+  @IsBoolean()
+  enabled?: boolean;
+}
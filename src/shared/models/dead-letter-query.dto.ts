@@ -0,0 +1,41 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { Type } from 'class-transformer';
+import { IsIn, IsInt, IsOptional, Max, Min } from 'class-validator';
+import { DeadLetterStatus } from '../../events/dead-letter.service';
+
+export class DeadLetterQueryDto {
+  @ApiProperty({
+    description: 'Only return logs emitted on this chain',
+    example: 11155111,
+    type: Number,
+    required: false,
+  })
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  chainId?: number;
+
+  @ApiProperty({
+    description: 'Only return dead letters in this status',
+    enum: ['pending', 'exhausted', 'resolved', 'discarded'],
+    required: false,
+  })
+  @IsOptional()
+  @IsIn(['pending', 'exhausted', 'resolved', 'discarded'])
+  status?: DeadLetterStatus;
+
+  @ApiProperty({
+    description: 'Maximum number of entries to return',
+    example: 100,
+    type: Number,
+    required: false,
+    minimum: 1,
+    maximum: 1000,
+  })
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  @Min(1)
+  @Max(1000)
+  limit?: number;
+}
@@ -0,0 +1,129 @@
+import { ApiProperty } from '@nestjs/swagger';
+
+export class DeadLetterResponse {
+  @ApiProperty({
+    description: 'Unique id of the dead letter',
+    example: '7c9e6679-7425-40de-944b-e07fc1f90ae7',
+    type: String,
+  })
+  id: string;
+
+  @ApiProperty({
+    description: 'The chain id the log was emitted on',
+    example: 11155111,
+    type: Number,
+  })
+  chainId: number;
+
+  @ApiProperty({
+    description: 'Hash of the transaction that emitted the log',
+    example:
+      '0x9f2c1d6a3b4e5f60718293a4b5c6d7e8f9012345678901234567890abcdef1234',
+    type: String,
+  })
+  txHash: string;
+
+  @ApiProperty({
+    description: 'Index of the log within its block',
+    example: 3,
+    type: Number,
+  })
+  logIndex: number;
+
+  @ApiProperty({
+    description: 'Block number the log was emitted in',
+    example: 6123456,
+    type: Number,
+  })
+  blockNumber: number;
+
+  @ApiProperty({
+    description: 'The decoded event name',
+    example: 'BuyOrderCreated',
+    type: String,
+  })
+  eventName: string;
+
+  @ApiProperty({
+    description: 'The user who placed the order',
+    example: '0x1234567890abcdef1234567890abcdef12345678',
+    type: String,
+  })
+  userAddress: string;
+
+  @ApiProperty({
+    description: 'The symbol of the traded asset',
+    example: 'LQD',
+    type: String,
+  })
+  assetSymbol: string;
+
+  @ApiProperty({
+    description: 'The decoded order, replayed as-is on every attempt',
+    example: {
+      user: '0x1234567890abcdef1234567890abcdef12345678',
+      token: '0xabcdefabcdefabcdefabcdefabcdefabcdefabcd',
+      assetSymbol: 'LQD',
+      usdcAmount: '100.0',
+      assetAmount: '0.907029478458049886',
+      price: '110.25',
+    },
+    type: 'object',
+    additionalProperties: true,
+  })
+  payload: Record<string, any>;
+
+  @ApiProperty({
+    description: 'The error of the last failed attempt',
+    example: 'Failed to mint tokens: nonce too low',
+    type: String,
+  })
+  error: string;
+
+  @ApiProperty({
+    description: 'Number of failed attempts so far, the original one included',
+    example: 2,
+    type: Number,
+  })
+  attempts: number;
+
+  @ApiProperty({
+    description:
+      'pending: retried automatically; exhausted: waiting for a manual replay; resolved: went through on a later attempt; discarded: given up on',
+    enum: ['pending', 'exhausted', 'resolved', 'discarded'],
+    example: 'pending',
+  })
+  status: string;
+
+  @ApiProperty({
+    description: 'When the next automatic retry is due, if any',
+    example: '2025-06-27T10:32:00.000Z',
+    type: String,
+    nullable: true,
+  })
+  nextAttemptAt: string | null;
+
+  @ApiProperty({
+    description:
+      'The order result once resolved, or the reason it was discarded',
+    example: null,
+    type: 'object',
+    additionalProperties: true,
+    nullable: true,
+  })
+  resolution: Record<string, any> | null;
+
+  @ApiProperty({
+    description: 'Timestamp of the first failed attempt',
+    example: '2025-06-27T10:30:00.000Z',
+    type: String,
+  })
+  createdAt: string;
+
+  @ApiProperty({
+    description: 'Timestamp of the last change',
+    example: '2025-06-27T10:31:00.000Z',
+    type: String,
+  })
+  updatedAt: string;
+}
@@ -0,0 +1,15 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { IsOptional, IsString, MaxLength } from 'class-validator';
+
+export class DiscardDeadLetterDto {
+  @ApiProperty({
+    description: 'Why the dead letter is given up on, kept for audit',
+    example: 'Refunded manually',
+    type: String,
+    required: false,
+  })
+  @IsOptional()
+  @IsString()
+  @MaxLength(500)
+  reason?: string;
+}
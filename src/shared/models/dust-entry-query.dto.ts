@@ -0,0 +1,51 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { Type } from 'class-transformer';
+import { IsIn, IsInt, IsOptional, IsString, Max, Min } from 'class-validator';
+import { DustKind } from '../../reserves/dust-ledger.service';
+
+export class DustEntryQueryDto {
+  @ApiProperty({
+    description: 'Only return remainders of orders executed on this chain',
+    example: 11155111,
+    type: Number,
+    required: false,
+  })
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  chainId?: number;
+
+  @ApiProperty({
+    description: 'Only return remainders denominated in this asset',
+    example: 'LQD',
+    type: String,
+    required: false,
+  })
+  @IsOptional()
+  @IsString()
+  assetSymbol?: string;
+
+  @ApiProperty({
+    description: 'Only return remainders dropped by this rounding step',
+    enum: ['mint', 'burn', 'hedge', 'withdraw'],
+    required: false,
+  })
+  @IsOptional()
+  @IsIn(['mint', 'burn', 'hedge', 'withdraw'])
+  kind?: DustKind;
+
+  @ApiProperty({
+    description: 'Maximum number of entries to return',
+    example: 100,
+    type: Number,
+    required: false,
+    minimum: 1,
+    maximum: 1000,
+  })
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  @Min(1)
+  @Max(1000)
+  limit?: number;
+}
@@ -0,0 +1,78 @@
+import { ApiProperty } from '@nestjs/swagger';
+
+export class DustEntryResponse {
+  @ApiProperty({
+    description: 'Unique id of the ledger entry',
+    example: '4f1c2a3b-5d6e-7f80-9a1b-2c3d4e5f6a7b',
+    type: String,
+  })
+  id: string;
+
+  @ApiProperty({
+    description: 'The rounding step that dropped the remainder',
+    enum: ['mint', 'burn', 'hedge', 'withdraw'],
+    example: 'hedge',
+  })
+  kind: string;
+
+  @ApiProperty({
+    description: 'The asset the remainder is denominated in',
+    example: 'LQD',
+    type: String,
+  })
+  assetSymbol: string;
+
+  @ApiProperty({
+    description: 'The dropped remainder, as a decimal string',
+    example: '0.000000000238095238',
+    type: String,
+  })
+  amount: string;
+
+  @ApiProperty({
+    description: 'The precision the amount was rounded down to',
+    example: 9,
+    type: Number,
+  })
+  decimals: number;
+
+  @ApiProperty({
+    description: 'The user whose order was rounded',
+    example: '0x1234567890abcdef1234567890abcdef12345678',
+    type: String,
+  })
+  userAddress: string;
+
+  @ApiProperty({
+    description: 'Chain id of the deployment the order was executed on',
+    example: 11155111,
+    type: Number,
+  })
+  chainId: number;
+
+  @ApiProperty({
+    description:
+      'Transaction hash of the source log, if the order came from one',
+    example:
+      '0x9f2c1d6a3b4e5f60718293a4b5c6d7e8f9012345678901234567890abcdef1234',
+    type: String,
+    nullable: true,
+  })
+  txHash: string | null;
+
+  @ApiProperty({
+    description:
+      'Index of the source log within its block, if the order came from one',
+    example: 3,
+    type: Number,
+    nullable: true,
+  })
+  logIndex: number | null;
+
+  @ApiProperty({
+    description: 'When the remainder was booked',
+    example: '2025-06-27T10:30:00.000Z',
+    type: String,
+  })
+  createdAt: string;
+}
@@ -1,5 +1,5 @@
 import { ApiProperty } from '@nestjs/swagger';
-import { IsString, IsNotEmpty, IsEthereumAddress, IsNumber, IsPositive, IsOptional } from 'class-validator';
+import { IsString, IsNotEmpty, IsEthereumAddress, IsNumber, IsPositive, IsOptional, IsInt } from 'class-validator';
 
 export class IssueKycSignatureDto {
   @ApiProperty({
@@ -50,4 +50,14 @@ export class IssueKycSignatureDto {
   @IsPositive()
   @IsOptional()
   countryCode?: number;
+
+  @ApiProperty({
+    description: 'Chain id of the deployment whose identity registry the user is registered in. Defaults to the first configured deployment',
+    example: 11155111,
+    type: Number,
+    required: false
+  })
+  @IsInt()
+  @IsOptional()
+  chainId?: number;
 }
@@ -0,0 +1,23 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { IsBoolean, IsOptional, IsString, MaxLength } from 'class-validator';
+
+export class KillSwitchDto {
+  @ApiProperty({
+    description: 'true to engage the kill switch, false to release it',
+    example: true,
+    type: Boolean,
+  })
+  @IsBoolean()
+  engaged: boolean;
+
+  @ApiProperty({
+    description: 'Why the switch is engaged or released, kept with the switch',
+    example: 'Broker outage',
+    type: String,
+    required: false,
+  })
+  @IsOptional()
+  @IsString()
+  @MaxLength(500)
+  reason?: string;
+}
@@ -0,0 +1,190 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { OrderStepResponse } from './order-record-response.model';
+
+export class BatchAllocationResponse {
+  @ApiProperty({
+    description: 'The order',
+    example: '3b241101-e2bb-4255-8caf-4136c566a962',
+    type: String,
+  })
+  orderId: string;
+
+  @ApiProperty({
+    description: 'Side of the order',
+    enum: ['buy', 'sell'],
+    example: 'buy',
+  })
+  side: string;
+
+  @ApiProperty({
+    description: 'Hedge quantity the order asked for, as a decimal string',
+    example: '5.2',
+    type: String,
+  })
+  hedgeQty: string;
+
+  @ApiProperty({
+    description:
+      'Hedge quantity allocated to the order from offsetting orders and the net broker fill, as a decimal string',
+    example: '5.2',
+    type: String,
+  })
+  filledQty: string;
+
+  @ApiProperty({
+    description: 'Tokens minted or burned for the order, as a decimal string',
+    example: '5.2',
+    type: String,
+  })
+  tokenAmount: string;
+}
+
+export class OrderBatchResponse {
+  @ApiProperty({
+    description: 'Unique id of the batch',
+    example: '9d8f7c36-2a1b-4f0e-8c55-0b6a1e2d3f47',
+    type: String,
+  })
+  id: string;
+
+  @ApiProperty({
+    description: 'Chain id the batch was settled on',
+    example: 11155111,
+    type: Number,
+  })
+  chainId: number;
+
+  @ApiProperty({
+    description: 'Asset of the batched orders',
+    example: 'LQD',
+    type: String,
+  })
+  assetSymbol: string;
+
+  @ApiProperty({
+    description: 'ERC3643 token minted and burned by the batch',
+    example: '0x1234567890abcdef1234567890abcdef12345678',
+    type: String,
+  })
+  tokenAddress: string;
+
+  @ApiProperty({
+    description:
+      'executing until settled; rolled_back when every step was undone, manual_review when a step could not be settled',
+    enum: ['executing', 'settled', 'rolled_back', 'manual_review'],
+    example: 'settled',
+  })
+  status: string;
+
+  @ApiProperty({
+    description: 'The orders of the batch',
+    example: ['3b241101-e2bb-4255-8caf-4136c566a962'],
+    type: [String],
+  })
+  orderIds: string[];
+
+  @ApiProperty({
+    description: 'Total hedge quantity of the buys, as a decimal string',
+    example: '12.5',
+    type: String,
+  })
+  buyQty: string;
+
+  @ApiProperty({
+    description: 'Total hedge quantity of the sells, as a decimal string',
+    example: '5.2',
+    type: String,
+  })
+  sellQty: string;
+
+  @ApiProperty({
+    description:
+      'Side of the net broker order; null when buys and sells cancel out',
+    enum: ['buy', 'sell'],
+    example: 'buy',
+    nullable: true,
+  })
+  netSide: string | null;
+
+  @ApiProperty({
+    description: 'Quantity of the net broker order, as a decimal string',
+    example: '7.3',
+    type: String,
+  })
+  netQty: string;
+
+  @ApiProperty({
+    description: 'Alpaca order id of the net hedge',
+    example: '61e69015-8549-4bfd-b9c3-01e75843f47d',
+    type: String,
+    nullable: true,
+  })
+  alpacaOrderId: string | null;
+
+  @ApiProperty({
+    description: 'Quantity the net hedge filled, as a decimal string',
+    example: '7.3',
+    type: String,
+    nullable: true,
+  })
+  filledQty: string | null;
+
+  @ApiProperty({
+    description:
+      'Price every order of the batch settled at: the average fill price of the net hedge, or the quote midpoint when orders fully offset',
+    example: '108.42',
+    type: String,
+    nullable: true,
+  })
+  fillPrice: string | null;
+
+  @ApiProperty({
+    description: 'Hash of the batchMint transaction',
+    example: null,
+    type: String,
+    nullable: true,
+  })
+  mintTxHash: string | null;
+
+  @ApiProperty({
+    description: 'Hash of the batchBurn transaction',
+    example: null,
+    type: String,
+    nullable: true,
+  })
+  burnTxHash: string | null;
+
+  @ApiProperty({
+    description: 'What the batch allocated to each order',
+    type: [BatchAllocationResponse],
+  })
+  allocations: BatchAllocationResponse[];
+
+  @ApiProperty({
+    description: 'Outcome of each step of the batch, including compensations',
+    type: [OrderStepResponse],
+  })
+  steps: OrderStepResponse[];
+
+  @ApiProperty({
+    description: 'Why the batch failed',
+    example: null,
+    type: String,
+    nullable: true,
+  })
+  error: string | null;
+
+  @ApiProperty({
+    description: 'When the batch was closed',
+    example: '2025-06-27T10:30:00.000Z',
+    type: String,
+  })
+  createdAt: string;
+
+  @ApiProperty({
+    description: 'When the batch last changed',
+    example: '2025-06-27T10:30:05.000Z',
+    type: String,
+  })
+  updatedAt: string;
+}
@@ -0,0 +1,41 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { IsInt, IsNotEmpty, IsString, Min } from 'class-validator';
+
+export class OrderEventSource {
+  @ApiProperty({
+    description: 'The chain id the order contract log was emitted on',
+    example: 11155111,
+    type: Number,
+  })
+  @IsInt()
+  @Min(1)
+  chainId: number;
+
+  @ApiProperty({
+    description: 'Hash of the transaction that emitted the log',
+    example:
+      '0x9f2c1d6a3b4e5f60718293a4b5c6d7e8f9012345678901234567890abcdef1234',
+    type: String,
+  })
+  @IsString()
+  @IsNotEmpty()
+  txHash: string;
+
+  @ApiProperty({
+    description: 'Index of the log within its block',
+    example: 3,
+    type: Number,
+  })
+  @IsInt()
+  @Min(0)
+  logIndex: number;
+
+  @ApiProperty({
+    description: 'Block number the log was emitted in',
+    example: 6123456,
+    type: Number,
+  })
+  @IsInt()
+  @Min(0)
+  blockNumber: number;
+}
@@ -0,0 +1,83 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { Type } from 'class-transformer';
+import {
+  IsEthereumAddress,
+  IsIn,
+  IsInt,
+  IsOptional,
+  IsString,
+  IsUUID,
+  Max,
+  Min,
+} from 'class-validator';
+import {
+  ORDER_STATUSES,
+  OrderStatus,
+} from '../../orders/order-lifecycle.service';
+
+export class OrderQueryDto {
+  @ApiProperty({
+    description: 'Only return orders placed by this user',
+    example: '0x1234567890abcdef1234567890abcdef12345678',
+    type: String,
+    required: false,
+  })
+  @IsOptional()
+  @IsEthereumAddress()
+  user?: string;
+
+  @ApiProperty({
+    description: 'Only return orders for this asset',
+    example: 'LQD',
+    type: String,
+    required: false,
+  })
+  @IsOptional()
+  @IsString()
+  symbol?: string;
+
+  @ApiProperty({
+    description: 'Only return orders in this status',
+    enum: ORDER_STATUSES,
+    required: false,
+  })
+  @IsOptional()
+  @IsIn(ORDER_STATUSES)
+  status?: OrderStatus;
+
+  @ApiProperty({
+    description: 'Only return orders settled in this batch',
+    example: '9d8f7c36-2a1b-4f0e-8c55-0b6a1e2d3f47',
+    type: String,
+    required: false,
+  })
+  @IsOptional()
+  @IsUUID()
+  batchId?: string;
+
+  @ApiProperty({
+    description: 'Only return orders executed on this chain',
+    example: 11155111,
+    type: Number,
+    required: false,
+  })
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  chainId?: number;
+
+  @ApiProperty({
+    description: 'Maximum number of entries to return',
+    example: 100,
+    type: Number,
+    required: false,
+    minimum: 1,
+    maximum: 1000,
+  })
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  @Min(1)
+  @Max(1000)
+  limit?: number;
+}
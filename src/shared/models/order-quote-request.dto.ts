@@ -0,0 +1,74 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { Type } from 'class-transformer';
+import {
+  IsEthereumAddress,
+  IsIn,
+  IsInt,
+  IsOptional,
+  IsString,
+  Matches,
+} from 'class-validator';
+import { DECIMAL_AMOUNT_PATTERN } from '../utils/amounts';
+
+export class OrderQuoteRequestDto {
+  @ApiProperty({
+    description:
+      'Chain the order would run on; the default deployment when omitted',
+    example: 11155111,
+    type: Number,
+    required: false,
+  })
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  chainId?: number;
+
+  @ApiProperty({
+    description: 'Ticker of the asset',
+    example: 'LQD',
+    type: String,
+  })
+  @IsString()
+  symbol: string;
+
+  @ApiProperty({
+    description: 'Side of the order',
+    enum: ['buy', 'sell'],
+    example: 'buy',
+  })
+  @IsIn(['buy', 'sell'])
+  side: 'buy' | 'sell';
+
+  @ApiProperty({
+    description:
+      'USDC paid for a buy or received for a sell, as a decimal string; give either this or assetAmount',
+    example: '1000',
+    type: String,
+    required: false,
+  })
+  @IsOptional()
+  @Matches(DECIMAL_AMOUNT_PATTERN)
+  usdcAmount?: string;
+
+  @ApiProperty({
+    description:
+      'Asset amount bought or sold, as a decimal string; give either this or usdcAmount',
+    example: '9.2',
+    type: String,
+    required: false,
+  })
+  @IsOptional()
+  @Matches(DECIMAL_AMOUNT_PATTERN)
+  assetAmount?: string;
+
+  @ApiProperty({
+    description:
+      'User who would place the order; their verification and the gas of the mint or burn are only quoted when given',
+    example: '0x1234567890abcdef1234567890abcdef12345678',
+    type: String,
+    required: false,
+  })
+  @IsOptional()
+  @IsEthereumAddress()
+  user?: string;
+}
@@ -0,0 +1,165 @@
+import { ApiProperty } from '@nestjs/swagger';
+
+export class QuoteFeesResponse {
+  @ApiProperty({
+    description:
+      'USDC charged on a fulfilled order, as a decimal string; the protocol charges none',
+    example: '0',
+    type: String,
+  })
+  tradingFee: string;
+
+  @ApiProperty({
+    description:
+      'USDC kept when a buy cannot be fulfilled and its payment is refunded, as a decimal string; null for sells',
+    example: '1',
+    type: String,
+    nullable: true,
+  })
+  refundFee: string | null;
+}
+
+export class QuoteGasResponse {
+  @ApiProperty({
+    description: 'Transaction the gas is estimated for',
+    enum: ['mint', 'burn'],
+    example: 'mint',
+  })
+  action: string;
+
+  @ApiProperty({
+    description: 'Gas limit the transaction would be sent with',
+    example: '98400',
+    type: String,
+  })
+  gasLimit: string;
+
+  @ApiProperty({
+    description:
+      "Most paid per gas under the chain's gas policy, in wei: the max fee, or the gas price on legacy chains",
+    example: '1500000000',
+    type: String,
+  })
+  gasPrice: string;
+
+  @ApiProperty({
+    description:
+      'Most the transaction would cost, in the native token of the chain, as a decimal string',
+    example: '0.0001476',
+    type: String,
+  })
+  cost: string;
+}
+
+export class OrderQuoteResponse {
+  @ApiProperty({
+    description: 'Chain id the order would run on',
+    example: 11155111,
+    type: Number,
+  })
+  chainId: number;
+
+  @ApiProperty({
+    description: 'Ticker of the asset',
+    example: 'LQD',
+    type: String,
+  })
+  assetSymbol: string;
+
+  @ApiProperty({
+    description:
+      'ERC3643 token of the asset, the one to pass to buyAsset or sellAsset',
+    example: '0x1234567890abcdef1234567890abcdef12345678',
+    type: String,
+  })
+  tokenAddress: string;
+
+  @ApiProperty({
+    description: 'Side of the order',
+    enum: ['buy', 'sell'],
+    example: 'buy',
+  })
+  side: string;
+
+  @ApiProperty({
+    description:
+      'Alpaca price the quote is based on: the ask for buys, the bid for sells; null when the broker has no quote',
+    example: '108.42',
+    type: String,
+    nullable: true,
+  })
+  referencePrice: string | null;
+
+  @ApiProperty({
+    description:
+      'USDC paid or received, as a decimal string; null when it is derived from assetAmount and there is no reference price',
+    example: '1000',
+    type: String,
+    nullable: true,
+  })
+  usdcAmount: string | null;
+
+  @ApiProperty({
+    description:
+      'Asset amount bought or sold, as a decimal string; null when it is derived from usdcAmount and there is no reference price',
+    example: '9.223390518354547131',
+    type: String,
+    nullable: true,
+  })
+  assetAmount: string | null;
+
+  @ApiProperty({
+    description:
+      'Tokens that would be minted or burned: the asset amount rounded down to the token decimals',
+    example: '9.223390518354547131',
+    type: String,
+    nullable: true,
+  })
+  tokenAmount: string | null;
+
+  @ApiProperty({
+    description: 'Fees of the order',
+    type: QuoteFeesResponse,
+  })
+  fees: QuoteFeesResponse;
+
+  @ApiProperty({
+    description:
+      'Gas of the mint or burn; null when no user was given, or the transaction would revert for them',
+    type: QuoteGasResponse,
+    nullable: true,
+  })
+  estimatedGas: QuoteGasResponse | null;
+
+  @ApiProperty({
+    description:
+      'Whether the user is verified in the identity registry; null when no user was given',
+    example: true,
+    type: Boolean,
+    nullable: true,
+  })
+  isVerified: boolean | null;
+
+  @ApiProperty({
+    description:
+      'Whether the market is open, so the order would be hedged right away rather than queued',
+    example: true,
+    type: Boolean,
+  })
+  marketOpen: boolean;
+
+  @ApiProperty({
+    description:
+      'Whether an order would execute right now: the asset is enabled, the market is open, the kill switch is released, the broker quotes it and, for sells, the reserve covers it',
+    example: true,
+    type: Boolean,
+  })
+  tradable: boolean;
+
+  @ApiProperty({
+    description: 'Why the asset is not tradable right now',
+    example: [],
+    type: [String],
+  })
+  reasons: string[];
+}
@@ -0,0 +1,429 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { ORDER_STATUSES } from '../../orders/order-lifecycle.service';
+
+export class OrderTransitionResponse {
+  @ApiProperty({
+    description: 'Status the order left, null for the first entry',
+    enum: ORDER_STATUSES,
+    example: 'hedge_submitted',
+    nullable: true,
+  })
+  from: string | null;
+
+  @ApiProperty({
+    description: 'Status the order entered',
+    enum: ORDER_STATUSES,
+    example: 'minted',
+  })
+  to: string;
+
+  @ApiProperty({
+    description: 'When the transition happened',
+    example: '2025-06-27T10:30:05.000Z',
+    type: String,
+  })
+  at: string;
+
+  @ApiProperty({
+    description: 'Alpaca order id of the hedge, on hedge transitions',
+    example: '61e69015-8549-4bfd-b9c3-01e75843f47d',
+    type: String,
+    required: false,
+  })
+  alpacaOrderId?: string;
+
+  @ApiProperty({
+    description: 'Batch the order is netted and settled in, on hedge_submitted',
+    example: '9d8f7c36-2a1b-4f0e-8c55-0b6a1e2d3f47',
+    type: String,
+    required: false,
+  })
+  batchId?: string;
+
+  @ApiProperty({
+    description: 'Hash of the mint, burn or USDC withdrawal transaction',
+    example:
+      '0x4e3a3754410177e6937ef1f84bba68ea139e8d1a2258c5f85db9f1cd715a1bdd',
+    type: String,
+    required: false,
+  })
+  txHash?: string;
+
+  @ApiProperty({
+    description: 'Quantity the hedge filled, on transitions to hedge_filled',
+    example: '0.25',
+    type: String,
+    required: false,
+  })
+  filledQty?: string;
+
+  @ApiProperty({
+    description:
+      'Average price the hedge filled at, on transitions to hedge_filled',
+    example: '108.42',
+    type: String,
+    required: false,
+  })
+  fillPrice?: string;
+
+  @ApiProperty({
+    description:
+      'When the queued order is expected to execute, the next market open, on transitions to queued',
+    example: '2025-06-30T09:30:00-04:00',
+    type: String,
+    required: false,
+  })
+  executeAfter?: string;
+
+  @ApiProperty({
+    description:
+      'Broker quote the order price was checked against, on transitions to held and rejected',
+    example: '108.42',
+    type: String,
+    required: false,
+  })
+  quotePrice?: string;
+
+  @ApiProperty({
+    description:
+      'Deviation of the order price from the quote in basis points, on transitions to held and rejected',
+    example: 350,
+    type: Number,
+    required: false,
+  })
+  priceDeviationBps?: number;
+
+  @ApiProperty({
+    description: 'Risk limit the order breached, on transitions to held',
+    enum: [
+      'kill_switch',
+      'order_notional',
+      'user_daily_notional',
+      'asset_exposure',
+    ],
+    example: 'user_daily_notional',
+    required: false,
+  })
+  riskLimit?: string;
+
+  @ApiProperty({
+    description:
+      'USDC refunded, on transitions to usdc_refunded, and to rejected or refunded for buys',
+    example: '2.5',
+    type: String,
+    required: false,
+  })
+  refundAmount?: string;
+
+  @ApiProperty({
+    description:
+      'USDC kept from the refund of a buy that cannot be fulfilled, on transitions to refunded',
+    example: '1',
+    type: String,
+    required: false,
+  })
+  refundFee?: string;
+
+  @ApiProperty({
+    description:
+      'Why the order failed, was held or was rejected, on transitions to failed, held and rejected',
+    example: 'Failed to mint tokens: execution reverted',
+    type: String,
+    required: false,
+  })
+  error?: string;
+}
+
+export class OrderStepDetailsResponse {
+  @ApiProperty({
+    description: 'Alpaca order id placed by the hedge step or its unwinding',
+    example: '61e69015-8549-4bfd-b9c3-01e75843f47d',
+    type: String,
+    required: false,
+  })
+  alpacaOrderId?: string;
+
+  @ApiProperty({
+    description: 'Hash of the transaction sent by the step or its compensation',
+    example:
+      '0x4e3a3754410177e6937ef1f84bba68ea139e8d1a2258c5f85db9f1cd715a1bdd',
+    type: String,
+    required: false,
+  })
+  txHash?: string;
+}
+
+export class OrderStepResponse {
+  @ApiProperty({
+    description: 'The step',
+    enum: [
+      'hedge',
+      'hedge_fill',
+      'reserve',
+      'mint',
+      'burn',
+      'withdraw',
+      'refund',
+    ],
+    example: 'burn',
+  })
+  name: string;
+
+  @ApiProperty({
+    description:
+      'Outcome of the step; unconfirmed means its transaction was sent but never seen mined',
+    enum: [
+      'completed',
+      'failed',
+      'unconfirmed',
+      'compensated',
+      'compensation_failed',
+    ],
+    example: 'compensated',
+  })
+  status: string;
+
+  @ApiProperty({
+    description:
+      'Attempts made at the step or, once rolled back, at its compensation',
+    example: 1,
+  })
+  attempts: number;
+
+  @ApiProperty({
+    description: 'What the step produced',
+    type: OrderStepDetailsResponse,
+    required: false,
+  })
+  result?: OrderStepDetailsResponse;
+
+  @ApiProperty({
+    description: 'What undoing the step produced',
+    type: OrderStepDetailsResponse,
+    required: false,
+  })
+  compensation?: OrderStepDetailsResponse;
+
+  @ApiProperty({
+    description: 'Why the step or its compensation failed',
+    example: 'Failed to withdraw USDC: execution reverted',
+    type: String,
+    required: false,
+  })
+  error?: string;
+
+  @ApiProperty({
+    description: 'When the step last changed',
+    example: '2025-06-27T10:30:05.000Z',
+    type: String,
+  })
+  at: string;
+}
+
+export class OrderRecordResponse {
+  @ApiProperty({
+    description: 'Unique id of the order',
+    example: '3b241101-e2bb-4255-8caf-4136c566a962',
+    type: String,
+  })
+  id: string;
+
+  @ApiProperty({
+    description: 'The chain id the order is executed on',
+    example: 11155111,
+    type: Number,
+  })
+  chainId: number;
+
+  @ApiProperty({
+    description: 'Whether the user buys or sells the asset',
+    enum: ['buy', 'sell'],
+    example: 'buy',
+  })
+  side: string;
+
+  @ApiProperty({
+    description: 'The user who placed the order',
+    example: '0x1234567890abcdef1234567890abcdef12345678',
+    type: String,
+  })
+  userAddress: string;
+
+  @ApiProperty({
+    description: 'The ERC3643 token of the asset',
+    example: '0xabcdefabcdefabcdefabcdefabcdefabcdefabcd',
+    type: String,
+  })
+  tokenAddress: string;
+
+  @ApiProperty({
+    description: 'The symbol of the traded asset',
+    example: 'LQD',
+    type: String,
+  })
+  assetSymbol: string;
+
+  @ApiProperty({
+    description: 'The USDC amount of the order, as a decimal string',
+    example: '10.5',
+    type: String,
+  })
+  usdcAmount: string;
+
+  @ApiProperty({
+    description: 'The asset amount of the order, as a decimal string',
+    example: '0.095238095238095238',
+    type: String,
+  })
+  assetAmount: string;
+
+  @ApiProperty({
+    description: 'The price of the order, as a decimal string',
+    example: '110.25',
+    type: String,
+  })
+  price: string;
+
+  @ApiProperty({
+    description: 'Where the order is in its lifecycle',
+    enum: ORDER_STATUSES,
+    example: 'settled',
+  })
+  status: string;
+
+  @ApiProperty({
+    description: 'Transaction hash of the log the order came from, if any',
+    example:
+      '0x9f2c1d6a3b4e5f60718293a4b5c6d7e8f9012345678901234567890abcdef1234',
+    type: String,
+    nullable: true,
+  })
+  sourceTxHash: string | null;
+
+  @ApiProperty({
+    description: 'Index of the log the order came from, if any',
+    example: 3,
+    type: Number,
+    nullable: true,
+  })
+  sourceLogIndex: number | null;
+
+  @ApiProperty({
+    description: 'Alpaca order id of the hedge',
+    example: '61e69015-8549-4bfd-b9c3-01e75843f47d',
+    type: String,
+    nullable: true,
+  })
+  alpacaOrderId: string | null;
+
+  @ApiProperty({
+    description: 'Hash of the mint transaction, for buys',
+    example:
+      '0x4e3a3754410177e6937ef1f84bba68ea139e8d1a2258c5f85db9f1cd715a1bdd',
+    type: String,
+    nullable: true,
+  })
+  mintTxHash: string | null;
+
+  @ApiProperty({
+    description: 'Hash of the burn transaction, for sells',
+    example: null,
+    type: String,
+    nullable: true,
+  })
+  burnTxHash: string | null;
+
+  @ApiProperty({
+    description: 'Hash of the USDC withdrawal transaction, for sells',
+    example: null,
+    type: String,
+    nullable: true,
+  })
+  withdrawTxHash: string | null;
+
+  @ApiProperty({
+    description: 'Quantity the hedge filled, once it reached a final status',
+    example: '0.25',
+    type: String,
+    nullable: true,
+  })
+  filledQty: string | null;
+
+  @ApiProperty({
+    description: 'Average price the hedge filled at',
+    example: '108.42',
+    type: String,
+    nullable: true,
+  })
+  fillPrice: string | null;
+
+  @ApiProperty({
+    description:
+      'USDC returned to the user for the part of a buy the hedge did not fill, or for a rejected or refunded buy',
+    example: null,
+    type: String,
+    nullable: true,
+  })
+  refundAmount: string | null;
+
+  @ApiProperty({
+    description: 'Hash of the USDC refund transaction',
+    example: null,
+    type: String,
+    nullable: true,
+  })
+  refundTxHash: string | null;
+
+  @ApiProperty({
+    description:
+      'Batch the order was netted and settled in, when orders are batched; its hedge and mint or burn are shared',
+    example: null,
+    type: String,
+    nullable: true,
+  })
+  batchId: string | null;
+
+  @ApiProperty({
+    description:
+      'Next market open at the time the order was last queued, when it is expected to execute',
+    example: null,
+    type: String,
+    nullable: true,
+  })
+  executeAfter: string | null;
+
+  @ApiProperty({
+    description: 'Why the order failed, while it is failed',
+    example: null,
+    type: String,
+    nullable: true,
+  })
+  error: string | null;
+
+  @ApiProperty({
+    description: 'Every status the order went through, oldest first',
+    type: [OrderTransitionResponse],
+  })
+  history: OrderTransitionResponse[];
+
+  @ApiProperty({
+    description:
+      'Steps of the latest execution in order, with the compensations run when a step failed',
+    type: [OrderStepResponse],
+  })
+  steps: OrderStepResponse[];
+
+  @ApiProperty({
+    description: 'Timestamp when the order was received',
+    example: '2025-06-27T10:30:00.000Z',
+    type: String,
+  })
+  createdAt: string;
+
+  @ApiProperty({
+    description: 'Timestamp of the last transition',
+    example: '2025-06-27T10:30:12.000Z',
+    type: String,
+  })
+  updatedAt: string;
+}
@@ -1,5 +1,8 @@
 import { ApiProperty } from '@nestjs/swagger';
-import { IsString, IsNumber, IsPositive, IsNotEmpty } from 'class-validator';
+import { IsString, IsNotEmpty, IsOptional, ValidateNested, Matches, IsInt } from 'class-validator';
+import { Type } from 'class-transformer';
+import { OrderEventSource } from './order-event-source.model';
+import { DECIMAL_AMOUNT_PATTERN } from '../utils/amounts';
 
 export class OrderRequest {
   
@@ -31,32 +34,49 @@ export class OrderRequest {
   assetSymbol: string;
 
   @ApiProperty({
-    description: 'The amount of the asset to buy or sell',
-    example: 10.5,
-    type: Number,
-    minimum: 0.000001
+    description: 'The USDC amount of the order, as a decimal string with up to 6 decimals',
+    example: '10.5',
+    type: String
   })
-  @IsNumber()
-  @IsPositive()
-  usdcAmount: number;
+  @IsString()
+  @Matches(DECIMAL_AMOUNT_PATTERN, { message: 'usdcAmount must be an unsigned decimal string' })
+  usdcAmount: string;
 
   @ApiProperty({
-    description: 'The amount of the asset to buy or sell in the asset\'s smallest unit',
-    example: 1000000,
-    type: Number,
-    minimum: 1
+    description: 'The amount of the asset to buy or sell, as a decimal string with up to 18 decimals',
+    example: '0.095238095238095238',
+    type: String
+  })
+  @IsString()
+  @Matches(DECIMAL_AMOUNT_PATTERN, { message: 'assetAmount must be an unsigned decimal string' })
+  assetAmount: string;
+
+  @ApiProperty({
+    description: 'The price at which the asset is being bought or sold, as a decimal string with up to 8 decimals',
+    example: '110.25',
+    type: String
   })
-  @IsNumber()
-  @IsPositive()
-  assetAmount: number;
+  @IsString()
+  @Matches(DECIMAL_AMOUNT_PATTERN, { message: 'price must be an unsigned decimal string' })
+  price: string;
 
   @ApiProperty({
-    description: 'The price at which the asset is being bought or sold',
-    example: 2000.5,
+    description: 'Chain id of the deployment to execute the order on. Defaults to the source log chain, or the first configured deployment',
+    example: 11155111,
     type: Number,
-    minimum: 0.01
+    required: false
+  })
+  @IsOptional()
+  @IsInt()
+  chainId?: number;
+
+  @ApiProperty({
+    description: 'The on-chain log this order originates from. When set, the order is executed at most once per log',
+    type: OrderEventSource,
+    required: false
   })
-  @IsNumber()
-  @IsPositive()
-  price: number;
+  @IsOptional()
+  @ValidateNested()
+  @Type(() => OrderEventSource)
+  source?: OrderEventSource;
 }
@@ -1,4 +1,5 @@
 import { ApiProperty } from '@nestjs/swagger';
+import { ORDER_STATUSES, OrderStatus } from '../../orders/order-lifecycle.service';
 
 export class OrderResponse {
   @ApiProperty({
@@ -8,6 +9,20 @@ export class OrderResponse {
   })
   success: boolean;
 
+  @ApiProperty({
+    description: 'Id of the order record, to follow it at /orders/:id',
+    example: '3b241101-e2bb-4255-8caf-4136c566a962',
+    type: String
+  })
+  orderId: string;
+
+  @ApiProperty({
+    description: 'Lifecycle status the order ended in: settled, held / rejected for its price deviation or a risk limit, queued while the market is closed, or refunded when a buy cannot be fulfilled',
+    example: 'settled',
+    enum: ORDER_STATUSES
+  })
+  status: OrderStatus;
+
   @ApiProperty({
     description: 'Message describing the result of the operation',
     example: 'Successfully bought 10.5 ETH',
@@ -23,32 +38,64 @@ export class OrderResponse {
   assetSymbol: string;
 
   @ApiProperty({
-    description: 'The amount of the asset that was traded',
-    example: 10.5,
-    type: Number
+    description: 'The USDC amount of the order, as a decimal string',
+    example: '10.5',
+    type: String
+  })
+  amount: string;
+
+  @ApiProperty({
+    description: 'The new reserve amount after the trade, as a decimal string',
+    example: '100.5',
+    type: String
   })
-  amount: number;
+  newTokenReserve: string;
 
   @ApiProperty({
-    description: 'The new reserve amount after the trade',
-    example: 100.5,
-    type: Number
+    description: 'The number of tokens burned for sell orders, as a decimal string',
+    example: '5.0',
+    type: String,
+    required: false
+  })
+  tokenBurned?: string;
+
+  @ApiProperty({
+    description: 'The number of tokens minted for buy orders, as a decimal string',
+    example: '5.0',
+    type: String,
+    required: false
+  })
+  tokenMinted?: string;
+
+  @ApiProperty({
+    description: 'Average price the hedge filled at, as a decimal string',
+    example: '108.42',
+    type: String,
+    required: false
+  })
+  fillPrice?: string;
+
+  @ApiProperty({
+    description: 'USDC refunded for the part of a buy the hedge did not fill, as a decimal string',
+    example: '2.5',
+    type: String,
+    required: false
   })
-  newTokenReserve: number;
+  usdcRefunded?: string;
 
   @ApiProperty({
-    description: 'The number of tokens burned for sell orders, or minted for buy orders',
-    example: 5,
-    type: Number,
+    description: 'Batch the order was netted and settled in, when orders are batched',
+    example: '9d8f7c36-2a1b-4f0e-8c55-0b6a1e2d3f47',
+    type: String,
     required: false
   })
-  tokenBurned?: number;
+  batchId?: string;
 
   @ApiProperty({
-    description: 'The number of tokens minted for buy orders',
-    example: 5,
-    type: Number,
+    description: 'When an order queued while the market is closed is expected to execute: the next market open',
+    example: '2025-06-30T09:30:00-04:00',
+    type: String,
     required: false
   })
-  tokenMinted?: number;
-}
\ No newline at end of file
+  executeAfter?: string;
+}
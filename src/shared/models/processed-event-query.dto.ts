@@ -0,0 +1,88 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { Type } from 'class-transformer';
+import {
+  IsEthereumAddress,
+  IsIn,
+  IsInt,
+  IsOptional,
+  IsString,
+  Max,
+  Min,
+} from 'class-validator';
+import { ProcessedEventStatus } from '../../events/processed-events.service';
+
+export class ProcessedEventQueryDto {
+  @ApiProperty({
+    description: 'Only return logs emitted on this chain',
+    example: 11155111,
+    type: Number,
+    required: false,
+  })
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  chainId?: number;
+
+  @ApiProperty({
+    description: 'Only return logs emitted by this transaction',
+    example:
+      '0x9f2c1d6a3b4e5f60718293a4b5c6d7e8f9012345678901234567890abcdef1234',
+    type: String,
+    required: false,
+  })
+  @IsOptional()
+  @IsString()
+  txHash?: string;
+
+  @ApiProperty({
+    description: 'Only return orders placed by this user',
+    example: '0x1234567890abcdef1234567890abcdef12345678',
+    type: String,
+    required: false,
+  })
+  @IsOptional()
+  @IsEthereumAddress()
+  user?: string;
+
+  @ApiProperty({
+    description: 'Only return logs in this processing status',
+    enum: [
+      'processing',
+      'processed',
+      'failed',
+      'orphaned',
+      'compensated',
+      'manual_review',
+      'held',
+      'queued',
+    ],
+    required: false,
+  })
+  @IsOptional()
+  @IsIn([
+    'processing',
+    'processed',
+    'failed',
+    'orphaned',
+    'compensated',
+    'manual_review',
+    'held',
+    'queued',
+  ])
+  status?: ProcessedEventStatus;
+
+  @ApiProperty({
+    description: 'Maximum number of entries to return',
+    example: 100,
+    type: Number,
+    required: false,
+    minimum: 1,
+    maximum: 1000,
+  })
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  @Min(1)
+  @Max(1000)
+  limit?: number;
+}
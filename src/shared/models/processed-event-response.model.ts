@@ -0,0 +1,124 @@
+import { ApiProperty } from '@nestjs/swagger';
+
+export class ProcessedEventResponse {
+  @ApiProperty({
+    description: 'The chain id the log was emitted on',
+    example: 11155111,
+    type: Number,
+  })
+  chainId: number;
+
+  @ApiProperty({
+    description: 'Hash of the transaction that emitted the log',
+    example:
+      '0x9f2c1d6a3b4e5f60718293a4b5c6d7e8f9012345678901234567890abcdef1234',
+    type: String,
+  })
+  txHash: string;
+
+  @ApiProperty({
+    description: 'Index of the log within its block',
+    example: 3,
+    type: Number,
+  })
+  logIndex: number;
+
+  @ApiProperty({
+    description: 'Block number the log was emitted in',
+    example: 6123456,
+    type: Number,
+  })
+  blockNumber: number;
+
+  @ApiProperty({
+    description: 'The decoded event name',
+    example: 'BuyOrderCreated',
+    type: String,
+  })
+  eventName: string;
+
+  @ApiProperty({
+    description: 'The user who placed the order',
+    example: '0x1234567890abcdef1234567890abcdef12345678',
+    type: String,
+  })
+  userAddress: string;
+
+  @ApiProperty({
+    description: 'The symbol of the traded asset',
+    example: 'LQD',
+    type: String,
+  })
+  assetSymbol: string;
+
+  @ApiProperty({
+    description: 'Processing status of the log',
+    enum: [
+      'processing',
+      'processed',
+      'failed',
+      'orphaned',
+      'compensated',
+      'manual_review',
+      'held',
+      'queued',
+    ],
+    example: 'processed',
+  })
+  status: string;
+
+  @ApiProperty({
+    description: 'The order produced by the log, once processed',
+    example: {
+      success: true,
+      orderId: '3b241101-e2bb-4255-8caf-4136c566a962',
+      message: 'Successfully bought 100 USD worth of LQD (0.9 tokens minted)',
+      assetSymbol: 'LQD',
+      amount: '100.0',
+      tokenMinted: '0.9',
+      newTokenReserve: '120.9',
+    },
+    type: 'object',
+    additionalProperties: true,
+    nullable: true,
+  })
+  result: Record<string, any> | null;
+
+  @ApiProperty({
+    description:
+      'What was done after the log disappeared in a chain reorganization',
+    example: {
+      action: 'burned_minted_tokens',
+      burnTxHash:
+        '0x1d2c3b4a5f6e7d8c9b0a1f2e3d4c5b6a7f8e9d0c1b2a3f4e5d6c7b8a9f0e1d2c',
+      reserveDelta: '-0.9',
+    },
+    type: 'object',
+    additionalProperties: true,
+    nullable: true,
+  })
+  compensation: Record<string, any> | null;
+
+  @ApiProperty({
+    description: 'The error of the last failed attempt',
+    example: null,
+    type: String,
+    required: false,
+    nullable: true,
+  })
+  error: string | null;
+
+  @ApiProperty({
+    description: 'Timestamp when the log was first claimed',
+    example: '2025-06-27T10:30:00.000Z',
+    type: String,
+  })
+  createdAt: string;
+
+  @ApiProperty({
+    description: 'Timestamp of the last status change',
+    example: '2025-06-27T10:30:05.000Z',
+    type: String,
+  })
+  updatedAt: string;
+}
@@ -0,0 +1,31 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { OrderRecordResponse } from './order-record-response.model';
+
+export class QueuedOrdersResponse {
+  @ApiProperty({
+    description: 'Whether the market is open according to the broker clock',
+    example: false,
+    type: Boolean,
+  })
+  marketOpen: boolean;
+
+  @ApiProperty({
+    description: 'Next market open, when queued orders are executed',
+    example: '2025-06-30T09:30:00-04:00',
+    type: String,
+  })
+  nextOpen: string;
+
+  @ApiProperty({
+    description: 'Next market close',
+    example: '2025-06-30T16:00:00-04:00',
+    type: String,
+  })
+  nextClose: string;
+
+  @ApiProperty({
+    description: 'Orders waiting for the market to open, oldest first',
+    type: [OrderRecordResponse],
+  })
+  orders: OrderRecordResponse[];
+}
@@ -0,0 +1,15 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { IsOptional, IsString, MaxLength } from 'class-validator';
+
+export class RejectOrderDto {
+  @ApiProperty({
+    description: 'Why the held order is rejected, kept on the order',
+    example: 'Price far above the market',
+    type: String,
+    required: false,
+  })
+  @IsOptional()
+  @IsString()
+  @MaxLength(500)
+  reason?: string;
+}
@@ -0,0 +1,17 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { Type } from 'class-transformer';
+import { IsInt, IsOptional } from 'class-validator';
+
+export class ReserveQueryDto {
+  @ApiProperty({
+    description:
+      'Chain id of the deployment. Defaults to the first configured deployment for a single asset, and to every chain for the total',
+    example: 11155111,
+    type: Number,
+    required: false,
+  })
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  chainId?: number;
+}
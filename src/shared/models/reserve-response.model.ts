@@ -1,6 +1,13 @@
 import { ApiProperty } from '@nestjs/swagger';
 
 export class AssetReserveResponse {
+  @ApiProperty({
+    description: 'The chain id the asset token is deployed on',
+    example: 11155111,
+    type: Number
+  })
+  chainId: number;
+
   @ApiProperty({
     description: 'The symbol of the asset',
     example: 'ETH',
@@ -9,11 +16,11 @@ export class AssetReserveResponse {
   assetSymbol: string;
 
   @ApiProperty({
-    description: 'The current reserve amount for the asset',
-    example: 100.5,
-    type: Number
+    description: 'The current reserve amount for the asset, as a decimal string',
+    example: '100.5',
+    type: String
   })
-  reserveAmount: number;
+  reserveAmount: string;
 
   @ApiProperty({
     description: 'Timestamp when the reserve was last updated',
@@ -25,11 +32,11 @@ export class AssetReserveResponse {
 
 export class TotalReservesResponse {
   @ApiProperty({
-    description: 'The total value of all reserves combined',
-    example: 1250.75,
-    type: Number
+    description: 'The total value of all reserves combined, as a decimal string',
+    example: '1250.75',
+    type: String
   })
-  totalReserveValue: number;
+  totalReserveValue: string;
 
   @ApiProperty({
     description: 'The number of assets with reserves',
@@ -0,0 +1,61 @@
+import { ApiProperty } from '@nestjs/swagger';
+
+export class KillSwitchResponse {
+  @ApiProperty({
+    description:
+      'Whether the kill switch is engaged; while it is, every order is held before anything is hedged or minted',
+    example: false,
+    type: Boolean,
+  })
+  engaged: boolean;
+
+  @ApiProperty({
+    description:
+      'Whether RISK_KILL_SWITCH engages the switch, which only a restart releases',
+    example: false,
+    type: Boolean,
+  })
+  forcedByConfig: boolean;
+
+  @ApiProperty({
+    description: 'Why the switch was last engaged or released',
+    example: null,
+    type: String,
+    nullable: true,
+  })
+  reason: string | null;
+
+  @ApiProperty({
+    description: 'When the switch was last engaged or released',
+    example: '2025-06-27T10:30:00.000Z',
+    type: String,
+    nullable: true,
+  })
+  updatedAt: string | null;
+}
+
+export class RiskStatusResponse {
+  @ApiProperty({
+    description: 'State of the global kill switch',
+    type: KillSwitchResponse,
+  })
+  killSwitch: KillSwitchResponse;
+
+  @ApiProperty({
+    description:
+      'Largest USDC amount of a single order, as a decimal string; null when unlimited',
+    example: '50000',
+    type: String,
+    nullable: true,
+  })
+  maxOrderNotional: string | null;
+
+  @ApiProperty({
+    description:
+      'Largest USDC amount a user may order per UTC day over all chains, as a decimal string; null when unlimited',
+    example: '100000',
+    type: String,
+    nullable: true,
+  })
+  userDailyNotional: string | null;
+}
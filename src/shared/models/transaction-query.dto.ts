@@ -0,0 +1,114 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { Type } from 'class-transformer';
+import {
+  IsEthereumAddress,
+  IsIn,
+  IsInt,
+  IsISO8601,
+  IsOptional,
+  IsUUID,
+  Max,
+  Min,
+} from 'class-validator';
+import {
+  TRANSACTION_PURPOSES,
+  TRANSACTION_STATUSES,
+  TransactionPurpose,
+  TransactionStatus,
+} from '../../transactions/transaction-queue.service';
+
+export class TransactionQueryDto {
+  @ApiProperty({
+    description: 'Only return transactions sent on this chain',
+    example: 11155111,
+    type: Number,
+    required: false,
+  })
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  chainId?: number;
+
+  @ApiProperty({
+    description: 'Only return transactions sent for this purpose',
+    enum: TRANSACTION_PURPOSES,
+    required: false,
+  })
+  @IsOptional()
+  @IsIn(TRANSACTION_PURPOSES)
+  purpose?: TransactionPurpose;
+
+  @ApiProperty({
+    description: 'Only return transactions in this status',
+    enum: TRANSACTION_STATUSES,
+    required: false,
+  })
+  @IsOptional()
+  @IsIn(TRANSACTION_STATUSES)
+  status?: TransactionStatus;
+
+  @ApiProperty({
+    description: 'Only return transactions sent for this order',
+    example: '3b241101-e2bb-4255-8caf-4136c566a962',
+    type: String,
+    required: false,
+  })
+  @IsOptional()
+  @IsUUID()
+  orderId?: string;
+
+  @ApiProperty({
+    description: 'Only return transactions sent for this order batch',
+    example: '9d8f7c36-2a1b-4f0e-8c55-0b6a1e2d3f47',
+    type: String,
+    required: false,
+  })
+  @IsOptional()
+  @IsUUID()
+  batchId?: string;
+
+  @ApiProperty({
+    description: 'Only return transactions sent by this signer',
+    example: '0x1234567890abcdef1234567890abcdef12345678',
+    type: String,
+    required: false,
+  })
+  @IsOptional()
+  @IsEthereumAddress()
+  signer?: string;
+
+  @ApiProperty({
+    description: 'Only return transactions sent at or after this time',
+    example: '2025-06-01T00:00:00.000Z',
+    type: String,
+    required: false,
+  })
+  @IsOptional()
+  @IsISO8601()
+  from?: string;
+
+  @ApiProperty({
+    description: 'Only return transactions sent at or before this time',
+    example: '2025-06-30T23:59:59.999Z',
+    type: String,
+    required: false,
+  })
+  @IsOptional()
+  @IsISO8601()
+  to?: string;
+
+  @ApiProperty({
+    description: 'Maximum number of entries to return',
+    example: 100,
+    type: Number,
+    required: false,
+    minimum: 1,
+    maximum: 1000,
+  })
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  @Min(1)
+  @Max(1000)
+  limit?: number;
+}
@@ -0,0 +1,225 @@
+import { ApiProperty } from '@nestjs/swagger';
+import {
+  TRANSACTION_PURPOSES,
+  TRANSACTION_STATUSES,
+  TransactionPurpose,
+  TransactionStatus,
+} from '../../transactions/transaction-queue.service';
+
+export class GasDecisionResponse {
+  @ApiProperty({
+    description: 'When the gas policy took the decision',
+    example: '2025-06-27T10:30:05.000Z',
+    type: String,
+  })
+  at: string;
+
+  @ApiProperty({
+    description:
+      'What it decided: an estimate, a cap, a refusal or a replacement',
+    example: 'Max fee 60.0 gwei capped at 50.0 gwei',
+    type: String,
+  })
+  decision: string;
+}
+
+export class TransactionResponse {
+  @ApiProperty({
+    description: 'Unique id of the transaction record',
+    example: '3b241101-e2bb-4255-8caf-4136c566a962',
+    type: String,
+  })
+  id: string;
+
+  @ApiProperty({
+    description: 'The chain id the transaction was sent on',
+    example: 11155111,
+    type: Number,
+  })
+  chainId: number;
+
+  @ApiProperty({
+    description: 'What the transaction was sent for',
+    enum: TRANSACTION_PURPOSES,
+    example: 'mint',
+  })
+  purpose: TransactionPurpose;
+
+  @ApiProperty({
+    description: 'The order it was sent for',
+    example: '3b241101-e2bb-4255-8caf-4136c566a962',
+    type: String,
+    nullable: true,
+  })
+  orderId: string | null;
+
+  @ApiProperty({
+    description: 'The order batch it was sent for, for batch mints and burns',
+    example: '9d8f7c36-2a1b-4f0e-8c55-0b6a1e2d3f47',
+    type: String,
+    nullable: true,
+  })
+  batchId: string | null;
+
+  @ApiProperty({
+    description: 'Address of the signer that sent it',
+    example: '0x1234567890abcdef1234567890abcdef12345678',
+    type: String,
+  })
+  signerAddress: string;
+
+  @ApiProperty({
+    description:
+      'Nonce of the signer; null when it was refused before one was assigned',
+    example: 42,
+    type: Number,
+    nullable: true,
+  })
+  nonce: number | null;
+
+  @ApiProperty({
+    description: 'The contract called',
+    example: '0xabcdefabcdefabcdefabcdefabcdefabcdefabcd',
+    type: String,
+    nullable: true,
+  })
+  toAddress: string | null;
+
+  @ApiProperty({
+    description: 'Wei sent with the call',
+    example: '0',
+    type: String,
+  })
+  value: string;
+
+  @ApiProperty({
+    description: 'Hash of the latest broadcast, or of the one mined',
+    example:
+      '0x4e3a3754410177e6937ef1f84bba68ea139e8d1a2258c5f85db9f1cd715a1bdd',
+    type: String,
+    nullable: true,
+  })
+  txHash: string | null;
+
+  @ApiProperty({
+    description: 'Hashes of the broadcasts it replaced with higher fees',
+    type: [String],
+  })
+  replacedHashes: string[];
+
+  @ApiProperty({
+    description: 'Where the transaction stands',
+    enum: TRANSACTION_STATUSES,
+    example: 'confirmed',
+  })
+  status: TransactionStatus;
+
+  @ApiProperty({
+    description: 'Gas limit it was sent with',
+    example: '120000',
+    type: String,
+    nullable: true,
+  })
+  gasLimit: string | null;
+
+  @ApiProperty({
+    description: 'Max fee per gas offered, in wei, on EIP-1559 chains',
+    example: '30000000000',
+    type: String,
+    nullable: true,
+  })
+  maxFeePerGas: string | null;
+
+  @ApiProperty({
+    description: 'Priority fee per gas offered, in wei, on EIP-1559 chains',
+    example: '1500000000',
+    type: String,
+    nullable: true,
+  })
+  maxPriorityFeePerGas: string | null;
+
+  @ApiProperty({
+    description: 'Gas price offered, in wei, on legacy chains',
+    example: null,
+    type: String,
+    nullable: true,
+  })
+  gasPrice: string | null;
+
+  @ApiProperty({
+    description: 'Block it was mined in',
+    example: 6123460,
+    type: Number,
+    nullable: true,
+  })
+  blockNumber: number | null;
+
+  @ApiProperty({
+    description: 'Hash of the block it was mined in',
+    example:
+      '0x9b1e4e6b1f0c2d3a4b5c6d7e8f90a1b2c3d4e5f60718293a4b5c6d7e8f901a2b',
+    type: String,
+    nullable: true,
+  })
+  blockHash: string | null;
+
+  @ApiProperty({
+    description: 'Gas it used',
+    example: '84211',
+    type: String,
+    nullable: true,
+  })
+  gasUsed: string | null;
+
+  @ApiProperty({
+    description: 'Price paid per gas, in wei',
+    example: '12000000000',
+    type: String,
+    nullable: true,
+  })
+  effectiveGasPrice: string | null;
+
+  @ApiProperty({
+    description: 'Fee paid, in wei: the gas used times the price paid per gas',
+    example: '1010532000000000',
+    type: String,
+    nullable: true,
+  })
+  fee: string | null;
+
+  @ApiProperty({
+    description: 'Reason it reverted with, when the contract gave one',
+    example: 'Identity is not verified.',
+    type: String,
+    nullable: true,
+  })
+  revertReason: string | null;
+
+  @ApiProperty({
+    description: 'Why it failed, was refused, dropped or reverted',
+    example: null,
+    type: String,
+    nullable: true,
+  })
+  error: string | null;
+
+  @ApiProperty({
+    description: 'What the gas policy decided for it',
+    type: [GasDecisionResponse],
+  })
+  gasDecisions: GasDecisionResponse[];
+
+  @ApiProperty({
+    description: 'When it was signed',
+    example: '2025-06-27T10:30:05.000Z',
+    type: String,
+  })
+  createdAt: string;
+
+  @ApiProperty({
+    description: 'When its record last changed',
+    example: '2025-06-27T10:31:02.000Z',
+    type: String,
+  })
+  updatedAt: string;
+}
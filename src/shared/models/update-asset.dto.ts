@@ -0,0 +1,7 @@
+import { OmitType, PartialType } from '@nestjs/swagger';
+import { CreateAssetDto } from './create-asset.dto';
+
+// The chain of an asset is fixed; register the asset again to move it to another chain
+export class UpdateAssetDto extends PartialType(
+  OmitType(CreateAssetDto, ['chainId'] as const),
+) {}
@@ -0,0 +1,102 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { Type } from 'class-transformer';
+import {
+  IsEthereumAddress,
+  IsIn,
+  IsInt,
+  IsISO8601,
+  IsOptional,
+  Matches,
+  Max,
+  Min,
+} from 'class-validator';
+import { WithdrawalStatus } from '../../withdrawals/withdrawals.service';
+import { DECIMAL_AMOUNT_PATTERN } from '../utils/amounts';
+
+export class WithdrawalQueryDto {
+  @ApiProperty({
+    description: 'Only return withdrawals sent on this chain',
+    example: 11155111,
+    type: Number,
+    required: false,
+  })
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  chainId?: number;
+
+  @ApiProperty({
+    description:
+      'Only return withdrawals paid, or meant to be paid, to this user',
+    example: '0x1234567890abcdef1234567890abcdef12345678',
+    type: String,
+    required: false,
+  })
+  @IsOptional()
+  @IsEthereumAddress()
+  user?: string;
+
+  @ApiProperty({
+    description: 'Only return withdrawals in this status',
+    enum: ['pending', 'confirmed', 'mismatch', 'unexpected'],
+    required: false,
+  })
+  @IsOptional()
+  @IsIn(['pending', 'confirmed', 'mismatch', 'unexpected'])
+  status?: WithdrawalStatus;
+
+  @ApiProperty({
+    description: 'Only return withdrawals mined at or after this time',
+    example: '2025-06-01T00:00:00.000Z',
+    type: String,
+    required: false,
+  })
+  @IsOptional()
+  @IsISO8601()
+  from?: string;
+
+  @ApiProperty({
+    description: 'Only return withdrawals mined at or before this time',
+    example: '2025-06-30T23:59:59.999Z',
+    type: String,
+    required: false,
+  })
+  @IsOptional()
+  @IsISO8601()
+  to?: string;
+
+  @ApiProperty({
+    description: 'Only return withdrawals of at least this many USDC',
+    example: '100',
+    type: String,
+    required: false,
+  })
+  @IsOptional()
+  @Matches(DECIMAL_AMOUNT_PATTERN)
+  minAmount?: string;
+
+  @ApiProperty({
+    description: 'Only return withdrawals of at most this many USDC',
+    example: '10000',
+    type: String,
+    required: false,
+  })
+  @IsOptional()
+  @Matches(DECIMAL_AMOUNT_PATTERN)
+  maxAmount?: string;
+
+  @ApiProperty({
+    description: 'Maximum number of entries to return',
+    example: 100,
+    type: Number,
+    required: false,
+    minimum: 1,
+    maximum: 1000,
+  })
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  @Min(1)
+  @Max(1000)
+  limit?: number;
+}
@@ -0,0 +1,128 @@
+import { ApiProperty } from '@nestjs/swagger';
+
+export class WithdrawalResponse {
+  @ApiProperty({
+    description: 'Unique id of the withdrawal',
+    example: '3b241101-e2bb-4255-8caf-4136c566a962',
+    type: String,
+  })
+  id: string;
+
+  @ApiProperty({
+    description: 'The chain id the withdrawal was sent on',
+    example: 11155111,
+    type: Number,
+  })
+  chainId: number;
+
+  @ApiProperty({
+    description: 'Hash of the withdrawal transaction',
+    example:
+      '0x4e3a3754410177e6937ef1f84bba68ea139e8d1a2258c5f85db9f1cd715a1bdd',
+    type: String,
+  })
+  txHash: string;
+
+  @ApiProperty({
+    description: 'Index of the AgentUSDCWithdraw log, once indexed',
+    example: 7,
+    type: Number,
+    nullable: true,
+  })
+  logIndex: number | null;
+
+  @ApiProperty({
+    description: 'Block the withdrawal was mined in, once indexed',
+    example: 6123460,
+    type: Number,
+    nullable: true,
+  })
+  blockNumber: number | null;
+
+  @ApiProperty({
+    description:
+      'The user USDC was paid to, or was meant to be paid to while pending',
+    example: '0x1234567890abcdef1234567890abcdef12345678',
+    type: String,
+    nullable: true,
+  })
+  userAddress: string | null;
+
+  @ApiProperty({
+    description: 'The USDC amount paid out on-chain, as a decimal string',
+    example: '100.0',
+    type: String,
+    nullable: true,
+  })
+  amount: string | null;
+
+  @ApiProperty({
+    description: 'Whether the backend sent this withdrawal',
+    example: true,
+    type: Boolean,
+  })
+  initiatedByBackend: boolean;
+
+  @ApiProperty({
+    description: 'The USDC amount the backend sent, as a decimal string',
+    example: '100.0',
+    type: String,
+    nullable: true,
+  })
+  expectedAmount: string | null;
+
+  @ApiProperty({
+    description: 'Transaction hash of the sell order log that triggered it',
+    example:
+      '0x9f2c1d6a3b4e5f60718293a4b5c6d7e8f9012345678901234567890abcdef1234',
+    type: String,
+    nullable: true,
+  })
+  orderTxHash: string | null;
+
+  @ApiProperty({
+    description: 'Index of the sell order log that triggered it',
+    example: 3,
+    type: Number,
+    nullable: true,
+  })
+  orderLogIndex: number | null;
+
+  @ApiProperty({
+    description:
+      'pending: sent, not indexed yet; confirmed: indexed and matching; mismatch: indexed with another user or amount; unexpected: not initiated by the backend',
+    enum: ['pending', 'confirmed', 'mismatch', 'unexpected'],
+    example: 'confirmed',
+  })
+  status: string;
+
+  @ApiProperty({
+    description: 'When the backend sent the withdrawal',
+    example: '2025-06-27T10:30:00.000Z',
+    type: String,
+    nullable: true,
+  })
+  sentAt: string | null;
+
+  @ApiProperty({
+    description: 'Timestamp of the block the withdrawal was mined in',
+    example: '2025-06-27T10:30:12.000Z',
+    type: String,
+    nullable: true,
+  })
+  executedAt: string | null;
+
+  @ApiProperty({
+    description: 'Timestamp when the withdrawal was first recorded',
+    example: '2025-06-27T10:30:00.000Z',
+    type: String,
+  })
+  createdAt: string;
+
+  @ApiProperty({
+    description: 'Timestamp of the last change',
+    example: '2025-06-27T10:31:00.000Z',
+    type: String,
+  })
+  updatedAt: string;
+}
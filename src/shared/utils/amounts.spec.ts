@@ -0,0 +1,92 @@
+import {
+  ALPACA_QTY_DECIMALS,
+  ASSET_DECIMALS,
+  USDC_DECIMALS,
+  formatAmount,
+  isPositiveAmount,
+  parseAmount,
+  roundDown,
+} from './amounts';
+
+describe('amounts', () => {
+  describe('parseAmount', () => {
+    it('converts a decimal amount to base units exactly', () => {
+      expect(parseAmount('10.5', USDC_DECIMALS)).toBe(10500000n);
+      expect(parseAmount('0.000000000000000001', ASSET_DECIMALS)).toBe(1n);
+      expect(parseAmount('7', 0)).toBe(7n);
+    });
+
+    it.each(['1.0000001', 'abc', '', '1e6'])(
+      'rejects %p at 6 decimals',
+      (amount) => {
+        expect(() => parseAmount(amount, USDC_DECIMALS)).toThrow(
+          `Invalid amount ${amount}`,
+        );
+      },
+    );
+  });
+
+  describe('formatAmount', () => {
+    it('formats base units as a decimal amount', () => {
+      expect(formatAmount(10500000n, USDC_DECIMALS)).toBe('10.5');
+      expect(formatAmount(1n, ASSET_DECIMALS)).toBe('0.000000000000000001');
+    });
+
+    it('round-trips with parseAmount', () => {
+      const amount = '123.456789012345678901';
+      expect(formatAmount(parseAmount(amount, 21), 21)).toBe(amount);
+    });
+  });
+
+  describe('roundDown', () => {
+    it('keeps an amount that already fits the precision', () => {
+      expect(roundDown('1.5', ALPACA_QTY_DECIMALS)).toEqual({
+        amount: '1.5',
+        units: 1500000000n,
+        dust: null,
+      });
+    });
+
+    it('rounds towards zero and keeps the dropped remainder as dust', () => {
+      expect(roundDown('1.1234567899', ALPACA_QTY_DECIMALS)).toEqual({
+        amount: '1.123456789',
+        units: 1123456789n,
+        dust: '0.0000000009',
+      });
+      expect(roundDown('0.0000009', USDC_DECIMALS)).toEqual({
+        amount: '0.0',
+        units: 0n,
+        dust: '0.0000009',
+      });
+    });
+
+    it('never returns more than the amount it was given', () => {
+      const rounded = roundDown('2.999999999999999999', USDC_DECIMALS);
+      expect(rounded.amount).toBe('2.999999');
+      expect(
+        parseAmount(rounded.amount, ASSET_DECIMALS) +
+          parseAmount(rounded.dust as string, ASSET_DECIMALS),
+      ).toBe(parseAmount('2.999999999999999999', ASSET_DECIMALS));
+    });
+
+    it.each(['-1', '1.', '.5', '1,5', 'NaN'])('rejects %p', (amount) => {
+      expect(() => roundDown(amount, USDC_DECIMALS)).toThrow(
+        'expected an unsigned decimal',
+      );
+    });
+  });
+
+  describe('isPositiveAmount', () => {
+    it.each(['1', '0.000000000000000001', '10.50'])('accepts %p', (amount) => {
+      expect(isPositiveAmount(amount)).toBe(true);
+    });
+
+    it.each(['0', '0.000', '-1', '1e3', ''])('rejects %p', (amount) => {
+      expect(isPositiveAmount(amount)).toBe(false);
+    });
+
+    it('rejects values that are not strings', () => {
+      expect(isPositiveAmount(1 as unknown as string)).toBe(false);
+    });
+  });
+});
@@ -0,0 +1,110 @@
+import { ethers } from 'ethers';
+
+/**
+ * Fixed-point amount handling.
+ *
+ * Amounts travel through the system as decimal strings in human units (e.g. "10.5") and are
+ * only converted to bigint base units right before they are compared, summed or sent on-chain.
+ * JS numbers are never used for amounts.
+ *
+ * Rounding rules:
+ * - Event amounts are converted exactly (USDC at 6, assets at 18 and prices at 8 decimals).
+ * - Asset amounts are rounded down to the token's decimals before minting or burning.
+ * - Hedge quantities are rounded down to the 9 decimals Alpaca accepts.
+ * - USDC payouts are rounded down to 6 decimals.
+ * - Reserves are tracked exactly at 18 decimals.
+ *
+ * Rounding is always towards zero, so nothing is ever minted, burned, hedged or paid out beyond
+ * what was ordered; the dropped remainder is booked in the dust ledger.
+ */
+
+/** Decimals of USDC amounts, both in order events and on withdrawal */
+export const USDC_DECIMALS = 6;
+
+/** Decimals of asset amounts in order events; reserves are tracked at this precision */
+export const ASSET_DECIMALS = 18;
+
+/** Decimals of prices in order events */
+export const PRICE_DECIMALS = 8;
+
+/** Most decimals Alpaca accepts on a fractional order quantity */
+export const ALPACA_QTY_DECIMALS = 9;
+
+/** Most decimals Alpaca accepts on the limit price of an order */
+export const ALPACA_PRICE_DECIMALS = 2;
+
+/** An unsigned decimal amount, e.g. "10", "10.5" or "0.000000000000000001" */
+export const DECIMAL_AMOUNT_PATTERN = /^\d+(\.\d+)?$/;
+
+export interface RoundedAmount {
+  /** The amount rounded down to the target precision, as a decimal string */
+  amount: string;
+  /** The rounded amount in base units of the target precision */
+  units: bigint;
+  /** The remainder dropped by rounding, as a decimal string, or null if nothing was dropped */
+  dust: string | null;
+}
+
+/**
+ * Parse a decimal amount into base units
+ * @param amount - The decimal amount, e.g. "10.5"
+ * @param decimals - The number of decimals of the base unit
+ * @returns The amount in base units
+ * @throws Error if the amount is malformed or has more decimals than the base unit
+ */
+export function parseAmount(amount: string, decimals: number): bigint {
+  try {
+    return ethers.parseUnits(amount, decimals);
+  } catch {
+    throw new Error(
+      `Invalid amount ${amount}: expected a decimal with at most ${decimals} decimals`,
+    );
+  }
+}
+
+/**
+ * Format base units as a decimal amount
+ * @param units - The amount in base units
+ * @param decimals - The number of decimals of the base unit
+ * @returns The decimal amount, e.g. "10.5"
+ */
+export function formatAmount(units: bigint, decimals: number): string {
+  return ethers.formatUnits(units, decimals);
+}
+
+/**
+ * Round a decimal amount down to a precision, keeping what was dropped
+ * @param amount - The unsigned decimal amount
+ * @param decimals - The precision to round to
+ * @returns The rounded amount and the dropped remainder
+ */
+export function roundDown(amount: string, decimals: number): RoundedAmount {
+  if (!DECIMAL_AMOUNT_PATTERN.test(amount)) {
+    throw new Error(`Invalid amount ${amount}: expected an unsigned decimal`);
+  }
+
+  const fractionDigits = amount.split('.')[1]?.length ?? 0;
+  const precision = Math.max(fractionDigits, decimals);
+  const exact = parseAmount(amount, precision);
+  const scale = 10n ** BigInt(precision - decimals);
+  const units = exact / scale;
+  const remainder = exact - units * scale;
+
+  return {
+    amount: formatAmount(units, decimals),
+    units,
+    dust: remainder > 0n ? formatAmount(remainder, precision) : null,
+  };
+}
+
+/**
+ * Check that a value is an unsigned decimal amount greater than zero
+ * @param amount - The value to check
+ */
+export function isPositiveAmount(amount: string): boolean {
+  return (
+    typeof amount === 'string' &&
+    DECIMAL_AMOUNT_PATTERN.test(amount) &&
+    /[1-9]/.test(amount)
+  );
+}
@@ -0,0 +1,49 @@
+import { readFile } from 'fs/promises';
+import { ethers } from 'ethers';
+import { SignerProvider, SignerType } from './signer.provider';
+
+/**
+ * Signs in process with a key held in memory: decrypted from a keystore at boot, or a raw private key
+ */
+export class LocalSignerProvider extends SignerProvider {
+  private constructor(
+    readonly type: SignerType,
+    private readonly wallet: ethers.Wallet | ethers.HDNodeWallet,
+  ) {
+    super();
+  }
+
+  /**
+   * Decrypt an encrypted JSON keystore
+   * @param path - Path of the keystore file
+   * @param password - Its password
+   * @throws Error if the file cannot be read or the password is wrong
+   */
+  static async fromKeystore(
+    path: string,
+    password: string,
+  ): Promise<LocalSignerProvider> {
+    const json = await readFile(path, 'utf8');
+    const wallet = await ethers.Wallet.fromEncryptedJson(json, password);
+    return new LocalSignerProvider('keystore', wallet);
+  }
+
+  /**
+   * Use a raw hex private key
+   * @throws Error if the key is invalid
+   */
+  static fromPrivateKey(privateKey: string): LocalSignerProvider {
+    return new LocalSignerProvider(
+      'private-key',
+      new ethers.Wallet(privateKey),
+    );
+  }
+
+  getAddress(): string {
+    return this.wallet.address;
+  }
+
+  connect(provider: ethers.Provider): ethers.Signer {
+    return this.wallet.connect(provider);
+  }
+}
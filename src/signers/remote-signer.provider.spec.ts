@@ -0,0 +1,169 @@
+import { ethers } from 'ethers';
+import { LocalSigningService } from '../../test/local-signing-service';
+import { RemoteSignerProvider } from './remote-signer.provider';
+
+const TO = '0x00000000000000000000000000000000000000aa';
+
+function request(
+  overrides: ethers.TransactionRequest = {},
+): ethers.TransactionRequest {
+  return {
+    to: TO,
+    data: '0x1234',
+    value: 0n,
+    nonce: 7,
+    chainId: 11155111n,
+    type: 2,
+    gasLimit: 100000n,
+    maxFeePerGas: 30000000000n,
+    maxPriorityFeePerGas: 1500000000n,
+    ...overrides,
+  };
+}
+
+describe('RemoteSignerProvider', () => {
+  // Never queried: the tests only sign transactions to plain addresses
+  const provider = new ethers.JsonRpcProvider('http://127.0.0.1:1', 11155111, {
+    staticNetwork: true,
+  });
+  const services: LocalSigningService[] = [];
+
+  async function connect(service: LocalSigningService): Promise<ethers.Signer> {
+    services.push(service);
+    const url = await service.start();
+    const signerProvider = await RemoteSignerProvider.connectTo({
+      url,
+      timeoutMs: 5000,
+    });
+    return signerProvider.connect(provider);
+  }
+
+  afterEach(async () => {
+    await Promise.all(services.splice(0).map((service) => service.stop()));
+  });
+
+  afterAll(() => provider.destroy());
+
+  it('signs a transaction exactly as requested', async () => {
+    const service = new LocalSigningService();
+    const signer = await connect(service);
+
+    const signed = ethers.Transaction.from(
+      await signer.signTransaction(request()),
+    );
+
+    expect(signed.from).toBe(service.address);
+    expect(signed.to).toBe(ethers.getAddress(TO));
+    expect(signed.nonce).toBe(7);
+    expect(signed.gasLimit).toBe(100000n);
+    expect(signed.maxFeePerGas).toBe(30000000000n);
+    expect(signed.maxPriorityFeePerGas).toBe(1500000000n);
+  });
+
+  it('signs a legacy transaction with its gas price', async () => {
+    const signer = await connect(new LocalSigningService());
+
+    const signed = ethers.Transaction.from(
+      await signer.signTransaction(
+        request({
+          type: 0,
+          gasPrice: 20000000000n,
+          maxFeePerGas: undefined,
+          maxPriorityFeePerGas: undefined,
+        }),
+      ),
+    );
+
+    expect(signed.gasPrice).toBe(20000000000n);
+  });
+
+  it('refuses to connect when the service does not hold the account', async () => {
+    const service = new LocalSigningService();
+    services.push(service);
+    const url = await service.start();
+
+    await expect(
+      RemoteSignerProvider.connectTo({
+        url,
+        address: ethers.Wallet.createRandom().address,
+        timeoutMs: 5000,
+      }),
+    ).rejects.toThrow('does not hold');
+  });
+
+  it('refuses transactions without a gas limit or fees', async () => {
+    const signer = await connect(new LocalSigningService());
+
+    await expect(
+      signer.signTransaction(request({ gasLimit: undefined })),
+    ).rejects.toThrow('gas limit and fees are set');
+    await expect(
+      signer.signTransaction(
+        request({ maxFeePerGas: undefined, maxPriorityFeePerGas: undefined }),
+      ),
+    ).rejects.toThrow('gas limit and fees are set');
+  });
+
+  it.each([
+    ['max fee', { maxFeePerGas: 300000000000n }],
+    ['priority fee', { maxPriorityFeePerGas: 30000000000n }],
+    ['gas limit', { gasLimit: 1000000n }],
+    ['recipient', { to: '0x00000000000000000000000000000000000000bb' }],
+    ['nonce', { nonce: 8 }],
+    ['value', { value: 1n }],
+  ])(
+    'rejects a transaction whose %s the service changed',
+    async (_, change: ethers.TransactionRequest) => {
+      const signer = await connect(
+        new LocalSigningService({
+          tamper: (transaction) => ({ ...transaction, ...change }),
+        }),
+      );
+
+      await expect(signer.signTransaction(request())).rejects.toThrow(
+        'does not match the request',
+      );
+    },
+  );
+
+  it('rejects a transaction signed with another key', async () => {
+    const signer = await connect(
+      new LocalSigningService({ impersonate: true }),
+    );
+
+    await expect(signer.signTransaction(request())).rejects.toThrow(
+      'does not match the request',
+    );
+  });
+
+  it('checks who signed messages and typed data', async () => {
+    const service = new LocalSigningService();
+    const signer = await connect(service);
+
+    const signature = await signer.signMessage('hello');
+    expect(ethers.verifyMessage('hello', signature)).toBe(service.address);
+
+    const domain = { name: 'Test', version: '1', chainId: 11155111 };
+    const types = { Claim: [{ name: 'topic', type: 'uint256' }] };
+    const typed = await signer.signTypedData(domain, types, { topic: 1 });
+    expect(ethers.verifyTypedData(domain, types, { topic: 1 }, typed)).toBe(
+      service.address,
+    );
+  });
+
+  it('rejects messages and typed data signed with another key', async () => {
+    const service = new LocalSigningService({ impersonate: true });
+    const signer = await connect(service);
+
+    await expect(signer.signMessage('hello')).rejects.toThrow(
+      `not ${service.address}`,
+    );
+    await expect(
+      signer.signTypedData(
+        { name: 'Test', version: '1', chainId: 11155111 },
+        { Claim: [{ name: 'topic', type: 'uint256' }] },
+        { topic: 1 },
+      ),
+    ).rejects.toThrow(`not ${service.address}`);
+  });
+});
@@ -0,0 +1,243 @@
+import axios from 'axios';
+import { ethers } from 'ethers';
+import { SignerProvider, SignerType } from './signer.provider';
+
+export interface RemoteSignerOptions {
+  // JSON-RPC endpoint of the signing service
+  url: string;
+  // Sent as a bearer token when set
+  authToken?: string;
+  // The account to sign with; the service's first account when unset
+  address?: string;
+  timeoutMs: number;
+}
+
+interface JsonRpcResponse<T> {
+  result?: T;
+  error?: { code: number; message: string };
+}
+
+// Transaction fields sent as JSON-RPC quantities, by their name in ethers and in the request
+const QUANTITY_FIELDS = [
+  ['nonce', 'nonce'],
+  ['gasLimit', 'gas'],
+  ['gasPrice', 'gasPrice'],
+  ['maxFeePerGas', 'maxFeePerGas'],
+  ['maxPriorityFeePerGas', 'maxPriorityFeePerGas'],
+  ['value', 'value'],
+  ['chainId', 'chainId'],
+  ['type', 'type'],
+] as const;
+
+// Gas fields the signed transaction must carry exactly as requested, so the service cannot raise the fees past the
+// caps of the gas policy
+const GAS_FIELDS = [
+  'gasLimit',
+  'gasPrice',
+  'maxFeePerGas',
+  'maxPriorityFeePerGas',
+] as const;
+
+/**
+ * Client of a signing service speaking the Ethereum JSON-RPC signing methods
+ * (eth_accounts, eth_signTransaction, eth_sign, eth_signTypedData_v4), such as web3signer or Clef
+ */
+class RemoteSignerClient {
+  private nextId = 1;
+
+  constructor(private readonly options: RemoteSignerOptions) {}
+
+  /**
+   * Call a method of the signing service
+   * @throws Error if the service is unreachable or answers with an error
+   */
+  async call<T>(method: string, params: unknown[]): Promise<T> {
+    const { data } = await axios.post<JsonRpcResponse<T>>(
+      this.options.url,
+      { jsonrpc: '2.0', id: this.nextId++, method, params },
+      {
+        timeout: this.options.timeoutMs,
+        headers: this.options.authToken
+          ? { Authorization: `Bearer ${this.options.authToken}` }
+          : undefined,
+      },
+    );
+    if (data.error) {
+      throw new Error(
+        `Remote signer ${method} failed: ${data.error.message} (${data.error.code})`,
+      );
+    }
+    if (data.result === undefined) {
+      throw new Error(`Remote signer ${method} returned no result`);
+    }
+    return data.result;
+  }
+}
+
+/**
+ * A signer whose key stays in the signing service. Everything it returns is checked against the request,
+ * so a misbehaving service cannot substitute another signature, recipient, payload or fee.
+ */
+class RemoteSigner extends ethers.AbstractSigner {
+  constructor(
+    private readonly client: RemoteSignerClient,
+    private readonly address: string,
+    provider: ethers.Provider | null,
+  ) {
+    super(provider);
+  }
+
+  getAddress(): Promise<string> {
+    return Promise.resolve(this.address);
+  }
+
+  connect(provider: ethers.Provider | null): RemoteSigner {
+    return new RemoteSigner(this.client, this.address, provider);
+  }
+
+  async signTransaction(request: ethers.TransactionRequest): Promise<string> {
+    if (
+      request.from != null &&
+      (
+        await ethers.resolveAddress(request.from, this.provider)
+      ).toLowerCase() !== this.address.toLowerCase()
+    ) {
+      throw new Error(
+        `Remote signer ${this.address} cannot sign for another sender`,
+      );
+    }
+    if (
+      request.gasLimit == null ||
+      (request.gasPrice == null && request.maxFeePerGas == null)
+    ) {
+      throw new Error(
+        `Remote signer ${this.address} only signs transactions whose gas limit and fees are set`,
+      );
+    }
+    const to =
+      request.to == null
+        ? null
+        : await ethers.resolveAddress(request.to, this.provider);
+
+    const params: Record<string, string> = { from: this.address };
+    if (to !== null) {
+      params.to = to;
+    }
+    for (const [field, name] of QUANTITY_FIELDS) {
+      const value = request[field];
+      if (value != null) {
+        params[name] = ethers.toQuantity(value);
+      }
+    }
+    const data = ethers.hexlify(request.data ?? '0x');
+    params.data = data;
+
+    const result = await this.client.call<string | { raw: string }>(
+      'eth_signTransaction',
+      [params],
+    );
+    const raw = typeof result === 'string' ? result : result.raw;
+
+    const signed = ethers.Transaction.from(raw);
+    const mismatch =
+      signed.from?.toLowerCase() !== this.address.toLowerCase() ||
+      signed.to?.toLowerCase() !== to?.toLowerCase() ||
+      signed.data !== data ||
+      signed.value !== ethers.toBigInt(request.value ?? 0) ||
+      (request.nonce != null && signed.nonce !== request.nonce) ||
+      (request.chainId != null &&
+        signed.chainId !== ethers.toBigInt(request.chainId)) ||
+      GAS_FIELDS.some((field) => {
+        const requested = request[field];
+        return requested == null
+          ? signed[field] != null
+          : signed[field] !== ethers.toBigInt(requested);
+      });
+    if (mismatch) {
+      throw new Error(
+        `Remote signer returned a transaction that does not match the request`,
+      );
+    }
+    return raw;
+  }
+
+  async signMessage(message: string | Uint8Array): Promise<string> {
+    const bytes =
+      typeof message === 'string' ? ethers.toUtf8Bytes(message) : message;
+    const signature = await this.client.call<string>('eth_sign', [
+      this.address,
+      ethers.hexlify(bytes),
+    ]);
+    this.assertSignedBy(ethers.verifyMessage(bytes, signature), 'eth_sign');
+    return signature;
+  }
+
+  async signTypedData(
+    domain: ethers.TypedDataDomain,
+    types: Record<string, ethers.TypedDataField[]>,
+    value: Record<string, unknown>,
+  ): Promise<string> {
+    const signature = await this.client.call<string>('eth_signTypedData_v4', [
+      this.address,
+      JSON.stringify(ethers.TypedDataEncoder.getPayload(domain, types, value)),
+    ]);
+    this.assertSignedBy(
+      ethers.verifyTypedData(domain, types, value, signature),
+      'eth_signTypedData_v4',
+    );
+    return signature;
+  }
+
+  private assertSignedBy(recovered: string, method: string): void {
+    if (recovered.toLowerCase() !== this.address.toLowerCase()) {
+      throw new Error(
+        `Remote signer ${method} returned a signature of ${recovered}, not ${this.address}`,
+      );
+    }
+  }
+}
+
+/**
+ * Signs through a remote HTTP signing service, so the key never enters this process
+ */
+export class RemoteSignerProvider extends SignerProvider {
+  readonly type: SignerType = 'remote';
+
+  private constructor(
+    private readonly client: RemoteSignerClient,
+    private readonly address: string,
+  ) {
+    super();
+  }
+
+  /**
+   * Connect to a signing service and check that it holds the account to sign with
+   * @throws Error if the service is unreachable, or does not hold the account
+   */
+  static async connectTo(
+    options: RemoteSignerOptions,
+  ): Promise<RemoteSignerProvider> {
+    const client = new RemoteSignerClient(options);
+    const accounts = await client.call<string[]>('eth_accounts', []);
+    const address = options.address ?? accounts[0];
+    if (
+      !address ||
+      !accounts.some(
+        (account) => account.toLowerCase() === address.toLowerCase(),
+      )
+    ) {
+      throw new Error(
+        `Remote signer at ${options.url} does not hold ${address ?? 'any account'}`,
+      );
+    }
+    return new RemoteSignerProvider(client, ethers.getAddress(address));
+  }
+
+  getAddress(): string {
+    return this.address;
+  }
+
+  connect(provider: ethers.Provider): ethers.Signer {
+    return new RemoteSigner(this.client, this.address, provider);
+  }
+}
@@ -0,0 +1,253 @@
+import { Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { ethers } from 'ethers';
+import {
+  Deployment,
+  DeploymentRegistry,
+} from '../web3/providers/deployment.registry';
+import { AssetRegistryService } from '../assets/asset-registry.service';
+import { AlertService } from '../alerts/alert.service';
+import { ERC3643_ABI } from '../shared/abi/ERC3643.abi';
+import { IDENTITY_REGISTRY_CONTRACT } from '../shared/abi/IDENTITY_REGISTRY.abi';
+import { ORDER_CONTRACT_EVENTS_ABI } from '../shared/abi/ORDER_EVENTS.abi';
+import {
+  CLAIM_ISSUER_ABI,
+  TRUSTED_ISSUERS_REGISTRY_ABI,
+} from '../shared/abi/CLAIM_ISSUER.abi';
+import { SignerPermissionsService } from './signer-permissions.service';
+import { SIGNER_ROLES, SignerRegistry, SignerRole } from './signer.registry';
+
+const CHAIN_ID = 11155111;
+const ORDER_CONTRACT = '0x00000000000000000000000000000000000000a1';
+const IDENTITY_REGISTRY = '0x00000000000000000000000000000000000000a2';
+const CLAIM_ISSUER = '0x00000000000000000000000000000000000000a3';
+const TRUSTED_ISSUERS = '0x00000000000000000000000000000000000000a4';
+const TOKEN = '0x00000000000000000000000000000000000000a5';
+
+describe('SignerPermissionsService', () => {
+  // Never queried: the tests answer the contract calls the service makes
+  const provider = new ethers.JsonRpcProvider('http://127.0.0.1:1', CHAIN_ID, {
+    staticNetwork: true,
+  });
+  // Results of contract calls, by target address and function selector
+  let answers: Map<string, string>;
+  let addresses: Record<SignerRole, string>;
+  let raise: jest.Mock;
+  let call: jest.SpyInstance;
+
+  beforeAll(() => {
+    Logger.overrideLogger(false);
+  });
+
+  beforeEach(() => {
+    answers = new Map();
+    addresses = Object.fromEntries(
+      SIGNER_ROLES.map((role) => [role, ethers.Wallet.createRandom().address]),
+    ) as Record<SignerRole, string>;
+    raise = jest.fn().mockResolvedValue(undefined);
+    call = jest
+      .spyOn(provider, 'call')
+      .mockImplementation((request: ethers.TransactionRequest) => {
+        const data = String(request.data);
+        const answer = answers.get(
+          `${(request.to as string).toLowerCase()}:${data.slice(0, 10)}`,
+        );
+        return answer === undefined
+          ? Promise.reject(new Error('execution reverted'))
+          : Promise.resolve(answer);
+      });
+
+    // Every role holds its permission unless a test takes it away
+    answer(CLAIM_ISSUER, CLAIM_ISSUER_ABI, 'keyHasPurpose', true);
+    answer(
+      IDENTITY_REGISTRY,
+      IDENTITY_REGISTRY_CONTRACT,
+      'issuersRegistry',
+      TRUSTED_ISSUERS,
+    );
+    answer(
+      TRUSTED_ISSUERS,
+      TRUSTED_ISSUERS_REGISTRY_ABI,
+      'isTrustedIssuer',
+      true,
+    );
+    answer(IDENTITY_REGISTRY, IDENTITY_REGISTRY_CONTRACT, 'isAgent', true);
+    answer(TOKEN, ERC3643_ABI, 'isAgent', true);
+    answer(
+      ORDER_CONTRACT,
+      ORDER_CONTRACT_EVENTS_ABI,
+      'AGENT',
+      addresses.treasury,
+    );
+  });
+
+  afterEach(() => jest.restoreAllMocks());
+
+  afterAll(() => provider.destroy());
+
+  function answer(
+    address: string,
+    abi: ethers.InterfaceAbi,
+    name: string,
+    value: unknown,
+  ): void {
+    const contract = new ethers.Interface(abi);
+    const fragment = contract.getFunction(name)!;
+    answers.set(
+      `${address}:${fragment.selector}`,
+      contract.encodeFunctionResult(fragment, [value]),
+    );
+  }
+
+  function service(
+    mode?: string,
+    deployment: Partial<Deployment> = {},
+  ): SignerPermissionsService {
+    return new SignerPermissionsService(
+      new ConfigService({ SIGNER_PERMISSION_CHECK: mode }),
+      {
+        get: (role: SignerRole) => ({ getAddress: () => addresses[role] }),
+      } as unknown as SignerRegistry,
+      {
+        getDeployments: () => [
+          {
+            chainId: CHAIN_ID,
+            orderContractAddress: ORDER_CONTRACT,
+            identityRegistryAddress: IDENTITY_REGISTRY,
+            claimIssuerAddress: CLAIM_ISSUER,
+            httpProvider: provider,
+            ...deployment,
+          },
+        ],
+      } as unknown as DeploymentRegistry,
+      {
+        findAssets: () =>
+          Promise.resolve([{ ticker: 'AAPL', token_address: TOKEN }]),
+      } as unknown as AssetRegistryService,
+      { raise } as unknown as AlertService,
+    );
+  }
+
+  describe('check', () => {
+    it('finds nothing missing when every role holds its permission', async () => {
+      await expect(service().check()).resolves.toEqual([]);
+    });
+
+    it.each([
+      [
+        'claim_issuer',
+        'a claim key',
+        () => answer(CLAIM_ISSUER, CLAIM_ISSUER_ABI, 'keyHasPurpose', false),
+        'not a claim key',
+      ],
+      [
+        'claim_issuer',
+        'a trusted ClaimIssuer',
+        () =>
+          answer(
+            TRUSTED_ISSUERS,
+            TRUSTED_ISSUERS_REGISTRY_ABI,
+            'isTrustedIssuer',
+            false,
+          ),
+        'is not trusted by the identity registry',
+      ],
+      [
+        'identity_agent',
+        'the identity registry agent role',
+        () =>
+          answer(
+            IDENTITY_REGISTRY,
+            IDENTITY_REGISTRY_CONTRACT,
+            'isAgent',
+            false,
+          ),
+        'not an agent of identity registry',
+      ],
+      [
+        'token_agent',
+        'the agent role of a token',
+        () => answer(TOKEN, ERC3643_ABI, 'isAgent', false),
+        `not an agent of AAPL (${TOKEN})`,
+      ],
+      [
+        'treasury',
+        'the AGENT of the order contract',
+        () =>
+          answer(
+            ORDER_CONTRACT,
+            ORDER_CONTRACT_EVENTS_ABI,
+            'AGENT',
+            ethers.Wallet.createRandom().address,
+          ),
+        'only allows its AGENT',
+      ],
+    ])(
+      'reports the %s without %s',
+      async (role, _, revoke: () => void, reason) => {
+        revoke();
+
+        await expect(service().check()).resolves.toEqual([
+          {
+            chainId: CHAIN_ID,
+            role,
+            address: addresses[role as SignerRole],
+            reason: expect.stringContaining(reason) as string,
+          },
+        ]);
+      },
+    );
+
+    it('reports a permission it cannot read as missing', async () => {
+      answers.delete(
+        `${TOKEN}:${new ethers.Interface(ERC3643_ABI).getFunction('isAgent')!.selector}`,
+      );
+
+      await expect(service().check()).resolves.toEqual([
+        expect.objectContaining({
+          role: 'token_agent',
+          reason: 'could not be checked: execution reverted',
+        }),
+      ]);
+    });
+
+    it('skips the claim issuer on a deployment without a ClaimIssuer', async () => {
+      answer(CLAIM_ISSUER, CLAIM_ISSUER_ABI, 'keyHasPurpose', false);
+
+      await expect(
+        service(undefined, { claimIssuerAddress: undefined }).check(),
+      ).resolves.toEqual([]);
+    });
+  });
+
+  describe('onApplicationBootstrap', () => {
+    beforeEach(() => {
+      answer(TOKEN, ERC3643_ABI, 'isAgent', false);
+    });
+
+    it('refuses to start by default when a permission is missing', async () => {
+      await expect(service().onApplicationBootstrap()).rejects.toThrow(
+        `token_agent ${addresses.token_agent} on chain ${CHAIN_ID}`,
+      );
+      expect(raise).not.toHaveBeenCalled();
+    });
+
+    it('starts with a critical alert in warn mode', async () => {
+      await service('warn').onApplicationBootstrap();
+
+      expect(raise).toHaveBeenCalledWith(
+        expect.objectContaining({
+          severity: 'critical',
+          kind: 'signer_permission_missing',
+        }),
+      );
+    });
+
+    it('checks nothing when off', async () => {
+      await service('off').onApplicationBootstrap();
+
+      expect(call).not.toHaveBeenCalled();
+      expect(raise).not.toHaveBeenCalled();
+    });
+  });
+});
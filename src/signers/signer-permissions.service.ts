@@ -0,0 +1,180 @@
+import { Injectable, Logger, OnApplicationBootstrap } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { ethers } from 'ethers';
+import { DeploymentRegistry } from '../web3/providers/deployment.registry';
+import { AssetRegistryService } from '../assets/asset-registry.service';
+import { AlertService } from '../alerts/alert.service';
+import { ERC3643_ABI } from '../shared/abi/ERC3643.abi';
+import { IDENTITY_REGISTRY_CONTRACT } from '../shared/abi/IDENTITY_REGISTRY.abi';
+import { ORDER_CONTRACT_EVENTS_ABI } from '../shared/abi/ORDER_EVENTS.abi';
+import {
+  CLAIM_ISSUER_ABI,
+  TRUSTED_ISSUERS_REGISTRY_ABI,
+} from '../shared/abi/CLAIM_ISSUER.abi';
+import { SignerRegistry, SignerRole } from './signer.registry';
+
+/** enforce: the application does not start; warn: it starts with an alert; off: nothing is checked */
+export type SignerPermissionCheck = 'enforce' | 'warn' | 'off';
+
+// A permission a role's address lacks on one contract
+export interface MissingPermission {
+  chainId: number;
+  role: SignerRole;
+  address: string;
+  reason: string;
+}
+
+// ONCHAINID key purpose of keys allowed to sign claims
+const CLAIM_KEY_PURPOSE = 3;
+
+@Injectable()
+export class SignerPermissionsService implements OnApplicationBootstrap {
+  private readonly logger = new Logger(SignerPermissionsService.name);
+  private readonly mode: SignerPermissionCheck;
+
+  constructor(
+    private readonly config: ConfigService,
+    private readonly signerRegistry: SignerRegistry,
+    private readonly deploymentRegistry: DeploymentRegistry,
+    private readonly assetRegistryService: AssetRegistryService,
+    private readonly alertService: AlertService,
+  ) {
+    const mode = this.config.get<string>('SIGNER_PERMISSION_CHECK');
+    this.mode = mode === 'warn' || mode === 'off' ? mode : 'enforce';
+  }
+
+  /**
+   * Checks at startup that every role's address holds its permission on every deployment
+   * @throws Error if a permission is missing or cannot be read, unless SIGNER_PERMISSION_CHECK is warn or off
+   */
+  async onApplicationBootstrap() {
+    if (this.mode === 'off') {
+      this.logger.warn('Signer permissions are not checked');
+      return;
+    }
+
+    const missing = await this.check();
+    if (missing.length === 0) {
+      this.logger.log('Every signer holds the permissions of its role');
+      return;
+    }
+
+    const message = `Signers lack permissions: ${missing
+      .map(
+        (permission) =>
+          `${permission.role} ${permission.address} on chain ${permission.chainId}: ${permission.reason}`,
+      )
+      .join('; ')}`;
+    if (this.mode === 'enforce') {
+      throw new Error(message);
+    }
+    await this.alertService.raise({
+      severity: 'critical',
+      kind: 'signer_permission_missing',
+      message,
+      details: { missing },
+    });
+  }
+
+  /**
+   * Check the on-chain permission of every role on every deployment: the claim issuer holds a claim key of the
+   * deployment's ClaimIssuer, which the identity registry trusts; the identity agent is an agent of the identity
+   * registry; the token agent is an agent of every registered token; the treasury is the order contract's AGENT,
+   * the only caller of withdrawUSDC
+   * @returns The permissions that are missing or could not be read
+   */
+  async check(): Promise<MissingPermission[]> {
+    const missing: MissingPermission[] = [];
+    for (const deployment of this.deploymentRegistry.getDeployments()) {
+      const { chainId, httpProvider } = deployment;
+      const verify = async (
+        role: SignerRole,
+        holds: (address: string) => Promise<string | null>,
+      ) => {
+        const address = this.signerRegistry.get(role).getAddress();
+        let reason: string | null;
+        try {
+          reason = await holds(address);
+        } catch (error) {
+          reason = `could not be checked: ${error instanceof Error ? error.message : String(error)}`;
+        }
+        if (reason !== null) {
+          missing.push({ chainId, role, address, reason });
+        }
+      };
+
+      const identityRegistry = new ethers.Contract(
+        deployment.identityRegistryAddress,
+        IDENTITY_REGISTRY_CONTRACT,
+        httpProvider,
+      );
+
+      const claimIssuerAddress = deployment.claimIssuerAddress;
+      if (claimIssuerAddress) {
+        await verify('claim_issuer', async (address) => {
+          const claimIssuer = new ethers.Contract(
+            claimIssuerAddress,
+            CLAIM_ISSUER_ABI,
+            httpProvider,
+          );
+          const key = ethers.keccak256(
+            ethers.AbiCoder.defaultAbiCoder().encode(['address'], [address]),
+          );
+          if (!(await claimIssuer.keyHasPurpose(key, CLAIM_KEY_PURPOSE))) {
+            return `not a claim key of ClaimIssuer ${claimIssuerAddress}`;
+          }
+          const trustedIssuers = new ethers.Contract(
+            String(await identityRegistry.issuersRegistry()),
+            TRUSTED_ISSUERS_REGISTRY_ABI,
+            httpProvider,
+          );
+          if (!(await trustedIssuers.isTrustedIssuer(claimIssuerAddress))) {
+            return `ClaimIssuer ${claimIssuerAddress} is not trusted by the identity registry`;
+          }
+          return null;
+        });
+      } else {
+        this.logger.warn(
+          `No claimIssuerAddress on chain ${chainId}; the claim issuer's key is not checked`,
+        );
+      }
+
+      await verify('identity_agent', async (address) =>
+        (await identityRegistry.isAgent(address))
+          ? null
+          : `not an agent of identity registry ${deployment.identityRegistryAddress}`,
+      );
+
+      await verify('token_agent', async (address) => {
+        const assets = await this.assetRegistryService.findAssets({ chainId });
+        const tokens: string[] = [];
+        for (const asset of assets) {
+          const token = new ethers.Contract(
+            asset.token_address,
+            ERC3643_ABI,
+            httpProvider,
+          );
+          if (!(await token.isAgent(address))) {
+            tokens.push(`${asset.ticker} (${asset.token_address})`);
+          }
+        }
+        return tokens.length === 0
+          ? null
+          : `not an agent of ${tokens.join(', ')}`;
+      });
+
+      await verify('treasury', async (address) => {
+        const orderContract = new ethers.Contract(
+          deployment.orderContractAddress,
+          ORDER_CONTRACT_EVENTS_ABI,
+          httpProvider,
+        );
+        const agent = String(await orderContract.AGENT());
+        return agent.toLowerCase() === address.toLowerCase()
+          ? null
+          : `order contract ${deployment.orderContractAddress} only allows its AGENT ${agent} to withdraw USDC`;
+      });
+    }
+    return missing;
+  }
+}
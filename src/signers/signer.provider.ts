@@ -0,0 +1,23 @@
+import { ethers } from 'ethers';
+
+/** keystore: an encrypted JSON keystore; remote: an HTTP signing service; private-key: a raw key, for tests only */
+export type SignerType = 'keystore' | 'remote' | 'private-key';
+
+/**
+ * A signing key of the backend. Services sign through the signers it hands out and never see key material;
+ * the SignerRegistry holds one per role, each unlocked before the application starts.
+ */
+export abstract class SignerProvider {
+  abstract readonly type: SignerType;
+
+  /**
+   * Address of the signing key
+   */
+  abstract getAddress(): string;
+
+  /**
+   * A signer for the key, connected to a chain
+   * @param provider - The provider of the chain to send on
+   */
+  abstract connect(provider: ethers.Provider): ethers.Signer;
+}
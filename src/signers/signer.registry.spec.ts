@@ -0,0 +1,77 @@
+import { Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { ethers } from 'ethers';
+import { SIGNER_ROLES, SignerRegistry } from './signer.registry';
+
+describe('SignerRegistry', () => {
+  beforeAll(() => {
+    Logger.overrideLogger(false);
+  });
+
+  // A plaintext key per role
+  function privateKeys(): Record<string, string> {
+    return Object.fromEntries(
+      SIGNER_ROLES.map((role) => [
+        `SIGNER_${role.toUpperCase()}_PRIVATE_KEY`,
+        ethers.Wallet.createRandom().privateKey,
+      ]),
+    );
+  }
+
+  it('signs with a plaintext key per role in tests', async () => {
+    const keys = privateKeys();
+    const registry = new SignerRegistry(
+      new ConfigService({
+        NODE_ENV: 'test',
+        SIGNER_TYPE: 'private-key',
+        ...keys,
+      }),
+    );
+
+    await registry.onModuleInit();
+
+    expect(registry.get('treasury').getAddress()).toBe(
+      new ethers.Wallet(keys.SIGNER_TREASURY_PRIVATE_KEY).address,
+    );
+  });
+
+  it.each(['production', 'development'])(
+    'refuses a plaintext key when NODE_ENV is %s',
+    async (nodeEnv) => {
+      const registry = new SignerRegistry(
+        new ConfigService({
+          NODE_ENV: nodeEnv,
+          SIGNER_TYPE: 'private-key',
+          ...privateKeys(),
+        }),
+      );
+
+      await expect(registry.onModuleInit()).rejects.toThrow(
+        'cannot use a plaintext private key outside NODE_ENV=test',
+      );
+    },
+  );
+
+  it('refuses roles sharing a key unless allowed', async () => {
+    const key = ethers.Wallet.createRandom().privateKey;
+    const config = {
+      NODE_ENV: 'test',
+      SIGNER_TYPE: 'private-key',
+      ...Object.fromEntries(
+        SIGNER_ROLES.map((role) => [
+          `SIGNER_${role.toUpperCase()}_PRIVATE_KEY`,
+          key,
+        ]),
+      ),
+    };
+
+    await expect(
+      new SignerRegistry(new ConfigService(config)).onModuleInit(),
+    ).rejects.toThrow('Roles share a key');
+    await expect(
+      new SignerRegistry(
+        new ConfigService({ ...config, SIGNER_ALLOW_SHARED_KEYS: 'true' }),
+      ).onModuleInit(),
+    ).resolves.toBeUndefined();
+  });
+});
@@ -0,0 +1,151 @@
+import { Injectable, Logger, OnModuleInit } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { readFile } from 'fs/promises';
+import { SignerProvider } from './signer.provider';
+import { LocalSignerProvider } from './local-signer.provider';
+import { RemoteSignerProvider } from './remote-signer.provider';
+
+/**
+ * What a key is allowed to do: claim_issuer signs KYC claims, identity_agent registers identities,
+ * token_agent mints and burns tokens, and treasury withdraws USDC from the order contract
+ */
+export type SignerRole =
+  | 'claim_issuer'
+  | 'identity_agent'
+  | 'token_agent'
+  | 'treasury';
+
+export const SIGNER_ROLES: SignerRole[] = [
+  'claim_issuer',
+  'identity_agent',
+  'token_agent',
+  'treasury',
+];
+
+/**
+ * One signer per role, each configured with SIGNER_<ROLE>_* variables, so a leaked key only exposes its own role.
+ * Settings that do not name a key (type, passwords, signing service) fall back to the shared SIGNER_* variables.
+ */
+@Injectable()
+export class SignerRegistry implements OnModuleInit {
+  private readonly logger = new Logger(SignerRegistry.name);
+  private readonly signers = new Map<SignerRole, SignerProvider>();
+
+  constructor(private readonly config: ConfigService) {}
+
+  /**
+   * Unlocks every role's signer before anything that signs is created, so a missing key stops the application at boot
+   * @throws Error if a signer is misconfigured or cannot be unlocked, or roles share a key without
+   * SIGNER_ALLOW_SHARED_KEYS
+   */
+  async onModuleInit() {
+    for (const role of SIGNER_ROLES) {
+      const signer = await this.createSigner(role);
+      this.signers.set(role, signer);
+      this.logger.log(
+        `Signing as ${role} with ${signer.getAddress()} (${signer.type} signer)`,
+      );
+    }
+
+    const roles = new Map<string, SignerRole[]>();
+    for (const [role, signer] of this.signers) {
+      const address = signer.getAddress().toLowerCase();
+      roles.set(address, [...(roles.get(address) ?? []), role]);
+    }
+    const shared = [...roles.values()].filter((sharing) => sharing.length > 1);
+    if (shared.length > 0) {
+      const message = `Roles share a key: ${shared.map((sharing) => sharing.join(', ')).join('; ')}`;
+      if (this.config.get<string>('SIGNER_ALLOW_SHARED_KEYS') !== 'true') {
+        throw new Error(
+          `${message}. Configure a key per role, or set SIGNER_ALLOW_SHARED_KEYS=true`,
+        );
+      }
+      this.logger.warn(message);
+    }
+  }
+
+  /**
+   * The signer of a role
+   * @param role - What it is used for
+   */
+  get(role: SignerRole): SignerProvider {
+    const signer = this.signers.get(role);
+    if (!signer) {
+      throw new Error(`No ${role} signer is configured`);
+    }
+    return signer;
+  }
+
+  private async createSigner(role: SignerRole): Promise<SignerProvider> {
+    const label = `${role} signer`;
+    const type = this.setting(role, 'TYPE') || 'keystore';
+
+    switch (type) {
+      case 'keystore': {
+        const path = this.roleSetting(role, 'KEYSTORE_PATH');
+        if (!path) {
+          throw new Error(`${this.key(role, 'KEYSTORE_PATH')} is not set`);
+        }
+        const passwordFile = this.setting(role, 'KEYSTORE_PASSWORD_FILE');
+        const password = passwordFile
+          ? (await readFile(passwordFile, 'utf8')).trim()
+          : this.setting(role, 'KEYSTORE_PASSWORD');
+        if (password === undefined) {
+          throw new Error(
+            `Set ${this.key(role, 'KEYSTORE_PASSWORD_FILE')} or ${this.key(role, 'KEYSTORE_PASSWORD')} to unlock the ${label}`,
+          );
+        }
+        return LocalSignerProvider.fromKeystore(path, password);
+      }
+      case 'remote': {
+        const url = this.setting(role, 'REMOTE_URL');
+        if (!url) {
+          throw new Error(`${this.key(role, 'REMOTE_URL')} is not set`);
+        }
+        return RemoteSignerProvider.connectTo({
+          url,
+          authToken: this.setting(role, 'REMOTE_AUTH_TOKEN') || undefined,
+          address: this.roleSetting(role, 'REMOTE_ADDRESS') || undefined,
+          timeoutMs: Number(this.setting(role, 'REMOTE_TIMEOUT_MS') ?? 10000),
+        });
+      }
+      case 'private-key': {
+        // A plaintext key in the environment is only acceptable for tests
+        if (this.config.get<string>('NODE_ENV') !== 'test') {
+          throw new Error(
+            `The ${label} cannot use a plaintext private key outside NODE_ENV=test; use a keystore or remote signer`,
+          );
+        }
+        const privateKey = this.roleSetting(role, 'PRIVATE_KEY');
+        if (!privateKey) {
+          throw new Error(`${this.key(role, 'PRIVATE_KEY')} is not set`);
+        }
+        return LocalSignerProvider.fromPrivateKey(privateKey);
+      }
+      default:
+        throw new Error(
+          `${this.key(role, 'TYPE')} must be keystore or remote, got ${type}`,
+        );
+    }
+  }
+
+  /**
+   * A setting of a role, falling back to the shared SIGNER_* variable
+   */
+  private setting(role: SignerRole, name: string): string | undefined {
+    return (
+      this.roleSetting(role, name) || this.config.get<string>(`SIGNER_${name}`)
+    );
+  }
+
+  /**
+   * A setting of the role alone; settings naming its key are only read this way
+   */
+  private roleSetting(role: SignerRole, name: string): string | undefined {
+    return this.config.get<string>(this.key(role, name));
+  }
+
+  private key(role: SignerRole, name: string): string {
+    return `SIGNER_${role.toUpperCase()}_${name}`;
+  }
+}
@@ -0,0 +1,13 @@
+import { Module } from '@nestjs/common';
+import { ProviderFactory } from '../web3/providers/provider.factory';
+import { AssetsModule } from '../assets/assets.module';
+import { AlertsModule } from '../alerts/alerts.module';
+import { SignerRegistry } from './signer.registry';
+import { SignerPermissionsService } from './signer-permissions.service';
+
+@Module({
+  imports: [ProviderFactory, AssetsModule, AlertsModule],
+  providers: [SignerRegistry, SignerPermissionsService],
+  exports: [SignerRegistry],
+})
+export class SignersModule {}
@@ -1,15 +1,20 @@
 import { Injectable, Logger } from '@nestjs/common';
 import { ConfigService } from '@nestjs/config';
 import { createClient, SupabaseClient } from '@supabase/supabase-js';
+import { ASSET_DECIMALS, formatAmount, parseAmount } from '../shared/utils/amounts';
 
-// Define interface for asset reserve
+// Define interface for asset reserve, unique on (chain_id, asset_symbol)
 interface AssetReserve {
     id: string;
+    chain_id: number;
     asset_symbol: string;
-    reserve_amount: number;
+    // Decimal string; the numeric column is read as text so no precision is lost in JSON
+    reserve_amount: string;
     updated_at: string;
 }
 
+const ASSET_RESERVE_COLUMNS = 'id, chain_id, asset_symbol, reserve_amount::text, updated_at';
+
 @Injectable()
 export class SupabaseService {
     logger = new Logger(SupabaseService.name);
@@ -30,53 +35,59 @@ export class SupabaseService {
     }
 
     /**
-     * Get reserve amount for a specific asset
+     * Get reserve amount for a specific asset on a chain
+     * @param chainId - The chain the asset's token is deployed on
      * @param assetSymbol - The symbol of the asset (e.g., 'ETH', 'BTC')
      * @returns Promise with the asset reserve data or null if not found
      */
-    async getAssetReserve(assetSymbol: string): Promise<AssetReserve | null> {
+    async getAssetReserve(chainId: number, assetSymbol: string): Promise<AssetReserve | null> {
         try {
             const { data, error } = await this.supabase
                 .from('asset_reserves')
-                .select('*')
+                .select(ASSET_RESERVE_COLUMNS)
+                .eq('chain_id', chainId)
                 .eq('asset_symbol', assetSymbol)
                 .single();
 
             if (error) {
                 if (error.code === 'PGRST116') {
                     // No rows found
-                    this.logger.warn(`No reserve found for asset: ${assetSymbol}`);
+                    this.logger.warn(`No reserve found for asset: ${assetSymbol} on chain ${chainId}`);
                     return null;
                 }
-                this.logger.error(`Error getting asset reserve for ${assetSymbol}:`, error);
+                this.logger.error(`Error getting asset reserve for ${assetSymbol} on chain ${chainId}:`, error);
                 throw error;
             }
 
-            return data;
+            return data as AssetReserve;
         } catch (error) {
-            this.logger.error(`Failed to get asset reserve for ${assetSymbol}:`, error);
+            this.logger.error(`Failed to get asset reserve for ${assetSymbol} on chain ${chainId}:`, error);
             throw error;
         }
     }
 
     /**
-     * Update reserve amount for a specific asset
+     * Update reserve amount for a specific asset on a chain
+     * @param chainId - The chain the asset's token is deployed on
      * @param assetSymbol - The symbol of the asset
-     * @param delta - The amount to add/subtract from current reserve
+     * @param delta - The amount to add/subtract from current reserve, in base units of 18 decimals
      * @returns Promise with the updated asset reserve data
      */
-    async updateAssetReserve(assetSymbol: string, delta: number): Promise<AssetReserve> {
+    async updateAssetReserve(chainId: number, assetSymbol: string, delta: bigint): Promise<AssetReserve> {
         try {
             // First get the current asset reserve
-            const currentReserve = await this.getAssetReserve(assetSymbol);
+            const currentReserve = await this.getAssetReserve(chainId, assetSymbol);
             
             if (!currentReserve) {
-                this.logger.error(`Asset reserve not found for ${assetSymbol}`);
-                throw new Error(`Asset reserve not found for ${assetSymbol}`);
+                this.logger.error(`Asset reserve not found for ${assetSymbol} on chain ${chainId}`);
+                throw new Error(`Asset reserve not found for ${assetSymbol} on chain ${chainId}`);
             }
 
             // Calculate new reserve amount
-            const newReserveAmount = currentReserve.reserve_amount + delta;
+            const newReserveAmount = formatAmount(
+                parseAmount(currentReserve.reserve_amount, ASSET_DECIMALS) + delta,
+                ASSET_DECIMALS
+            );
 
             // Update the reserve with the new amount
             const { data, error } = await this.supabase
@@ -85,33 +96,42 @@ export class SupabaseService {
                     reserve_amount: newReserveAmount,
                     updated_at: new Date().toISOString() 
                 })
+                .eq('chain_id', chainId)
                 .eq('asset_symbol', assetSymbol)
-                .select()
-                .single();
+                .select(ASSET_RESERVE_COLUMNS)
+                .single<AssetReserve>();
 
             if (error) {
-                this.logger.error(`Error updating asset reserve for ${assetSymbol}:`, error);
+                this.logger.error(`Error updating asset reserve for ${assetSymbol} on chain ${chainId}:`, error);
                 throw error;
             }
 
-            this.logger.log(`Updated reserve for ${assetSymbol} from ${currentReserve.reserve_amount} to ${data.reserve_amount} (delta: ${delta})`);
+            this.logger.log(`Updated reserve for ${assetSymbol} on chain ${chainId} from ${currentReserve.reserve_amount} to ${data.reserve_amount} (delta: ${formatAmount(delta, ASSET_DECIMALS)})`);
             return data;
         } catch (error) {
-            this.logger.error(`Failed to update asset reserve for ${assetSymbol}:`, error);
+            this.logger.error(`Failed to update asset reserve for ${assetSymbol} on chain ${chainId}:`, error);
             throw error;
         }
     }
 
     /**
      * Get all asset reserves
+     * @param chainId - Optional chain to restrict the reserves to
      * @returns Promise with array of all asset reserves
      */
-    async getAllAssetReserves(): Promise<AssetReserve[]> {
+    async getAllAssetReserves(chainId?: number): Promise<AssetReserve[]> {
         try {
-            const { data, error } = await this.supabase
+            let query = this.supabase
                 .from('asset_reserves')
-                .select('*')
-                .order('asset_symbol', { ascending: true });
+                .select(ASSET_RESERVE_COLUMNS);
+            if (chainId !== undefined) {
+                query = query.eq('chain_id', chainId);
+            }
+
+            const { data, error } = await query
+                .order('chain_id', { ascending: true })
+                .order('asset_symbol', { ascending: true })
+                .returns<AssetReserve[]>();
 
             if (error) {
                 this.logger.error('Error getting all asset reserves:', error);
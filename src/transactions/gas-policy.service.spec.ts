@@ -0,0 +1,173 @@
+import { ConfigService } from '@nestjs/config';
+import { ethers } from 'ethers';
+import {
+  DeploymentGasConfig,
+  DeploymentRegistry,
+} from '../web3/providers/deployment.registry';
+import { GasFeeCeilingError, GasPolicyService } from './gas-policy.service';
+
+const CHAIN_ID = 11155111;
+const FROM = '0x00000000000000000000000000000000000000bb';
+const REQUEST = { to: '0x00000000000000000000000000000000000000aa' };
+
+function gwei(amount: string): bigint {
+  return ethers.parseUnits(amount, 'gwei');
+}
+
+describe('GasPolicyService', () => {
+  // Never queried: the tests stub what the policy asks the node
+  const provider = new ethers.JsonRpcProvider('http://127.0.0.1:1', CHAIN_ID, {
+    staticNetwork: true,
+  });
+  let gas: DeploymentGasConfig | undefined;
+  let baseFee: bigint;
+  let estimateGas: jest.SpyInstance;
+
+  beforeEach(() => {
+    gas = undefined;
+    baseFee = gwei('10');
+    estimateGas = jest
+      .spyOn(provider, 'estimateGas')
+      .mockResolvedValue(100000n);
+    jest
+      .spyOn(provider, 'getFeeData')
+      .mockImplementation(() =>
+        Promise.resolve(
+          new ethers.FeeData(gwei('12'), baseFee * 2n + gwei('2'), gwei('2')),
+        ),
+      );
+    jest
+      .spyOn(provider, 'getBlock')
+      .mockImplementation(() =>
+        Promise.resolve({ baseFeePerGas: baseFee } as ethers.Block),
+      );
+  });
+
+  afterEach(() => jest.restoreAllMocks());
+
+  afterAll(() => provider.destroy());
+
+  function policy(config: Record<string, string> = {}): GasPolicyService {
+    return new GasPolicyService(new ConfigService(config), {
+      getDeployment: () => ({ httpProvider: provider, gas }),
+    } as unknown as DeploymentRegistry);
+  }
+
+  describe('price', () => {
+    it('pads the estimate and leaves room for the base fee to double', async () => {
+      const { request, decisions } = await policy().price(
+        CHAIN_ID,
+        REQUEST,
+        FROM,
+      );
+
+      expect(request).toMatchObject({
+        type: 2,
+        gasLimit: 120000n,
+        maxFeePerGas: gwei('22'),
+        maxPriorityFeePerGas: gwei('2'),
+      });
+      expect(decisions.map(({ decision }) => decision)).toEqual([
+        'Estimated 100000 gas; limit 120000 (x1.2)',
+        'Base fee 10.0 gwei; max fee 22.0 gwei, priority fee 2.0 gwei',
+      ]);
+    });
+
+    it('keeps a gas limit already set', async () => {
+      const { request } = await policy().price(
+        CHAIN_ID,
+        { ...REQUEST, gasLimit: 50000n },
+        FROM,
+      );
+
+      expect(request.gasLimit).toBe(50000n);
+      expect(estimateGas).not.toHaveBeenCalled();
+    });
+
+    it('caps the fees', async () => {
+      const { request } = await policy({
+        GAS_MAX_FEE_PER_GAS_GWEI: '15',
+        GAS_MAX_PRIORITY_FEE_PER_GAS_GWEI: '1',
+      }).price(CHAIN_ID, REQUEST, FROM);
+
+      expect(request).toMatchObject({
+        maxFeePerGas: gwei('15'),
+        maxPriorityFeePerGas: gwei('1'),
+      });
+    });
+
+    it('refuses to send while the base fee is above the ceiling, the max fee by default', async () => {
+      baseFee = gwei('16');
+
+      await expect(
+        policy({ GAS_MAX_FEE_PER_GAS_GWEI: '15' }).price(
+          CHAIN_ID,
+          REQUEST,
+          FROM,
+        ),
+      ).rejects.toThrow(GasFeeCeilingError);
+    });
+
+    it('prices legacy chains with a capped gas price, from their deployment settings', async () => {
+      gas = {
+        pricing: 'legacy',
+        maxFeePerGasGwei: '11',
+        feeCeilingGwei: '20',
+      };
+
+      const { request } = await policy().price(CHAIN_ID, REQUEST, FROM);
+
+      expect(request).toMatchObject({ type: 0, gasPrice: gwei('11') });
+      expect(request.maxFeePerGas).toBeUndefined();
+    });
+  });
+
+  describe('bump', () => {
+    it('raises the fees of a stuck transaction by the bump', async () => {
+      const { request } = await policy({ GAS_FEE_BUMP_PERCENT: '20' }).bump(
+        CHAIN_ID,
+        { maxFeePerGas: gwei('30'), maxPriorityFeePerGas: gwei('2') },
+      );
+
+      expect(request).toMatchObject({
+        maxFeePerGas: gwei('36'),
+        maxPriorityFeePerGas: gwei('2.4'),
+      });
+    });
+
+    it('raises the fees to the current ones when those are higher', async () => {
+      baseFee = gwei('50');
+
+      const { request } = await policy().bump(CHAIN_ID, {
+        maxFeePerGas: gwei('30'),
+        maxPriorityFeePerGas: gwei('2'),
+      });
+
+      expect(request?.maxFeePerGas).toBe(gwei('102'));
+    });
+
+    it('leaves a transaction as it is when the cap leaves no room for a 10% raise', async () => {
+      const { request, decisions } = await policy({
+        GAS_MAX_FEE_PER_GAS_GWEI: '32',
+      }).bump(CHAIN_ID, {
+        maxFeePerGas: gwei('30'),
+        maxPriorityFeePerGas: gwei('2'),
+      });
+
+      expect(request).toBeNull();
+      expect(decisions[0].decision).toBe(
+        'Not replaced: max fee 30.0 gwei cannot be raised 10% within its 32.0 gwei cap',
+      );
+    });
+  });
+
+  it.each([
+    ['a bump below 10%', { GAS_FEE_BUMP_PERCENT: '5' }],
+    ['a multiplier below 1', { GAS_ESTIMATE_MULTIPLIER: '0.9' }],
+    ['a fee that is not a gwei amount', { GAS_MAX_FEE_PER_GAS_GWEI: '1e9' }],
+  ])('refuses %s', (_, config) => {
+    expect(() => policy(config).getPolicy(CHAIN_ID)).toThrow(
+      `Gas policy of chain ${CHAIN_ID}`,
+    );
+  });
+});
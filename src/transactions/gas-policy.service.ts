@@ -0,0 +1,344 @@
+import { Injectable } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { ethers } from 'ethers';
+import {
+  DeploymentGasConfig,
+  DeploymentRegistry,
+} from '../web3/providers/deployment.registry';
+import { DECIMAL_AMOUNT_PATTERN } from '../shared/utils/amounts';
+
+/** eip1559 sends type 2 transactions with a max and priority fee; legacy sends a gas price */
+export type GasPricing = 'eip1559' | 'legacy';
+
+// Gas settings of a chain: its DEPLOYMENTS entry, falling back to the GAS_* variables
+export interface GasPolicy {
+  pricing: GasPricing;
+  estimateMultiplier: number;
+  // Most offered per gas, in wei: the max fee, or the gas price on legacy chains; null for no cap
+  maxFeePerGas: bigint | null;
+  maxPriorityFeePerGas: bigint | null;
+  // Nothing is sent while the base fee, or the gas price on legacy chains, is above this
+  feeCeiling: bigint | null;
+  feeBumpPercent: number;
+}
+
+// A choice the policy made for a transaction, kept on its record
+export interface GasDecision {
+  at: string;
+  decision: string;
+}
+
+export interface PricedTransaction {
+  request: ethers.TransactionRequest;
+  decisions: GasDecision[];
+}
+
+/**
+ * Thrown when the fees of a chain are above its ceiling, so the transaction was not sent
+ */
+export class GasFeeCeilingError extends Error {
+  constructor(
+    readonly decisions: GasDecision[],
+    message: string,
+  ) {
+    super(message);
+    this.name = 'GasFeeCeilingError';
+  }
+}
+
+// Nodes only accept a replacement paying at least 10% more, on every fee
+const MIN_FEE_BUMP_PERCENT = 10;
+
+@Injectable()
+export class GasPolicyService {
+  private readonly defaults: DeploymentGasConfig;
+  private readonly policies = new Map<number, GasPolicy>();
+
+  constructor(
+    private readonly config: ConfigService,
+    private readonly deploymentRegistry: DeploymentRegistry,
+  ) {
+    const pricing = this.config.get<string>('GAS_PRICING');
+    this.defaults = {
+      pricing: pricing === 'legacy' ? 'legacy' : 'eip1559',
+      estimateMultiplier: Number(
+        this.config.get<string>('GAS_ESTIMATE_MULTIPLIER') ?? 1.2,
+      ),
+      maxFeePerGasGwei: this.config.get<string>('GAS_MAX_FEE_PER_GAS_GWEI'),
+      maxPriorityFeePerGasGwei: this.config.get<string>(
+        'GAS_MAX_PRIORITY_FEE_PER_GAS_GWEI',
+      ),
+      feeCeilingGwei: this.config.get<string>('GAS_FEE_CEILING_GWEI'),
+      feeBumpPercent: Number(
+        this.config.get<string>('GAS_FEE_BUMP_PERCENT') ?? 15,
+      ),
+    };
+  }
+
+  /**
+   * Gas policy of a chain
+   * @throws Error if its settings are invalid
+   */
+  getPolicy(chainId: number): GasPolicy {
+    const cached = this.policies.get(chainId);
+    if (cached) {
+      return cached;
+    }
+
+    const { gas } = this.deploymentRegistry.getDeployment(chainId);
+    const settings: DeploymentGasConfig = { ...this.defaults, ...gas };
+    const label = `Gas policy of chain ${chainId}`;
+    if (settings.pricing !== 'eip1559' && settings.pricing !== 'legacy') {
+      throw new Error(`${label}: pricing must be eip1559 or legacy`);
+    }
+    const estimateMultiplier = Number(settings.estimateMultiplier);
+    if (!Number.isFinite(estimateMultiplier) || estimateMultiplier < 1) {
+      throw new Error(`${label}: estimateMultiplier must be at least 1`);
+    }
+    const feeBumpPercent = Number(settings.feeBumpPercent);
+    if (
+      !Number.isFinite(feeBumpPercent) ||
+      feeBumpPercent < MIN_FEE_BUMP_PERCENT
+    ) {
+      throw new Error(
+        `${label}: feeBumpPercent must be at least ${MIN_FEE_BUMP_PERCENT}`,
+      );
+    }
+
+    const maxFeePerGas = this.parseGwei(settings.maxFeePerGasGwei, label);
+    const policy: GasPolicy = {
+      pricing: settings.pricing,
+      estimateMultiplier,
+      maxFeePerGas,
+      maxPriorityFeePerGas: this.parseGwei(
+        settings.maxPriorityFeePerGasGwei,
+        label,
+      ),
+      // Without a ceiling of its own, a chain is not sent to while its fees are above the max fee
+      feeCeiling:
+        this.parseGwei(settings.feeCeilingGwei, label) ?? maxFeePerGas,
+      feeBumpPercent,
+    };
+    this.policies.set(chainId, policy);
+    return policy;
+  }
+
+  /**
+   * Set the gas limit and fees of a transaction: the gas estimate times the multiplier, and the chain's current fees
+   * within the caps of its policy
+   * @param chainId - The chain to send on
+   * @param request - The transaction; a gas limit already set is kept
+   * @param from - The sender, for the estimate
+   * @returns The priced transaction, with the decisions taken
+   * @throws GasFeeCeilingError if the chain's fees are above the ceiling
+   * @throws Error if the estimate reverts
+   */
+  async price(
+    chainId: number,
+    request: ethers.TransactionRequest,
+    from: string,
+  ): Promise<PricedTransaction> {
+    const policy = this.getPolicy(chainId);
+    const { httpProvider } = this.deploymentRegistry.getDeployment(chainId);
+    const decisions: GasDecision[] = [];
+    const priced: ethers.TransactionRequest = { ...request };
+
+    if (priced.gasLimit == null) {
+      const estimate = await httpProvider.estimateGas({ ...request, from });
+      priced.gasLimit =
+        (estimate * BigInt(Math.round(policy.estimateMultiplier * 100))) / 100n;
+      this.decide(
+        decisions,
+        `Estimated ${estimate} gas; limit ${priced.gasLimit} (x${policy.estimateMultiplier})`,
+      );
+    }
+
+    const feeData = await httpProvider.getFeeData();
+    if (policy.pricing === 'legacy') {
+      const gasPrice = feeData.gasPrice;
+      if (gasPrice === null) {
+        throw new Error(`Chain ${chainId} returned no gas price`);
+      }
+      this.assertBelowCeiling(policy, gasPrice, 'Gas price', decisions);
+      priced.type = 0;
+      priced.gasPrice = this.cap(
+        gasPrice,
+        policy.maxFeePerGas,
+        'Gas price',
+        decisions,
+      );
+      priced.maxFeePerGas = undefined;
+      priced.maxPriorityFeePerGas = undefined;
+      this.decide(decisions, `Gas price ${this.gwei(priced.gasPrice)} gwei`);
+      return { request: priced, decisions };
+    }
+
+    const block = await httpProvider.getBlock('latest');
+    const baseFee = block?.baseFeePerGas;
+    if (baseFee == null) {
+      throw new Error(
+        `Chain ${chainId} has no base fee; set its gas pricing to legacy`,
+      );
+    }
+    this.assertBelowCeiling(policy, baseFee, 'Base fee', decisions);
+    const priorityFee = this.cap(
+      feeData.maxPriorityFeePerGas ?? 0n,
+      policy.maxPriorityFeePerGas,
+      'Priority fee',
+      decisions,
+    );
+    priced.type = 2;
+    priced.gasPrice = undefined;
+    priced.maxPriorityFeePerGas = priorityFee;
+    // Room for the base fee to double before the transaction is priced out
+    priced.maxFeePerGas = this.cap(
+      baseFee * 2n + priorityFee,
+      policy.maxFeePerGas,
+      'Max fee',
+      decisions,
+    );
+    this.decide(
+      decisions,
+      `Base fee ${this.gwei(baseFee)} gwei; max fee ${this.gwei(priced.maxFeePerGas)} gwei, priority fee ${this.gwei(priorityFee)} gwei`,
+    );
+    return { request: priced, decisions };
+  }
+
+  /**
+   * Raise the fees of a stuck transaction by the policy's bump, or to the chain's current fees when higher,
+   * within the caps
+   * @param chainId - The chain it was sent on
+   * @param request - The transaction as last signed
+   * @returns The repriced transaction, or a null request when the caps leave no room for a replacement
+   */
+  async bump(
+    chainId: number,
+    request: ethers.TransactionRequest,
+  ): Promise<{
+    request: ethers.TransactionRequest | null;
+    decisions: GasDecision[];
+  }> {
+    const policy = this.getPolicy(chainId);
+    const { httpProvider } = this.deploymentRegistry.getDeployment(chainId);
+    const feeData = await httpProvider.getFeeData();
+    const decisions: GasDecision[] = [];
+
+    if (request.gasPrice != null) {
+      const gasPrice = this.raise(
+        policy,
+        'Gas price',
+        request.gasPrice,
+        feeData.gasPrice,
+        policy.maxFeePerGas,
+        decisions,
+      );
+      return {
+        request: gasPrice === null ? null : { ...request, gasPrice },
+        decisions,
+      };
+    }
+
+    const maxFeePerGas = this.raise(
+      policy,
+      'Max fee',
+      request.maxFeePerGas,
+      feeData.maxFeePerGas,
+      policy.maxFeePerGas,
+      decisions,
+    );
+    const maxPriorityFeePerGas = this.raise(
+      policy,
+      'Priority fee',
+      request.maxPriorityFeePerGas,
+      feeData.maxPriorityFeePerGas,
+      policy.maxPriorityFeePerGas,
+      decisions,
+    );
+    if (maxFeePerGas === null || maxPriorityFeePerGas === null) {
+      return { request: null, decisions };
+    }
+    return {
+      request: { ...request, maxFeePerGas, maxPriorityFeePerGas },
+      decisions,
+    };
+  }
+
+  /**
+   * Raise a fee by the policy's bump, or to its current value when higher, within its cap
+   * @returns The raised fee, or null when the cap leaves less than the minimum raise
+   */
+  private raise(
+    policy: GasPolicy,
+    name: string,
+    fee: ethers.BigNumberish | null | undefined,
+    current: bigint | null,
+    cap: bigint | null,
+    decisions: GasDecision[],
+  ): bigint | null {
+    const previous = ethers.toBigInt(fee ?? 0);
+    const bumped = (previous * BigInt(100 + policy.feeBumpPercent)) / 100n;
+    const wanted = current !== null && current > bumped ? current : bumped;
+    const raised = cap !== null && wanted > cap ? cap : wanted;
+    if (raised * 100n < previous * BigInt(100 + MIN_FEE_BUMP_PERCENT)) {
+      this.decide(
+        decisions,
+        `Not replaced: ${name.toLowerCase()} ${this.gwei(previous)} gwei cannot be raised ${MIN_FEE_BUMP_PERCENT}% within its ${this.gwei(cap ?? 0n)} gwei cap`,
+      );
+      return null;
+    }
+    this.decide(
+      decisions,
+      `${name} raised from ${this.gwei(previous)} to ${this.gwei(raised)} gwei`,
+    );
+    return raised;
+  }
+
+  private assertBelowCeiling(
+    policy: GasPolicy,
+    fee: bigint,
+    name: string,
+    decisions: GasDecision[],
+  ): void {
+    if (policy.feeCeiling !== null && fee > policy.feeCeiling) {
+      const message = `Refused: ${name.toLowerCase()} ${this.gwei(fee)} gwei is above the ${this.gwei(policy.feeCeiling)} gwei ceiling`;
+      this.decide(decisions, message);
+      throw new GasFeeCeilingError(decisions, message);
+    }
+  }
+
+  private cap(
+    fee: bigint,
+    cap: bigint | null,
+    name: string,
+    decisions: GasDecision[],
+  ): bigint {
+    if (cap === null || fee <= cap) {
+      return fee;
+    }
+    this.decide(
+      decisions,
+      `${name} ${this.gwei(fee)} gwei capped at ${this.gwei(cap)} gwei`,
+    );
+    return cap;
+  }
+
+  private decide(decisions: GasDecision[], decision: string): void {
+    decisions.push({ at: new Date().toISOString(), decision });
+  }
+
+  private gwei(wei: ethers.BigNumberish): string {
+    return ethers.formatUnits(wei, 'gwei');
+  }
+
+  private parseGwei(value: string | undefined, label: string): bigint | null {
+    if (value === undefined || value === '') {
+      return null;
+    }
+    if (!DECIMAL_AMOUNT_PATTERN.test(String(value))) {
+      throw new Error(
+        `${label}: fees must be decimal gwei amounts, got ${value}`,
+      );
+    }
+    return ethers.parseUnits(String(value), 'gwei');
+  }
+}
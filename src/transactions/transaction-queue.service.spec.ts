@@ -0,0 +1,211 @@
+import { Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { ethers } from 'ethers';
+import { InMemorySupabase } from '../../test/in-memory-supabase';
+import { DeploymentRegistry } from '../web3/providers/deployment.registry';
+import { GasPolicyService } from './gas-policy.service';
+import {
+  Transaction,
+  TransactionQueueService,
+} from './transaction-queue.service';
+
+const CHAIN_ID = 11155111;
+const TO = '0x00000000000000000000000000000000000000aa';
+
+describe('TransactionQueueService', () => {
+  // Never queried: the tests stub what the queue asks the node
+  const provider = new ethers.JsonRpcProvider('http://127.0.0.1:1', CHAIN_ID, {
+    staticNetwork: true,
+  });
+  let db: InMemorySupabase;
+  let queue: TransactionQueueService;
+  let signer: ethers.Wallet;
+  let address: string;
+  let pendingCount: number;
+  let getTransactionCount: jest.SpyInstance;
+  let broadcast: jest.SpyInstance;
+
+  beforeAll(() => {
+    Logger.overrideLogger(false);
+  });
+
+  beforeEach(() => {
+    db = new InMemorySupabase();
+    signer = new ethers.Wallet(
+      ethers.Wallet.createRandom().privateKey,
+      provider,
+    );
+    address = signer.address.toLowerCase();
+    pendingCount = 0;
+    getTransactionCount = jest
+      .spyOn(provider, 'getTransactionCount')
+      .mockImplementation(() => Promise.resolve(pendingCount));
+    broadcast = jest
+      .spyOn(provider, 'broadcastTransaction')
+      .mockImplementation(() =>
+        Promise.resolve({} as ethers.TransactionResponse),
+      );
+
+    queue = new TransactionQueueService(
+      new ConfigService({ EVENT_LISTENER_ENABLED: 'false' }),
+      db.service(),
+      {
+        getDeployment: () => ({ httpProvider: provider }),
+      } as unknown as DeploymentRegistry,
+      {
+        price: (_chainId: number, request: ethers.TransactionRequest) =>
+          Promise.resolve({
+            request: {
+              ...request,
+              type: 2,
+              gasLimit: 21000n,
+              maxFeePerGas: 30000000000n,
+              maxPriorityFeePerGas: 1500000000n,
+            },
+            decisions: [],
+          }),
+      } as unknown as GasPolicyService,
+    );
+  });
+
+  afterEach(() => jest.restoreAllMocks());
+
+  afterAll(() => provider.destroy());
+
+  function send(): ReturnType<TransactionQueueService['send']> {
+    return queue.send(
+      CHAIN_ID,
+      signer,
+      { to: TO, data: '0x' },
+      { purpose: 'mint' },
+    );
+  }
+
+  function persistNonce(nextNonce: number): void {
+    db.seed('signer_nonces', {
+      chain_id: CHAIN_ID,
+      address,
+      next_nonce: nextNonce,
+    });
+  }
+
+  // A transaction signed and recorded for a nonce, which the node no longer knows
+  async function recordUnmined(nonce: number): Promise<string> {
+    const raw = await signer.signTransaction({
+      to: TO,
+      nonce,
+      chainId: CHAIN_ID,
+      type: 2,
+      gasLimit: 21000n,
+      maxFeePerGas: 30000000000n,
+      maxPriorityFeePerGas: 1500000000n,
+    });
+    db.seed('transactions', {
+      id: `unmined-${nonce}`,
+      chain_id: CHAIN_ID,
+      signer_address: address,
+      nonce,
+      status: 'sent',
+      tx_hash: ethers.keccak256(raw),
+      raw_transaction: raw,
+    });
+    return raw;
+  }
+
+  function nextNonce(): unknown {
+    return db.rows('signer_nonces')[0]?.next_nonce;
+  }
+
+  it('starts from the pending count of the node on first use', async () => {
+    pendingCount = 4;
+
+    const sent = await send();
+
+    expect(sent.nonce).toBe(4);
+    expect(nextNonce()).toBe(5);
+  });
+
+  it('assigns consecutive nonces without asking the node again', async () => {
+    pendingCount = 4;
+
+    const [first, second] = await Promise.all([send(), send()]);
+
+    expect([first.nonce, second.nonce]).toEqual([4, 5]);
+    expect(getTransactionCount).toHaveBeenCalledTimes(1);
+  });
+
+  it('fills a gap the node lost by rebroadcasting what was signed for it', async () => {
+    pendingCount = 5;
+    persistNonce(7);
+    const raw5 = await recordUnmined(5);
+    const raw6 = await recordUnmined(6);
+
+    const sent = await send();
+
+    expect(sent.nonce).toBe(7);
+    expect(broadcast.mock.calls.map(([raw]) => raw as string)).toEqual([
+      raw5,
+      raw6,
+      expect.any(String),
+    ]);
+    expect(nextNonce()).toBe(8);
+  });
+
+  it('counts a rebroadcast the node refuses as already used as filled', async () => {
+    pendingCount = 5;
+    persistNonce(6);
+    await recordUnmined(5);
+    broadcast.mockRejectedValueOnce(
+      ethers.makeError('nonce too low', 'NONCE_EXPIRED', { transaction: {} }),
+    );
+
+    const sent = await send();
+
+    expect(sent.nonce).toBe(6);
+  });
+
+  it('reuses a nonce it has nothing signed for, rather than leaving a gap', async () => {
+    pendingCount = 5;
+    persistNonce(7);
+
+    const sent = await send();
+
+    expect(sent.nonce).toBe(5);
+    expect(nextNonce()).toBe(6);
+  });
+
+  it('stops filling at a rebroadcast that fails for another reason', async () => {
+    pendingCount = 5;
+    persistNonce(7);
+    await recordUnmined(5);
+    await recordUnmined(6);
+    broadcast.mockRejectedValueOnce(
+      ethers.makeError('insufficient funds', 'INSUFFICIENT_FUNDS', {
+        transaction: {},
+      }),
+    );
+
+    const sent = await send();
+
+    expect(sent.nonce).toBe(5);
+  });
+
+  it('resyncs past a nonce the node refuses as already used', async () => {
+    pendingCount = 3;
+    broadcast.mockRejectedValueOnce(
+      ethers.makeError('nonce too low', 'NONCE_EXPIRED', { transaction: {} }),
+    );
+
+    const sent = await send();
+
+    expect(sent.nonce).toBe(4);
+    const statuses = (db.rows('transactions') as Partial<Transaction>[]).map(
+      ({ nonce, status }) => [nonce, status],
+    );
+    expect(statuses).toEqual([
+      [3, 'failed'],
+      [4, 'sent'],
+    ]);
+    expect(nextNonce()).toBe(5);
+  });
+});
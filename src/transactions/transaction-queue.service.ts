@@ -0,0 +1,974 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { Cron } from '@nestjs/schedule';
+import { ethers } from 'ethers';
+import { SupabaseService } from '../supabase/supabase.service';
+import { DeploymentRegistry } from '../web3/providers/deployment.registry';
+import {
+  GasDecision,
+  GasFeeCeilingError,
+  GasPolicyService,
+  PricedTransaction,
+} from './gas-policy.service';
+
+/**
+ * sending: nonce assigned and signed, being broadcast
+ * sent: broadcast, not mined yet, or mined in a block that was reorganized away
+ * mined: in a block, waiting for its confirmations
+ * confirmed / reverted: mined and confirmed
+ * failed: refused by the node, so its nonce was never used
+ * refused: not sent because the chain's fees were above the gas policy's ceiling
+ * dropped: its nonce was used by a transaction the backend did not send
+ */
+export type TransactionStatus =
+  | 'sending'
+  | 'sent'
+  | 'mined'
+  | 'confirmed'
+  | 'reverted'
+  | 'failed'
+  | 'refused'
+  | 'dropped';
+
+export const TRANSACTION_STATUSES: TransactionStatus[] = [
+  'sending',
+  'sent',
+  'mined',
+  'confirmed',
+  'reverted',
+  'failed',
+  'refused',
+  'dropped',
+];
+
+/** What a transaction was sent for */
+export type TransactionPurpose =
+  | 'mint'
+  | 'burn'
+  | 'batch_mint'
+  | 'batch_burn'
+  | 'withdraw_usdc'
+  | 'register_identity';
+
+export const TRANSACTION_PURPOSES: TransactionPurpose[] = [
+  'mint',
+  'burn',
+  'batch_mint',
+  'batch_burn',
+  'withdraw_usdc',
+  'register_identity',
+];
+
+// Why a transaction is sent, recorded with it
+export interface TransactionContext {
+  purpose: TransactionPurpose;
+  // The order it was sent for, or the batch for batch mints and burns
+  orderId?: string;
+  batchId?: string;
+}
+
+// Row shape of the transactions table: one row per nonce the backend signed for, replacements included
+export interface Transaction {
+  id: string;
+  chain_id: number;
+  purpose: TransactionPurpose;
+  order_id: string | null;
+  batch_id: string | null;
+  signer_address: string;
+  // Null when refused before a nonce was assigned
+  nonce: number | null;
+  to_address: string | null;
+  data: string;
+  // Wei amounts; the numeric columns are read as text so no precision is lost in JSON
+  value: string;
+  gas_limit: string | null;
+  max_fee_per_gas: string | null;
+  max_priority_fee_per_gas: string | null;
+  gas_price: string | null;
+  // Hash of the latest broadcast, earlier broadcasts for the same nonce are in replaced_hashes; null when refused
+  tx_hash: string | null;
+  replaced_hashes: string[];
+  // Signed transaction, rebroadcast when the node lost it; null when refused
+  raw_transaction: string | null;
+  // What the gas policy decided for the transaction: its limit, fees, caps, refusals and replacements
+  gas_decisions: GasDecision[];
+  status: TransactionStatus;
+  // Set once mined; cleared when its block is reorganized away
+  block_number: number | null;
+  block_hash: string | null;
+  gas_used: string | null;
+  effective_gas_price: string | null;
+  // Decoded from a replay of the call when it reverted, when the contract gave one
+  revert_reason: string | null;
+  error: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+// Row shape of the signer_nonces table, unique on (chain_id, address)
+interface SignerNonce {
+  chain_id: number;
+  address: string;
+  next_nonce: number;
+  updated_at: string;
+}
+
+/** A transaction broadcast through the queue, to be waited for with waitForReceipt */
+export interface SentTransaction {
+  id: string;
+  chainId: number;
+  signer: ethers.Signer;
+  // The signed request, nonce and fees included
+  request: ethers.TransactionRequest;
+  nonce: number;
+  // Every hash broadcast for the nonce, the latest last
+  hashes: string[];
+  gasDecisions: GasDecision[];
+}
+
+/**
+ * Thrown when a transaction was mined but reverted. Its nonce is used, but nothing else changed on-chain.
+ */
+export class TransactionRevertedError extends Error {
+  constructor(
+    readonly txHash: string,
+    readonly reason: string | null,
+    message: string,
+  ) {
+    super(message);
+    this.name = 'TransactionRevertedError';
+  }
+}
+
+export const TRANSACTION_COLUMNS =
+  'id, chain_id, purpose, order_id, batch_id, signer_address, nonce, to_address, data, value::text, gas_limit::text, max_fee_per_gas::text, max_priority_fee_per_gas::text, gas_price::text, tx_hash, replaced_hashes, raw_transaction, gas_decisions, status, block_number, block_hash, gas_used::text, effective_gas_price::text, revert_reason, error, created_at, updated_at';
+
+// Where a transaction stands on-chain
+type Observation =
+  | { state: 'pending' }
+  | {
+      state: 'mined';
+      receipt: ethers.TransactionReceipt;
+      confirmations: number;
+    }
+  | { state: 'dropped' };
+
+// What is needed to look a transaction up on-chain, from memory or from its record
+interface Tracked {
+  chainId: number;
+  address: string;
+  nonce: number;
+  hashes: string[];
+}
+
+// Broadcasts refused because the nonce is already used, by a mined or a pending transaction
+const NONCE_CONFLICT_CODES: ethers.ErrorCode[] = [
+  'NONCE_EXPIRED',
+  'REPLACEMENT_UNDERPRICED',
+];
+
+// Broadcast failures after which the node may still have taken the transaction
+const AMBIGUOUS_BROADCAST_CODES: ethers.ErrorCode[] = [
+  'NETWORK_ERROR',
+  'TIMEOUT',
+  'SERVER_ERROR',
+];
+
+const MAX_NONCE_CONFLICTS = 3;
+
+// Transactions reconciled per run
+const RECONCILE_BATCH_SIZE = 50;
+
+/**
+ * Sends the backend's transactions one signer at a time. Nonces are assigned locally, persisted in signer_nonces
+ * and resynced against the node's pending transaction count on first use and whenever the node refuses one;
+ * transactions are priced by the chain's gas policy, and those not mined within TX_STUCK_TIMEOUT_MS are replaced
+ * with the fees it bumps them to. They settle once TX_CONFIRMATIONS blocks deep (the deployment's confirmations
+ * by default); transactions nobody is waiting for, such as those sent before a restart, are reconciled every minute.
+ */
+@Injectable()
+export class TransactionQueueService {
+  private readonly logger = new Logger(TransactionQueueService.name);
+  private readonly stuckTimeoutMs: number;
+  private readonly maxReplacements: number;
+  private readonly pollIntervalMs: number;
+  private readonly confirmations?: number;
+  private readonly enabled: boolean;
+  private isReconciling = false;
+  // Records being waited for in this process, left alone by the reconciliation
+  private readonly watching = new Set<string>();
+  // Tail of the outbound queue of each signer, keyed by chain and address
+  private readonly queues = new Map<string, Promise<void>>();
+  // Next nonce of each signer, keyed by chain and address; missing until resynced
+  private readonly nonces = new Map<string, number>();
+
+  constructor(
+    private readonly config: ConfigService,
+    private readonly supabaseService: SupabaseService,
+    private readonly deploymentRegistry: DeploymentRegistry,
+    private readonly gasPolicy: GasPolicyService,
+  ) {
+    this.stuckTimeoutMs = Number(
+      this.config.get<string>('TX_STUCK_TIMEOUT_MS') ?? 120000,
+    );
+    this.maxReplacements = Number(
+      this.config.get<string>('TX_MAX_REPLACEMENTS') ?? 3,
+    );
+    this.pollIntervalMs = Number(
+      this.config.get<string>('TX_RECEIPT_POLL_INTERVAL_MS') ?? 3000,
+    );
+    const confirmations = this.config.get<string>('TX_CONFIRMATIONS');
+    this.confirmations = confirmations ? Number(confirmations) : undefined;
+    // Reconciled next to the live listener only, not in one-off processes such as the backfill CLI
+    this.enabled =
+      this.config.get<string>('EVENT_LISTENER_ENABLED') !== 'false';
+  }
+
+  /**
+   * Price a transaction with the chain's gas policy, then sign and broadcast it with the signer's next nonce.
+   * Transactions of one signer on one chain are sent one after the other, in the order they were queued;
+   * waiting for them is not serialized.
+   * @param chainId - The chain to send on
+   * @param signer - The signer of the transaction
+   * @param request - The transaction, without nonce or fees
+   * @param context - What it is sent for, recorded with it
+   * @returns The broadcast transaction
+   * @throws GasFeeCeilingError if the chain's fees are above the ceiling; the refusal is recorded
+   * @throws Error if the gas estimate reverted or the node refused the transaction; its nonce is then left for the next one
+   */
+  async send(
+    chainId: number,
+    signer: ethers.Signer,
+    request: ethers.TransactionRequest,
+    context: TransactionContext,
+  ): Promise<SentTransaction> {
+    const address = (await signer.getAddress()).toLowerCase();
+    let priced: PricedTransaction;
+    try {
+      priced = await this.gasPolicy.price(chainId, request, address);
+    } catch (error) {
+      if (error instanceof GasFeeCeilingError) {
+        this.logger.warn(
+          `Not sending from ${address} on chain ${chainId}: ${error.message}`,
+        );
+        await this.insert(chainId, address, request, context, {
+          status: 'refused',
+          gas_decisions: error.decisions,
+          error: error.message,
+        }).catch(() => undefined); // Logged by insert; the refusal is thrown either way
+      }
+      throw error;
+    }
+
+    return this.enqueue(`${chainId}:${address}`, () =>
+      this.broadcastNext(chainId, address, signer, priced, context),
+    );
+  }
+
+  /**
+   * Wait until a transaction, or one of its replacements, is mined and confirmed. A transaction still unmined after
+   * TX_STUCK_TIMEOUT_MS is re-signed with the same nonce and higher fees, at most TX_MAX_REPLACEMENTS times;
+   * one whose block is reorganized away goes back to waiting.
+   * @param sent - The transaction returned by send
+   * @returns The receipt of the mined transaction, once it has its confirmations
+   * @throws TransactionRevertedError if it reverted
+   * @throws Error if its nonce was used by another transaction, or it was still not mined after the last replacement
+   */
+  async waitForReceipt(
+    sent: SentTransaction,
+  ): Promise<ethers.TransactionReceipt> {
+    const address = await sent.signer.getAddress();
+    const required = this.getConfirmations(sent.chainId);
+    let deadline = Date.now() + this.stuckTimeoutMs;
+    let replacements = 0;
+    let minedIn: string | null = null;
+
+    this.watching.add(sent.id);
+    try {
+      for (;;) {
+        const observation = await this.observe({
+          chainId: sent.chainId,
+          address,
+          nonce: sent.nonce,
+          hashes: sent.hashes,
+        });
+
+        if (observation.state === 'mined') {
+          const { receipt, confirmations } = observation;
+          if (confirmations >= required) {
+            return await this.settle(sent.id, sent.chainId, receipt);
+          }
+          if (receipt.blockHash !== minedIn) {
+            minedIn = receipt.blockHash;
+            await this.recordMined(sent.id, receipt);
+          }
+        } else if (observation.state === 'dropped') {
+          const message = `Nonce ${sent.nonce} of ${address} on chain ${sent.chainId} was used by another transaction; ${this.latestHash(sent)} was dropped`;
+          await this.update(sent.id, { status: 'dropped', error: message });
+          throw new Error(message);
+        } else {
+          if (minedIn !== null) {
+            this.logger.warn(
+              `Block ${minedIn} of ${this.latestHash(sent)} was reorganized away; waiting for it to be mined again`,
+            );
+            minedIn = null;
+            deadline = Date.now() + this.stuckTimeoutMs;
+            await this.recordUnmined(sent.id);
+          }
+          if (Date.now() >= deadline) {
+            if (replacements >= this.maxReplacements) {
+              throw new Error(
+                `Transaction ${this.latestHash(sent)} was not mined after ${replacements} replacements`,
+              );
+            }
+            await this.replace(sent);
+            replacements++;
+            deadline = Date.now() + this.stuckTimeoutMs;
+          }
+        }
+
+        await new Promise((resolve) =>
+          setTimeout(resolve, this.pollIntervalMs),
+        );
+      }
+    } finally {
+      this.watching.delete(sent.id);
+    }
+  }
+
+  /**
+   * Bring the records of transactions nobody in this process is waiting for up to date with the chain:
+   * settle those mined deep enough, and mark those whose nonce another transaction used as dropped.
+   * Nothing is replaced or rebroadcast here; that is left to the next send of their signer.
+   */
+  @Cron('* * * * *')
+  async reconcile() {
+    if (!this.enabled || this.isReconciling) {
+      return;
+    }
+    this.isReconciling = true;
+
+    try {
+      const { data, error } = await this.supabaseService
+        .getClient()
+        .from('transactions')
+        .select(TRANSACTION_COLUMNS)
+        .in('status', ['sending', 'sent', 'mined'])
+        .not('nonce', 'is', null)
+        .order('updated_at', { ascending: true })
+        .limit(RECONCILE_BATCH_SIZE)
+        .returns<Transaction[]>();
+
+      if (error) {
+        this.logger.error('Error listing unsettled transactions:', error);
+        return;
+      }
+
+      for (const record of data ?? []) {
+        if (this.watching.has(record.id)) {
+          continue;
+        }
+        try {
+          await this.reconcileRecord(record);
+        } catch (reconcileError) {
+          this.logger.warn(
+            `Could not reconcile transaction ${record.tx_hash} on chain ${record.chain_id}:`,
+            reconcileError,
+          );
+        }
+      }
+    } finally {
+      this.isReconciling = false;
+    }
+  }
+
+  /**
+   * Run a task after the tasks queued before it for the same key, whether they succeeded or not
+   */
+  private enqueue<T>(key: string, task: () => Promise<T>): Promise<T> {
+    const result = (this.queues.get(key) ?? Promise.resolve()).then(task);
+    const tail = result.then(
+      () => undefined,
+      () => undefined,
+    );
+    this.queues.set(key, tail);
+    void tail.then(() => {
+      if (this.queues.get(key) === tail) {
+        this.queues.delete(key);
+      }
+    });
+    return result;
+  }
+
+  private async broadcastNext(
+    chainId: number,
+    address: string,
+    signer: ethers.Signer,
+    { request, decisions }: PricedTransaction,
+    context: TransactionContext,
+  ): Promise<SentTransaction> {
+    const { httpProvider } = this.deploymentRegistry.getDeployment(chainId);
+    const key = `${chainId}:${address}`;
+
+    for (let conflicts = 0; ; conflicts++) {
+      const nonce =
+        this.nonces.get(key) ??
+        (await this.resync(chainId, address, httpProvider));
+      const populated = await signer.populateTransaction({
+        ...request,
+        chainId,
+        nonce,
+      });
+      const raw = await signer.signTransaction(populated);
+      const hash = ethers.keccak256(raw);
+      const record = await this.insert(chainId, address, populated, context, {
+        tx_hash: hash,
+        raw_transaction: raw,
+        gas_decisions: decisions,
+        status: 'sending',
+      });
+
+      try {
+        await httpProvider.broadcastTransaction(raw);
+      } catch (error) {
+        if (!this.isAmbiguous(error)) {
+          const message =
+            error instanceof Error ? error.message : String(error);
+          await this.update(record.id, { status: 'failed', error: message });
+          if (this.isNonceConflict(error) && conflicts < MAX_NONCE_CONFLICTS) {
+            this.logger.warn(
+              `Nonce ${nonce} of ${address} on chain ${chainId} is already used; resyncing`,
+            );
+            await this.resync(chainId, address, httpProvider, nonce);
+            continue;
+          }
+          throw error;
+        }
+        // The node may have taken it; waiting rebroadcasts it if not
+        this.logger.warn(
+          `Broadcast of ${hash} by ${address} on chain ${chainId} is unconfirmed:`,
+          error,
+        );
+      }
+
+      await this.setNextNonce(chainId, address, nonce + 1);
+      await this.update(record.id, { status: 'sent' });
+      this.logger.log(
+        `Sent ${hash} from ${address} with nonce ${nonce} on chain ${chainId}`,
+      );
+      return {
+        id: record.id,
+        chainId,
+        signer,
+        request: populated,
+        nonce,
+        hashes: [hash],
+        gasDecisions: decisions,
+      };
+    }
+  }
+
+  /**
+   * Resync the next nonce of a signer with the node. Nonces the backend assigned but the node does not know
+   * are filled by rebroadcasting what was signed for them, so later transactions are not stuck behind a gap.
+   * @param taken - A nonce the node refused as already used, when resyncing after a conflict
+   * @returns The next nonce
+   */
+  private async resync(
+    chainId: number,
+    address: string,
+    provider: ethers.JsonRpcProvider,
+    taken?: number,
+  ): Promise<number> {
+    const [pending, persisted] = await Promise.all([
+      provider.getTransactionCount(address, 'pending'),
+      this.getPersistedNonce(chainId, address),
+    ]);
+
+    let next = pending;
+    while (persisted !== null && next < persisted) {
+      const record = await this.findUnmined(chainId, address, next);
+      if (!record?.raw_transaction) {
+        break;
+      }
+      try {
+        await provider.broadcastTransaction(record.raw_transaction);
+        this.logger.warn(
+          `Rebroadcast ${record.tx_hash} for nonce ${next} of ${address} on chain ${chainId}`,
+        );
+      } catch (error) {
+        if (!this.isNonceConflict(error)) {
+          this.logger.warn(
+            `Could not rebroadcast ${record.tx_hash} for nonce ${next} of ${address} on chain ${chainId}:`,
+            error,
+          );
+          break;
+        }
+      }
+      next++;
+    }
+    if (taken !== undefined && next <= taken) {
+      next = taken + 1;
+    }
+
+    if (next !== persisted) {
+      this.logger.log(
+        `Resynced nonce of ${address} on chain ${chainId}: ${persisted ?? 'none'} persisted, ${pending} pending, using ${next}`,
+      );
+    }
+    await this.setNextNonce(chainId, address, next);
+    return next;
+  }
+
+  /**
+   * Re-sign a stuck transaction with the same nonce and the fees the gas policy bumps it to.
+   * When the policy's caps leave no room for a replacement, the transaction is left to be mined as it is.
+   */
+  private async replace(sent: SentTransaction): Promise<void> {
+    const { httpProvider } = this.deploymentRegistry.getDeployment(
+      sent.chainId,
+    );
+    const { request, decisions } = await this.gasPolicy.bump(
+      sent.chainId,
+      sent.request,
+    );
+    sent.gasDecisions.push(...decisions);
+    if (!request) {
+      this.logger.warn(
+        `Stuck transaction ${this.latestHash(sent)} not replaced: ${decisions.map(({ decision }) => decision).join('; ')}`,
+      );
+      await this.update(sent.id, { gas_decisions: sent.gasDecisions });
+      return;
+    }
+
+    const raw = await sent.signer.signTransaction(request);
+    const hash = ethers.keccak256(raw);
+    try {
+      await httpProvider.broadcastTransaction(raw);
+    } catch (error) {
+      if (this.isNonceConflict(error)) {
+        // Mined meanwhile, or the node wants more; the next poll tells which
+        this.logger.warn(
+          `Replacement of ${this.latestHash(sent)} was refused:`,
+          error,
+        );
+        await this.update(sent.id, { gas_decisions: sent.gasDecisions });
+        return;
+      }
+      if (!this.isAmbiguous(error)) {
+        throw error;
+      }
+    }
+
+    this.logger.warn(
+      `Replaced stuck transaction ${this.latestHash(sent)} with ${hash} (nonce ${sent.nonce}, chain ${sent.chainId})`,
+    );
+    const replaced = [...sent.hashes];
+    sent.request = request;
+    sent.hashes.push(hash);
+    await this.update(sent.id, {
+      tx_hash: hash,
+      replaced_hashes: replaced,
+      raw_transaction: raw,
+      gas_decisions: sent.gasDecisions,
+      ...this.toFees(request),
+    });
+  }
+
+  private async reconcileRecord(record: Transaction): Promise<void> {
+    if (!record.tx_hash || record.nonce === null) {
+      return;
+    }
+    const observation = await this.observe({
+      chainId: record.chain_id,
+      address: record.signer_address,
+      nonce: record.nonce,
+      hashes: [...record.replaced_hashes, record.tx_hash],
+    });
+
+    if (observation.state === 'mined') {
+      const { receipt, confirmations } = observation;
+      if (confirmations >= this.getConfirmations(record.chain_id)) {
+        await this.settle(record.id, record.chain_id, receipt).catch(
+          (error) => {
+            if (!(error instanceof TransactionRevertedError)) {
+              throw error;
+            }
+          },
+        );
+      } else if (receipt.blockHash !== record.block_hash) {
+        await this.recordMined(record.id, receipt);
+      } else {
+        // Touched so the oldest records do not starve the others
+        await this.update(record.id, {});
+      }
+      return;
+    }
+    if (observation.state === 'dropped') {
+      await this.update(record.id, {
+        status: 'dropped',
+        error: `Nonce ${record.nonce} of ${record.signer_address} on chain ${record.chain_id} was used by another transaction; ${record.tx_hash} was dropped`,
+      });
+      this.logger.warn(`Transaction ${record.tx_hash} was dropped`);
+      return;
+    }
+    if (record.status === 'mined') {
+      this.logger.warn(
+        `Block ${record.block_hash} of ${record.tx_hash} was reorganized away`,
+      );
+      await this.recordUnmined(record.id);
+      return;
+    }
+    await this.update(record.id, {});
+  }
+
+  /**
+   * Look up a transaction on-chain: mined, with its confirmations, by any of its hashes; dropped when its nonce
+   * was used by another transaction; pending otherwise
+   */
+  private async observe(tracked: Tracked): Promise<Observation> {
+    const { httpProvider } = this.deploymentRegistry.getDeployment(
+      tracked.chainId,
+    );
+    const receipt = await this.findReceipt(httpProvider, tracked.hashes);
+    if (receipt) {
+      return this.toMined(httpProvider, receipt);
+    }
+
+    const latestNonce = await httpProvider.getTransactionCount(
+      tracked.address,
+      'latest',
+    );
+    if (latestNonce <= tracked.nonce) {
+      return { state: 'pending' };
+    }
+    // One of ours may have been mined between the two reads
+    const minedReceipt = await this.findReceipt(httpProvider, tracked.hashes);
+    return minedReceipt
+      ? this.toMined(httpProvider, minedReceipt)
+      : { state: 'dropped' };
+  }
+
+  private async toMined(
+    provider: ethers.JsonRpcProvider,
+    receipt: ethers.TransactionReceipt,
+  ): Promise<Observation> {
+    const head = await provider.getBlockNumber();
+    return {
+      state: 'mined',
+      receipt,
+      confirmations: Math.max(head - receipt.blockNumber + 1, 0),
+    };
+  }
+
+  /**
+   * Confirmations a transaction needs before it settles: TX_CONFIRMATIONS, or the deployment's confirmations
+   */
+  private getConfirmations(chainId: number): number {
+    return (
+      this.confirmations ??
+      this.deploymentRegistry.getDeployment(chainId).confirmations
+    );
+  }
+
+  private async findReceipt(
+    provider: ethers.JsonRpcProvider,
+    hashes: string[],
+  ): Promise<ethers.TransactionReceipt | null> {
+    for (const hash of hashes) {
+      const receipt = await provider.getTransactionReceipt(hash);
+      if (receipt) {
+        return receipt;
+      }
+    }
+    return null;
+  }
+
+  private async settle(
+    id: string,
+    chainId: number,
+    receipt: ethers.TransactionReceipt,
+  ): Promise<ethers.TransactionReceipt> {
+    const reverted = receipt.status !== 1;
+    const revertReason = reverted
+      ? await this.getRevertReason(chainId, receipt)
+      : null;
+    await this.update(id, {
+      ...this.toMinedFields(receipt),
+      status: reverted ? 'reverted' : 'confirmed',
+      revert_reason: revertReason,
+      error: reverted ? `Reverted in block ${receipt.blockNumber}` : null,
+    });
+    if (reverted) {
+      throw new TransactionRevertedError(
+        receipt.hash,
+        revertReason,
+        `Transaction ${receipt.hash} reverted in block ${receipt.blockNumber}${revertReason ? `: ${revertReason}` : ''}`,
+      );
+    }
+    return receipt;
+  }
+
+  private async recordMined(
+    id: string,
+    receipt: ethers.TransactionReceipt,
+  ): Promise<void> {
+    await this.update(id, { ...this.toMinedFields(receipt), status: 'mined' });
+  }
+
+  private async recordUnmined(id: string): Promise<void> {
+    await this.update(id, {
+      status: 'sent',
+      block_number: null,
+      block_hash: null,
+      gas_used: null,
+      effective_gas_price: null,
+    });
+  }
+
+  private toMinedFields(
+    receipt: ethers.TransactionReceipt,
+  ): Pick<
+    Transaction,
+    | 'tx_hash'
+    | 'block_number'
+    | 'block_hash'
+    | 'gas_used'
+    | 'effective_gas_price'
+  > {
+    return {
+      tx_hash: receipt.hash,
+      block_number: receipt.blockNumber,
+      block_hash: receipt.blockHash,
+      gas_used: receipt.gasUsed.toString(),
+      effective_gas_price: receipt.gasPrice.toString(),
+    };
+  }
+
+  /**
+   * Replay a reverted transaction as a call on the state before its block, to read the reason it reverted with.
+   * Transactions earlier in the block are not replayed, so the reason is a best effort.
+   * @returns The reason, or null when the call does not revert or gives none
+   */
+  private async getRevertReason(
+    chainId: number,
+    receipt: ethers.TransactionReceipt,
+  ): Promise<string | null> {
+    const { httpProvider } = this.deploymentRegistry.getDeployment(chainId);
+    try {
+      const tx = await httpProvider.getTransaction(receipt.hash);
+      if (!tx) {
+        return null;
+      }
+      await httpProvider.call({
+        from: tx.from,
+        to: tx.to,
+        data: tx.data,
+        value: tx.value,
+        gasLimit: tx.gasLimit,
+        blockTag: receipt.blockNumber - 1,
+      });
+      return null;
+    } catch (error) {
+      if (ethers.isError(error, 'CALL_EXCEPTION')) {
+        return error.reason ?? error.shortMessage;
+      }
+      this.logger.warn(
+        `Could not read the revert reason of ${receipt.hash}:`,
+        error,
+      );
+      return null;
+    }
+  }
+
+  private latestHash(sent: SentTransaction): string {
+    return sent.hashes[sent.hashes.length - 1];
+  }
+
+  private isNonceConflict(error: unknown): boolean {
+    return NONCE_CONFLICT_CODES.some((code) => ethers.isError(error, code));
+  }
+
+  private isAmbiguous(error: unknown): boolean {
+    return AMBIGUOUS_BROADCAST_CODES.some((code) =>
+      ethers.isError(error, code),
+    );
+  }
+
+  private toFees(
+    request: ethers.TransactionRequest,
+  ): Pick<
+    Transaction,
+    'max_fee_per_gas' | 'max_priority_fee_per_gas' | 'gas_price'
+  > {
+    return {
+      max_fee_per_gas: this.toText(request.maxFeePerGas),
+      max_priority_fee_per_gas: this.toText(request.maxPriorityFeePerGas),
+      gas_price: this.toText(request.gasPrice),
+    };
+  }
+
+  private toText(value: ethers.BigNumberish | null | undefined): string | null {
+    return value == null ? null : ethers.toBigInt(value).toString();
+  }
+
+  private async insert(
+    chainId: number,
+    address: string,
+    request: ethers.TransactionRequest,
+    context: TransactionContext,
+    outcome: Pick<Transaction, 'status' | 'gas_decisions'> &
+      Partial<Pick<Transaction, 'tx_hash' | 'raw_transaction' | 'error'>>,
+  ): Promise<Transaction> {
+    const now = new Date().toISOString();
+    const { data, error } = await this.supabaseService
+      .getClient()
+      .from('transactions')
+      .insert({
+        chain_id: chainId,
+        purpose: context.purpose,
+        order_id: context.orderId ?? null,
+        batch_id: context.batchId ?? null,
+        signer_address: address,
+        nonce: request.nonce ?? null,
+        to_address:
+          typeof request.to === 'string' ? request.to.toLowerCase() : null,
+        data: request.data ?? '0x',
+        value: this.toText(request.value) ?? '0',
+        gas_limit: this.toText(request.gasLimit),
+        ...this.toFees(request),
+        tx_hash: null,
+        raw_transaction: null,
+        error: null,
+        ...outcome,
+        replaced_hashes: [],
+        created_at: now,
+        updated_at: now,
+      })
+      .select(TRANSACTION_COLUMNS)
+      .single<Transaction>();
+
+    if (error) {
+      this.logger.error(
+        `Error recording a transaction of ${address} on chain ${chainId}:`,
+        error,
+      );
+      throw error;
+    }
+
+    return data;
+  }
+
+  // The transaction is already broadcast, so a failure to record it is logged rather than thrown
+  private async update(
+    id: string,
+    changes: Partial<
+      Pick<
+        Transaction,
+        | 'status'
+        | 'error'
+        | 'tx_hash'
+        | 'replaced_hashes'
+        | 'raw_transaction'
+        | 'gas_decisions'
+        | 'max_fee_per_gas'
+        | 'max_priority_fee_per_gas'
+        | 'gas_price'
+        | 'block_number'
+        | 'block_hash'
+        | 'gas_used'
+        | 'effective_gas_price'
+        | 'revert_reason'
+      >
+    >,
+  ): Promise<void> {
+    const { error } = await this.supabaseService
+      .getClient()
+      .from('transactions')
+      .update({ ...changes, updated_at: new Date().toISOString() })
+      .eq('id', id);
+
+    if (error) {
+      this.logger.error(`Error updating transaction ${id}:`, error);
+    }
+  }
+
+  private async findUnmined(
+    chainId: number,
+    address: string,
+    nonce: number,
+  ): Promise<Transaction | null> {
+    const { data, error } = await this.supabaseService
+      .getClient()
+      .from('transactions')
+      .select(TRANSACTION_COLUMNS)
+      .eq('chain_id', chainId)
+      .eq('signer_address', address)
+      .eq('nonce', nonce)
+      .in('status', ['sending', 'sent'])
+      .order('created_at', { ascending: false })
+      .limit(1)
+      .maybeSingle<Transaction>();
+
+    if (error) {
+      this.logger.error(
+        `Error reading nonce ${nonce} of ${address} on chain ${chainId}:`,
+        error,
+      );
+      throw error;
+    }
+
+    return data;
+  }
+
+  private async getPersistedNonce(
+    chainId: number,
+    address: string,
+  ): Promise<number | null> {
+    const { data, error } = await this.supabaseService
+      .getClient()
+      .from('signer_nonces')
+      .select('*')
+      .eq('chain_id', chainId)
+      .eq('address', address)
+      .maybeSingle<SignerNonce>();
+
+    if (error) {
+      this.logger.error(
+        `Error reading the nonce of ${address} on chain ${chainId}:`,
+        error,
+      );
+      throw error;
+    }
+
+    return data?.next_nonce ?? null;
+  }
+
+  private async setNextNonce(
+    chainId: number,
+    address: string,
+    nextNonce: number,
+  ): Promise<void> {
+    this.nonces.set(`${chainId}:${address}`, nextNonce);
+    const { error } = await this.supabaseService
+      .getClient()
+      .from('signer_nonces')
+      .upsert(
+        {
+          chain_id: chainId,
+          address,
+          next_nonce: nextNonce,
+          updated_at: new Date().toISOString(),
+        },
+        { onConflict: 'chain_id,address' },
+      );
+
+    // The nonce is kept in memory; it is resynced with the node on the next start
+    if (error) {
+      this.logger.error(
+        `Error persisting the nonce of ${address} on chain ${chainId}:`,
+        error,
+      );
+    }
+  }
+}
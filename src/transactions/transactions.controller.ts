@@ -0,0 +1,114 @@
+import {
+  BadRequestException,
+  Controller,
+  Get,
+  HttpCode,
+  HttpStatus,
+  Param,
+  Query,
+} from '@nestjs/common';
+import {
+  ApiOperation,
+  ApiParam,
+  ApiResponse,
+  ApiSecurity,
+  ApiTags,
+} from '@nestjs/swagger';
+import { ethers } from 'ethers';
+import {
+  TransactionsService,
+  toTransactionResponse,
+} from './transactions.service';
+import { TransactionResponse } from '../shared/models/transaction-response.model';
+import { TransactionQueryDto } from '../shared/models/transaction-query.dto';
+
+@ApiTags('transactions')
+@ApiSecurity('api-key')
+@Controller('transactions')
+export class TransactionsController {
+  constructor(private readonly transactionsService: TransactionsService) {}
+
+  /**
+   * List the transactions the backend sent
+   * @param query - Optional chain, purpose, status, order, batch, signer and date filters
+   * @returns Promise with matching transactions, newest first
+   */
+  @Get()
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({
+    summary: 'List transactions',
+    description:
+      'Lists the transactions the backend signed (mints, burns, batch mints and burns, USDC withdrawals and identity registrations) with their purpose, order, signer, nonce, fees, status, block, gas used and revert reason.',
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Transactions retrieved successfully',
+    type: [TransactionResponse],
+  })
+  @ApiResponse({
+    status: 401,
+    description: 'Unauthorized - Invalid or missing API key',
+  })
+  async listTransactions(
+    @Query() query: TransactionQueryDto,
+  ): Promise<TransactionResponse[]> {
+    const transactions = await this.transactionsService.findTransactions({
+      chainId: query.chainId,
+      purpose: query.purpose,
+      status: query.status,
+      orderId: query.orderId,
+      batchId: query.batchId,
+      signerAddress: query.signer,
+      from: query.from,
+      to: query.to,
+      limit: query.limit,
+    });
+    return transactions.map(toTransactionResponse);
+  }
+
+  /**
+   * Get a transaction the backend sent
+   * @param hash - Its hash, or the hash of a broadcast it replaced
+   */
+  @Get(':hash')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({
+    summary: 'Get a transaction',
+    description:
+      'Returns a transaction the backend sent, also when looked up by the hash of a broadcast that was replaced with higher fees.',
+  })
+  @ApiParam({
+    name: 'hash',
+    description: 'The transaction hash',
+    example:
+      '0x4e3a3754410177e6937ef1f84bba68ea139e8d1a2258c5f85db9f1cd715a1bdd',
+    type: String,
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Transaction retrieved successfully',
+    type: TransactionResponse,
+  })
+  @ApiResponse({
+    status: 400,
+    description: 'Not a transaction hash',
+  })
+  @ApiResponse({
+    status: 404,
+    description: 'The backend did not send this transaction',
+  })
+  @ApiResponse({
+    status: 401,
+    description: 'Unauthorized - Invalid or missing API key',
+  })
+  async getTransaction(
+    @Param('hash') hash: string,
+  ): Promise<TransactionResponse> {
+    if (!ethers.isHexString(hash, 32)) {
+      throw new BadRequestException(`${hash} is not a transaction hash`);
+    }
+    return toTransactionResponse(
+      await this.transactionsService.getByHash(hash),
+    );
+  }
+}
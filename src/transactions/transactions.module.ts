@@ -0,0 +1,15 @@
+import { Module } from '@nestjs/common';
+import { SupabaseModule } from '../supabase/supabase.module';
+import { ProviderFactory } from '../web3/providers/provider.factory';
+import { TransactionQueueService } from './transaction-queue.service';
+import { GasPolicyService } from './gas-policy.service';
+import { TransactionsService } from './transactions.service';
+import { TransactionsController } from './transactions.controller';
+
+@Module({
+  imports: [SupabaseModule, ProviderFactory],
+  providers: [TransactionQueueService, GasPolicyService, TransactionsService],
+  controllers: [TransactionsController],
+  exports: [TransactionQueueService, GasPolicyService],
+})
+export class TransactionsModule {}
@@ -0,0 +1,142 @@
+import { Injectable, Logger, NotFoundException } from '@nestjs/common';
+import { SupabaseService } from '../supabase/supabase.service';
+import { TransactionResponse } from '../shared/models/transaction-response.model';
+import {
+  TRANSACTION_COLUMNS,
+  Transaction,
+  TransactionPurpose,
+  TransactionStatus,
+} from './transaction-queue.service';
+
+export interface TransactionFilter {
+  chainId?: number;
+  purpose?: TransactionPurpose;
+  status?: TransactionStatus;
+  orderId?: string;
+  batchId?: string;
+  signerAddress?: string;
+  from?: string;
+  to?: string;
+  limit?: number;
+}
+
+@Injectable()
+export class TransactionsService {
+  private readonly logger = new Logger(TransactionsService.name);
+
+  constructor(private readonly supabaseService: SupabaseService) {}
+
+  /**
+   * Look up a transaction by its hash, or by the hash of a broadcast it replaced
+   * @param hash - The transaction hash
+   * @throws NotFoundException if the backend did not send it
+   */
+  async getByHash(hash: string): Promise<Transaction> {
+    const normalized = hash.toLowerCase();
+    const { data, error } = await this.supabaseService
+      .getClient()
+      .from('transactions')
+      .select(TRANSACTION_COLUMNS)
+      .or(`tx_hash.eq.${normalized},replaced_hashes.cs.{${normalized}}`)
+      .order('created_at', { ascending: false })
+      .limit(1)
+      .maybeSingle<Transaction>();
+
+    if (error) {
+      this.logger.error(`Error reading transaction ${hash}:`, error);
+      throw error;
+    }
+    if (!data) {
+      throw new NotFoundException(`Transaction ${hash} not found`);
+    }
+
+    return data;
+  }
+
+  /**
+   * List the transactions the backend sent, newest first
+   * @param filter - Optional chain, purpose, status, order, batch, signer and date filters
+   */
+  async findTransactions(filter: TransactionFilter): Promise<Transaction[]> {
+    let query = this.supabaseService
+      .getClient()
+      .from('transactions')
+      .select(TRANSACTION_COLUMNS);
+
+    if (filter.chainId !== undefined) {
+      query = query.eq('chain_id', filter.chainId);
+    }
+    if (filter.purpose) {
+      query = query.eq('purpose', filter.purpose);
+    }
+    if (filter.status) {
+      query = query.eq('status', filter.status);
+    }
+    if (filter.orderId) {
+      query = query.eq('order_id', filter.orderId);
+    }
+    if (filter.batchId) {
+      query = query.eq('batch_id', filter.batchId);
+    }
+    if (filter.signerAddress) {
+      query = query.eq('signer_address', filter.signerAddress.toLowerCase());
+    }
+    if (filter.from) {
+      query = query.gte('created_at', filter.from);
+    }
+    if (filter.to) {
+      query = query.lte('created_at', filter.to);
+    }
+
+    const { data, error } = await query
+      .order('created_at', { ascending: false })
+      .limit(filter.limit ?? 100)
+      .returns<Transaction[]>();
+
+    if (error) {
+      this.logger.error('Error listing transactions:', error);
+      throw error;
+    }
+
+    return data ?? [];
+  }
+}
+
+export function toTransactionResponse(
+  transaction: Transaction,
+): TransactionResponse {
+  const fee =
+    transaction.gas_used !== null && transaction.effective_gas_price !== null
+      ? (
+          BigInt(transaction.gas_used) * BigInt(transaction.effective_gas_price)
+        ).toString()
+      : null;
+  return {
+    id: transaction.id,
+    chainId: transaction.chain_id,
+    purpose: transaction.purpose,
+    orderId: transaction.order_id,
+    batchId: transaction.batch_id,
+    signerAddress: transaction.signer_address,
+    nonce: transaction.nonce,
+    toAddress: transaction.to_address,
+    value: transaction.value,
+    txHash: transaction.tx_hash,
+    replacedHashes: transaction.replaced_hashes,
+    status: transaction.status,
+    gasLimit: transaction.gas_limit,
+    maxFeePerGas: transaction.max_fee_per_gas,
+    maxPriorityFeePerGas: transaction.max_priority_fee_per_gas,
+    gasPrice: transaction.gas_price,
+    blockNumber: transaction.block_number,
+    blockHash: transaction.block_hash,
+    gasUsed: transaction.gas_used,
+    effectiveGasPrice: transaction.effective_gas_price,
+    fee,
+    revertReason: transaction.revert_reason,
+    error: transaction.error,
+    gasDecisions: transaction.gas_decisions,
+    createdAt: transaction.created_at,
+    updatedAt: transaction.updated_at,
+  };
+}
@@ -66,7 +66,8 @@ export class UserController {
         issueKycSignatureDto.onchainIDAddress,
         issueKycSignatureDto.claimData,
         issueKycSignatureDto.topic,
-        issueKycSignatureDto.countryCode
+        issueKycSignatureDto.countryCode,
+        issueKycSignatureDto.chainId
       );
     } catch (error) {
       throw new HttpException(
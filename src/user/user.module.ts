@@ -3,9 +3,11 @@ import { ConfigModule } from '@nestjs/config';
 import { UserController } from './user.controller';
 import { UserService } from './user.service';
 import { ProviderFactory } from '../web3/providers/provider.factory';
+import { TransactionsModule } from '../transactions/transactions.module';
+import { SignersModule } from '../signers/signers.module';
 
 @Module({
-  imports: [ConfigModule, ProviderFactory],
+  imports: [ConfigModule, ProviderFactory, TransactionsModule, SignersModule],
   controllers: [UserController],
   providers: [UserService]
 })
@@ -1,35 +1,33 @@
-import { Injectable, Logger, Inject } from '@nestjs/common';
-import { ConfigService } from '@nestjs/config';
+import { Injectable, Logger } from '@nestjs/common';
 import { ethers } from 'ethers';
 import { KycSignatureResponse } from '../shared/models/kyc-signature-response.model';
 import { IDENTITY_REGISTRY_CONTRACT } from '../shared/abi/IDENTITY_REGISTRY.abi';
-import { WEB3_HTTP } from '../web3/providers/provider.factory';
+import { DeploymentRegistry } from '../web3/providers/deployment.registry';
+import { TransactionQueueService } from '../transactions/transaction-queue.service';
+import { SignerRegistry } from '../signers/signer.registry';
 
 @Injectable()
 export class UserService {
   private readonly logger = new Logger(UserService.name);
-  private readonly identityRegistryAddress: string;
 
   constructor(
-    private config: ConfigService,
-    @Inject(WEB3_HTTP) private provider: ethers.JsonRpcProvider
-  ) {
-    const registryAddress = this.config.get<string>('IDENTITY_REGISTRY_ADDRESS');
-    if (!registryAddress) {
-      throw new Error('IDENTITY_REGISTRY_ADDRESS not configured');
-    }
-    this.identityRegistryAddress = registryAddress;
-  }
+    private readonly signerRegistry: SignerRegistry,
+    private readonly deploymentRegistry: DeploymentRegistry,
+    private readonly transactionQueue: TransactionQueueService
+  ) {}
 
   async issueKycClaimSignature(
     userAddress: string,
     onchainIDAddress: string,
     claimData: string,
     topic: number,
-    countryCode: number = 91
+    countryCode: number = 91,
+    chainId?: number
   ): Promise<KycSignatureResponse> {
     this.logger.log(`Issuing KYC claim signature for user: ${userAddress}, onchainID: ${onchainIDAddress}, topic: ${topic}`);
     try {
+      const deployment = this.deploymentRegistry.resolve(chainId);
+
       // Validate addresses
       if (!ethers.isAddress(userAddress)) {
         throw new Error('Invalid user address');
@@ -38,14 +36,9 @@ export class UserService {
         throw new Error('Invalid onchain ID address');
       }
 
-      // Get issuer private key from environment
-      const issuerPrivateKey = this.config.get<string>('PRIVATE_KEY');
-      if (!issuerPrivateKey) {
-        throw new Error('Issuer private key not configured');
-      }
-
-      // Create issuer wallet
-      const issuerWallet = new ethers.Wallet(issuerPrivateKey, this.provider);
+      // Claims are signed by the claim issuer; the key itself is never read here
+      const issuerSigner = this.signerRegistry.get('claim_issuer').connect(deployment.httpProvider);
+      const issuerAddress = this.signerRegistry.get('claim_issuer').getAddress();
 
       // Step 1: Convert claim data to bytes and hash it
       const claimDataBytes = ethers.toUtf8Bytes(claimData);
@@ -61,7 +54,7 @@ export class UserService {
       const messageHash = ethers.keccak256(encoded);
 
       // Step 4: Sign the message hash
-      const signatureString = await issuerWallet.signMessage(ethers.getBytes(messageHash));
+      const signatureString = await issuerSigner.signMessage(ethers.getBytes(messageHash));
       
       // Split signature into r, s, v components
       const signature = ethers.Signature.from(signatureString);
@@ -71,10 +64,11 @@ export class UserService {
         ethers.getBytes(messageHash),
         signatureString
       );
-      this.logger.log(`Signature valid: ${recoveredAddress.toLowerCase() === issuerWallet.address.toLowerCase()}`);
+      this.logger.log(`Signature valid: ${recoveredAddress.toLowerCase() === issuerAddress.toLowerCase()}`);
 
-      // Register the identity in the registry
-      await this.registerIdentity(userAddress, onchainIDAddress, countryCode, issuerWallet);
+      // Register the identity in the registry, as its agent
+      const agentSigner = this.signerRegistry.get('identity_agent').connect(deployment.httpProvider);
+      await this.registerIdentity(deployment.chainId, deployment.identityRegistryAddress, userAddress, onchainIDAddress, countryCode, agentSigner);
 
       return {
         signature: {
@@ -82,7 +76,7 @@ export class UserService {
           s: signature.s,
           v: signature.v
         },
-        issuerAddress: issuerWallet.address,
+        issuerAddress,
         dataHash: messageHash,
         topic
       };
@@ -92,17 +86,19 @@ export class UserService {
   }
 
   private async registerIdentity(
+    chainId: number,
+    identityRegistryAddress: string,
     userAddress: string,
     onchainIDAddress: string,
     countryCode: number,
-    agentSigner: ethers.Wallet
+    agentSigner: ethers.Signer
   ): Promise<void> {
-    this.logger.log(`Registering identity for user: ${userAddress} with onchainID: ${onchainIDAddress}`);
+    this.logger.log(`Registering identity for user: ${userAddress} with onchainID: ${onchainIDAddress} in registry ${identityRegistryAddress}`);
     
     try {   
       // Create contract instance
       const identityRegistry = new ethers.Contract(
-        this.identityRegistryAddress,
+        identityRegistryAddress,
         IDENTITY_REGISTRY_CONTRACT,
         agentSigner
       );
@@ -114,38 +110,30 @@ export class UserService {
         return;
       }
 
-      if (!agentSigner.provider) {
-        throw new Error('Provider is not set on agentSigner');
-      }
-      const isAgent = await identityRegistry.isAgent(agentSigner.address);
+      const agentAddress = await agentSigner.getAddress();
+      const isAgent = await identityRegistry.isAgent(agentAddress);
       if(!isAgent) {
-        throw new Error('Signer is not an Agent');
+        throw new Error(`Signer ${agentAddress} is not an Agent`);
       }
 
-      const feeData = await agentSigner.provider.getFeeData();
-      const gasPrice = feeData.gasPrice;
-      const gasEstimate = await identityRegistry.registerIdentity.estimateGas(
-        userAddress,
-        onchainIDAddress,
-        countryCode
-      );
-      this.logger.log(`GasPrice: ${gasPrice} & gasEstimate: ${gasEstimate}`);
       this.logger.log(`UserAddress: ${userAddress}, onchainIDAddress: ${onchainIDAddress}, countryCode ${countryCode}`);
-      // Register the identity
-      const tx = await identityRegistry.registerIdentity(
-        userAddress,        // User's EOA
-        onchainIDAddress,   // User's OnchainID contract
-        countryCode,         // Country code
-        {
-          gasLimit: gasEstimate * BigInt(120) / BigInt(100),
-          gasPrice,
-        }
+      // Register the identity, through the signer's queue so it never races its other transactions for a nonce;
+      // its gas limit and fees are set by the chain's gas policy
+      const tx = await this.transactionQueue.send(
+        chainId,
+        agentSigner,
+        await identityRegistry.registerIdentity.populateTransaction(
+          userAddress,        // User's EOA
+          onchainIDAddress,   // User's OnchainID contract
+          countryCode         // Country code
+        ),
+        { purpose: 'register_identity' }
       );
 
-      this.logger.log(`Identity registration transaction sent: ${tx.hash}`);
+      this.logger.log(`Identity registration transaction sent: ${tx.hashes[0]}`);
       
       // Wait for transaction confirmation
-      const receipt = await tx.wait();
+      const receipt = await this.transactionQueue.waitForReceipt(tx);
       this.logger.log(`Identity registered successfully. Transaction confirmed in block: ${receipt.blockNumber}`);
     } catch (error) {
       this.logger.error(`Failed to register identity: ${error.message}`);
@@ -0,0 +1,178 @@
+import {
+  Body,
+  Controller,
+  Get,
+  HttpCode,
+  HttpStatus,
+  Param,
+  ParseUUIDPipe,
+  Post,
+} from '@nestjs/common';
+import {
+  ApiBody,
+  ApiOperation,
+  ApiParam,
+  ApiResponse,
+  ApiSecurity,
+  ApiTags,
+} from '@nestjs/swagger';
+import {
+  BackfillService,
+  toBackfillJobResponse,
+} from '../services/backfill.service';
+import { BackfillRequestDto } from '../../shared/models/backfill-request.dto';
+import {
+  BackfillJobResponse,
+  BackfillResponse,
+} from '../../shared/models/backfill-response.model';
+import { DeploymentRegistry } from '../providers/deployment.registry';
+
+@ApiTags('events')
+@ApiSecurity('api-key')
+@Controller('events/backfill')
+export class BackfillController {
+  constructor(
+    private readonly backfillService: BackfillService,
+    private readonly deploymentRegistry: DeploymentRegistry,
+  ) {}
+
+  /**
+   * Backfill order contract events over a block range
+   * @param backfillRequest - The chain, block range and mode
+   * @returns Promise with the started job, or the decoded events in list mode
+   */
+  @Post()
+  @HttpCode(HttpStatus.ACCEPTED)
+  @ApiOperation({
+    summary: 'Backfill order events',
+    description:
+      'Re-scans an arbitrary block range of the order contract in adaptive chunks. In process mode a resumable background job is started; in list mode the decoded events are returned without executing any order.',
+  })
+  @ApiBody({
+    type: BackfillRequestDto,
+    description:
+      'Optional chain id, block range, mode and optional starting chunk size',
+  })
+  @ApiResponse({
+    status: 202,
+    description: 'Backfill job started, or events listed',
+    type: BackfillResponse,
+  })
+  @ApiResponse({
+    status: 400,
+    description: 'Bad request - Invalid block range or unknown chain',
+    example: {
+      statusCode: 400,
+      message: 'Invalid block range 6120000 to 6100000',
+      error: 'Bad Request',
+    },
+  })
+  @ApiResponse({
+    status: 401,
+    description: 'Unauthorized - Invalid or missing API key',
+  })
+  async backfill(
+    @Body() backfillRequest: BackfillRequestDto,
+  ): Promise<BackfillResponse> {
+    const { fromBlock, toBlock, chunkSize, mode } = backfillRequest;
+    const { chainId } = this.deploymentRegistry.resolve(
+      backfillRequest.chainId,
+    );
+    if (mode === 'list') {
+      const events = await this.backfillService.listEvents(
+        chainId,
+        fromBlock,
+        toBlock,
+        chunkSize,
+      );
+      return { events };
+    }
+
+    const job = await this.backfillService.startJob(
+      chainId,
+      fromBlock,
+      toBlock,
+      chunkSize,
+    );
+    return { job: toBackfillJobResponse(job) };
+  }
+
+  /**
+   * List backfill jobs
+   * @returns Promise with the most recent jobs
+   */
+  @Get()
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({
+    summary: 'List backfill jobs',
+    description: 'Lists the most recent backfill jobs with their progress.',
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Jobs retrieved successfully',
+    type: [BackfillJobResponse],
+  })
+  async listJobs(): Promise<BackfillJobResponse[]> {
+    const jobs = await this.backfillService.listJobs();
+    return jobs.map(toBackfillJobResponse);
+  }
+
+  /**
+   * Get the progress of a backfill job
+   * @param id - The job id
+   * @returns Promise with the job
+   */
+  @Get(':id')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({
+    summary: 'Get backfill job',
+    description: 'Returns the progress of a backfill job.',
+  })
+  @ApiParam({ name: 'id', type: String })
+  @ApiResponse({
+    status: 200,
+    description: 'Job retrieved successfully',
+    type: BackfillJobResponse,
+  })
+  @ApiResponse({
+    status: 404,
+    description: 'Backfill job not found',
+  })
+  async getJob(
+    @Param('id', ParseUUIDPipe) id: string,
+  ): Promise<BackfillJobResponse> {
+    return toBackfillJobResponse(await this.backfillService.getJob(id));
+  }
+
+  /**
+   * Resume a failed or interrupted backfill job
+   * @param id - The job id
+   * @returns Promise with the resumed job
+   */
+  @Post(':id/resume')
+  @HttpCode(HttpStatus.ACCEPTED)
+  @ApiOperation({
+    summary: 'Resume backfill job',
+    description:
+      'Resumes a failed or interrupted backfill job from the last chunk it completed.',
+  })
+  @ApiParam({ name: 'id', type: String })
+  @ApiResponse({
+    status: 202,
+    description: 'Job resumed',
+    type: BackfillJobResponse,
+  })
+  @ApiResponse({
+    status: 400,
+    description: 'The job is already completed',
+  })
+  @ApiResponse({
+    status: 409,
+    description: 'The job is already running',
+  })
+  async resumeJob(
+    @Param('id', ParseUUIDPipe) id: string,
+  ): Promise<BackfillJobResponse> {
+    return toBackfillJobResponse(await this.backfillService.resumeJob(id));
+  }
+}
@@ -0,0 +1,168 @@
+import {
+  Body,
+  Controller,
+  Get,
+  HttpCode,
+  HttpStatus,
+  NotFoundException,
+  Param,
+  ParseUUIDPipe,
+  Post,
+  Query,
+} from '@nestjs/common';
+import {
+  ApiBody,
+  ApiOperation,
+  ApiParam,
+  ApiResponse,
+  ApiSecurity,
+  ApiTags,
+} from '@nestjs/swagger';
+import {
+  DeadLetterService,
+  toDeadLetterResponse,
+} from '../../events/dead-letter.service';
+import { DeadLetterReplayService } from '../services/dead-letter-replay.service';
+import { DeadLetterResponse } from '../../shared/models/dead-letter-response.model';
+import { DeadLetterQueryDto } from '../../shared/models/dead-letter-query.dto';
+import { DiscardDeadLetterDto } from '../../shared/models/discard-dead-letter.dto';
+
+@ApiTags('events')
+@ApiSecurity('api-key')
+@Controller('events/dead-letters')
+export class DeadLetterController {
+  constructor(
+    private readonly deadLetterService: DeadLetterService,
+    private readonly deadLetterReplayService: DeadLetterReplayService,
+  ) {}
+
+  /**
+   * List order events whose processing failed
+   * @param query - Optional chain and status filters
+   * @returns Promise with matching dead letters
+   */
+  @Get()
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({
+    summary: 'List dead-lettered order events',
+    description:
+      'Lists order events whose processing failed, with the decoded order, the last error and the retry schedule. Newest first.',
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Dead letters retrieved successfully',
+    type: [DeadLetterResponse],
+  })
+  @ApiResponse({
+    status: 401,
+    description: 'Unauthorized - Invalid or missing API key',
+  })
+  async listDeadLetters(
+    @Query() query: DeadLetterQueryDto,
+  ): Promise<DeadLetterResponse[]> {
+    const deadLetters = await this.deadLetterService.findDeadLetters(query);
+    return deadLetters.map(toDeadLetterResponse);
+  }
+
+  /**
+   * Inspect a dead-lettered order event
+   * @param id - The dead letter id
+   * @returns Promise with the dead letter
+   */
+  @Get(':id')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({
+    summary: 'Get dead-lettered order event',
+    description:
+      'Returns a dead-lettered order event with its decoded order and last error.',
+  })
+  @ApiParam({ name: 'id', type: String })
+  @ApiResponse({
+    status: 200,
+    description: 'Dead letter retrieved successfully',
+    type: DeadLetterResponse,
+  })
+  @ApiResponse({
+    status: 404,
+    description: 'Dead letter not found',
+  })
+  async getDeadLetter(
+    @Param('id', ParseUUIDPipe) id: string,
+  ): Promise<DeadLetterResponse> {
+    const deadLetter = await this.deadLetterService.getDeadLetter(id);
+    if (!deadLetter) {
+      throw new NotFoundException(`Dead letter ${id} not found`);
+    }
+    return toDeadLetterResponse(deadLetter);
+  }
+
+  /**
+   * Replay a dead-lettered order event now
+   * @param id - The dead letter id
+   * @returns Promise with the dead letter after the attempt
+   */
+  @Post(':id/replay')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({
+    summary: 'Replay dead-lettered order event',
+    description:
+      'Runs the order again right away, ignoring the backoff and the attempt limit. The event is still executed at most once.',
+  })
+  @ApiParam({ name: 'id', type: String })
+  @ApiResponse({
+    status: 200,
+    description:
+      'Replay attempted; the status shows whether it resolved the dead letter',
+    type: DeadLetterResponse,
+  })
+  @ApiResponse({
+    status: 404,
+    description: 'Dead letter not found',
+  })
+  @ApiResponse({
+    status: 409,
+    description: 'The dead letter is already resolved or discarded',
+  })
+  async replayDeadLetter(
+    @Param('id', ParseUUIDPipe) id: string,
+  ): Promise<DeadLetterResponse> {
+    return toDeadLetterResponse(await this.deadLetterReplayService.replay(id));
+  }
+
+  /**
+   * Give up on a dead-lettered order event
+   * @param id - The dead letter id
+   * @param discardRequest - Optional reason, kept for audit
+   * @returns Promise with the discarded dead letter
+   */
+  @Post(':id/discard')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({
+    summary: 'Discard dead-lettered order event',
+    description:
+      'Stops all retries of a dead-lettered order event. The entry is kept for audit.',
+  })
+  @ApiParam({ name: 'id', type: String })
+  @ApiBody({ type: DiscardDeadLetterDto, required: false })
+  @ApiResponse({
+    status: 200,
+    description: 'Dead letter discarded',
+    type: DeadLetterResponse,
+  })
+  @ApiResponse({
+    status: 404,
+    description: 'Dead letter not found',
+  })
+  async discardDeadLetter(
+    @Param('id', ParseUUIDPipe) id: string,
+    @Body() discardRequest: DiscardDeadLetterDto,
+  ): Promise<DeadLetterResponse> {
+    const deadLetter = await this.deadLetterService.getDeadLetter(id);
+    if (!deadLetter) {
+      throw new NotFoundException(`Dead letter ${id} not found`);
+    }
+    return toDeadLetterResponse(
+      await this.deadLetterService.discard(id, discardRequest?.reason),
+    );
+  }
+}
@@ -0,0 +1,226 @@
+import {
+  BadRequestException,
+  Injectable,
+  Logger,
+  OnModuleInit,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { ethers } from 'ethers';
+
+/**
+ * One deployment of the product: an order contract and identity registry on one chain.
+ * Configured through the DEPLOYMENTS env variable (a JSON array), or, when that is unset,
+ * through the legacy single-chain variables (RPC_HTTP, ORDER_CONTRACT_ADDRESS, ...).
+ */
+export interface Deployment {
+  chainId: number;
+  name: string;
+  rpcHttp: string;
+  rpcWss?: string;
+  orderContractAddress: string;
+  identityRegistryAddress: string;
+  // ONCHAINID ClaimIssuer whose claims the KYC signer signs; the claim signer's permission is only checked when set
+  claimIssuerAddress?: string;
+  // Logs are only processed once they are this many blocks below the chain head
+  confirmations: number;
+  // Block to start scanning from when the deployment has no checkpoint yet
+  startBlock?: number;
+  // Overrides of the GAS_* settings on this chain
+  gas?: DeploymentGasConfig;
+  httpProvider: ethers.JsonRpcProvider;
+}
+
+// Gas settings of one deployment; fees are decimal strings in gwei
+export interface DeploymentGasConfig {
+  pricing?: 'eip1559' | 'legacy';
+  estimateMultiplier?: number;
+  maxFeePerGasGwei?: string;
+  maxPriorityFeePerGasGwei?: string;
+  feeCeilingGwei?: string;
+  feeBumpPercent?: number;
+}
+
+// Shape of one DEPLOYMENTS entry
+interface DeploymentConfig {
+  chainId?: number;
+  name?: string;
+  rpcHttp?: string;
+  rpcWss?: string;
+  orderContractAddress?: string;
+  identityRegistryAddress?: string;
+  claimIssuerAddress?: string;
+  confirmations?: number;
+  startBlock?: number;
+  gas?: DeploymentGasConfig;
+}
+
+@Injectable()
+export class DeploymentRegistry implements OnModuleInit {
+  private readonly logger = new Logger(DeploymentRegistry.name);
+  private readonly configs: DeploymentConfig[];
+  private deployments: Deployment[] = [];
+
+  constructor(private readonly config: ConfigService) {
+    const raw = this.config.get<string>('DEPLOYMENTS');
+    if (raw) {
+      let parsed: unknown;
+      try {
+        parsed = JSON.parse(raw);
+      } catch (error) {
+        throw new Error(
+          `DEPLOYMENTS is not valid JSON: ${error instanceof Error ? error.message : error}`,
+        );
+      }
+      if (!Array.isArray(parsed) || parsed.length === 0) {
+        throw new Error('DEPLOYMENTS must be a non-empty JSON array');
+      }
+      this.configs = parsed as DeploymentConfig[];
+    } else {
+      this.configs = [this.getLegacyConfig()];
+    }
+  }
+
+  /**
+   * Builds the deployments; chain ids missing from the legacy configuration are read from the RPC endpoint
+   */
+  async onModuleInit() {
+    const deployments: Deployment[] = [];
+    for (const [index, config] of this.configs.entries()) {
+      deployments.push(await this.createDeployment(config, index));
+    }
+
+    const chainIds = deployments.map((deployment) => deployment.chainId);
+    const duplicate = chainIds.find(
+      (chainId, index) => chainIds.indexOf(chainId) !== index,
+    );
+    if (duplicate !== undefined) {
+      throw new Error(`Chain ${duplicate} is configured more than once`);
+    }
+
+    this.deployments = deployments;
+    for (const deployment of deployments) {
+      this.logger.log(
+        `Serving ${deployment.name} (chainId: ${deployment.chainId}) with order contract ${deployment.orderContractAddress}`,
+      );
+    }
+  }
+
+  /**
+   * All configured deployments, in configuration order
+   */
+  getDeployments(): Deployment[] {
+    return this.deployments;
+  }
+
+  /**
+   * Look up the deployment on a chain
+   * @param chainId - The chain id
+   * @throws BadRequestException if no deployment is configured on the chain
+   */
+  getDeployment(chainId: number): Deployment {
+    const deployment = this.deployments.find(
+      (candidate) => candidate.chainId === chainId,
+    );
+    if (!deployment) {
+      throw new BadRequestException(
+        `No deployment is configured for chain ${chainId}`,
+      );
+    }
+    return deployment;
+  }
+
+  /**
+   * The deployment used when a request does not name a chain: the first configured one
+   */
+  getDefaultDeployment(): Deployment {
+    return this.deployments[0];
+  }
+
+  /**
+   * Resolve an optional chain id from a request to a deployment
+   * @param chainId - The requested chain id, if any
+   */
+  resolve(chainId?: number): Deployment {
+    return chainId === undefined
+      ? this.getDefaultDeployment()
+      : this.getDeployment(chainId);
+  }
+
+  private getLegacyConfig(): DeploymentConfig {
+    const chainId = this.config.get<string>('CHAIN_ID');
+    const startBlock = this.config.get<string>('LISTENER_START_BLOCK');
+    return {
+      chainId: chainId ? Number(chainId) : undefined,
+      name: 'default',
+      rpcHttp: this.config.get<string>('RPC_HTTP'),
+      rpcWss: this.config.get<string>('RPC_WSS'),
+      orderContractAddress: this.config.get<string>('ORDER_CONTRACT_ADDRESS'),
+      identityRegistryAddress: this.config.get<string>(
+        'IDENTITY_REGISTRY_ADDRESS',
+      ),
+      claimIssuerAddress:
+        this.config.get<string>('CLAIM_ISSUER_ADDRESS') || undefined,
+      confirmations: Number(
+        this.config.get<string>('BLOCK_CONFIRMATIONS') ?? 3,
+      ),
+      startBlock: startBlock ? Number(startBlock) : undefined,
+    };
+  }
+
+  private async createDeployment(
+    config: DeploymentConfig,
+    index: number,
+  ): Promise<Deployment> {
+    const label = config.name ?? `deployment ${index}`;
+    if (!config.rpcHttp) {
+      throw new Error(`rpcHttp is required for ${label}`);
+    }
+    if (
+      !config.orderContractAddress ||
+      !ethers.isAddress(config.orderContractAddress)
+    ) {
+      throw new Error(`A valid orderContractAddress is required for ${label}`);
+    }
+    if (
+      !config.identityRegistryAddress ||
+      !ethers.isAddress(config.identityRegistryAddress)
+    ) {
+      throw new Error(
+        `A valid identityRegistryAddress is required for ${label}`,
+      );
+    }
+
+    if (
+      config.claimIssuerAddress !== undefined &&
+      !ethers.isAddress(config.claimIssuerAddress)
+    ) {
+      throw new Error(`claimIssuerAddress of ${label} is not a valid address`);
+    }
+
+    let chainId = config.chainId;
+    let httpProvider: ethers.JsonRpcProvider;
+    if (chainId === undefined) {
+      httpProvider = new ethers.JsonRpcProvider(config.rpcHttp);
+      chainId = Number((await httpProvider.getNetwork()).chainId);
+    } else {
+      // A known chain id spares the network detection round trip on every request
+      httpProvider = new ethers.JsonRpcProvider(config.rpcHttp, chainId, {
+        staticNetwork: true,
+      });
+    }
+
+    return {
+      chainId,
+      name: config.name ?? `chain-${chainId}`,
+      rpcHttp: config.rpcHttp,
+      rpcWss: config.rpcWss,
+      orderContractAddress: config.orderContractAddress,
+      identityRegistryAddress: config.identityRegistryAddress,
+      claimIssuerAddress: config.claimIssuerAddress,
+      confirmations: config.confirmations ?? 3,
+      startBlock: config.startBlock,
+      gas: config.gas,
+      httpProvider,
+    };
+  }
+}
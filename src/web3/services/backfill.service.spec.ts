@@ -0,0 +1,149 @@
+import { BadRequestException, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { InMemorySupabase } from '../../../test/in-memory-supabase';
+import { BackfillService } from './backfill.service';
+import {
+  EventListenerService,
+  OrderContractLog,
+} from './event-listener.service';
+
+const CHAIN_ID = 11155111;
+
+describe('BackfillService', () => {
+  let db: InMemorySupabase;
+  let backfill: BackfillService;
+  let fetchOrderEvents: jest.Mock;
+  let processOrderEvents: jest.Mock;
+
+  beforeAll(() => {
+    Logger.overrideLogger(false);
+  });
+
+  beforeEach(() => {
+    db = new InMemorySupabase();
+    fetchOrderEvents = jest.fn().mockResolvedValue([]);
+    processOrderEvents = jest.fn().mockResolvedValue(undefined);
+    backfill = new BackfillService(
+      new ConfigService({ BACKFILL_CHUNK_SIZE: '100' }),
+      db.service(),
+      {
+        fetchOrderEvents,
+        processOrderEvents,
+        getOrderContractAddress: () => '0xCC',
+        getEventName: (log: { eventName: string }) => log.eventName,
+      } as unknown as EventListenerService,
+    );
+  });
+
+  function ranges(): [number, number][] {
+    return fetchOrderEvents.mock.calls.map(
+      ([, fromBlock, toBlock]) => [fromBlock, toBlock] as [number, number],
+    );
+  }
+
+  function orderLog(eventName: string, blockNumber: number): OrderContractLog {
+    return {
+      eventName,
+      args: ['0xbb', 'LQD', '0xaa', 10n, 20n, 30n],
+      blockNumber,
+      transactionHash: '0xabc',
+      index: 0,
+    } as unknown as OrderContractLog;
+  }
+
+  it('processes a range chunk by chunk, storing progress after each', async () => {
+    fetchOrderEvents.mockResolvedValueOnce([orderLog('BuyOrderCreated', 50)]);
+    const job = await backfill.createJob(CHAIN_ID, 0, 249);
+
+    const done = await backfill.runJob(job);
+
+    expect(ranges()).toEqual([
+      [0, 99],
+      [100, 199],
+      [200, 249],
+    ]);
+    expect(processOrderEvents).toHaveBeenCalledTimes(3);
+    expect(done).toMatchObject({
+      contract_address: '0xcc',
+      status: 'completed',
+      next_block: 250,
+      events_found: 1,
+    });
+  });
+
+  it('halves the chunk while the provider rejects the range, and grows it back', async () => {
+    const job = await backfill.createJob(CHAIN_ID, 0, 199, 80);
+    fetchOrderEvents
+      .mockRejectedValueOnce(new Error('range too large'))
+      .mockRejectedValueOnce(new Error('range too large'));
+
+    await backfill.runJob(job);
+
+    expect(ranges().slice(0, 5)).toEqual([
+      [0, 79],
+      [0, 39],
+      [0, 19],
+      [20, 59],
+      [60, 139],
+    ]);
+  });
+
+  it('resumes a failed job from the last completed chunk', async () => {
+    const job = await backfill.createJob(CHAIN_ID, 0, 299);
+    processOrderEvents
+      .mockResolvedValueOnce(undefined)
+      .mockRejectedValueOnce(new Error('database down'));
+
+    await expect(backfill.runJob(job)).resolves.toMatchObject({
+      status: 'failed',
+      next_block: 100,
+      error: 'database down',
+    });
+
+    fetchOrderEvents.mockClear();
+    const resumed = await backfill.reopenJob(job.id);
+    await expect(backfill.runJob(resumed)).resolves.toMatchObject({
+      status: 'completed',
+      next_block: 300,
+    });
+    expect(ranges()[0]).toEqual([100, 199]);
+  });
+
+  it('refuses to reopen a completed job', async () => {
+    const job = await backfill.createJob(CHAIN_ID, 0, 9);
+    await backfill.runJob(job);
+
+    await expect(backfill.reopenJob(job.id)).rejects.toBeInstanceOf(
+      BadRequestException,
+    );
+  });
+
+  it('refuses an inverted range', async () => {
+    await expect(backfill.createJob(CHAIN_ID, 10, 9)).rejects.toBeInstanceOf(
+      BadRequestException,
+    );
+  });
+
+  it('lists the buy and sell events of a range without processing them', async () => {
+    fetchOrderEvents.mockResolvedValueOnce([
+      orderLog('BuyOrderCreated', 5),
+      orderLog('AgentUSDCWithdraw', 6),
+      orderLog('SellOrderCreated', 7),
+    ]);
+
+    const events = await backfill.listEvents(CHAIN_ID, 0, 9);
+
+    expect(events).toEqual([
+      expect.objectContaining({
+        eventName: 'BuyOrderCreated',
+        blockNumber: 5,
+        usdcAmount: '10',
+      }),
+      expect.objectContaining({
+        eventName: 'SellOrderCreated',
+        blockNumber: 7,
+      }),
+    ]);
+    expect(processOrderEvents).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,461 @@
+import {
+  BadRequestException,
+  ConflictException,
+  Injectable,
+  Logger,
+  NotFoundException,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { SupabaseService } from '../../supabase/supabase.service';
+import {
+  EventListenerService,
+  OrderContractLog,
+} from './event-listener.service';
+import { BackfillJobResponse } from '../../shared/models/backfill-response.model';
+
+// Withdrawal logs are scanned alongside orders but are not listed as orders
+const ORDER_EVENT_NAMES = ['BuyOrderCreated', 'SellOrderCreated'];
+
+export type BackfillJobStatus = 'running' | 'completed' | 'failed';
+
+// Row shape of the backfill_jobs table
+export interface BackfillJob {
+  id: string;
+  chain_id: number;
+  contract_address: string;
+  from_block: number;
+  to_block: number;
+  next_block: number;
+  chunk_size: number;
+  events_found: number;
+  status: BackfillJobStatus;
+  error: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface DecodedOrderEvent {
+  eventName: string;
+  chainId: number;
+  blockNumber: number;
+  txHash: string;
+  logIndex: number;
+  user: string;
+  ticker: string;
+  token: string;
+  usdcAmount: string;
+  assetAmount: string;
+  price: string;
+}
+
+export interface BackfillProgress {
+  fromBlock: number;
+  toBlock: number;
+  scannedUpTo: number;
+  eventsFound: number;
+  chunkSize: number;
+}
+
+type ChunkHandler = (
+  fromBlock: number,
+  toBlock: number,
+  events: OrderContractLog[],
+) => Promise<void>;
+
+@Injectable()
+export class BackfillService {
+  private readonly logger = new Logger(BackfillService.name);
+  private readonly defaultChunkSize: number;
+  private readonly runningJobs = new Set<string>();
+
+  constructor(
+    private readonly config: ConfigService,
+    private readonly supabaseService: SupabaseService,
+    private readonly eventListenerService: EventListenerService,
+  ) {
+    // Starting chunk size; halved whenever the provider rejects a range
+    this.defaultChunkSize = Number(
+      this.config.get<string>('BACKFILL_CHUNK_SIZE') ?? 2000,
+    );
+  }
+
+  /**
+   * Start a backfill job that re-processes every buy and sell event in a block range.
+   * The job runs in the background; already processed logs are skipped by the processed-events ledger.
+   * @param chainId - The chain of the deployment to scan
+   * @param fromBlock - First block of the range (inclusive)
+   * @param toBlock - Last block of the range (inclusive)
+   * @param chunkSize - Optional starting chunk size
+   * @returns The started job
+   */
+  async startJob(
+    chainId: number,
+    fromBlock: number,
+    toBlock: number,
+    chunkSize?: number,
+  ): Promise<BackfillJob> {
+    const job = await this.createJob(chainId, fromBlock, toBlock, chunkSize);
+    this.runInBackground(job);
+    return job;
+  }
+
+  /**
+   * Persist a new backfill job without running it
+   * @param chainId - The chain of the deployment to scan
+   * @param fromBlock - First block of the range (inclusive)
+   * @param toBlock - Last block of the range (inclusive)
+   * @param chunkSize - Optional starting chunk size
+   * @returns The created job
+   */
+  async createJob(
+    chainId: number,
+    fromBlock: number,
+    toBlock: number,
+    chunkSize?: number,
+  ): Promise<BackfillJob> {
+    this.validateRange(fromBlock, toBlock);
+
+    const now = new Date().toISOString();
+    const { data, error } = await this.supabaseService
+      .getClient()
+      .from('backfill_jobs')
+      .insert({
+        chain_id: chainId,
+        contract_address: this.eventListenerService
+          .getOrderContractAddress(chainId)
+          .toLowerCase(),
+        from_block: fromBlock,
+        to_block: toBlock,
+        next_block: fromBlock,
+        chunk_size: chunkSize ?? this.defaultChunkSize,
+        events_found: 0,
+        status: 'running',
+        created_at: now,
+        updated_at: now,
+      })
+      .select()
+      .single<BackfillJob>();
+
+    if (error) {
+      this.logger.error('Error creating backfill job:', error);
+      throw error;
+    }
+
+    this.logger.log(
+      `Created backfill job ${data.id} for blocks ${fromBlock} to ${toBlock} on chain ${chainId}`,
+    );
+    return data;
+  }
+
+  /**
+   * Resume a failed or interrupted backfill job from its last completed chunk, in the background
+   * @param jobId - The job to resume
+   * @returns The resumed job
+   */
+  async resumeJob(jobId: string): Promise<BackfillJob> {
+    const resumed = await this.reopenJob(jobId);
+    this.runInBackground(resumed);
+    return resumed;
+  }
+
+  /**
+   * Mark a failed or interrupted backfill job as running again, without running it
+   * @param jobId - The job to reopen
+   * @returns The reopened job
+   */
+  async reopenJob(jobId: string): Promise<BackfillJob> {
+    const job = await this.getJob(jobId);
+    if (job.status === 'completed') {
+      throw new BadRequestException(
+        `Backfill job ${jobId} is already completed`,
+      );
+    }
+    if (this.runningJobs.has(jobId)) {
+      throw new ConflictException(`Backfill job ${jobId} is already running`);
+    }
+
+    const resumed = await this.updateJob(jobId, {
+      status: 'running',
+      error: null,
+    });
+    this.logger.log(
+      `Resuming backfill job ${jobId} from block ${job.next_block}`,
+    );
+    return resumed;
+  }
+
+  /**
+   * Get a backfill job
+   * @param jobId - The job id
+   * @returns The job with its progress
+   */
+  async getJob(jobId: string): Promise<BackfillJob> {
+    const { data, error } = await this.supabaseService
+      .getClient()
+      .from('backfill_jobs')
+      .select('*')
+      .eq('id', jobId)
+      .maybeSingle<BackfillJob>();
+
+    if (error) {
+      this.logger.error(`Error getting backfill job ${jobId}:`, error);
+      throw error;
+    }
+    if (!data) {
+      throw new NotFoundException(`Backfill job ${jobId} not found`);
+    }
+
+    return data;
+  }
+
+  /**
+   * List backfill jobs, newest first
+   * @param limit - Maximum number of jobs to return
+   * @returns The jobs
+   */
+  async listJobs(limit = 50): Promise<BackfillJob[]> {
+    const { data, error } = await this.supabaseService
+      .getClient()
+      .from('backfill_jobs')
+      .select('*')
+      .order('created_at', { ascending: false })
+      .limit(limit);
+
+    if (error) {
+      this.logger.error('Error listing backfill jobs:', error);
+      throw error;
+    }
+
+    return (data ?? []) as BackfillJob[];
+  }
+
+  /**
+   * Run a backfill job to completion, persisting progress after every chunk
+   * @param job - The job to run
+   * @param onProgress - Optional progress callback
+   * @returns The final state of the job
+   */
+  async runJob(
+    job: BackfillJob,
+    onProgress?: (progress: BackfillProgress) => void,
+  ): Promise<BackfillJob> {
+    if (this.runningJobs.has(job.id)) {
+      throw new ConflictException(`Backfill job ${job.id} is already running`);
+    }
+    this.runningJobs.add(job.id);
+
+    let eventsFound = job.events_found;
+    try {
+      await this.scanRange(
+        job.chain_id,
+        job.next_block,
+        job.to_block,
+        job.chunk_size,
+        async (fromBlock, toBlock, events) => {
+          await this.eventListenerService.processOrderEvents(
+            job.chain_id,
+            events,
+          );
+          eventsFound += events.length;
+          await this.updateJob(job.id, {
+            next_block: toBlock + 1,
+            chunk_size: toBlock - fromBlock + 1,
+            events_found: eventsFound,
+          });
+          onProgress?.({
+            fromBlock: job.from_block,
+            toBlock: job.to_block,
+            scannedUpTo: toBlock,
+            eventsFound,
+            chunkSize: toBlock - fromBlock + 1,
+          });
+        },
+      );
+    } catch (error) {
+      this.logger.error(`Backfill job ${job.id} failed:`, error);
+      return this.updateJob(job.id, {
+        status: 'failed',
+        error: error instanceof Error ? error.message : String(error),
+      });
+    } finally {
+      this.runningJobs.delete(job.id);
+    }
+
+    this.logger.log(
+      `Backfill job ${job.id} completed with ${eventsFound} events found`,
+    );
+    return this.updateJob(job.id, { status: 'completed' });
+  }
+
+  /**
+   * Decode every buy and sell event in a block range without processing them
+   * @param chainId - The chain of the deployment to scan
+   * @param fromBlock - First block of the range (inclusive)
+   * @param toBlock - Last block of the range (inclusive)
+   * @param chunkSize - Optional starting chunk size
+   * @param onProgress - Optional progress callback
+   * @returns The decoded events in chain order
+   */
+  async listEvents(
+    chainId: number,
+    fromBlock: number,
+    toBlock: number,
+    chunkSize?: number,
+    onProgress?: (progress: BackfillProgress) => void,
+  ): Promise<DecodedOrderEvent[]> {
+    this.validateRange(fromBlock, toBlock);
+
+    const events: DecodedOrderEvent[] = [];
+    await this.scanRange(
+      chainId,
+      fromBlock,
+      toBlock,
+      chunkSize ?? this.defaultChunkSize,
+      (chunkStart, chunkEnd, chunkEvents) => {
+        events.push(
+          ...chunkEvents
+            .filter((log) =>
+              ORDER_EVENT_NAMES.includes(
+                this.eventListenerService.getEventName(log) ?? '',
+              ),
+            )
+            .map((log) => this.decode(chainId, log)),
+        );
+        onProgress?.({
+          fromBlock,
+          toBlock,
+          scannedUpTo: chunkEnd,
+          eventsFound: events.length,
+          chunkSize: chunkEnd - chunkStart + 1,
+        });
+        return Promise.resolve();
+      },
+    );
+
+    return events;
+  }
+
+  /**
+   * Walk a block range in chunks sized to what the provider accepts.
+   * A failed query halves the chunk and retries; a successful one lets it grow back towards the starting size.
+   */
+  private async scanRange(
+    chainId: number,
+    fromBlock: number,
+    toBlock: number,
+    chunkSize: number,
+    handleChunk: ChunkHandler,
+  ): Promise<void> {
+    const maxChunkSize = Math.max(1, chunkSize);
+    let size = maxChunkSize;
+    let start = fromBlock;
+
+    while (start <= toBlock) {
+      const end = Math.min(start + size - 1, toBlock);
+      let events: OrderContractLog[];
+      try {
+        events = await this.eventListenerService.fetchOrderEvents(
+          chainId,
+          start,
+          end,
+        );
+      } catch (error) {
+        if (size === 1) {
+          throw error;
+        }
+        size = Math.max(1, Math.floor(size / 2));
+        this.logger.warn(
+          `Log query for blocks ${start} to ${end} failed, retrying with chunk size ${size}: ${error instanceof Error ? error.message : error}`,
+        );
+        continue;
+      }
+
+      await handleChunk(start, end, events);
+      start = end + 1;
+      size = Math.min(size * 2, maxChunkSize);
+    }
+  }
+
+  private runInBackground(job: BackfillJob) {
+    this.runJob(job).catch((error) => {
+      this.logger.error(`Error running backfill job ${job.id}:`, error);
+    });
+  }
+
+  private async updateJob(
+    jobId: string,
+    changes: Partial<BackfillJob>,
+  ): Promise<BackfillJob> {
+    const { data, error } = await this.supabaseService
+      .getClient()
+      .from('backfill_jobs')
+      .update({ ...changes, updated_at: new Date().toISOString() })
+      .eq('id', jobId)
+      .select()
+      .single<BackfillJob>();
+
+    if (error) {
+      this.logger.error(`Error updating backfill job ${jobId}:`, error);
+      throw error;
+    }
+
+    return data;
+  }
+
+  private validateRange(fromBlock: number, toBlock: number) {
+    if (fromBlock < 0 || toBlock < fromBlock) {
+      throw new BadRequestException(
+        `Invalid block range ${fromBlock} to ${toBlock}`,
+      );
+    }
+  }
+
+  private decode(chainId: number, log: OrderContractLog): DecodedOrderEvent {
+    const eventName = this.eventListenerService.getEventName(log) ?? 'unknown';
+    if (!('args' in log)) {
+      throw new Error(
+        `Could not decode ${eventName} log ${log.transactionHash}:${log.index}`,
+      );
+    }
+    const [user, ticker, token, usdcAmount, assetAmount, price] =
+      log.args as unknown as [string, string, string, bigint, bigint, bigint];
+    return {
+      eventName,
+      chainId,
+      blockNumber: log.blockNumber,
+      txHash: log.transactionHash,
+      logIndex: log.index,
+      user,
+      ticker,
+      token,
+      usdcAmount: usdcAmount.toString(),
+      assetAmount: assetAmount.toString(),
+      price: price.toString(),
+    };
+  }
+}
+
+/**
+ * Map a backfill_jobs row to its API representation
+ * @param job - The job row
+ * @returns The camel-cased API response, including progress
+ */
+export function toBackfillJobResponse(job: BackfillJob): BackfillJobResponse {
+  const totalBlocks = job.to_block - job.from_block + 1;
+  const scannedBlocks = job.next_block - job.from_block;
+  return {
+    id: job.id,
+    chainId: job.chain_id,
+    contractAddress: job.contract_address,
+    fromBlock: job.from_block,
+    toBlock: job.to_block,
+    nextBlock: job.next_block,
+    chunkSize: job.chunk_size,
+    eventsFound: job.events_found,
+    progressPercent: Math.floor((scannedBlocks / totalBlocks) * 100),
+    status: job.status,
+    error: job.error,
+    createdAt: job.created_at,
+    updatedAt: job.updated_at,
+  };
+}
@@ -0,0 +1,79 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { SupabaseService } from '../../supabase/supabase.service';
+
+// Row shape of the block_cursors table, one row per (chain, contract) pair
+interface BlockCursor {
+  chain_id: number;
+  contract_address: string;
+  last_block: number;
+  updated_at: string;
+}
+
+@Injectable()
+export class BlockCursorService {
+  private readonly logger = new Logger(BlockCursorService.name);
+
+  constructor(private readonly supabaseService: SupabaseService) {}
+
+  /**
+   * Get the last fully processed block for a contract
+   * @param chainId - The chain id the contract is deployed on
+   * @param contractAddress - The contract whose logs are being scanned
+   * @returns The last processed block number, or null if the contract was never scanned
+   */
+  async getLastProcessedBlock(
+    chainId: number,
+    contractAddress: string,
+  ): Promise<number | null> {
+    const { data, error } = await this.supabaseService
+      .getClient()
+      .from('block_cursors')
+      .select('*')
+      .eq('chain_id', chainId)
+      .eq('contract_address', contractAddress.toLowerCase())
+      .maybeSingle<BlockCursor>();
+
+    if (error) {
+      this.logger.error(
+        `Error reading block cursor for ${contractAddress} on chain ${chainId}:`,
+        error,
+      );
+      throw error;
+    }
+
+    return data ? Number(data.last_block) : null;
+  }
+
+  /**
+   * Persist the last fully processed block for a contract
+   * @param chainId - The chain id the contract is deployed on
+   * @param contractAddress - The contract whose logs are being scanned
+   * @param blockNumber - The highest block whose logs have all been processed
+   */
+  async saveLastProcessedBlock(
+    chainId: number,
+    contractAddress: string,
+    blockNumber: number,
+  ): Promise<void> {
+    const { error } = await this.supabaseService
+      .getClient()
+      .from('block_cursors')
+      .upsert(
+        {
+          chain_id: chainId,
+          contract_address: contractAddress.toLowerCase(),
+          last_block: blockNumber,
+          updated_at: new Date().toISOString(),
+        },
+        { onConflict: 'chain_id,contract_address' },
+      );
+
+    if (error) {
+      this.logger.error(
+        `Error saving block cursor ${blockNumber} for ${contractAddress} on chain ${chainId}:`,
+        error,
+      );
+      throw error;
+    }
+  }
+}
@@ -0,0 +1,113 @@
+import { ConflictException, Logger, NotFoundException } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { InMemorySupabase } from '../../../test/in-memory-supabase';
+import { AlertService } from '../../alerts/alert.service';
+import { DeadLetterService } from '../../events/dead-letter.service';
+import { ProcessedEventsService } from '../../events/processed-events.service';
+import { OrdersService } from '../../orders/orders.service';
+import { OrderRequest } from '../../shared/models/order-request.model';
+import { DeadLetterReplayService } from './dead-letter-replay.service';
+
+describe('DeadLetterReplayService', () => {
+  let db: InMemorySupabase;
+  let deadLetters: DeadLetterService;
+  let replays: DeadLetterReplayService;
+  let buyOrder: jest.Mock;
+  let getProcessedEvent: jest.Mock;
+
+  const orderRequest = {
+    user: '0x00000000000000000000000000000000000000bb',
+    assetSymbol: 'LQD',
+    source: {
+      chainId: 11155111,
+      txHash: '0xabc',
+      logIndex: 3,
+      blockNumber: 100,
+    },
+  } as OrderRequest;
+
+  beforeAll(() => {
+    Logger.overrideLogger(false);
+  });
+
+  beforeEach(() => {
+    db = new InMemorySupabase({
+      dead_letters: [['chain_id', 'tx_hash', 'log_index']],
+    });
+    const config = new ConfigService({
+      DEAD_LETTER_RETRY_BASE_DELAY_MS: '0',
+    });
+    deadLetters = new DeadLetterService(config, db.service());
+    buyOrder = jest.fn().mockResolvedValue({ orderId: 'order-1' });
+    getProcessedEvent = jest.fn().mockResolvedValue(null);
+    replays = new DeadLetterReplayService(
+      config,
+      deadLetters,
+      { getProcessedEvent } as unknown as ProcessedEventsService,
+      { buyOrder } as unknown as OrdersService,
+      {} as AlertService,
+    );
+  });
+
+  function deadLetter(error: unknown = new Error('timeout')) {
+    return deadLetters.record(orderRequest, 'BuyOrderCreated', error);
+  }
+
+  it('resolves a due dead letter whose order goes through', async () => {
+    const { id } = await deadLetter();
+
+    await replays.retryDue();
+
+    expect(buyOrder).toHaveBeenCalledWith(orderRequest);
+    await expect(deadLetters.getDeadLetter(id)).resolves.toMatchObject({
+      status: 'resolved',
+      resolution: { orderId: 'order-1' },
+    });
+  });
+
+  it('records another attempt when the retry fails again', async () => {
+    const { id } = await deadLetter();
+    buyOrder.mockRejectedValue(new Error('still down'));
+
+    await replays.retryDue();
+
+    await expect(deadLetters.getDeadLetter(id)).resolves.toMatchObject({
+      status: 'pending',
+      attempts: 2,
+      error: 'still down',
+    });
+  });
+
+  it('resolves a dead letter whose log was processed elsewhere, without executing it', async () => {
+    const { id } = await deadLetter();
+    buyOrder.mockRejectedValue(new ConflictException('already processed'));
+    getProcessedEvent.mockResolvedValue({ status: 'processed' });
+
+    await expect(replays.replay(id)).resolves.toMatchObject({
+      status: 'resolved',
+      resolution: { reason: 'Log was already processed' },
+    });
+  });
+
+  it('replays an exhausted dead letter on request', async () => {
+    const { id } = await deadLetter(new ConflictException('in processing'));
+
+    await expect(replays.replay(id)).resolves.toMatchObject({
+      status: 'resolved',
+    });
+  });
+
+  it('refuses to replay a dead letter that was discarded', async () => {
+    const { id } = await deadLetter();
+    await deadLetters.discard(id, 'refunded by hand');
+
+    await expect(replays.replay(id)).rejects.toBeInstanceOf(ConflictException);
+    expect(buyOrder).not.toHaveBeenCalled();
+  });
+
+  it('reports a dead letter that does not exist', async () => {
+    await expect(replays.replay('missing')).rejects.toBeInstanceOf(
+      NotFoundException,
+    );
+  });
+});
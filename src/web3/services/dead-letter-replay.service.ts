@@ -0,0 +1,174 @@
+import {
+  ConflictException,
+  Inject,
+  Injectable,
+  Logger,
+  NotFoundException,
+  forwardRef,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { Cron } from '@nestjs/schedule';
+import {
+  DeadLetter,
+  DeadLetterService,
+} from '../../events/dead-letter.service';
+import { ProcessedEventsService } from '../../events/processed-events.service';
+import { OrdersService } from '../../orders/orders.service';
+import { AlertService } from '../../alerts/alert.service';
+
+/**
+ * Retries dead-lettered order events once their backoff has elapsed, and replays them on demand.
+ * Replays go through the processed-events ledger like any other order, so an event is still executed at most once.
+ * Order events left in processing, e.g. by a crash mid-order, are moved to manual review with an alert.
+ */
+@Injectable()
+export class DeadLetterReplayService {
+  private readonly logger = new Logger(DeadLetterReplayService.name);
+  private readonly enabled: boolean;
+  private readonly batchSize: number;
+  private readonly processingStaleAfterMs: number;
+  private isRetrying = false;
+  private isSweeping = false;
+
+  constructor(
+    private readonly config: ConfigService,
+    private readonly deadLetterService: DeadLetterService,
+    private readonly processedEventsService: ProcessedEventsService,
+    @Inject(forwardRef(() => OrdersService))
+    private readonly ordersService: OrdersService,
+    private readonly alertService: AlertService,
+  ) {
+    // Retries run next to the live listener only, not in one-off processes such as the backfill CLI
+    this.enabled =
+      this.config.get<string>('EVENT_LISTENER_ENABLED') !== 'false';
+    this.batchSize = Number(
+      this.config.get<string>('DEAD_LETTER_RETRY_BATCH_SIZE') ?? 20,
+    );
+    this.processingStaleAfterMs = Number(
+      this.config.get<string>('PROCESSING_STALE_AFTER_MS') ?? 1800000,
+    );
+  }
+
+  @Cron('* * * * *')
+  async retryDue() {
+    if (!this.enabled || this.isRetrying) {
+      return;
+    }
+    this.isRetrying = true;
+
+    try {
+      const due = await this.deadLetterService.findDue(this.batchSize);
+      for (const deadLetter of due) {
+        await this.attempt(deadLetter);
+      }
+    } catch (error) {
+      this.logger.error('Error retrying dead letters:', error);
+    } finally {
+      this.isRetrying = false;
+    }
+  }
+
+  @Cron('*/5 * * * *')
+  async sweepStaleClaims() {
+    if (!this.enabled || this.isSweeping) {
+      return;
+    }
+    this.isSweeping = true;
+
+    try {
+      const stale = await this.processedEventsService.markStaleClaims(
+        new Date(Date.now() - this.processingStaleAfterMs).toISOString(),
+      );
+      if (stale.length === 0) {
+        return;
+      }
+      await this.alertService.raise({
+        severity: 'critical',
+        kind: 'order_event_stuck',
+        message: `${stale.length} order events were left in processing for over ${this.processingStaleAfterMs} ms and moved to manual review: ${stale
+          .map(
+            (event) =>
+              `${event.event_name} ${event.tx_hash}:${event.log_index} on chain ${event.chain_id}`,
+          )
+          .join('; ')}`,
+        details: {
+          events: stale.map((event) => ({
+            chainId: event.chain_id,
+            txHash: event.tx_hash,
+            logIndex: event.log_index,
+            eventName: event.event_name,
+            error: event.error,
+          })),
+        },
+      });
+    } catch (error) {
+      this.logger.error('Error sweeping stale processing claims:', error);
+    } finally {
+      this.isSweeping = false;
+    }
+  }
+
+  /**
+   * Replay a dead letter right away, regardless of its backoff or remaining attempts
+   * @param id - The dead letter id
+   * @returns The dead letter after the attempt
+   */
+  async replay(id: string): Promise<DeadLetter> {
+    const deadLetter = await this.deadLetterService.getDeadLetter(id);
+    if (!deadLetter) {
+      throw new NotFoundException(`Dead letter ${id} not found`);
+    }
+    if (deadLetter.status === 'resolved' || deadLetter.status === 'discarded') {
+      throw new ConflictException(
+        `Dead letter ${id} is already ${deadLetter.status}`,
+      );
+    }
+
+    this.logger.log(`Replaying dead letter ${id} on request`);
+    return this.attempt(deadLetter);
+  }
+
+  /**
+   * Run the dead-lettered order again and record the outcome
+   */
+  private async attempt(deadLetter: DeadLetter): Promise<DeadLetter> {
+    const { payload: orderRequest, event_name: eventName } = deadLetter;
+    this.logger.log(
+      `Retrying ${eventName} ${deadLetter.tx_hash}:${deadLetter.log_index} (attempt ${deadLetter.attempts + 1})`,
+    );
+
+    try {
+      const result =
+        eventName === 'BuyOrderCreated'
+          ? await this.ordersService.buyOrder(orderRequest)
+          : await this.ordersService.sellOrder(orderRequest);
+      this.logger.log(
+        `Dead letter ${deadLetter.id} resolved on attempt ${deadLetter.attempts + 1}`,
+      );
+      return this.deadLetterService.markResolved(deadLetter.id, { ...result });
+    } catch (error) {
+      // The log went through elsewhere, e.g. on a re-scan; there is nothing left to retry
+      if (
+        error instanceof ConflictException &&
+        (await this.wasProcessed(deadLetter))
+      ) {
+        this.logger.log(
+          `Dead letter ${deadLetter.id} was already processed, resolving it`,
+        );
+        return this.deadLetterService.markResolved(deadLetter.id, {
+          reason: 'Log was already processed',
+        });
+      }
+      return this.deadLetterService.record(orderRequest, eventName, error);
+    }
+  }
+
+  private async wasProcessed(deadLetter: DeadLetter): Promise<boolean> {
+    const event = await this.processedEventsService.getProcessedEvent(
+      deadLetter.chain_id,
+      deadLetter.tx_hash,
+      deadLetter.log_index,
+    );
+    return event?.status === 'processed';
+  }
+}
@@ -0,0 +1,87 @@
+import { Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { ethers } from 'ethers';
+import { DeadLetterService } from '../../events/dead-letter.service';
+import { OrdersService } from '../../orders/orders.service';
+import { WithdrawalsService } from '../../withdrawals/withdrawals.service';
+import { DeploymentRegistry } from '../providers/deployment.registry';
+import { BlockCursorService } from './block-cursor.service';
+import { EventListenerService } from './event-listener.service';
+import { ReorgService } from './reorg.service';
+
+const CHAIN_ID = 11155111;
+
+describe('EventListenerService', () => {
+  let listener: EventListenerService;
+  let buyOrder: jest.Mock;
+  let record: jest.Mock;
+
+  beforeAll(() => {
+    Logger.overrideLogger(false);
+  });
+
+  beforeEach(() => {
+    buyOrder = jest.fn().mockResolvedValue({});
+    record = jest.fn().mockResolvedValue({});
+    listener = new EventListenerService(
+      {} as DeploymentRegistry,
+      new ConfigService({ EVENT_LISTENER_ENABLED: 'false' }),
+      { buyOrder, isBatching: () => false } as unknown as OrdersService,
+      {} as BlockCursorService,
+      {} as ReorgService,
+      { record } as unknown as DeadLetterService,
+      {} as WithdrawalsService,
+    );
+  });
+
+  function buyLog(index: number): ethers.EventLog {
+    return {
+      eventName: 'BuyOrderCreated',
+      args: [
+        '0x00000000000000000000000000000000000000bb',
+        'LQD',
+        '0x00000000000000000000000000000000000000aa',
+        10_000000n,
+        10n ** 17n,
+        100_000000n,
+      ],
+      transactionHash: '0xabc',
+      index,
+      blockNumber: 100,
+    } as unknown as ethers.EventLog;
+  }
+
+  describe('processOrderEvents', () => {
+    it('dead-letters an order that fails and moves on to the next log', async () => {
+      const failure = new Error('broker down');
+      buyOrder.mockRejectedValueOnce(failure);
+
+      await listener.processOrderEvents(CHAIN_ID, [buyLog(0), buyLog(1)]);
+
+      expect(record).toHaveBeenCalledWith(
+        expect.objectContaining({
+          usdcAmount: '10.0',
+          source: expect.objectContaining({ logIndex: 0 }) as unknown,
+        }),
+        'BuyOrderCreated',
+        failure,
+      );
+      expect(buyOrder).toHaveBeenCalledTimes(2);
+    });
+
+    it('stops at a log it cannot decode, so the checkpoint is not advanced past it', async () => {
+      const unknown = {
+        topics: [ethers.id('Unknown()')],
+        transactionHash: '0xabc',
+        index: 0,
+        blockNumber: 100,
+      } as unknown as ethers.Log;
+
+      await expect(
+        listener.processOrderEvents(CHAIN_ID, [unknown, buyLog(1)]),
+      ).rejects.toThrow('Could not decode order log 0xabc:0');
+      expect(buyOrder).not.toHaveBeenCalled();
+      expect(record).not.toHaveBeenCalled();
+    });
+  });
+});
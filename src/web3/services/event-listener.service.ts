@@ -1,308 +1,378 @@
-import { Injectable, Inject, OnModuleInit, OnModuleDestroy, Logger, forwardRef } from '@nestjs/common';
+import { Injectable, Inject, OnModuleInit, Logger, forwardRef, ConflictException } from '@nestjs/common';
 import { Cron } from '@nestjs/schedule';
 import { ethers } from 'ethers';
-import { WEB3_HTTP, WEB3_WSS } from '../providers/provider.factory';
+import { Deployment, DeploymentRegistry } from '../providers/deployment.registry';
 import { ORDER_CONTRACT_EVENTS_ABI } from 'src/shared/abi/ORDER_EVENTS.abi';
 import { ConfigService } from '@nestjs/config';
 import { OrdersService } from '../../orders/orders.service';
 import { OrderRequest } from '../../shared/models/order-request.model';
+import { ASSET_DECIMALS, PRICE_DECIMALS, USDC_DECIMALS, formatAmount } from '../../shared/utils/amounts';
+import { BlockCursorService } from './block-cursor.service';
+import { ReorgService } from './reorg.service';
+import { DeadLetterService } from '../../events/dead-letter.service';
+import { WithdrawalsService } from '../../withdrawals/withdrawals.service';
+
+export type OrderContractLog = ethers.EventLog | ethers.Log;
 
 @Injectable()
-export class EventListenerService {
+export class EventListenerService implements OnModuleInit {
   private readonly logger = new Logger(EventListenerService.name);
-  private orderContract!: ethers.Contract;
-  private lastScannedBlock: number = 0;
+  private readonly orderContractInterface = new ethers.Interface(ORDER_CONTRACT_EVENTS_ABI);
+  private readonly maxBlockRange: number;
+  private readonly enabled: boolean;
+  // Per-deployment scan state, keyed by chain id
+  private readonly scanning = new Set<number>();
+  private readonly rescanRequested = new Set<number>();
+  // Chains whose healthy WebSocket subscription drives scans; the cron then stands by as a fallback
+  private readonly pushActive = new Set<number>();
 
   constructor(
-    // @Inject(WEB3_WSS) 
-    // private wssProvider: ethers.WebSocketProvider,
-    @Inject(WEB3_HTTP)
-    private httpProvider: ethers.JsonRpcProvider,
+    private readonly deploymentRegistry: DeploymentRegistry,
     private readonly config: ConfigService,
     @Inject(forwardRef(() => OrdersService))
-    private readonly ordersService: OrdersService
-  ) {}
+    private readonly ordersService: OrdersService,
+    private readonly blockCursorService: BlockCursorService,
+    private readonly reorgService: ReorgService,
+    private readonly deadLetterService: DeadLetterService,
+    private readonly withdrawalsService: WithdrawalsService
+  ) {
+    // Upper bound of blocks requested per queryFilter call
+    this.maxBlockRange = Number(this.config.get<string>('LISTENER_MAX_BLOCK_RANGE') ?? 500);
+    // Disabled for one-off processes such as the backfill CLI, which drive scans themselves
+    this.enabled = this.config.get<string>('EVENT_LISTENER_ENABLED') !== 'false';
+  }
+
+  /**
+   * Back-fills every block missed while the process was down, starting from each deployment's persisted checkpoint.
+   */
+  onModuleInit() {
+    if (!this.enabled) {
+      this.logger.log('Event listener disabled');
+      return;
+    }
+    for (const deployment of this.deploymentRegistry.getDeployments()) {
+      this.getBuySellEvents(deployment).catch((error) => {
+        this.logger.error(`Error back-filling events on startup (chainId: ${deployment.chainId}):`, error);
+      });
+    }
+  }
 
   @Cron('* * * * *')
   async checkLatestBlock() {
-    await this.getBuySellEvents();
+    if (!this.enabled) {
+      return;
+    }
+    // Deployments are scanned side by side; a slow chain does not hold up the others
+    await Promise.all(
+      this.deploymentRegistry.getDeployments()
+        .filter((deployment) => !this.pushActive.has(deployment.chainId))
+        .map((deployment) => this.getBuySellEvents(deployment))
+    );
   }
 
   /**
-   * Method to fetch historical events and verify contract interaction
+   * Requests a scan outside the cron schedule, e.g. when the WebSocket subscription sees a new block.
+   * Requests arriving while a scan of the chain is running are coalesced into a single follow-up scan.
+   * @param chainId - The chain to scan
    */
-  private async getBuySellEvents() {
+  requestScan(chainId: number) {
+    if (!this.enabled) {
+      return;
+    }
+    if (this.scanning.has(chainId)) {
+      this.rescanRequested.add(chainId);
+      return;
+    }
+    this.getBuySellEvents(this.deploymentRegistry.getDeployment(chainId)).catch((error) => {
+      this.logger.error(`Error scanning events on request (chainId: ${chainId}):`, error);
+    });
+  }
+
+  /**
+   * Switches a chain between push mode (scans triggered by the WebSocket subscription) and cron polling
+   * @param chainId - The chain the subscription watches
+   * @param active - Whether a healthy WebSocket subscription is driving scans
+   */
+  setPushActive(chainId: number, active: boolean) {
+    if (this.pushActive.has(chainId) !== active) {
+      this.logger.log(
+        active
+          ? `WebSocket subscription active on chain ${chainId}, cron polling on standby`
+          : `WebSocket subscription down on chain ${chainId}, falling back to cron polling`
+      );
+    }
+    if (active) {
+      this.pushActive.add(chainId);
+    } else {
+      this.pushActive.delete(chainId);
+    }
+  }
+
+  /**
+   * Scans every confirmed block of a deployment since its persisted checkpoint for buy and sell events.
+   * The checkpoint is advanced chunk by chunk, so a crash mid-scan resumes where it stopped.
+   * @param deployment - The deployment to scan
+   */
+  private async getBuySellEvents(deployment: Deployment) {
+    const { chainId, orderContractAddress, httpProvider, confirmations } = deployment;
+    // A slow back-fill can outlive the cron interval; never run two scans of a chain side by side
+    if (this.scanning.has(chainId)) {
+      this.logger.log(`Previous scan of chain ${chainId} still running, skipping this run`);
+      return;
+    }
+    this.scanning.add(chainId);
+
     try {
       // Fetching blocks to scan
-      const currentBlock = await this.httpProvider.getBlockNumber();
+      const currentBlock = await httpProvider.getBlockNumber();
+      const safeBlock = currentBlock - confirmations;
+      const lastProcessedBlock = await this.blockCursorService.getLastProcessedBlock(chainId, orderContractAddress);
+
       let fromBlock: number;
-      if (this.lastScannedBlock === 0) {
-        fromBlock = Math.max(0, currentBlock - 50); // First time running - scan last 500 blocks
+      if (lastProcessedBlock === null) {
+        // No checkpoint yet - start from the configured block, or the last 50 confirmed blocks
+        fromBlock = deployment.startBlock ?? Math.max(0, safeBlock - 50);
       } else {
-        fromBlock = this.lastScannedBlock + 1; // Subsequent runs - scan from last scanned block + 1
+        fromBlock = lastProcessedBlock + 1;
       }
-      this.lastScannedBlock = currentBlock;
-      this.logger.log(`CronJob running for events from block ${fromBlock} to ${currentBlock} | Total Blocks Scanned: ${currentBlock - fromBlock + 1}`);
 
-      // Setting up the contract instance
-      const ORDER_CONTRACT_ADDRESS = this.config.get<string>('ORDER_CONTRACT_ADDRESS');
-      if (!ORDER_CONTRACT_ADDRESS) {
-        throw new Error('ORDER_CONTRACT_ADDRESS is not defined in configuration');
+      // Blocks we already processed may have been replaced; re-scan from the fork point
+      const forkBlock = await this.reorgService.detectReorg(chainId, currentBlock);
+      if (forkBlock !== null && forkBlock < fromBlock) {
+        this.logger.warn(`Rewinding scan checkpoint from block ${fromBlock - 1} to ${forkBlock - 1} after reorg`);
+        fromBlock = forkBlock;
+        await this.blockCursorService.saveLastProcessedBlock(chainId, orderContractAddress, forkBlock - 1);
       }
-      const httpContract = new ethers.Contract(
-        ORDER_CONTRACT_ADDRESS,
-        ORDER_CONTRACT_EVENTS_ABI,
-        this.httpProvider
-      );
-      
-      // Fetching buy and sell events
-      const buyEvents = await Promise.race([
-        httpContract.queryFilter(
-          httpContract.filters.BuyOrderCreated(),
-          fromBlock,
-          currentBlock
-        ),
-        this.createTimeout(10000, 'Buy events query timeout')
-      ]);
 
-      const sellEvents = await Promise.race([
-        httpContract.queryFilter(
-          httpContract.filters.SellOrderCreated(),
-          fromBlock,
-          currentBlock
-        ),
-        this.createTimeout(10000, 'Sell events query timeout')
-      ]);
-
-      this.logger.log(`Found ${buyEvents.length} buy and ${sellEvents.length} sell events from block ${fromBlock} to ${currentBlock}`);
+      if (fromBlock > safeBlock) {
+        this.logger.log(`No confirmed blocks to scan on chain ${chainId} (next: ${fromBlock}, head: ${currentBlock}, confirmations: ${confirmations})`);
+        return;
+      }
+      this.logger.log(`CronJob running for chain ${chainId} events from block ${fromBlock} to ${safeBlock} | Total Blocks Scanned: ${safeBlock - fromBlock + 1}`);
 
-      // Processing buy and sell events
-      if (buyEvents.length > 0) {
-        for (const event of buyEvents) {
-          try {
-            if ('args' in event) {
-              const [user, ticker, token, usdcAmount, assetAmount, price] = event.args;
-              const usdcAmountDecimal = Number(usdcAmount) / 1e6;
-              const priceDecimal = Number(price) / 1e8;
-              const assetAmountDecimal = Number(assetAmount) / 1e18;
+      for (let chunkStart = fromBlock; chunkStart <= safeBlock; chunkStart += this.maxBlockRange) {
+        const chunkEnd = Math.min(chunkStart + this.maxBlockRange - 1, safeBlock);
+        const logs = await this.processBlockRange(chainId, chunkStart, chunkEnd);
 
-              
-              this.logger.log('Processing Buy Order Event:', { 
-                user, ticker, token,
-                usdcAmount: `$${usdcAmountDecimal}`, 
-                assetAmount: `${assetAmountDecimal}`, 
-                price: `$${priceDecimal}` 
-              });
-              
-              const orderRequest: OrderRequest = {
-                user,
-                token,
-                assetSymbol: ticker,
-                usdcAmount: usdcAmountDecimal,
-                assetAmount: assetAmountDecimal,
-                price: priceDecimal
-              };
-              await this.ordersService.buyOrder(orderRequest);
-            }
-          } catch (error) {
-            this.logger.error('Error processing buy order from historical event:', error);
-          }
-        }
-      }
-      if (sellEvents.length > 0) {
-        for (const event of sellEvents) {
-          try {
-            if ('args' in event) {
-              const [user, ticker, token, usdcAmount, assetAmount, price] = event.args;
-              const assetAmountDecimal = Number(assetAmount) / 1e18;
-              const priceDecimal = Number(price) / 1e8;
-              const usdcAmountDecimal = Number(usdcAmount)/ 1e6;
-              
-              this.logger.log('Processing Sell Order Event:', { 
-                user, ticker, token,
-                usdcAmount: `$${usdcAmountDecimal}`, 
-                assetAmount: `${assetAmountDecimal}`, 
-                price: `$${priceDecimal}` 
-              });
-              
-              const orderRequest: OrderRequest = {
-                user,
-                token,
-                assetSymbol: ticker,
-                usdcAmount: usdcAmountDecimal,
-                assetAmount: assetAmountDecimal,
-                price: priceDecimal
-              };
-              await this.ordersService.sellOrder(orderRequest);
-            }
-          } catch (error) {
-            this.logger.error('Error processing sell order from historical event:', error);
-          }
-        }
+        // Remember which block hashes the processed logs (and the checkpoint) came from, for reorg detection
+        const chunkEndBlock = await httpProvider.getBlock(chunkEnd);
+        await this.reorgService.recordBlocks(chainId, [
+          ...logs.map((log) => ({ blockNumber: log.blockNumber, blockHash: log.blockHash })),
+          ...(chunkEndBlock?.hash ? [{ blockNumber: chunkEnd, blockHash: chunkEndBlock.hash }] : [])
+        ]);
+        await this.blockCursorService.saveLastProcessedBlock(chainId, orderContractAddress, chunkEnd);
       }
-      
     } catch (error) {
-      this.logger.error('Error testing historical events:', error);
+      this.logger.error(`Error testing historical events (chainId: ${chainId}):`, error);
+    } finally {
+      this.scanning.delete(chainId);
+      if (this.rescanRequested.delete(chainId)) {
+        this.requestScan(chainId);
+      }
     }
   }
 
   /**
-   * Initializes the event listener service.
-   * Subscribes to WebSocket events from the order contract.
+   * Fetches and processes buy and sell events emitted within a block range
+   * @param chainId - The chain id the logs are emitted on
+   * @param fromBlock - First block of the range (inclusive)
+   * @param toBlock - Last block of the range (inclusive)
+   * @returns The order event logs found in the range, in chain order
    */
-  // async onModuleInit() {
-  //   await this.subscribeToEvents();
-  // }
+  async processBlockRange(chainId: number, fromBlock: number, toBlock: number): Promise<OrderContractLog[]> {
+    const events = await this.fetchOrderEvents(chainId, fromBlock, toBlock);
+    await this.processOrderEvents(chainId, events);
+    return events;
+  }
 
   /**
-   * Cleans up the event listeners and WebSocket connection when the module is destroyed.
+   * Fetches buy, sell and USDC withdrawal events emitted by the order contract within a block range.
+   * All event types come from a single log query and are returned as one stream ordered by
+   * (blockNumber, logIndex), the exact sequence the chain recorded them in.
+   * @param chainId - The chain of the deployment to query
+   * @param fromBlock - First block of the range (inclusive)
+   * @param toBlock - Last block of the range (inclusive)
+   * @returns The raw order contract logs in chain order
    */
-  // async onModuleDestroy() {
-  //   try {
-  //     this.orderContract.removeAllListeners();
-  //     if (this.wssProvider && this.wssProvider.websocket) {
-  //       this.wssProvider.destroy();
-  //     }
-  //   } catch (error) {
-  //     this.logger.error('Error during cleanup:', error);
-  //   }
-  // }
+  async fetchOrderEvents(chainId: number, fromBlock: number, toBlock: number): Promise<OrderContractLog[]> {
+    const deployment = this.deploymentRegistry.getDeployment(chainId);
+    const httpContract = new ethers.Contract(
+      deployment.orderContractAddress,
+      ORDER_CONTRACT_EVENTS_ABI,
+      deployment.httpProvider
+    );
+
+    // Any topic matches: BuyOrderCreated, SellOrderCreated or AgentUSDCWithdraw
+    const orderTopics: ethers.TopicFilter = [[
+      httpContract.interface.getEvent('BuyOrderCreated')!.topicHash,
+      httpContract.interface.getEvent('SellOrderCreated')!.topicHash,
+      httpContract.interface.getEvent('AgentUSDCWithdraw')!.topicHash
+    ]];
+
+    // Fetching buy, sell and withdrawal events
+    const events = await Promise.race([
+      httpContract.queryFilter(orderTopics, fromBlock, toBlock),
+      this.createTimeout(10000, 'Order events query timeout')
+    ]);
+    events.sort((a, b) => a.blockNumber - b.blockNumber || a.index - b.index);
+
+    const countOf = (eventName: string) => events.filter((event) => this.getEventName(event) === eventName).length;
+    this.logger.log(
+      `Found ${countOf('BuyOrderCreated')} buy, ${countOf('SellOrderCreated')} sell and ${countOf('AgentUSDCWithdraw')} withdrawal events on chain ${chainId} from block ${fromBlock} to ${toBlock}`
+    );
+    return events;
+  }
 
   /**
-   * Subscribes to events from the order contract.
+   * Turns order event logs into orders and executes them one by one, in the order given.
+   * When orders are batched, each order's checks still run to completion before the next order's, so orders join
+   * their batch in chain order; only the wait for the batch to settle is shared. The call returns once all of them
+   * are settled or parked.
+   * USDC withdrawal logs are indexed for the withdrawal history instead.
+   * @param chainId - The chain id the logs are emitted on
+   * @param events - BuyOrderCreated, SellOrderCreated and AgentUSDCWithdraw logs in chain order
+   * @throws if a log cannot be decoded, so the scan stops and the checkpoint is not advanced past it
    */
-  // private async subscribeToEvents() {
-  //   this.logger.log('Waiting for WebSocket provider to be ready...');
-  //   await this.wssProvider.ready;
-
-  //   // Verify connection is actually working
-  //   const network = await this.wssProvider.getNetwork();
-  //   this.logger.log(`Connected to network: ${network.name} (chainId: ${network.chainId})`);
+  async processOrderEvents(chainId: number, events: OrderContractLog[]) {
+    const batched: Promise<void>[] = [];
+    for (const event of events) {
+      const eventName = this.getEventName(event);
+      const side = eventName === 'BuyOrderCreated' ? 'buy' : 'sell';
+      if (!eventName || !('args' in event)) {
+        // Nothing to dead-letter without a decoded order; stop before the checkpoint moves past the log
+        throw new Error(`Could not decode order log ${event.transactionHash}:${event.index} on chain ${chainId}`);
+      }
 
-  //   const ORDER_CONTRACT_ADDRESS = this.config.get<string>('ORDER_CONTRACT_ADDRESS');
-  //   if (!ORDER_CONTRACT_ADDRESS) {
-  //     throw new Error('ORDER_CONTRACT_ADDRESS is not defined in configuration');
-  //   }
-  //   this.orderContract = new ethers.Contract(
-  //     ORDER_CONTRACT_ADDRESS,
-  //     ORDER_CONTRACT_EVENTS_ABI,
-  //     this.wssProvider,
-  //   );
-  //   this.logger.log(`Connecting to order contract at: ${ORDER_CONTRACT_ADDRESS}`);
+      if (eventName === 'AgentUSDCWithdraw') {
+        // Indexing is idempotent; a failure propagates so the checkpoint is not advanced past the event
+        await this.indexWithdrawal(chainId, event);
+        continue;
+      }
 
-  //   // Test if contract exists
-  //   const code = await this.wssProvider.getCode(ORDER_CONTRACT_ADDRESS);
-  //   if (code === '0x') {
-  //     this.logger.error(`No contract found at address: ${ORDER_CONTRACT_ADDRESS}`);
-  //     return;
-  //   }
-  //   this.logger.log('Contract verified - code exists at address');
+      const [user, ticker, token, usdcAmount, assetAmount, price] = event.args;
+      // Exact conversion from base units; rounding only happens when the order is executed
+      const usdcAmountDecimal = formatAmount(usdcAmount, USDC_DECIMALS);
+      const priceDecimal = formatAmount(price, PRICE_DECIMALS);
+      const assetAmountDecimal = formatAmount(assetAmount, ASSET_DECIMALS);
 
-  //   // Subscribe to new blocks
-  //   this.wssProvider.on('block', (blockNumber) => {
-  //     this.logger.log(`New block mined: ${blockNumber}`);
-  //   });
+      this.logger.log(`Processing ${side === 'buy' ? 'Buy' : 'Sell'} Order Event:`, {
+        user, ticker, token,
+        usdcAmount: `$${usdcAmountDecimal}`,
+        assetAmount: assetAmountDecimal,
+        price: `$${priceDecimal}`,
+        block: event.blockNumber,
+        logIndex: event.index
+      });
 
-  //   // You can also listen for WebSocket connection errors
-  //   this.wssProvider.on('error', (error) => {
-  //     this.logger.error('WebSocket provider error:', error);
-  //     // this.destroyConnectionAndSubscribeAgain();
-  //   });
+      const orderRequest: OrderRequest = {
+        user,
+        token,
+        assetSymbol: ticker,
+        usdcAmount: usdcAmountDecimal,
+        assetAmount: assetAmountDecimal,
+        price: priceDecimal,
+        source: {
+          chainId,
+          txHash: event.transactionHash,
+          logIndex: event.index,
+          blockNumber: event.blockNumber
+        }
+      };
+      if (this.ordersService.isBatching()) {
+        let joined!: () => void;
+        const batchJoined = new Promise<void>((resolve) => (joined = resolve));
+        const settled = this.executeOrderEvent(orderRequest, eventName, event, joined);
+        batched.push(settled);
+        // Move on once the order joined its batch, or ended without joining one
+        await Promise.race([batchJoined, settled.catch(() => undefined)]);
+      } else {
+        await this.executeOrderEvent(orderRequest, eventName, event);
+      }
+    }
 
-  //   this.orderContract.on('BuyOrderCreated', async (user, ticker, token, usdcAmount, assetAmount, price, event) => {      
-  //     try {
-  //       const usdcAmountDecimal = Number(usdcAmount);
-  //       const assetAmountDecimal = Number(assetAmount) / 1e16;
-  //       const priceDecimal = Number(price) / 1e2;
-        
-  //       this.logger.log('Buy Order Event Received:', { 
-  //         user, ticker, token,
-  //         usdcAmount: `$${usdcAmountDecimal}`, 
-  //         assetAmount: `S${assetAmountDecimal}`, 
-  //         price: `$${priceDecimal}` 
-  //       });
-        
-  //       const orderRequest: OrderRequest = {
-  //         user,
-  //         token,
-  //         assetSymbol: ticker,
-  //         usdcAmount: usdcAmountDecimal,
-  //         assetAmount: usdcAmountDecimal/priceDecimal,
-  //         price: priceDecimal
-  //       };
-  //       await this.ordersService.buyOrder(orderRequest);
-  //     } catch (error) {
-  //       this.logger.error('Error processing buy order from event:', error);
-  //     }
-  //   });
+    // Every batched order has to be settled or parked before the checkpoint moves past it
+    const outcomes = await Promise.allSettled(batched);
+    const failure = outcomes.find((outcome) => outcome.status === 'rejected');
+    if (failure) {
+      throw failure.reason;
+    }
+  }
 
-  //   this.orderContract.on('SellOrderCreated', async (user, ticker, token, usdcAmount, assetAmount, price, event) => {
-  //     try {
-  //       const assetAmountDecimal = Number(assetAmount);
-  //       const priceDecimal = Number(price) / 1e2;
-        
-  //       this.logger.log('Sell Order Event Received:', { 
-  //         user, ticker, token,
-  //         usdcAmount: `$${assetAmountDecimal}`, 
-  //         assetAmount: `S${assetAmountDecimal/priceDecimal}`, 
-  //         price: `$${priceDecimal}` 
-  //       });
-        
-  //       const orderRequest: OrderRequest = {
-  //         user,
-  //         token,
-  //         assetSymbol: ticker,
-  //         usdcAmount: assetAmountDecimal,
-  //         assetAmount: assetAmountDecimal/priceDecimal,
-  //         price: priceDecimal
-  //       };
-  //       await this.ordersService.sellOrder(orderRequest);
-  //     } catch (error) {
-  //       this.logger.error('Error processing sell order from event:', error);
-  //     }
-  //   });
-  // }
+  /**
+   * Executes the order of one log; a failed order is parked in the dead letters
+   * @param orderRequest - The order decoded from the log
+   * @param eventName - BuyOrderCreated or SellOrderCreated
+   * @param event - The log
+   * @param onBatched - Called once the order joined a batch
+   * @throws if the failed order could not be parked, so the checkpoint is not advanced past it
+   */
+  private async executeOrderEvent(
+    orderRequest: OrderRequest,
+    eventName: string,
+    event: OrderContractLog,
+    onBatched?: () => void
+  ) {
+    const side = eventName === 'BuyOrderCreated' ? 'buy' : 'sell';
+    try {
+      if (side === 'buy') {
+        await this.ordersService.buyOrder(orderRequest, onBatched);
+      } else {
+        await this.ordersService.sellOrder(orderRequest, onBatched);
+      }
+    } catch (error) {
+      if (error instanceof ConflictException) {
+        this.logger.warn(`Skipping ${side} event ${event.transactionHash}:${event.index}, already processed`);
+        return;
+      }
+      this.logger.error(`Error processing ${side} order from historical event:`, error);
+      // Park the event for retry before the cursor moves past it. If even that fails the error propagates,
+      // the checkpoint is not advanced and the next scan picks the event up again.
+      await this.deadLetterService.record(orderRequest, eventName, error);
+    }
+  }
 
   /**
-   * Destroys the current WebSocket connection and re-subscribes to events.
-   * This is called when the WebSocket connection is detected as unhealthy.
+   * Records an AgentUSDCWithdraw log in the withdrawal history
+   * @param chainId - The chain id the log is emitted on
+   * @param event - The decoded AgentUSDCWithdraw log
    */
-  // private async destroyConnectionAndSubscribeAgain() {
-  //   this.logger.error('WebSocket connection unhealthy, attempting to reconnect...');
-  //   try {
-  //     this.orderContract.removeAllListeners();
-  //     if (this.wssProvider && this.wssProvider.websocket) {
-  //       this.wssProvider.destroy();
-  //     }
+  private async indexWithdrawal(chainId: number, event: ethers.EventLog) {
+    const [user, amount] = event.args;
+    const block = await this.deploymentRegistry.getDeployment(chainId).httpProvider.getBlock(event.blockNumber);
+    if (!block) {
+      throw new Error(`Block ${event.blockNumber} of withdrawal ${event.transactionHash} not found`);
+    }
 
-  //     // fresh provider
-  //     this.wssProvider = new ethers.WebSocketProvider(this.config.get<string>('RPC_WSS') || '');
-  //     await this.subscribeToEvents();
-      
-  //     this.logger.log('WebSocket connection and event listeners re-established');
-  //   } catch (error) {
-  //     this.logger.error('Failed to reconnect WebSocket:', error);
-  //   }
-  // }
+    this.logger.log(`Indexing USDC withdrawal of ${formatAmount(amount, USDC_DECIMALS)} to ${user} in ${event.transactionHash}`);
+    await this.withdrawalsService.recordOnChain({
+      chainId,
+      txHash: event.transactionHash,
+      logIndex: event.index,
+      blockNumber: event.blockNumber,
+      blockTimestamp: block.timestamp,
+      userAddress: user,
+      amount: formatAmount(amount, USDC_DECIMALS)
+    });
+  }
 
-  // @Cron('* * * * *')
-  // async checkLatestBlock() {
-    // try {
-    //   // Set a 10-second timeout for the block check
-    //   const blockNumber = await Promise.race([
-    //     this.wssProvider.getBlockNumber(),
-    //     this.createTimeout(10000, 'Block check timeout')
-    //   ]);
+  /**
+   * Returns the event name of an order contract log, decoded or not
+   * @param event - The order contract log
+   */
+  getEventName(event: OrderContractLog): string | undefined {
+    if ('eventName' in event) {
+      return event.eventName;
+    }
+    return this.orderContractInterface.getEvent(event.topics[0])?.name;
+  }
 
-    //   if(!blockNumber) {
-    //     this.destroyConnectionAndSubscribeAgain();
-    //   }
-    //   this.logger.log(`Block detected: ${blockNumber}`);
-      
-    // } catch (error) {
-    //   this.destroyConnectionAndSubscribeAgain();
-    // }
-  // }
+  /**
+   * Returns the order contract address of the deployment on a chain
+   * @param chainId - The chain id
+   */
+  getOrderContractAddress(chainId: number): string {
+    return this.deploymentRegistry.getDeployment(chainId).orderContractAddress;
+  }
 
   private createTimeout(ms: number, errorMessage: string): Promise<never> {
     return new Promise((_, reject) => {
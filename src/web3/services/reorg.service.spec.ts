@@ -0,0 +1,190 @@
+import { Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { ethers } from 'ethers';
+import { InMemorySupabase } from '../../../test/in-memory-supabase';
+import { ProcessedEventsService } from '../../events/processed-events.service';
+import { OrdersService } from '../../orders/orders.service';
+import { ORDER_CONTRACT_EVENTS_ABI } from '../../shared/abi/ORDER_EVENTS.abi';
+import { DeploymentRegistry } from '../providers/deployment.registry';
+import { ReorgService } from './reorg.service';
+
+const CHAIN_ID = 11155111;
+const ORDER_CONTRACT = '0x00000000000000000000000000000000000000cc';
+const USER = '0x00000000000000000000000000000000000000bb';
+const TX_HASH = ethers.id('buy');
+
+// Stored hash of a block on the chain the scan saw, and its hash after the reorg
+function hashOf(blockNumber: number, fork = ''): string {
+  return ethers.id(`${fork}${blockNumber}`);
+}
+
+describe('ReorgService', () => {
+  // Never queried: the tests stub what the service asks the node
+  const provider = new ethers.JsonRpcProvider('http://127.0.0.1:1', CHAIN_ID, {
+    staticNetwork: true,
+  });
+  let db: InMemorySupabase;
+  let reorgs: ReorgService;
+  let compensateOrphanedEvent: jest.Mock;
+  let getBlock: jest.SpyInstance;
+  let getTransactionReceipt: jest.SpyInstance;
+  // Blocks from this one up were replaced on the canonical chain
+  let forkedFrom: number;
+
+  beforeAll(() => {
+    Logger.overrideLogger(false);
+  });
+
+  beforeEach(() => {
+    db = new InMemorySupabase({
+      processed_blocks: [['chain_id', 'block_number']],
+      processed_events: [['chain_id', 'tx_hash', 'log_index']],
+    });
+    forkedFrom = Infinity;
+    getBlock = jest
+      .spyOn(provider, 'getBlock')
+      .mockImplementation((blockNumber) => {
+        const number = Number(blockNumber);
+        return Promise.resolve({
+          hash: hashOf(number, number >= forkedFrom ? 'fork' : ''),
+        } as ethers.Block);
+      });
+    getTransactionReceipt = jest
+      .spyOn(provider, 'getTransactionReceipt')
+      .mockResolvedValue(null);
+    compensateOrphanedEvent = jest.fn().mockResolvedValue(undefined);
+
+    reorgs = new ReorgService(
+      {
+        getDeployment: () => ({
+          httpProvider: provider,
+          orderContractAddress: ORDER_CONTRACT,
+        }),
+      } as unknown as DeploymentRegistry,
+      new ConfigService({ REORG_CHECK_DEPTH: '128' }),
+      db.service(),
+      new ProcessedEventsService(db.service()),
+      { compensateOrphanedEvent } as unknown as OrdersService,
+    );
+  });
+
+  afterEach(() => jest.restoreAllMocks());
+
+  afterAll(() => provider.destroy());
+
+  async function recordBlocks(from: number, to: number): Promise<void> {
+    const blocks: { blockNumber: number; blockHash: string }[] = [];
+    for (let blockNumber = from; blockNumber <= to; blockNumber++) {
+      blocks.push({ blockNumber, blockHash: hashOf(blockNumber) });
+    }
+    await reorgs.recordBlocks(CHAIN_ID, blocks);
+  }
+
+  function processedBuy(blockNumber: number, logIndex = 0) {
+    db.seed('processed_events', {
+      id: 'event-1',
+      chain_id: CHAIN_ID,
+      tx_hash: TX_HASH,
+      log_index: logIndex,
+      block_number: blockNumber,
+      event_name: 'BuyOrderCreated',
+      status: 'processed',
+    });
+  }
+
+  function receiptAt(blockNumber: number, index: number) {
+    const { data, topics } = new ethers.Interface(
+      ORDER_CONTRACT_EVENTS_ABI,
+    ).encodeEventLog('BuyOrderCreated', [USER, 'LQD', USER, 1n, 1n, 1n]);
+    return {
+      status: 1,
+      logs: [{ address: ORDER_CONTRACT, topics, data, blockNumber, index }],
+    } as unknown as ethers.TransactionReceipt;
+  }
+
+  describe('detectReorg', () => {
+    it('checks only the newest stored block while the chain is unchanged', async () => {
+      await recordBlocks(900, 1000);
+
+      await expect(reorgs.detectReorg(CHAIN_ID, 1000)).resolves.toBeNull();
+      expect(getBlock).toHaveBeenCalledTimes(1);
+      expect(getBlock).toHaveBeenCalledWith(1000);
+    });
+
+    it('finds the fork point with a binary search', async () => {
+      await recordBlocks(900, 1000);
+      forkedFrom = 937;
+
+      await expect(reorgs.detectReorg(CHAIN_ID, 1000)).resolves.toBe(937);
+      // The newest block, then log2 of the 101 stored blocks
+      expect(getBlock.mock.calls.length).toBeLessThanOrEqual(8);
+      expect(db.rows('processed_blocks')).toHaveLength(37);
+    });
+
+    it('finds a fork at the oldest stored block', async () => {
+      await recordBlocks(900, 1000);
+      forkedFrom = 0;
+
+      await expect(reorgs.detectReorg(CHAIN_ID, 1000)).resolves.toBe(900);
+    });
+
+    it('prunes stored blocks below the check depth', async () => {
+      await recordBlocks(800, 1000);
+
+      await reorgs.detectReorg(CHAIN_ID, 1000);
+
+      expect(db.rows('processed_blocks')).toHaveLength(129);
+    });
+  });
+
+  describe('after a reorg', () => {
+    beforeEach(async () => {
+      await recordBlocks(950, 1000);
+      forkedFrom = 980;
+    });
+
+    it('compensates the order of a log that disappeared', async () => {
+      processedBuy(990);
+
+      await reorgs.detectReorg(CHAIN_ID, 1000);
+
+      expect(compensateOrphanedEvent).toHaveBeenCalledWith(
+        expect.objectContaining({ tx_hash: TX_HASH }),
+      );
+    });
+
+    it('compensates the order of a log whose transaction reverted on the new chain', async () => {
+      processedBuy(990);
+      getTransactionReceipt.mockResolvedValue({
+        ...receiptAt(995, 0),
+        status: 0,
+      });
+
+      await reorgs.detectReorg(CHAIN_ID, 1000);
+
+      expect(compensateOrphanedEvent).toHaveBeenCalled();
+    });
+
+    it('moves a log re-included in another block in the ledger, without compensating it', async () => {
+      processedBuy(990, 2);
+      getTransactionReceipt.mockResolvedValue(receiptAt(995, 4));
+
+      await reorgs.detectReorg(CHAIN_ID, 1000);
+
+      expect(compensateOrphanedEvent).not.toHaveBeenCalled();
+      expect(db.rows('processed_events')[0]).toMatchObject({
+        block_number: 995,
+        log_index: 4,
+      });
+    });
+
+    it('leaves logs below the fork point alone', async () => {
+      processedBuy(970);
+
+      await reorgs.detectReorg(CHAIN_ID, 1000);
+
+      expect(getTransactionReceipt).not.toHaveBeenCalled();
+      expect(compensateOrphanedEvent).not.toHaveBeenCalled();
+    });
+  });
+});
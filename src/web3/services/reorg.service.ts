@@ -0,0 +1,272 @@
+import { Inject, Injectable, Logger, forwardRef } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { ethers } from 'ethers';
+import { DeploymentRegistry } from '../providers/deployment.registry';
+import { SupabaseService } from '../../supabase/supabase.service';
+import {
+  ProcessedEvent,
+  ProcessedEventsService,
+} from '../../events/processed-events.service';
+import { OrdersService } from '../../orders/orders.service';
+import { ORDER_CONTRACT_EVENTS_ABI } from '../../shared/abi/ORDER_EVENTS.abi';
+
+// Row shape of the processed_blocks table, unique on (chain_id, block_number)
+interface ProcessedBlock {
+  chain_id: number;
+  block_number: number;
+  block_hash: string;
+  created_at: string;
+}
+
+@Injectable()
+export class ReorgService {
+  private readonly logger = new Logger(ReorgService.name);
+  private readonly checkDepth: number;
+  private readonly orderContractInterface = new ethers.Interface(
+    ORDER_CONTRACT_EVENTS_ABI,
+  );
+
+  constructor(
+    private readonly deploymentRegistry: DeploymentRegistry,
+    private readonly config: ConfigService,
+    private readonly supabaseService: SupabaseService,
+    private readonly processedEventsService: ProcessedEventsService,
+    @Inject(forwardRef(() => OrdersService))
+    private readonly ordersService: OrdersService,
+  ) {
+    // How many blocks below the head stored hashes are compared against the canonical chain
+    this.checkDepth = Number(
+      this.config.get<string>('REORG_CHECK_DEPTH') ?? 128,
+    );
+  }
+
+  /**
+   * Store the hashes of blocks whose logs were processed
+   * @param chainId - The chain id the blocks belong to
+   * @param blocks - Block numbers and the hashes they had when processed
+   */
+  async recordBlocks(
+    chainId: number,
+    blocks: { blockNumber: number; blockHash: string }[],
+  ): Promise<void> {
+    const unique = new Map(blocks.map((block) => [block.blockNumber, block]));
+    if (unique.size === 0) {
+      return;
+    }
+
+    const now = new Date().toISOString();
+    const { error } = await this.supabaseService
+      .getClient()
+      .from('processed_blocks')
+      .upsert(
+        [...unique.values()].map((block) => ({
+          chain_id: chainId,
+          block_number: block.blockNumber,
+          block_hash: block.blockHash,
+          created_at: now,
+        })),
+        { onConflict: 'chain_id,block_number' },
+      );
+
+    if (error) {
+      this.logger.error(
+        `Error recording block hashes on chain ${chainId}:`,
+        error,
+      );
+      throw error;
+    }
+  }
+
+  /**
+   * Compare stored block hashes with the canonical chain and handle any reorganization.
+   * Logs from reorged blocks that were re-included elsewhere are moved in the ledger;
+   * logs that disappeared are handed to order compensation.
+   * @param chainId - The chain id to check
+   * @param headBlock - The current head block number
+   * @returns The first reorged block, or null if the stored blocks are all canonical.
+   * The caller must re-scan from this block.
+   */
+  async detectReorg(
+    chainId: number,
+    headBlock: number,
+  ): Promise<number | null> {
+    const stored = await this.getStoredBlocks(
+      chainId,
+      headBlock - this.checkDepth,
+    );
+
+    // A block hash commits to every block below it: when the newest stored block is canonical, so are the others
+    let forkBlock: number | null = null;
+    if (
+      stored.length > 0 &&
+      !(await this.isCanonical(chainId, stored[stored.length - 1]))
+    ) {
+      // Binary search for the oldest stored block that is no longer canonical
+      let low = 0;
+      let high = stored.length - 1;
+      while (low < high) {
+        const middle = Math.floor((low + high) / 2);
+        if (await this.isCanonical(chainId, stored[middle])) {
+          low = middle + 1;
+        } else {
+          high = middle;
+        }
+      }
+      forkBlock = stored[low].block_number;
+    }
+
+    await this.pruneBlocks(chainId, headBlock - this.checkDepth);
+    if (forkBlock === null) {
+      return null;
+    }
+
+    this.logger.warn(
+      `Chain reorganization detected on chain ${chainId} at block ${forkBlock}`,
+    );
+    const events = await this.processedEventsService.findEventsFromBlock(
+      chainId,
+      forkBlock,
+    );
+    for (const event of events) {
+      await this.reconcileEvent(event);
+    }
+    await this.deleteBlocksFrom(chainId, forkBlock);
+
+    return forkBlock;
+  }
+
+  /**
+   * Check whether a stored block still has the hash it had when processed
+   */
+  private async isCanonical(
+    chainId: number,
+    block: ProcessedBlock,
+  ): Promise<boolean> {
+    const { httpProvider } = this.deploymentRegistry.getDeployment(chainId);
+    const canonical = await httpProvider.getBlock(block.block_number);
+    return canonical?.hash === block.block_hash;
+  }
+
+  /**
+   * Check whether a ledger entry's log still exists on the canonical chain
+   */
+  private async reconcileEvent(event: ProcessedEvent): Promise<void> {
+    if (['orphaned', 'compensated', 'manual_review'].includes(event.status)) {
+      return;
+    }
+
+    const deployment = this.deploymentRegistry.getDeployment(event.chain_id);
+    const receipt = await deployment.httpProvider.getTransactionReceipt(
+      event.tx_hash,
+    );
+    const log =
+      receipt?.status === 1
+        ? this.findOrderLog(receipt, event, deployment.orderContractAddress)
+        : null;
+    if (receipt && log) {
+      if (
+        log.blockNumber !== event.block_number ||
+        log.index !== event.log_index
+      ) {
+        this.logger.log(
+          `${event.event_name} ${event.tx_hash} was re-included at block ${log.blockNumber}, log ${log.index}`,
+        );
+        await this.processedEventsService.relocate(
+          event,
+          log.blockNumber,
+          log.index,
+        );
+      }
+      return;
+    }
+
+    this.logger.warn(
+      `${event.event_name} ${event.tx_hash}:${event.log_index} disappeared from the canonical chain`,
+    );
+    await this.ordersService.compensateOrphanedEvent(event);
+  }
+
+  /**
+   * Find the order event of a ledger entry among the logs of a transaction receipt
+   */
+  private findOrderLog(
+    receipt: ethers.TransactionReceipt,
+    event: ProcessedEvent,
+    orderContractAddress: string,
+  ): ethers.Log | null {
+    const candidates = receipt.logs.filter((log) => {
+      if (log.address.toLowerCase() !== orderContractAddress.toLowerCase()) {
+        return false;
+      }
+      try {
+        const parsed = this.orderContractInterface.parseLog(log);
+        return parsed?.name === event.event_name;
+      } catch {
+        return false;
+      }
+    });
+    // A transaction can emit several orders; prefer the one at the same position
+    return (
+      candidates.find((log) => log.index === event.log_index) ??
+      candidates[0] ??
+      null
+    );
+  }
+
+  private async getStoredBlocks(
+    chainId: number,
+    fromBlock: number,
+  ): Promise<ProcessedBlock[]> {
+    const { data, error } = await this.supabaseService
+      .getClient()
+      .from('processed_blocks')
+      .select('*')
+      .eq('chain_id', chainId)
+      .gte('block_number', fromBlock)
+      .order('block_number', { ascending: true });
+
+    if (error) {
+      this.logger.error(
+        `Error reading block hashes on chain ${chainId}:`,
+        error,
+      );
+      throw error;
+    }
+
+    return (data ?? []) as ProcessedBlock[];
+  }
+
+  private async pruneBlocks(chainId: number, belowBlock: number) {
+    const { error } = await this.supabaseService
+      .getClient()
+      .from('processed_blocks')
+      .delete()
+      .eq('chain_id', chainId)
+      .lt('block_number', belowBlock);
+
+    if (error) {
+      this.logger.error(
+        `Error pruning block hashes on chain ${chainId}:`,
+        error,
+      );
+      throw error;
+    }
+  }
+
+  private async deleteBlocksFrom(chainId: number, fromBlock: number) {
+    const { error } = await this.supabaseService
+      .getClient()
+      .from('processed_blocks')
+      .delete()
+      .eq('chain_id', chainId)
+      .gte('block_number', fromBlock);
+
+    if (error) {
+      this.logger.error(
+        `Error deleting reorged block hashes on chain ${chainId}:`,
+        error,
+      );
+      throw error;
+    }
+  }
+}
@@ -0,0 +1,109 @@
+import { ethers } from 'ethers';
+import { DeploymentRegistry } from '../providers/deployment.registry';
+import { AssetRegistryService } from '../../assets/asset-registry.service';
+import {
+  TransactionQueueService,
+  TransactionRevertedError,
+} from '../../transactions/transaction-queue.service';
+import { GasPolicyService } from '../../transactions/gas-policy.service';
+import { SignerRegistry } from '../../signers/signer.registry';
+import {
+  TokenService,
+  TradeNotPermittedError,
+  UnconfirmedTransactionError,
+} from './token.service';
+
+const CHAIN_ID = 11155111;
+const TOKEN = '0x00000000000000000000000000000000000000aa';
+const USER = '0x00000000000000000000000000000000000000bb';
+
+describe('TokenService', () => {
+  // Never queried: the tests stub what the service sends
+  const provider = new ethers.JsonRpcProvider('http://127.0.0.1:1', CHAIN_ID, {
+    staticNetwork: true,
+  });
+  let tokens: TokenService;
+  let send: jest.Mock;
+  let waitForReceipt: jest.Mock;
+
+  beforeEach(() => {
+    jest.spyOn(console, 'log').mockImplementation(() => undefined);
+    jest.spyOn(console, 'error').mockImplementation(() => undefined);
+    send = jest.fn().mockResolvedValue({ hashes: ['0x01'] });
+    waitForReceipt = jest.fn().mockResolvedValue({ hash: '0x01' });
+    const signer = new ethers.Wallet(ethers.Wallet.createRandom().privateKey);
+    tokens = new TokenService(
+      {
+        getDeployment: () => ({ httpProvider: provider }),
+      } as unknown as DeploymentRegistry,
+      { get: () => signer } as unknown as SignerRegistry,
+      {
+        getByToken: () => Promise.resolve({ decimals: 18 }),
+      } as unknown as AssetRegistryService,
+      { send, waitForReceipt } as unknown as TransactionQueueService,
+      {} as GasPolicyService,
+    );
+  });
+
+  afterEach(() => jest.restoreAllMocks());
+
+  afterAll(() => provider.destroy());
+
+  it.each([
+    [
+      'mint',
+      (service: TokenService) => service.mintTokens(CHAIN_ID, USER, TOKEN, '1'),
+    ],
+    [
+      'burn',
+      (service: TokenService) => service.burnTokens(CHAIN_ID, USER, TOKEN, '1'),
+    ],
+  ])(
+    'lets a %s that is not permitted fail as such, without sending anything',
+    async (_, action) => {
+      jest
+        .spyOn(tokens, 'assertCanTrade')
+        .mockRejectedValue(new TradeNotPermittedError('not verified'));
+
+      await expect(action(tokens)).rejects.toBeInstanceOf(
+        TradeNotPermittedError,
+      );
+      expect(send).not.toHaveBeenCalled();
+    },
+  );
+
+  describe('once a mint is sent', () => {
+    beforeEach(() => {
+      jest.spyOn(tokens, 'assertCanTrade').mockResolvedValue(undefined);
+    });
+
+    it('returns the hash of the confirmed transaction', async () => {
+      await expect(
+        tokens.mintTokens(CHAIN_ID, USER, TOKEN, '1', 'order-1'),
+      ).resolves.toBe('0x01');
+      expect(send).toHaveBeenCalledWith(
+        CHAIN_ID,
+        expect.anything(),
+        expect.objectContaining({ to: TOKEN }),
+        { purpose: 'mint', orderId: 'order-1' },
+      );
+    });
+
+    it('passes a revert on as it is, so the mint is not sent again', async () => {
+      const reverted = new TransactionRevertedError('0x01', null, 'reverted');
+      waitForReceipt.mockRejectedValue(reverted);
+
+      await expect(tokens.mintTokens(CHAIN_ID, USER, TOKEN, '1')).rejects.toBe(
+        reverted,
+      );
+    });
+
+    it('reports a transaction whose outcome is unknown as unconfirmed', async () => {
+      waitForReceipt.mockRejectedValue(new Error('timeout'));
+
+      await expect(
+        tokens.mintTokens(CHAIN_ID, USER, TOKEN, '1'),
+      ).rejects.toBeInstanceOf(UnconfirmedTransactionError);
+    });
+  });
+});
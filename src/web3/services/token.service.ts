@@ -1,126 +1,76 @@
-import { Inject, Injectable } from '@nestjs/common';
-import { WEB3_HTTP } from '../providers/provider.factory';
+import { Injectable, Logger } from '@nestjs/common';
+import { DeploymentRegistry } from '../providers/deployment.registry';
 import { ethers } from 'ethers';
 import { ERC3643_ABI } from 'src/shared/abi/ERC3643.abi';
 import { IDENTITY_REGISTRY_CONTRACT } from 'src/shared/abi/IDENTITY_REGISTRY.abi';
 import { ORDER_CONTRACT_EVENTS_ABI } from 'src/shared/abi/ORDER_EVENTS.abi';
-import { ConfigService } from '@nestjs/config';
-import { AlpacaService } from '../../alpaca/alpaca.service';
-
-@Injectable()
-export class TokenService {
-    private readonly identityRegistryAddress: string;
-    private readonly orderContractAddress: string;
-    // private nonceManager: Map<string, number> = new Map();
-    // private noncePromises: Map<string, Promise<number>> = new Map();
-
-    constructor(
-        @Inject(WEB3_HTTP) 
-        private httpProvider: ethers.JsonRpcProvider,
-        private readonly config: ConfigService,
-        private readonly alpacaService: AlpacaService,
-    ) {
-        const registryAddress = this.config.get<string>('IDENTITY_REGISTRY_ADDRESS');
-        if (!registryAddress) {
-            throw new Error('IDENTITY_REGISTRY_ADDRESS not configured');
-        }
-        this.identityRegistryAddress = registryAddress;
-
-        const orderAddress = this.config.get<string>('ORDER_CONTRACT_ADDRESS');
-        if (!orderAddress) {
-            throw new Error('ORDER_CONTRACT_ADDRESS is not defined in configuration');
-        }
-        this.orderContractAddress = orderAddress;
+import { USDC_DECIMALS, parseAmount } from 'src/shared/utils/amounts';
+import { AssetRegistryService } from 'src/assets/asset-registry.service';
+import { SentTransaction, TransactionQueueService, TransactionRevertedError } from 'src/transactions/transaction-queue.service';
+import { GasPolicyService } from 'src/transactions/gas-policy.service';
+import { SignerRegistry } from 'src/signers/signer.registry';
+
+/**
+ * Thrown when a transaction was broadcast but its confirmation could not be observed.
+ * The transaction may still be mined, so the step must not be sent again or rolled back blindly.
+ */
+export class UnconfirmedTransactionError extends Error {
+    constructor(readonly txHash: string, message: string) {
+        super(message);
+        this.name = 'UnconfirmedTransactionError';
     }
+}
 
-    /**
-     * Get the next available nonce for an address, managing it locally to prevent conflicts
-     * @param address - The wallet address to get nonce for
-     * @returns Promise<number> - The next available nonce
-     */
-    // private async getNextNonce(address: string): Promise<number> {
-    //     // If there's already a pending nonce request for this address, wait for it
-    //     if (this.noncePromises.has(address)) {
-    //         await this.noncePromises.get(address);
-    //     }
-
-    //     // Create a new promise for this nonce request
-    //     const noncePromise = this.fetchAndIncrementNonce(address);
-    //     this.noncePromises.set(address, noncePromise);
-
-    //     try {
-    //         const nonce = await noncePromise;
-    //         return nonce;
-    //     } finally {
-    //         // Clean up the promise after it's resolved
-    //         this.noncePromises.delete(address);
-    //     }
-    // }
-
-    /**
-     * Fetch current nonce from blockchain and increment local counter
-     * @param address - The wallet address
-     * @returns Promise<number> - The next nonce to use
-     */
-    // private async fetchAndIncrementNonce(address: string): Promise<number> {
-    //     let currentNonce: number;
-    //     let blockchainNonce: number;
+/**
+ * Thrown when a user or token cannot be traded: the user is not verified in the identity registry,
+ * or the signer is not an agent of the token. Nothing was sent on-chain.
+ */
+export class TradeNotPermittedError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = 'TradeNotPermittedError';
+    }
+}
 
-    //     // Always check the blockchain nonce for comparison
-    //     blockchainNonce = await this.httpProvider.getTransactionCount(address, 'latest');
+// Tokens minted to or burned from one user in a batch transaction
+export interface TokenAllocation {
+    userAddress: string;
+    // Decimal string already rounded to the token's decimals
+    amount: string;
+}
 
-    //     if (this.nonceManager.has(address)) {
-    //         // Use local nonce counter
-    //         currentNonce = this.nonceManager.get(address)!;
-            
-    //         // Safety check: if our local nonce is too far ahead or behind, resync
-    //         if (currentNonce < blockchainNonce || currentNonce > blockchainNonce + 10) {
-    //             console.log(`Nonce out of sync for ${address}. Local: ${currentNonce}, Blockchain: ${blockchainNonce}. Resyncing...`);
-    //             currentNonce = blockchainNonce;
-    //         }
-    //     } else {
-    //         // First time, fetch from blockchain
-    //         currentNonce = blockchainNonce;
-    //     }
-
-    //     const nextNonce = currentNonce;
-    //     // Increment for next transaction
-    //     this.nonceManager.set(address, currentNonce + 1);
-        
-    //     console.log(`Address ${address}: blockchain nonce ${blockchainNonce}, using nonce ${nextNonce}, next will be ${currentNonce + 1}`);
-    //     return nextNonce;
-    // }
+// Gas a mint or burn would use, in wei, priced by the chain's gas policy; nothing was sent
+export interface TokenGasEstimate {
+    gasLimit: bigint;
+    // Most paid per gas: the max fee, or the gas price on legacy chains
+    gasPrice: bigint;
+}
 
-    /**
-     * Reset nonce counter for an address (useful if transactions fail or for testing)
-     * @param address - The wallet address to reset nonce for
-     */
-    // private async resetNonce(address: string): Promise<void> {
-    //     const currentNonce = await this.httpProvider.getTransactionCount(address, 'latest');
-    //     this.nonceManager.set(address, currentNonce);
-    //     console.log(`Reset nonce for ${address} to ${currentNonce}`);
-    // }
+@Injectable()
+export class TokenService {
+    private readonly logger = new Logger(TokenService.name);
 
-    /**
-     * Clear all nonce counters (useful for debugging or restart scenarios)
-     */
-    // private clearAllNonces(): void {
-    //     this.nonceManager.clear();
-    //     this.noncePromises.clear();
-    //     console.log('Cleared all nonce counters');
-    // }
+    constructor(
+        private readonly deploymentRegistry: DeploymentRegistry,
+        private readonly signerRegistry: SignerRegistry,
+        private readonly assetRegistryService: AssetRegistryService,
+        private readonly transactionQueue: TransactionQueueService,
+        private readonly gasPolicy: GasPolicyService,
+    ) {}
 
     /**
-     * Verify if a user is verified in the identity registry
+     * Verify if a user is verified in the identity registry of a deployment
+     * @param chainId - The chain of the deployment
      * @param userAddress - The user address to verify
-     * @returns boolean indicating if user is verified
+     * @returns boolean indicating if user is verified; false when the registry could not be read
      */
-    private async verifyUserIdentity(userAddress: string): Promise<boolean> {
+    async verifyUserIdentity(chainId: number, userAddress: string): Promise<boolean> {
         try {
+            const deployment = this.deploymentRegistry.getDeployment(chainId);
             const identityRegistry = new ethers.Contract(
-                this.identityRegistryAddress,
+                deployment.identityRegistryAddress,
                 IDENTITY_REGISTRY_CONTRACT,
-                this.httpProvider
+                deployment.httpProvider
             );
             
             const isVerified = await identityRegistry.isVerified(userAddress);
@@ -131,85 +81,125 @@ export class TokenService {
         }
     }
 
+    /**
+     * Check that an order can be executed on-chain before anything else is done for it:
+     * the user is verified in the identity registry and the agent signer is an agent on the token
+     * @param chainId - The chain the token is deployed on
+     * @param userAddress - The user placing the order
+     * @param tokenAddress - The ERC3643 token contract address
+     * @throws TradeNotPermittedError if the user is not verified or the signer is not an agent
+     * @throws Error if an address is invalid
+     */
+    async assertCanTrade(chainId: number, userAddress: string, tokenAddress: string): Promise<void> {
+        // Validate addresses
+        if (!ethers.isAddress(userAddress)) {
+            throw new Error('Invalid user address');
+        }
+        if (!ethers.isAddress(tokenAddress)) {
+            throw new Error('Invalid token address');
+        }
+
+        // Verify user identity in identity registry
+        const isVerified = await this.verifyUserIdentity(chainId, userAddress);
+        if (!isVerified) {
+            throw new TradeNotPermittedError(`User ${userAddress} is not verified in identity registry`);
+        }
+        console.log(`User ${userAddress} is verified in identity registry`);
+
+        const { httpProvider } = this.deploymentRegistry.getDeployment(chainId);
+        const agentAddress = this.signerRegistry.get('token_agent').getAddress();
+        const token = new ethers.Contract(tokenAddress, ERC3643_ABI, httpProvider);
+        const isAgent = await token.isAgent(agentAddress);
+        if (!isAgent) {
+            throw new TradeNotPermittedError(`Signer ${agentAddress} is not an agent on the token contract. Please add this address as an agent.`);
+        }
+        console.log(`Signer ${agentAddress} is an agent on the token contract ${tokenAddress}`);
+    }
+
+    /**
+     * Get the decimals of a registered ERC3643 token
+     * @param chainId - The chain the token is deployed on
+     * @param tokenAddress - The ERC3643 token contract address
+     * @returns The number of decimals of the token, as recorded in the asset registry
+     */
+    async getTokenDecimals(chainId: number, tokenAddress: string): Promise<number> {
+        return (await this.assetRegistryService.getByToken(chainId, tokenAddress)).decimals;
+    }
+
+    /**
+     * Estimate the gas the agent signer would spend minting tokens to or burning tokens from a user, without sending anything
+     * @param chainId - The chain the token is deployed on
+     * @param action - mint or burn
+     * @param userAddress - The user the tokens are minted to or burned from
+     * @param tokenAddress - The ERC3643 token contract address
+     * @param amount - The amount of tokens, as a decimal string already rounded to the token's decimals
+     * @returns The gas limit and the most paid per gas, as the transaction would be sent
+     * @throws GasFeeCeilingError if the chain's fees are above the gas policy's ceiling
+     * @throws Error if the call would revert, e.g. the user is not verified or holds too few tokens to burn
+     */
+    async estimateTokenGas(
+        chainId: number,
+        action: 'mint' | 'burn',
+        userAddress: string,
+        tokenAddress: string,
+        amount: string
+    ): Promise<TokenGasEstimate> {
+        const { httpProvider } = this.deploymentRegistry.getDeployment(chainId);
+        const token = new ethers.Contract(tokenAddress, ERC3643_ABI, httpProvider);
+        const decimals = await this.getTokenDecimals(chainId, tokenAddress);
+
+        const { request } = await this.gasPolicy.price(
+            chainId,
+            await token[action].populateTransaction(userAddress, parseAmount(amount, decimals)),
+            this.signerRegistry.get('token_agent').getAddress()
+        );
+        return {
+            gasLimit: ethers.toBigInt(request.gasLimit ?? 0),
+            gasPrice: ethers.toBigInt(request.maxFeePerGas ?? request.gasPrice ?? 0)
+        };
+    }
+
     /**
      * Mint ERC3643 RWA tokens to a user address
+     * @param chainId - The chain the token is deployed on
      * @param userAddress - The address to mint tokens to
      * @param tokenAddress - The ERC3643 token contract address
-     * @param amount - The amount of tokens to mint (in wei/smallest unit)
+     * @param amount - The amount of tokens to mint, as a decimal string already rounded to the token's decimals
+     * @param orderId - The order the tokens are minted for, recorded with the transaction
      * @returns Transaction hash
      */
-    async mintTokens(userAddress: string, tokenAddress: string, amount: number): Promise<string> {
-        // Create agent signer from private key (moved outside try block for error handling)
-        const agentSigner = new ethers.Wallet(this.config.get<string>('PRIVATE_KEY') || '', this.httpProvider);
+    async mintTokens(chainId: number, userAddress: string, tokenAddress: string, amount: string, orderId?: string): Promise<string> {
+        // Token agent signer (outside the try block for error handling)
+        const { httpProvider } = this.deploymentRegistry.getDeployment(chainId);
+        const agentSigner = this.signerRegistry.get('token_agent').connect(httpProvider);
         
         try {
-            // Validate addresses
-            if (!ethers.isAddress(userAddress)) {
-                throw new Error('Invalid user address');
-            }
-            if (!ethers.isAddress(tokenAddress)) {
-                throw new Error('Invalid token address');
-            }
+            await this.assertCanTrade(chainId, userAddress, tokenAddress);
 
-            // Verify user identity in identity registry
-            const isVerified = await this.verifyUserIdentity(userAddress);
-            if (!isVerified) {
-                throw new Error(`User ${userAddress} is not verified in identity registry`);
-            }
-            console.log(`User ${userAddress} is verified in identity registry`);
-            
             // Create contract instance with agent signer
             const token = new ethers.Contract(tokenAddress, ERC3643_ABI, agentSigner);
 
-            // Get the actual decimals from the token contract
-            const decimals = Number(await token.decimals());
-            
-            const isAgent = await token.isAgent(agentSigner.address);
-            
-            if (!isAgent) {
-                throw new Error(`Signer ${agentSigner.address} is not an agent on the token contract. Please add this address as an agent.`);
-            }
-            console.log(`Signer ${agentSigner.address} is an agent on the token contract ${tokenAddress}`);
-
-            const factor = 10 ** decimals; // e.g., 6 decimals → 1_000_000
-            const roundedAssetAmount = (Math.floor(amount * factor) / factor).toString();
-            const mintAmount = ethers.parseUnits(roundedAssetAmount, decimals);
-
-            // Place Alpaca order
-            const orderResponse = await this.alpacaService.placeOrder('LQD', roundedAssetAmount, 'buy');
-            console.log(`Alpaca order placed: ${JSON.stringify(orderResponse)}`);
-
-            // // Check order until filled
-            // const isFilled = await this.alpacaService.checkUntilOrderFilled(orderResponse.id);
-            // if (!isFilled) {
-            //     throw new Error(`Alpaca order ${orderResponse.id} was not filled in the expected time`);
-            // }
-            // console.log(`Alpaca order ${orderResponse.id} is filled`);
+            // Only registered tokens are minted; their decimals were checked against the contract on registration
+            const decimals = await this.getTokenDecimals(chainId, tokenAddress);
 
-            // Get the next nonce using nonce manager
-            // const nextNonce = await this.getNextNonce(agentSigner.address);
+            // Amounts arrive pre-rounded; anything finer than the token's decimals is rejected, never truncated
+            const mintAmount = parseAmount(amount, decimals);
 
-            const gasEstimate = await token.mint.estimateGas(userAddress, mintAmount);
-            const gasLimit = (gasEstimate * BigInt(120)) / BigInt(100);
-
-            console.log(`Minting ${roundedAssetAmount} tokens (${mintAmount} wei) to ${userAddress}`);
+            console.log(`Minting ${amount} tokens (${mintAmount} wei) to ${userAddress}`);
             
-            // Call mint function with gas limit and nonce
-            // const tx = await token.mint(userAddress, mintAmount, { gasLimit, nonce: nextNonce });
-            const tx = await token.mint(userAddress, mintAmount, { gasLimit });
-            console.log(`Transaction hash: ${tx.hash}, Minting ${roundedAssetAmount}, user: ${userAddress}; token contract ${tokenAddress}`);
+            // Sent through the agent's queue, which assigns the nonce and prices it with the chain's gas policy
+            const tx = await this.transactionQueue.send(chainId, agentSigner, await token.mint.populateTransaction(userAddress, mintAmount), { purpose: 'mint', orderId });
+            console.log(`Transaction hash: ${tx.hashes[0]}, Minting ${amount}, user: ${userAddress}; token contract ${tokenAddress}`);
 
             // Wait for transaction confirmation
-            await tx.wait();
-            console.log(`Transaction confirmed: ${tx.hash}, Minting ${roundedAssetAmount}, user: ${userAddress}; token contract ${tokenAddress}`);
+            const txHash = await this.waitForConfirmation(tx);
+            console.log(`Transaction confirmed: ${txHash}, Minting ${amount}, user: ${userAddress}; token contract ${tokenAddress}`);
             
-            return tx.hash;
+            return txHash;
         } catch (error) {
-            // If it's a nonce-related error, reset the nonce counter
-            // if (error.message && (error.message.includes('nonce') || error.message.includes('replacement transaction underpriced'))) {
-            //     console.log(`Nonce error detected, resetting nonce for ${agentSigner.address}`);
-            //     await this.resetNonce(agentSigner.address);
-            // }
+            if (this.isOutcomeKnown(error)) {
+                throw error;
+            }
             console.error(`Error minting tokens for user: ${userAddress}, token: ${tokenAddress}`, error);
             throw new Error(`Failed to mint tokens: ${error.message}`);
         }
@@ -217,96 +207,147 @@ export class TokenService {
 
     /**
      * Burn ERC3643 RWA tokens from a user address
+     * @param chainId - The chain the token is deployed on
      * @param userAddress - The address to burn tokens from
      * @param tokenAddress - The ERC3643 token contract address
-     * @param amount - The amount of tokens to burn (in wei/smallest unit)
+     * @param amount - The amount of tokens to burn, as a decimal string already rounded to the token's decimals
+     * @param orderId - The order the tokens are burned for, recorded with the transaction
      * @returns Transaction hash
      */
-    async burnTokens(userAddress: string, tokenAddress: string, amount: number): Promise<string> {
-    // Create agent signer from private key (moved outside try block for error handling)
-    const agentSigner = new ethers.Wallet(this.config.get<string>('PRIVATE_KEY') || '', this.httpProvider);
+    async burnTokens(chainId: number, userAddress: string, tokenAddress: string, amount: string, orderId?: string): Promise<string> {
+    // Token agent signer (outside the try block for error handling)
+    const { httpProvider } = this.deploymentRegistry.getDeployment(chainId);
+    const agentSigner = this.signerRegistry.get('token_agent').connect(httpProvider);
     
     try {
-        // Validate addresses
-        if (!ethers.isAddress(userAddress)) {
-            throw new Error('Invalid user address');
-        }
-        if (!ethers.isAddress(tokenAddress)) {
-            throw new Error('Invalid token address');
-        }
+        await this.assertCanTrade(chainId, userAddress, tokenAddress);
 
-        // Verify user identity in identity registry
-        const isVerified = await this.verifyUserIdentity(userAddress);
-        if (!isVerified) {
-            throw new Error(`User ${userAddress} is not verified in identity registry`);
-        }
-        console.log(`User ${userAddress} is verified in identity registry`);
-        
         // Create contract instance with agent signer
         const token = new ethers.Contract(tokenAddress, ERC3643_ABI, agentSigner);
 
-        // Get the actual decimals from the token contract
-        const decimals = Number(await token.decimals());
-        
-        const isAgent = await token.isAgent(agentSigner.address);
-        
-        if (!isAgent) {
-            throw new Error(`Signer ${agentSigner.address} is not an agent on the token contract. Please add this address as an agent.`);
-        }
-        console.log(`Signer ${agentSigner.address} is an agent on the token contract ${tokenAddress}`);
+        // Only registered tokens are burned; their decimals were checked against the contract on registration
+        const decimals = await this.getTokenDecimals(chainId, tokenAddress);
 
         // Check if user has sufficient balance to burn
         const balance = await token.balanceOf(userAddress);
-        const factor = 10 ** decimals; // e.g., 6 decimals → 1_000_000
-        const roundedAssetAmount = (Math.floor(amount * factor) / factor).toString();
-        const burnAmount = ethers.parseUnits(roundedAssetAmount, decimals);
-
-        const orderResponse = await this.alpacaService.placeOrder('LQD', roundedAssetAmount, 'sell');
+        // Amounts arrive pre-rounded; anything finer than the token's decimals is rejected, never truncated
+        const burnAmount = parseAmount(amount, decimals);
 
         if (balance < burnAmount) {
             throw new Error(`Insufficient balance. User has ${ethers.formatUnits(balance, decimals)} tokens, trying to burn ${amount}`);
         }
 
-        // Get the next nonce using nonce manager
-        // const nextNonce = await this.getNextNonce(agentSigner.address);
-
-        // Estimate gas for the burn operation
-        const gasEstimate = await token.burn.estimateGas(userAddress, burnAmount);
-        const gasLimit = (gasEstimate * BigInt(120)) / BigInt(100);
-
         console.log(`Burning ${burnAmount} round off tokens`);
 
         
-        // Call burn function with gas limit and nonce
-        // const tx = await token.burn(userAddress, burnAmount, { gasLimit, nonce: nextNonce });
-        const tx = await token.burn(userAddress, burnAmount, { gasLimit });
-        console.log(`Transaction hash: ${tx.hash}, Burning ${roundedAssetAmount}, user: ${userAddress}; token contract ${tokenAddress}`);
+        // Sent through the agent's queue, which assigns the nonce and prices it with the chain's gas policy
+        const tx = await this.transactionQueue.send(chainId, agentSigner, await token.burn.populateTransaction(userAddress, burnAmount), { purpose: 'burn', orderId });
+        console.log(`Transaction hash: ${tx.hashes[0]}, Burning ${amount}, user: ${userAddress}; token contract ${tokenAddress}`);
 
         // Wait for transaction confirmation
-        await tx.wait();
-        console.log(`Transaction confirmed: ${tx.hash}, Burning ${roundedAssetAmount}, user: ${userAddress}; token contract ${tokenAddress}`);
+        const txHash = await this.waitForConfirmation(tx);
+        console.log(`Transaction confirmed: ${txHash}, Burning ${amount}, user: ${userAddress}; token contract ${tokenAddress}`);
 
-        return tx.hash;
+        return txHash;
     } catch (error) {
-        // If it's a nonce-related error, reset the nonce counter
-        // if (error.message && (error.message.includes('nonce') || error.message.includes('replacement transaction underpriced'))) {
-        //     console.log(`Nonce error detected, resetting nonce for ${agentSigner.address}`);
-        //     await this.resetNonce(agentSigner.address);
-        // }
+        if (this.isOutcomeKnown(error)) {
+            throw error;
+        }
         console.error(`Error burning tokens for user: ${userAddress}, token: ${tokenAddress}`, error);
         throw new Error(`Failed to burn tokens: ${error.message}`);
     }
 }
 
     /**
-     * Withdraw USDC tokens to a user address via the order contract
-     * @param amount - The amount of USDC to withdraw (in USDC units)
+     * Mint ERC3643 RWA tokens to several users in one batchMint transaction
+     * @param chainId - The chain the token is deployed on
+     * @param tokenAddress - The ERC3643 token contract address
+     * @param allocations - The users and amounts to mint
+     * @param batchId - The order batch the tokens are minted for, recorded with the transaction
+     * @returns Transaction hash
+     */
+    async batchMintTokens(chainId: number, tokenAddress: string, allocations: TokenAllocation[], batchId?: string): Promise<string> {
+        const { httpProvider } = this.deploymentRegistry.getDeployment(chainId);
+        const agentSigner = this.signerRegistry.get('token_agent').connect(httpProvider);
+
+        try {
+            const token = new ethers.Contract(tokenAddress, ERC3643_ABI, agentSigner);
+            const decimals = await this.getTokenDecimals(chainId, tokenAddress);
+            const toList = allocations.map((allocation) => allocation.userAddress);
+            const amounts = allocations.map((allocation) => parseAmount(allocation.amount, decimals));
+
+            const tx = await this.transactionQueue.send(chainId, agentSigner, await token.batchMint.populateTransaction(toList, amounts), { purpose: 'batch_mint', batchId });
+            this.logger.log(`Transaction hash: ${tx.hashes[0]}, Batch minting to ${allocations.length} users; token contract ${tokenAddress}`);
+
+            const txHash = await this.waitForConfirmation(tx);
+            this.logger.log(`Transaction confirmed: ${txHash}, Batch minting to ${allocations.length} users; token contract ${tokenAddress}`);
+
+            return txHash;
+        } catch (error) {
+            if (this.isOutcomeKnown(error)) {
+                throw error;
+            }
+            this.logger.error(`Error batch minting tokens, token: ${tokenAddress}`, error);
+            throw new Error(`Failed to batch mint tokens: ${error.message}`);
+        }
+    }
+
+    /**
+     * Burn ERC3643 RWA tokens from several users in one batchBurn transaction
+     * @param chainId - The chain the token is deployed on
+     * @param tokenAddress - The ERC3643 token contract address
+     * @param allocations - The users and amounts to burn
+     * @param batchId - The order batch the tokens are burned for, recorded with the transaction
+     * @returns Transaction hash
+     */
+    async batchBurnTokens(chainId: number, tokenAddress: string, allocations: TokenAllocation[], batchId?: string): Promise<string> {
+        const { httpProvider } = this.deploymentRegistry.getDeployment(chainId);
+        const agentSigner = this.signerRegistry.get('token_agent').connect(httpProvider);
+
+        try {
+            const token = new ethers.Contract(tokenAddress, ERC3643_ABI, agentSigner);
+            const decimals = await this.getTokenDecimals(chainId, tokenAddress);
+            const userAddresses = allocations.map((allocation) => allocation.userAddress);
+            const amounts = allocations.map((allocation) => parseAmount(allocation.amount, decimals));
+
+            // A user may appear more than once, so balances are checked against their total
+            const totals = new Map<string, bigint>();
+            userAddresses.forEach((user, i) => totals.set(user.toLowerCase(), (totals.get(user.toLowerCase()) ?? 0n) + amounts[i]));
+            for (const [user, total] of totals) {
+                const balance = await token.balanceOf(user);
+                if (balance < total) {
+                    throw new Error(`Insufficient balance. User ${user} has ${ethers.formatUnits(balance, decimals)} tokens, trying to burn ${ethers.formatUnits(total, decimals)}`);
+                }
+            }
+
+            const tx = await this.transactionQueue.send(chainId, agentSigner, await token.batchBurn.populateTransaction(userAddresses, amounts), { purpose: 'batch_burn', batchId });
+            this.logger.log(`Transaction hash: ${tx.hashes[0]}, Batch burning from ${allocations.length} users; token contract ${tokenAddress}`);
+
+            const txHash = await this.waitForConfirmation(tx);
+            this.logger.log(`Transaction confirmed: ${txHash}, Batch burning from ${allocations.length} users; token contract ${tokenAddress}`);
+
+            return txHash;
+        } catch (error) {
+            if (this.isOutcomeKnown(error)) {
+                throw error;
+            }
+            this.logger.error(`Error batch burning tokens, token: ${tokenAddress}`, error);
+            throw new Error(`Failed to batch burn tokens: ${error.message}`);
+        }
+    }
+
+    /**
+     * Withdraw USDC tokens to a user address via the order contract of a deployment
+     * @param chainId - The chain of the deployment
+     * @param amount - The amount of USDC to withdraw, as a decimal string with at most 6 decimals
      * @param userAddress - The address to withdraw USDC to
+     * @param orderId - The order the USDC is paid out or refunded for, recorded with the transaction
      * @returns Transaction hash
      */
-    async withdrawUSDC(amount: number, userAddress: string): Promise<string> {
-        // Create agent signer from private key (moved outside try block for error handling)
-        const agentSigner = new ethers.Wallet(this.config.get<string>('PRIVATE_KEY') || '', this.httpProvider);
+    async withdrawUSDC(chainId: number, amount: string, userAddress: string, orderId?: string): Promise<string> {
+        // Treasury signer, the order contract's AGENT (outside the try block for error handling)
+        const deployment = this.deploymentRegistry.getDeployment(chainId);
+        const treasurySigner = this.signerRegistry.get('treasury').connect(deployment.httpProvider);
         
         try {
             // Validate user address
@@ -314,48 +355,67 @@ export class TokenService {
                 throw new Error('Invalid user address');
             }
             
-            // Create order contract instance with agent signer
+            // Create order contract instance with the treasury signer
             const orderContract = new ethers.Contract(
-                this.orderContractAddress,
+                deployment.orderContractAddress,
                 ORDER_CONTRACT_EVENTS_ABI,
-                agentSigner
+                treasurySigner
             );
 
             // Convert amount to USDC wei (USDC has 6 decimal places)
-            const factor = 10 ** 6; // e.g., 6 decimals → 1_000_000
-            const roundedAssetAmount = (Math.floor(amount * factor) / factor).toString();
-            const usdcAmount = ethers.parseUnits(roundedAssetAmount.toString(), 6);
-
-            // Get the next nonce using nonce manager
-            // const nextNonce = await this.getNextNonce(agentSigner.address);
-
-            // Estimate gas for the withdraw operation
-            const gasEstimate = await orderContract['withdrawUSDC'].estimateGas(usdcAmount, userAddress);
-            const gasLimit = (gasEstimate * BigInt(120)) / BigInt(100);
-            
-            // Call withdrawUSDC function with gas limit and nonce
-            // const tx = await orderContract['withdrawUSDC'](usdcAmount, userAddress, { 
-            //     gasLimit, 
-            //     nonce: nextNonce 
-            // });
-            const tx = await orderContract['withdrawUSDC'](usdcAmount, userAddress, { 
-                gasLimit
-            });
-            console.log(`Withdrawing ${amount} USDC to ${userAddress} and tx is ${tx.hash}`);
+            const usdcAmount = parseAmount(amount, USDC_DECIMALS);
+
+            // Sent through the treasury's queue, which assigns the nonce and prices it with the chain's gas policy
+            const tx = await this.transactionQueue.send(
+                chainId,
+                treasurySigner,
+                await orderContract['withdrawUSDC'].populateTransaction(usdcAmount, userAddress),
+                { purpose: 'withdraw_usdc', orderId }
+            );
+            console.log(`Withdrawing ${amount} USDC to ${userAddress} and tx is ${tx.hashes[0]}`);
             
             // Wait for transaction confirmation
-            await tx.wait();
-            console.log(`USDC withdrawal transaction confirmed: ${tx.hash}`);
+            const txHash = await this.waitForConfirmation(tx);
+            console.log(`USDC withdrawal transaction confirmed: ${txHash}`);
             
-            return tx.hash;
+            return txHash;
         } catch (error) {
-            // If it's a nonce-related error, reset the nonce counter
-            // if (error.message && (error.message.includes('nonce') || error.message.includes('replacement transaction underpriced'))) {
-            //     console.log(`Nonce error detected, resetting nonce for ${agentSigner.address}`);
-            //     await this.resetNonce(agentSigner.address);
-            // }
+            if (this.isOutcomeKnown(error)) {
+                throw error;
+            }
             console.error(`Error withdrawing USDC for user: ${userAddress}}`, error);
             throw new Error(`Failed to withdraw USDC: ${error.message}`);
         }
     }
+
+    /**
+     * Wait until a transaction sent through the queue, or the replacement it was bumped to, is mined and confirmed
+     * @param tx - The transaction returned by the queue
+     * @returns The hash of the confirmed transaction
+     * @throws TransactionRevertedError if it reverted; only its nonce was used, and sending it again would revert too
+     * @throws UnconfirmedTransactionError if its outcome could not be observed
+     */
+    private async waitForConfirmation(tx: SentTransaction): Promise<string> {
+        try {
+            return (await this.transactionQueue.waitForReceipt(tx)).hash;
+        } catch (error) {
+            if (error instanceof TransactionRevertedError) {
+                throw error;
+            }
+            const txHash = tx.hashes[tx.hashes.length - 1];
+            throw new UnconfirmedTransactionError(
+                txHash,
+                `Transaction ${txHash} was sent but not confirmed: ${error.message}`,
+            );
+        }
+    }
+
+    // Failures whose type tells the caller what happened on-chain, passed on as they are rather than wrapped
+    private isOutcomeKnown(error: unknown): boolean {
+        return (
+            error instanceof UnconfirmedTransactionError ||
+            error instanceof TradeNotPermittedError ||
+            error instanceof TransactionRevertedError
+        );
+    }
 }
@@ -0,0 +1,262 @@
+import {
+  Injectable,
+  Logger,
+  OnModuleDestroy,
+  OnModuleInit,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { ethers } from 'ethers';
+import { ORDER_CONTRACT_EVENTS_ABI } from '../../shared/abi/ORDER_EVENTS.abi';
+import { EventListenerService } from './event-listener.service';
+import {
+  Deployment,
+  DeploymentRegistry,
+} from '../providers/deployment.registry';
+
+// Connection state of the subscription to one deployment
+interface Subscription {
+  deployment: Deployment;
+  provider?: ethers.WebSocketProvider;
+  heartbeatTimer?: NodeJS.Timeout;
+  reconnectTimer?: NodeJS.Timeout;
+  reconnectAttempts: number;
+  lastActivityAt: number;
+}
+
+/**
+ * Push mode for the event listener (EVENT_LISTENER_MODE=websocket).
+ * Subscribes to new blocks and order contract logs over WebSocket and triggers a scan on each,
+ * so orders are picked up within seconds instead of on the next cron tick.
+ * Every deployment with an rpcWss endpoint gets its own subscription, reconnected independently.
+ * Scans still go through the persisted cursor, so confirmations, the processed-events ledger
+ * and gap back-fill behave exactly as in polling mode.
+ */
+@Injectable()
+export class WebSocketSubscriptionService
+  implements OnModuleInit, OnModuleDestroy
+{
+  private readonly logger = new Logger(WebSocketSubscriptionService.name);
+  private readonly enabled: boolean;
+  private readonly heartbeatIntervalMs: number;
+  private readonly staleAfterMs: number;
+  private readonly reconnectBaseDelayMs: number;
+  private readonly reconnectMaxDelayMs: number;
+  private readonly subscriptions: Subscription[] = [];
+  private isShuttingDown = false;
+
+  constructor(
+    private readonly config: ConfigService,
+    private readonly eventListenerService: EventListenerService,
+    private readonly deploymentRegistry: DeploymentRegistry,
+  ) {
+    this.enabled =
+      this.config.get<string>('EVENT_LISTENER_MODE') === 'websocket' &&
+      this.config.get<string>('EVENT_LISTENER_ENABLED') !== 'false';
+    this.heartbeatIntervalMs = Number(
+      this.config.get<string>('WS_HEARTBEAT_INTERVAL_MS') ?? 15000,
+    );
+    // A socket that delivered no block for this long is considered dead, even if it looks open
+    this.staleAfterMs = Number(
+      this.config.get<string>('WS_STALE_AFTER_MS') ?? 60000,
+    );
+    this.reconnectBaseDelayMs = Number(
+      this.config.get<string>('WS_RECONNECT_BASE_DELAY_MS') ?? 1000,
+    );
+    this.reconnectMaxDelayMs = Number(
+      this.config.get<string>('WS_RECONNECT_MAX_DELAY_MS') ?? 60000,
+    );
+  }
+
+  onModuleInit() {
+    if (!this.enabled) {
+      return;
+    }
+    for (const deployment of this.deploymentRegistry.getDeployments()) {
+      if (!deployment.rpcWss) {
+        this.logger.error(
+          `No rpcWss configured for chain ${deployment.chainId}, staying on cron polling`,
+        );
+        continue;
+      }
+      const subscription: Subscription = {
+        deployment,
+        reconnectAttempts: 0,
+        lastActivityAt: 0,
+      };
+      this.subscriptions.push(subscription);
+      // Connecting in the background keeps a slow or dead endpoint from blocking startup
+      void this.connect(subscription);
+    }
+  }
+
+  async onModuleDestroy() {
+    this.isShuttingDown = true;
+    for (const subscription of this.subscriptions) {
+      clearTimeout(subscription.reconnectTimer);
+      await this.teardown(subscription);
+    }
+  }
+
+  /**
+   * Opens a fresh WebSocket provider and subscribes to blocks and order contract logs of a deployment.
+   * Any failure schedules a reconnect; cron polling covers the gap meanwhile.
+   */
+  private async connect(subscription: Subscription) {
+    const { chainId, rpcWss, orderContractAddress } = subscription.deployment;
+
+    try {
+      this.logger.log(`Connecting WebSocket provider to ${rpcWss}`);
+      const provider = new ethers.WebSocketProvider(rpcWss!);
+      subscription.provider = provider;
+
+      const network = await this.withTimeout(
+        provider.getNetwork(),
+        'WebSocket network detection timeout',
+      );
+      this.logger.log(
+        `Connected to network: ${network.name} (chainId: ${network.chainId})`,
+      );
+
+      if (Number(network.chainId) !== chainId) {
+        throw new Error(
+          `rpcWss serves chain ${network.chainId}, expected ${chainId}`,
+        );
+      }
+
+      const orderContractInterface = new ethers.Interface(
+        ORDER_CONTRACT_EVENTS_ABI,
+      );
+      const orderTopics = ['BuyOrderCreated', 'SellOrderCreated'].map(
+        (name) => orderContractInterface.getEvent(name)!.topicHash,
+      );
+
+      await provider.on('block', (blockNumber: number) => {
+        subscription.lastActivityAt = Date.now();
+        this.logger.debug(
+          `New block mined on chain ${chainId}: ${blockNumber}`,
+        );
+        this.eventListenerService.requestScan(chainId);
+      });
+      await provider.on(
+        { address: orderContractAddress, topics: [orderTopics] },
+        (log: ethers.Log) => {
+          subscription.lastActivityAt = Date.now();
+          this.logger.log(
+            `Order log received on chain ${chainId} in block ${log.blockNumber}: ${log.transactionHash}:${log.index}`,
+          );
+          this.eventListenerService.requestScan(chainId);
+        },
+      );
+      await provider.on('error', (error: Error) => {
+        this.logger.error(
+          `WebSocket provider error on chain ${chainId}:`,
+          error,
+        );
+        this.scheduleReconnect(subscription);
+      });
+
+      subscription.lastActivityAt = Date.now();
+      subscription.reconnectAttempts = 0;
+      this.startHeartbeat(subscription);
+      this.eventListenerService.setPushActive(chainId, true);
+
+      // Back-fill whatever was emitted while the socket was down
+      this.eventListenerService.requestScan(chainId);
+    } catch (error) {
+      this.logger.error(
+        `Failed to establish WebSocket subscription on chain ${chainId}:`,
+        error,
+      );
+      this.scheduleReconnect(subscription);
+    }
+  }
+
+  /**
+   * Periodically probes the socket; a failed probe or a silent socket triggers a reconnect
+   */
+  private startHeartbeat(subscription: Subscription) {
+    clearInterval(subscription.heartbeatTimer);
+    subscription.heartbeatTimer = setInterval(() => {
+      void this.checkHeartbeat(subscription);
+    }, this.heartbeatIntervalMs);
+  }
+
+  private async checkHeartbeat(subscription: Subscription) {
+    if (!subscription.provider) {
+      return;
+    }
+    try {
+      await this.withTimeout(
+        subscription.provider.getBlockNumber(),
+        'WebSocket heartbeat timeout',
+      );
+      const silentMs = Date.now() - subscription.lastActivityAt;
+      if (silentMs > this.staleAfterMs) {
+        throw new Error(
+          `No WebSocket activity for ${Math.round(silentMs / 1000)}s`,
+        );
+      }
+    } catch (error) {
+      this.logger.warn(
+        `WebSocket heartbeat failed on chain ${subscription.deployment.chainId}: ${error instanceof Error ? error.message : error}`,
+      );
+      this.scheduleReconnect(subscription);
+    }
+  }
+
+  /**
+   * Drops the current socket, hands scanning back to cron polling and reconnects with exponential backoff
+   */
+  private scheduleReconnect(subscription: Subscription) {
+    if (this.isShuttingDown || subscription.reconnectTimer) {
+      return;
+    }
+    const { chainId } = subscription.deployment;
+    this.eventListenerService.setPushActive(chainId, false);
+
+    const delay = Math.min(
+      this.reconnectBaseDelayMs * 2 ** subscription.reconnectAttempts,
+      this.reconnectMaxDelayMs,
+    );
+    subscription.reconnectAttempts++;
+    this.logger.warn(
+      `Reconnecting WebSocket on chain ${chainId} in ${delay}ms (attempt ${subscription.reconnectAttempts})`,
+    );
+
+    void this.teardown(subscription);
+    subscription.reconnectTimer = setTimeout(() => {
+      subscription.reconnectTimer = undefined;
+      void this.connect(subscription);
+    }, delay);
+  }
+
+  private async teardown(subscription: Subscription) {
+    clearInterval(subscription.heartbeatTimer);
+    subscription.heartbeatTimer = undefined;
+    const provider = subscription.provider;
+    subscription.provider = undefined;
+    if (!provider) {
+      return;
+    }
+    try {
+      await provider.removeAllListeners();
+      await provider.destroy();
+    } catch (error) {
+      this.logger.error('Error during WebSocket cleanup:', error);
+    }
+  }
+
+  private withTimeout<T>(
+    promise: Promise<T>,
+    errorMessage: string,
+  ): Promise<T> {
+    let timer: NodeJS.Timeout;
+    const timeout = new Promise<never>((_, reject) => {
+      timer = setTimeout(
+        () => reject(new Error(errorMessage)),
+        this.heartbeatIntervalMs,
+      );
+    });
+    return Promise.race([promise, timeout]).finally(() => clearTimeout(timer));
+  }
+}
@@ -1,16 +1,35 @@
 import { Module, forwardRef } from '@nestjs/common';
 import { EventListenerService } from './services/event-listener.service';
 import { TokenService } from './services/token.service';
+import { BlockCursorService } from './services/block-cursor.service';
+import { BackfillService } from './services/backfill.service';
+import { ReorgService } from './services/reorg.service';
+import { WebSocketSubscriptionService } from './services/websocket-subscription.service';
+import { DeadLetterReplayService } from './services/dead-letter-replay.service';
+import { BackfillController } from './controllers/backfill.controller';
+import { DeadLetterController } from './controllers/dead-letter.controller';
 import { ProviderFactory } from './providers/provider.factory';
 import { OrdersModule } from '../orders/orders.module';
-import { AlpacaModule } from '../alpaca/alpaca.module';
+import { SupabaseModule } from '../supabase/supabase.module';
+import { EventsModule } from '../events/events.module';
+import { WithdrawalsModule } from '../withdrawals/withdrawals.module';
+import { AssetsModule } from '../assets/assets.module';
+import { TransactionsModule } from '../transactions/transactions.module';
+import { SignersModule } from '../signers/signers.module';
+import { AlertsModule } from '../alerts/alerts.module';
 
 @Module({
-  imports: [ProviderFactory, forwardRef(() => OrdersModule), AlpacaModule],
+  imports: [ProviderFactory, forwardRef(() => OrdersModule), SupabaseModule, EventsModule, WithdrawalsModule, AssetsModule, TransactionsModule, SignersModule, AlertsModule],
   providers: [
     EventListenerService,
-    TokenService
+    TokenService,
+    BlockCursorService,
+    BackfillService,
+    ReorgService,
+    WebSocketSubscriptionService,
+    DeadLetterReplayService
   ],
+  controllers: [BackfillController, DeadLetterController],
   exports: [EventListenerService, TokenService]
 })
 export class Web3Module {}
@@ -0,0 +1,57 @@
+import { Controller, Get, HttpCode, HttpStatus, Query } from '@nestjs/common';
+import {
+  ApiOperation,
+  ApiResponse,
+  ApiSecurity,
+  ApiTags,
+} from '@nestjs/swagger';
+import {
+  WithdrawalsService,
+  toWithdrawalResponse,
+} from './withdrawals.service';
+import { WithdrawalResponse } from '../shared/models/withdrawal-response.model';
+import { WithdrawalQueryDto } from '../shared/models/withdrawal-query.dto';
+
+@ApiTags('withdrawals')
+@ApiSecurity('api-key')
+@Controller('withdrawals')
+export class WithdrawalsController {
+  constructor(private readonly withdrawalsService: WithdrawalsService) {}
+
+  /**
+   * List USDC withdrawals from the order contract
+   * @param query - Optional chain, user, status, date and amount filters
+   * @returns Promise with matching withdrawals
+   */
+  @Get()
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({
+    summary: 'List USDC withdrawals',
+    description:
+      'Lists indexed AgentUSDCWithdraw events next to the withdrawals the backend sent, with the sell order that triggered each one. Withdrawals the backend did not initiate are flagged as unexpected.',
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Withdrawals retrieved successfully',
+    type: [WithdrawalResponse],
+  })
+  @ApiResponse({
+    status: 401,
+    description: 'Unauthorized - Invalid or missing API key',
+  })
+  async listWithdrawals(
+    @Query() query: WithdrawalQueryDto,
+  ): Promise<WithdrawalResponse[]> {
+    const withdrawals = await this.withdrawalsService.findWithdrawals({
+      chainId: query.chainId,
+      userAddress: query.user,
+      status: query.status,
+      from: query.from,
+      to: query.to,
+      minAmount: query.minAmount,
+      maxAmount: query.maxAmount,
+      limit: query.limit,
+    });
+    return withdrawals.map(toWithdrawalResponse);
+  }
+}
@@ -0,0 +1,12 @@
+import { Module } from '@nestjs/common';
+import { SupabaseModule } from '../supabase/supabase.module';
+import { WithdrawalsService } from './withdrawals.service';
+import { WithdrawalsController } from './withdrawals.controller';
+
+@Module({
+  imports: [SupabaseModule],
+  providers: [WithdrawalsService],
+  controllers: [WithdrawalsController],
+  exports: [WithdrawalsService],
+})
+export class WithdrawalsModule {}
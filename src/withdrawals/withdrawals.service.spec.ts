@@ -0,0 +1,120 @@
+import { Logger } from '@nestjs/common';
+import { InMemorySupabase } from '../../test/in-memory-supabase';
+import {
+  IndexedWithdrawal,
+  InitiatedWithdrawal,
+  WithdrawalsService,
+} from './withdrawals.service';
+
+const USER = '0x00000000000000000000000000000000000000Bb';
+
+describe('WithdrawalsService', () => {
+  let db: InMemorySupabase;
+  let withdrawals: WithdrawalsService;
+
+  beforeAll(() => {
+    Logger.overrideLogger(false);
+  });
+
+  beforeEach(() => {
+    db = new InMemorySupabase(
+      { withdrawals: [['chain_id', 'tx_hash']] },
+      {
+        // Column defaults of the withdrawals table
+        withdrawals: {
+          log_index: null,
+          block_number: null,
+          user_address: null,
+          amount: null,
+          initiated_by_backend: false,
+          expected_user_address: null,
+          expected_amount: null,
+          order_tx_hash: null,
+          order_log_index: null,
+          status: 'pending',
+          sent_at: null,
+          executed_at: null,
+        },
+      },
+    );
+    withdrawals = new WithdrawalsService(db.service());
+  });
+
+  function initiated(amount = '9.5'): InitiatedWithdrawal {
+    return {
+      chainId: 11155111,
+      txHash: '0xABC',
+      userAddress: USER,
+      amount,
+      order: {
+        chainId: 11155111,
+        txHash: '0xORDER',
+        logIndex: 2,
+        blockNumber: 90,
+      },
+    };
+  }
+
+  function indexed(amount = '9.500000', userAddress = USER): IndexedWithdrawal {
+    return {
+      chainId: 11155111,
+      txHash: '0xabc',
+      logIndex: 7,
+      blockNumber: 100,
+      blockTimestamp: 1767225600,
+      userAddress,
+      amount,
+    };
+  }
+
+  it('keeps a withdrawal the backend sent pending until its event is indexed', async () => {
+    await expect(
+      withdrawals.recordInitiated(initiated()),
+    ).resolves.toMatchObject({
+      tx_hash: '0xabc',
+      initiated_by_backend: true,
+      expected_user_address: USER.toLowerCase(),
+      order_tx_hash: '0xorder',
+      status: 'pending',
+    });
+  });
+
+  it('confirms an indexed withdrawal matching what the backend sent', async () => {
+    await withdrawals.recordInitiated(initiated());
+
+    await expect(withdrawals.recordOnChain(indexed())).resolves.toMatchObject({
+      status: 'confirmed',
+      amount: '9.500000',
+      executed_at: '2026-01-01T00:00:00.000Z',
+    });
+    expect(db.rows('withdrawals')).toHaveLength(1);
+  });
+
+  it('confirms a withdrawal whose event is indexed before the backend records it', async () => {
+    await withdrawals.recordOnChain(indexed());
+
+    await expect(
+      withdrawals.recordInitiated(initiated()),
+    ).resolves.toMatchObject({ status: 'confirmed' });
+  });
+
+  it('flags an indexed withdrawal the backend never sent as unexpected', async () => {
+    await expect(withdrawals.recordOnChain(indexed())).resolves.toMatchObject({
+      status: 'unexpected',
+    });
+  });
+
+  it.each([
+    ['amount', indexed('10')],
+    ['user', indexed('9.5', '0x00000000000000000000000000000000000000cc')],
+  ])(
+    'flags an indexed withdrawal for another %s than the backend sent as a mismatch',
+    async (_, event) => {
+      await withdrawals.recordInitiated(initiated());
+
+      await expect(withdrawals.recordOnChain(event)).resolves.toMatchObject({
+        status: 'mismatch',
+      });
+    },
+  );
+});
@@ -0,0 +1,291 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { SupabaseService } from '../supabase/supabase.service';
+import { OrderEventSource } from '../shared/models/order-event-source.model';
+import { WithdrawalResponse } from '../shared/models/withdrawal-response.model';
+import { USDC_DECIMALS, parseAmount } from '../shared/utils/amounts';
+
+/**
+ * pending: sent by the backend, no AgentUSDCWithdraw event indexed yet
+ * confirmed: indexed and matching what the backend sent
+ * mismatch: indexed, but for another user or amount than the backend sent
+ * unexpected: indexed, but the backend never initiated it
+ */
+export type WithdrawalStatus =
+  | 'pending'
+  | 'confirmed'
+  | 'mismatch'
+  | 'unexpected';
+
+// Row shape of the withdrawals table, unique on (chain_id, tx_hash).
+// initiated_by_backend defaults to false, status to 'pending' and created_at to now()
+export interface Withdrawal {
+  id: string;
+  chain_id: number;
+  tx_hash: string;
+  // Set once the AgentUSDCWithdraw event is indexed
+  log_index: number | null;
+  block_number: number | null;
+  user_address: string | null;
+  // Decimal strings; the numeric columns are read as text so no precision is lost in JSON
+  amount: string | null;
+  // Set when the backend sent the withdrawal
+  initiated_by_backend: boolean;
+  expected_user_address: string | null;
+  expected_amount: string | null;
+  order_tx_hash: string | null;
+  order_log_index: number | null;
+  status: WithdrawalStatus;
+  // When the backend sent the withdrawal, and when it was mined
+  sent_at: string | null;
+  executed_at: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface InitiatedWithdrawal {
+  chainId: number;
+  txHash: string;
+  userAddress: string;
+  amount: string;
+  order?: OrderEventSource;
+}
+
+export interface IndexedWithdrawal {
+  chainId: number;
+  txHash: string;
+  logIndex: number;
+  blockNumber: number;
+  blockTimestamp: number;
+  userAddress: string;
+  amount: string;
+}
+
+export interface WithdrawalFilter {
+  chainId?: number;
+  userAddress?: string;
+  status?: WithdrawalStatus;
+  from?: string;
+  to?: string;
+  minAmount?: string;
+  maxAmount?: string;
+  limit?: number;
+}
+
+const WITHDRAWAL_COLUMNS =
+  'id, chain_id, tx_hash, log_index, block_number, user_address, amount::text, initiated_by_backend, expected_user_address, expected_amount::text, order_tx_hash, order_log_index, status, sent_at, executed_at, created_at, updated_at';
+
+@Injectable()
+export class WithdrawalsService {
+  private readonly logger = new Logger(WithdrawalsService.name);
+
+  constructor(private readonly supabaseService: SupabaseService) {}
+
+  /**
+   * Record a USDC withdrawal sent by the backend, before its event is indexed
+   * @param withdrawal - The withdrawal transaction and the order that triggered it
+   * @returns The withdrawal after cross-checking it against the indexed event, if any
+   */
+  async recordInitiated(withdrawal: InitiatedWithdrawal): Promise<Withdrawal> {
+    const now = new Date().toISOString();
+    await this.upsert(withdrawal.chainId, withdrawal.txHash, {
+      initiated_by_backend: true,
+      expected_user_address: withdrawal.userAddress.toLowerCase(),
+      expected_amount: withdrawal.amount,
+      order_tx_hash: withdrawal.order?.txHash.toLowerCase() ?? null,
+      order_log_index: withdrawal.order?.logIndex ?? null,
+      sent_at: now,
+      updated_at: now,
+    });
+    return this.reconcile(withdrawal.chainId, withdrawal.txHash);
+  }
+
+  /**
+   * Index an AgentUSDCWithdraw event emitted by the order contract
+   * @param withdrawal - The decoded event
+   * @returns The withdrawal after cross-checking it against what the backend sent
+   */
+  async recordOnChain(withdrawal: IndexedWithdrawal): Promise<Withdrawal> {
+    await this.upsert(withdrawal.chainId, withdrawal.txHash, {
+      log_index: withdrawal.logIndex,
+      block_number: withdrawal.blockNumber,
+      user_address: withdrawal.userAddress.toLowerCase(),
+      amount: withdrawal.amount,
+      executed_at: new Date(withdrawal.blockTimestamp * 1000).toISOString(),
+      updated_at: new Date().toISOString(),
+    });
+    return this.reconcile(withdrawal.chainId, withdrawal.txHash);
+  }
+
+  /**
+   * List withdrawals, most recently mined first
+   * @param filter - Optional chain, user, status, date and amount filters; dates and amounts apply to the indexed event
+   */
+  async findWithdrawals(filter: WithdrawalFilter): Promise<Withdrawal[]> {
+    let query = this.supabaseService
+      .getClient()
+      .from('withdrawals')
+      .select(WITHDRAWAL_COLUMNS);
+
+    if (filter.chainId !== undefined) {
+      query = query.eq('chain_id', filter.chainId);
+    }
+    if (filter.userAddress) {
+      query = query.or(
+        `user_address.eq.${filter.userAddress.toLowerCase()},expected_user_address.eq.${filter.userAddress.toLowerCase()}`,
+      );
+    }
+    if (filter.status) {
+      query = query.eq('status', filter.status);
+    }
+    if (filter.from) {
+      query = query.gte('executed_at', filter.from);
+    }
+    if (filter.to) {
+      query = query.lte('executed_at', filter.to);
+    }
+    if (filter.minAmount) {
+      query = query.gte('amount', filter.minAmount);
+    }
+    if (filter.maxAmount) {
+      query = query.lte('amount', filter.maxAmount);
+    }
+
+    const { data, error } = await query
+      .order('executed_at', { ascending: false, nullsFirst: true })
+      .limit(filter.limit ?? 100)
+      .returns<Withdrawal[]>();
+
+    if (error) {
+      this.logger.error('Error listing withdrawals:', error);
+      throw error;
+    }
+
+    return data ?? [];
+  }
+
+  private async upsert(
+    chainId: number,
+    txHash: string,
+    changes: Partial<Withdrawal>,
+  ): Promise<void> {
+    // Each side only writes its own columns, so the backend record and the indexed event can arrive in any order
+    const { error } = await this.supabaseService
+      .getClient()
+      .from('withdrawals')
+      .upsert(
+        {
+          ...changes,
+          chain_id: chainId,
+          tx_hash: txHash.toLowerCase(),
+        },
+        { onConflict: 'chain_id,tx_hash' },
+      );
+
+    if (error) {
+      this.logger.error(
+        `Error recording withdrawal ${txHash} on chain ${chainId}:`,
+        error,
+      );
+      throw error;
+    }
+  }
+
+  /**
+   * Compare the indexed event of a withdrawal with what the backend sent, and store the outcome
+   */
+  private async reconcile(
+    chainId: number,
+    txHash: string,
+  ): Promise<Withdrawal> {
+    const { data: withdrawal, error } = await this.supabaseService
+      .getClient()
+      .from('withdrawals')
+      .select(WITHDRAWAL_COLUMNS)
+      .eq('chain_id', chainId)
+      .eq('tx_hash', txHash.toLowerCase())
+      .single<Withdrawal>();
+
+    if (error) {
+      this.logger.error(
+        `Error reading withdrawal ${txHash} on chain ${chainId}:`,
+        error,
+      );
+      throw error;
+    }
+
+    const status = this.getStatus(withdrawal);
+    if (status === withdrawal.status) {
+      return withdrawal;
+    }
+
+    if (status === 'unexpected') {
+      this.logger.error(
+        `Withdrawal of ${withdrawal.amount} USDC to ${withdrawal.user_address} in ${txHash} was not initiated by the backend`,
+      );
+    } else if (status === 'mismatch') {
+      this.logger.error(
+        `Withdrawal ${txHash} paid ${withdrawal.amount} USDC to ${withdrawal.user_address}, the backend sent ${withdrawal.expected_amount} USDC to ${withdrawal.expected_user_address}`,
+      );
+    }
+
+    const { data, error: updateError } = await this.supabaseService
+      .getClient()
+      .from('withdrawals')
+      .update({ status, updated_at: new Date().toISOString() })
+      .eq('id', withdrawal.id)
+      .select(WITHDRAWAL_COLUMNS)
+      .single<Withdrawal>();
+
+    if (updateError) {
+      this.logger.error(
+        `Error updating withdrawal ${txHash} on chain ${chainId}:`,
+        updateError,
+      );
+      throw updateError;
+    }
+
+    return data;
+  }
+
+  private getStatus(withdrawal: Withdrawal): WithdrawalStatus {
+    if (withdrawal.log_index === null || withdrawal.amount === null) {
+      return 'pending';
+    }
+    if (!withdrawal.initiated_by_backend || !withdrawal.expected_amount) {
+      return 'unexpected';
+    }
+    const matches =
+      withdrawal.user_address === withdrawal.expected_user_address &&
+      parseAmount(withdrawal.amount, USDC_DECIMALS) ===
+        parseAmount(withdrawal.expected_amount, USDC_DECIMALS);
+    return matches ? 'confirmed' : 'mismatch';
+  }
+}
+
+/**
+ * Map a withdrawals row to its API representation
+ * @param withdrawal - The withdrawal row
+ * @returns The camel-cased API response
+ */
+export function toWithdrawalResponse(
+  withdrawal: Withdrawal,
+): WithdrawalResponse {
+  return {
+    id: withdrawal.id,
+    chainId: withdrawal.chain_id,
+    txHash: withdrawal.tx_hash,
+    logIndex: withdrawal.log_index,
+    blockNumber: withdrawal.block_number,
+    userAddress: withdrawal.user_address ?? withdrawal.expected_user_address,
+    amount: withdrawal.amount,
+    initiatedByBackend: withdrawal.initiated_by_backend,
+    expectedAmount: withdrawal.expected_amount,
+    orderTxHash: withdrawal.order_tx_hash,
+    orderLogIndex: withdrawal.order_log_index,
+    status: withdrawal.status,
+    sentAt: withdrawal.sent_at,
+    executedAt: withdrawal.executed_at,
+    createdAt: withdrawal.created_at,
+    updatedAt: withdrawal.updated_at,
+  };
+}
@@ -0,0 +1,382 @@
+import { SupabaseService } from '../src/supabase/supabase.service';
+
+export type Row = Record<string, unknown>;
+
+interface QueryError {
+  code: string;
+  message: string;
+}
+
+interface QueryResult {
+  data: unknown;
+  error: QueryError | null;
+}
+
+type Operation = 'select' | 'insert' | 'update' | 'upsert' | 'delete';
+
+// Postgres unique_violation
+const UNIQUE_VIOLATION = '23505';
+
+/**
+ * Local stand-in for the Supabase tables the services read and write. It answers the query builder calls the
+ * services make, filters included, and enforces the unique keys it is given, like the Postgres tables would.
+ * Column lists and casts in select are ignored: whole rows are returned.
+ */
+export class InMemorySupabase {
+  private readonly tables = new Map<string, Row[]>();
+  private ids = 0;
+  // Errors returned by the next query on a table, to stand in for an unavailable database
+  private readonly failures = new Map<string, QueryError>();
+
+  /**
+   * @param uniqueKeys - Per table, the column sets that must be unique
+   * @param defaults - Per table, the column values of inserted rows that the insert leaves out
+   */
+  constructor(
+    private readonly uniqueKeys: Record<string, string[][]> = {},
+    private readonly defaults: Record<string, Row> = {},
+  ) {}
+
+  // A SupabaseService whose client queries these tables
+  service(): SupabaseService {
+    return {
+      getClient: () => ({ from: (table: string) => new Query(this, table) }),
+    } as unknown as SupabaseService;
+  }
+
+  rows(table: string): Row[] {
+    if (!this.tables.has(table)) {
+      this.tables.set(table, []);
+    }
+    return this.tables.get(table)!;
+  }
+
+  // Insert rows as they are, without checking unique keys
+  seed(table: string, ...rows: Row[]): void {
+    this.rows(table).push(...rows.map((row) => ({ ...row })));
+  }
+
+  // Fail the next query on a table with an error
+  failNext(table: string, message = 'connection refused'): void {
+    this.failures.set(table, { code: 'XX000', message });
+  }
+
+  /** @internal */
+  takeFailure(table: string): QueryError | undefined {
+    const failure = this.failures.get(table);
+    this.failures.delete(table);
+    return failure;
+  }
+
+  /** @internal */
+  newRow(table: string, values: Row): Row {
+    return {
+      id: `${table}-${++this.ids}`,
+      ...this.defaults[table],
+      ...values,
+    };
+  }
+
+  /** @internal */
+  conflict(table: string, row: Row, except?: Row): Row | undefined {
+    for (const key of this.uniqueKeys[table] ?? []) {
+      const existing = this.rows(table).find(
+        (other) =>
+          other !== except &&
+          key.every((column) => other[column] === row[column]),
+      );
+      if (existing) {
+        return existing;
+      }
+    }
+    return undefined;
+  }
+}
+
+class Query implements PromiseLike<QueryResult> {
+  private operation: Operation = 'select';
+  private values: Row[] = [];
+  private onConflict?: string[];
+  private ignoreDuplicates = false;
+  private selected = false;
+  private readonly filters: ((row: Row) => boolean)[] = [];
+  private ordering: { column: string; ascending: boolean }[] = [];
+  private limitCount?: number;
+  private rangeFrom = 0;
+
+  constructor(
+    private readonly db: InMemorySupabase,
+    private readonly table: string,
+  ) {}
+
+  select(): this {
+    this.selected = true;
+    return this;
+  }
+
+  insert(values: Row | Row[]): this {
+    this.operation = 'insert';
+    this.values = Array.isArray(values) ? values : [values];
+    return this;
+  }
+
+  upsert(
+    values: Row | Row[],
+    options: { onConflict?: string; ignoreDuplicates?: boolean } = {},
+  ): this {
+    this.operation = 'upsert';
+    this.values = Array.isArray(values) ? values : [values];
+    this.onConflict = options.onConflict?.split(',');
+    this.ignoreDuplicates = options.ignoreDuplicates ?? false;
+    return this;
+  }
+
+  update(changes: Row): this {
+    this.operation = 'update';
+    this.values = [changes];
+    return this;
+  }
+
+  delete(): this {
+    this.operation = 'delete';
+    return this;
+  }
+
+  eq(column: string, value: unknown): this {
+    return this.where((row) => row[column] === value);
+  }
+
+  neq(column: string, value: unknown): this {
+    return this.where((row) => row[column] !== value);
+  }
+
+  in(column: string, values: unknown[]): this {
+    return this.where((row) => values.includes(row[column]));
+  }
+
+  is(column: string, value: null): this {
+    return this.where((row) => (row[column] ?? null) === value);
+  }
+
+  lt(column: string, value: unknown): this {
+    return this.where((row) => compare(row[column], value) < 0);
+  }
+
+  lte(column: string, value: unknown): this {
+    return this.where((row) => compare(row[column], value) <= 0);
+  }
+
+  gt(column: string, value: unknown): this {
+    return this.where((row) => compare(row[column], value) > 0);
+  }
+
+  gte(column: string, value: unknown): this {
+    return this.where((row) => compare(row[column], value) >= 0);
+  }
+
+  not(column: string, operator: 'is' | 'in', value: unknown): this {
+    if (operator === 'is') {
+      return this.where((row) => (row[column] ?? null) !== value);
+    }
+    const list = text(value)
+      .replace(/^\(|\)$/g, '')
+      .split(',');
+    return this.where((row) => !list.includes(text(row[column])));
+  }
+
+  order(column: string, options: { ascending?: boolean } = {}): this {
+    this.ordering.push({ column, ascending: options.ascending ?? true });
+    return this;
+  }
+
+  limit(count: number): this {
+    this.limitCount = count;
+    return this;
+  }
+
+  range(from: number, to: number): this {
+    this.rangeFrom = from;
+    this.limitCount = to - from + 1;
+    return this;
+  }
+
+  returns(): this {
+    return this;
+  }
+
+  single(): Promise<QueryResult> {
+    return Promise.resolve(this.run()).then(({ data, error }) => {
+      if (error) {
+        return { data: null, error };
+      }
+      const rows = data as Row[];
+      return rows.length === 1
+        ? { data: rows[0], error: null }
+        : {
+            data: null,
+            error: { code: 'PGRST116', message: `${rows.length} rows` },
+          };
+    });
+  }
+
+  maybeSingle(): Promise<QueryResult> {
+    return Promise.resolve(this.run()).then(({ data, error }) => {
+      if (error) {
+        return { data: null, error };
+      }
+      const rows = data as Row[];
+      return rows.length > 1
+        ? {
+            data: null,
+            error: { code: 'PGRST116', message: `${rows.length} rows` },
+          }
+        : { data: rows[0] ?? null, error: null };
+    });
+  }
+
+  then<TResult1 = QueryResult, TResult2 = never>(
+    onfulfilled?:
+      | ((value: QueryResult) => TResult1 | PromiseLike<TResult1>)
+      | null,
+    onrejected?: ((reason: unknown) => TResult2 | PromiseLike<TResult2>) | null,
+  ): PromiseLike<TResult1 | TResult2> {
+    const result = this.run();
+    const returned =
+      this.operation === 'select' || this.selected
+        ? result
+        : { ...result, data: null };
+    return Promise.resolve(returned).then(onfulfilled, onrejected);
+  }
+
+  private where(filter: (row: Row) => boolean): this {
+    this.filters.push(filter);
+    return this;
+  }
+
+  private matching(): Row[] {
+    return this.db
+      .rows(this.table)
+      .filter((row) => this.filters.every((filter) => filter(row)));
+  }
+
+  private run(): QueryResult {
+    const failure = this.db.takeFailure(this.table);
+    if (failure) {
+      return { data: null, error: failure };
+    }
+    switch (this.operation) {
+      case 'select':
+        return { data: this.window(this.matching()).map(copy), error: null };
+      case 'insert':
+        return this.insertRows();
+      case 'upsert':
+        return this.upsertRows();
+      case 'update': {
+        const rows = this.matching();
+        for (const row of rows) {
+          Object.assign(row, this.values[0]);
+        }
+        return { data: rows.map(copy), error: null };
+      }
+      case 'delete': {
+        const rows = this.matching();
+        const table = this.db.rows(this.table);
+        for (const row of rows) {
+          table.splice(table.indexOf(row), 1);
+        }
+        return { data: rows.map(copy), error: null };
+      }
+    }
+  }
+
+  private insertRows(): QueryResult {
+    const rows = this.values.map((values) =>
+      this.db.newRow(this.table, values),
+    );
+    for (const row of rows) {
+      if (this.db.conflict(this.table, row)) {
+        return {
+          data: null,
+          error: {
+            code: UNIQUE_VIOLATION,
+            message: `duplicate key value violates unique constraint on ${this.table}`,
+          },
+        };
+      }
+    }
+    this.db.rows(this.table).push(...rows);
+    return { data: rows.map(copy), error: null };
+  }
+
+  private upsertRows(): QueryResult {
+    const written: Row[] = [];
+    for (const values of this.values) {
+      const key = this.onConflict;
+      const existing = key
+        ? this.db
+            .rows(this.table)
+            .find((row) =>
+              key.every((column) => row[column] === values[column]),
+            )
+        : this.db.conflict(this.table, values);
+      if (existing) {
+        if (!this.ignoreDuplicates) {
+          Object.assign(existing, values);
+          written.push(existing);
+        }
+        continue;
+      }
+      const row = this.db.newRow(this.table, values);
+      this.db.rows(this.table).push(row);
+      written.push(row);
+    }
+    return { data: written.map(copy), error: null };
+  }
+
+  private window(rows: Row[]): Row[] {
+    const sorted = [...rows].sort((a, b) => {
+      for (const { column, ascending } of this.ordering) {
+        const order = compare(a[column], b[column]);
+        if (order !== 0) {
+          return ascending ? order : -order;
+        }
+      }
+      return 0;
+    });
+    return sorted.slice(
+      this.rangeFrom,
+      this.limitCount === undefined
+        ? undefined
+        : this.rangeFrom + this.limitCount,
+    );
+  }
+}
+
+// Numbers and numeric strings compare by value, everything else as text; nulls first
+function compare(a: unknown, b: unknown): number {
+  if (a === b) {
+    return 0;
+  }
+  if (a == null) {
+    return -1;
+  }
+  if (b == null) {
+    return 1;
+  }
+  const [left, right] = [text(a), text(b)];
+  const numeric = /^-?\d+(\.\d+)?$/;
+  if (numeric.test(left) && numeric.test(right)) {
+    return Number(left) - Number(right);
+  }
+  return left < right ? -1 : left > right ? 1 : 0;
+}
+
+function text(value: unknown): string {
+  return typeof value === 'object'
+    ? JSON.stringify(value)
+    : String(value as string | number | boolean | bigint);
+}
+
+function copy(row: Row): Row {
+  return structuredClone(row);
+}
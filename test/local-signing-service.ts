@@ -0,0 +1,141 @@
+import { createServer, IncomingMessage, Server } from 'http';
+import { AddressInfo } from 'net';
+import { ethers } from 'ethers';
+
+export interface LocalSigningServiceOptions {
+  // Key of the account the service holds; a random one when unset
+  privateKey?: string;
+  // Changes a transaction before it is signed, to stand in for a misbehaving service
+  tamper?: (
+    transaction: ethers.TransactionRequest,
+  ) => ethers.TransactionRequest;
+  // Signs with another key than the account it reports, to stand in for a compromised service
+  impersonate?: boolean;
+}
+
+// Transaction fields received as JSON-RPC quantities, by their name in the request and in ethers
+const QUANTITY_FIELDS = [
+  ['nonce', 'nonce'],
+  ['gas', 'gasLimit'],
+  ['gasPrice', 'gasPrice'],
+  ['maxFeePerGas', 'maxFeePerGas'],
+  ['maxPriorityFeePerGas', 'maxPriorityFeePerGas'],
+  ['value', 'value'],
+  ['chainId', 'chainId'],
+  ['type', 'type'],
+] as const;
+
+interface JsonRpcRequest {
+  id: number;
+  method: string;
+  params: unknown[];
+}
+
+/**
+ * Local stand-in for a remote signing service: answers eth_accounts, eth_signTransaction, eth_sign and
+ * eth_signTypedData_v4 over HTTP with an in-memory key, like web3signer or Clef would
+ */
+export class LocalSigningService {
+  // The account the service reports
+  readonly address: string;
+  private readonly wallet: ethers.Wallet;
+  private server?: Server;
+
+  constructor(private readonly options: LocalSigningServiceOptions = {}) {
+    const wallet = new ethers.Wallet(
+      options.privateKey ?? ethers.Wallet.createRandom().privateKey,
+    );
+    this.address = wallet.address;
+    this.wallet = options.impersonate
+      ? new ethers.Wallet(ethers.Wallet.createRandom().privateKey)
+      : wallet;
+  }
+
+  /**
+   * Listen on a free local port
+   * @returns The URL of the JSON-RPC endpoint
+   */
+  async start(): Promise<string> {
+    const server = createServer((request, response) => {
+      void this.handle(request).then((body) => {
+        response.writeHead(200, { 'Content-Type': 'application/json' });
+        response.end(JSON.stringify(body));
+      });
+    });
+    this.server = server;
+    await new Promise<void>((resolve) =>
+      server.listen(0, '127.0.0.1', resolve),
+    );
+    return `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  }
+
+  async stop(): Promise<void> {
+    const server = this.server;
+    if (!server) {
+      return;
+    }
+    await new Promise<void>((resolve) => server.close(() => resolve()));
+  }
+
+  private async handle(request: IncomingMessage): Promise<unknown> {
+    let body = '';
+    for await (const chunk of request) {
+      body += String(chunk);
+    }
+    const { id, method, params } = JSON.parse(body) as JsonRpcRequest;
+    try {
+      return { jsonrpc: '2.0', id, result: await this.call(method, params) };
+    } catch (error) {
+      return {
+        jsonrpc: '2.0',
+        id,
+        error: {
+          code: -32000,
+          message: error instanceof Error ? error.message : String(error),
+        },
+      };
+    }
+  }
+
+  private async call(method: string, params: unknown[]): Promise<unknown> {
+    switch (method) {
+      case 'eth_accounts':
+        return [this.address];
+      case 'eth_signTransaction': {
+        const fields = params[0] as Record<string, string>;
+        let transaction: ethers.TransactionRequest = {
+          to: fields.to,
+          data: fields.data,
+        };
+        for (const [name, field] of QUANTITY_FIELDS) {
+          if (fields[name] !== undefined) {
+            transaction = {
+              ...transaction,
+              [field]: ethers.toBigInt(fields[name]),
+            };
+          }
+        }
+        if (transaction.type != null) {
+          transaction.type = Number(transaction.type);
+        }
+        return this.wallet.signTransaction(
+          this.options.tamper?.(transaction) ?? transaction,
+        );
+      }
+      case 'eth_sign':
+        return this.wallet.signMessage(ethers.getBytes(params[1] as string));
+      case 'eth_signTypedData_v4': {
+        const { domain, types, message } = JSON.parse(params[1] as string) as {
+          domain: ethers.TypedDataDomain;
+          types: Record<string, ethers.TypedDataField[]>;
+          message: Record<string, unknown>;
+        };
+        const fields = { ...types };
+        delete fields.EIP712Domain;
+        return this.wallet.signTypedData(domain, fields, message);
+      }
+      default:
+        throw new Error(`Method ${method} not supported`);
+    }
+  }
+}